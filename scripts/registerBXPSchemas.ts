@@ -1,12 +1,14 @@
 // Register BeatsXP Schemas to Somnia DataStream
 // Run: npm run register:bxp
 
-import { ethers } from 'ethers';
-import { BXP_SCHEMAS } from '../src/config/somniaDataStreams.bxp';
+import { SDK } from '@somnia-chain/streams';
+import { createPublicClient, createWalletClient, http } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { somniaTestnet } from '../src/lib/web3-config';
+import { BXP_SCHEMAS, BXP_SCHEMA_STRINGS, type BXPSchemaType } from '../src/config/somniaDataStreams.bxp';
 
 const SOMNIA_RPC = process.env.VITE_SOMNIA_RPC_URL || 'https://dream-rpc.somnia.network';
 const PRIVATE_KEY = process.env.VITE_PRIVATE_KEY;
-const REGISTRY_ADDRESS = '0x...'; // TODO: Add Somnia Schema Registry address
 
 async function registerSchemas() {
   if (!PRIVATE_KEY) {
@@ -16,45 +18,48 @@ async function registerSchemas() {
 
   console.log('🚀 Starting BeatsXP Schema Registration...\n');
 
-  const provider = new ethers.JsonRpcProvider(SOMNIA_RPC);
-  const wallet = new ethers.Wallet(PRIVATE_KEY, provider);
+  const account = privateKeyToAccount(PRIVATE_KEY as `0x${string}`);
+  const publicClient = createPublicClient({ chain: somniaTestnet, transport: http(SOMNIA_RPC) });
+  const walletClient = createWalletClient({ account, chain: somniaTestnet, transport: http(SOMNIA_RPC) });
+  const sdk = new SDK({ public: publicClient, wallet: walletClient });
 
-  console.log(`📝 Using wallet: ${wallet.address}`);
+  console.log(`📝 Using wallet: ${account.address}`);
   console.log(`🌐 Network: ${SOMNIA_RPC}\n`);
 
-  // Registry ABI (simplified)
-  const registryABI = [
-    'function registerSchema(string memory name, string memory schemaDefinition) external returns (bytes32)',
-    'function getSchema(bytes32 schemaId) external view returns (string memory)',
-  ];
-
-  const registry = new ethers.Contract(REGISTRY_ADDRESS, registryABI, wallet);
-
   const results: Record<string, { schemaId: string; txHash: string }> = {};
 
-  // Register each schema
+  // Register each schema that is written on-chain
   for (const [key, schemaConfig] of Object.entries(BXP_SCHEMAS)) {
+    const schemaString = BXP_SCHEMA_STRINGS[key as BXPSchemaType];
+    if (!schemaString) {
+      console.log(`⏭️  Skipping ${schemaConfig.name} (no on-chain schema string yet)\n`);
+      continue;
+    }
+
     try {
       console.log(`📋 Registering ${schemaConfig.name}...`);
       console.log(`   Description: ${schemaConfig.description}`);
+      console.log(`   Fields: ${schemaString}`);
 
-      // Convert schema to string format
-      const schemaDefinition = JSON.stringify(schemaConfig.schema);
-
-      // Register schema
-      const tx = await registry.registerSchema(schemaConfig.name, schemaDefinition);
-      console.log(`   ⏳ Transaction sent: ${tx.hash}`);
+      const schemaId = await sdk.streams.computeSchemaId(schemaString);
 
-      const receipt = await tx.wait();
-      console.log(`   ✅ Transaction confirmed!`);
+      // Skip schemas that are already registered
+      try {
+        await sdk.streams.getSchema(schemaId);
+        console.log(`   ⚠️  Already registered`);
+        results[key] = { schemaId, txHash: '-' };
+        console.log(`   🆔 Schema ID: ${schemaId}\n`);
+        continue;
+      } catch (error: any) {
+        if (!error.message?.includes('NoData()')) {
+          throw error;
+        }
+      }
 
-      // Get schema ID from event logs
-      const schemaId = receipt.logs[0]?.topics[1] || 'unknown';
+      const txHash = await sdk.streams.registerSchema(schemaConfig.name, schemaString);
+      console.log(`   ✅ Transaction sent: ${txHash}`);
 
-      results[key] = {
-        schemaId,
-        txHash: tx.hash,
-      };
+      results[key] = { schemaId, txHash: String(txHash) };
 
       console.log(`   🆔 Schema ID: ${schemaId}\n`);
     } catch (error: any) {
@@ -73,13 +78,11 @@ async function registerSchemas() {
     console.log(`  TX Hash: ${result.txHash}\n`);
   }
 
-  console.log('✅ All schemas registered successfully!');
-  console.log('\n📝 Update src/config/somniaDataStreams.bxp.ts with these Schema IDs:');
-  console.log('\nexport const BXP_SCHEMA_IDS: Record<string, string> = {');
-  for (const [key, result] of Object.entries(results)) {
-    console.log(`  ${key}: '${result.schemaId}',`);
+  console.log('✅ Schema registration finished!');
+  if (results.BXP_TRANSACTIONS) {
+    console.log('\n📝 Add to .env:');
+    console.log(`VITE_BXP_TRANSACTIONS_SCHEMA_ID=${results.BXP_TRANSACTIONS.schemaId}\n`);
   }
-  console.log('};\n');
 }
 
 registerSchemas()
@@ -0,0 +1,177 @@
+/**
+ * Test DM Key Verification
+ *
+ * Published DM keys are checked with viem's verifyMessage, which validates through the
+ * ERC-6492 universal validator (eth_call). This script answers that call locally, acting as a
+ * chain where one address is a smart-contract wallet (ERC-1271, like Sequence) controlled by an
+ * owner key - no RPC needed.
+ *
+ * Tests:
+ * 1. EOA publishing its own key
+ * 2. Contract wallet publishing its own key (signed by the wallet's owner key)
+ * 3. Contract wallet signature from a key that does not own the wallet
+ * 4. Signature over a different public key
+ * 5. Missing signature
+ * 6. Direct message records signed with a published DM key (sender binding)
+ */
+
+import {
+  createPublicClient,
+  custom,
+  decodeAbiParameters,
+  erc6492SignatureValidatorByteCode,
+  isAddressEqual,
+  recoverAddress,
+  size,
+  slice,
+  type Hex,
+} from 'viem';
+import { privateKeyToAccount, generatePrivateKey } from 'viem/accounts';
+import {
+  deriveKeyPair,
+  getKeyPublicationMessage,
+  recoverDirectMessageKey,
+  signDirectMessage,
+  verifyKeyPublication,
+} from '../src/utils/dmCrypto';
+
+const eoa = privateKeyToAccount(generatePrivateKey());
+const walletOwner = privateKeyToAccount(generatePrivateKey());
+const stranger = privateKeyToAccount(generatePrivateKey());
+const contractWallet = '0x5a1e5a1e5a1e5a1e5a1e5a1e5a1e5a1e5a1e5a1e' as Hex;
+
+// eth_call handler standing in for the universal validator deployless call
+const publicClient = createPublicClient({
+  transport: custom({
+    async request({ method, params }) {
+      if (method !== 'eth_call') {
+        throw new Error(`Unexpected RPC method: ${method}`);
+      }
+
+      const data = params[0].data as Hex;
+      const [signer, hash, signature] = decodeAbiParameters(
+        [{ type: 'address' }, { type: 'bytes32' }, { type: 'bytes' }],
+        slice(data, size(erc6492SignatureValidatorByteCode))
+      );
+
+      const recovered = await recoverAddress({ hash, signature }).catch(() => null);
+      // The contract wallet accepts signatures from its owner (isValidSignature), EOAs must recover to themselves
+      const expected = isAddressEqual(signer, contractWallet) ? walletOwner.address : signer;
+      const valid = !!recovered && isAddressEqual(recovered, expected);
+
+      return valid ? '0x01' : '0x00';
+    },
+  }),
+});
+
+const assert = (condition: boolean, label: string) => {
+  if (!condition) {
+    throw new Error(`Assertion failed: ${label}`);
+  }
+  console.log(`  ✅ ${label}`);
+};
+
+async function testDMKeyVerification() {
+  console.log('🔐 Testing DM key publication signatures...\n');
+
+  const publicKey = '0x02' + 'ab'.repeat(32);
+  const otherPublicKey = '0x03' + 'cd'.repeat(32);
+  const version = 1;
+
+  // ===== TEST 1: EOA =====
+  console.log('📝 TEST 1: EOA publishing its own key');
+  const eoaSignature = await eoa.signMessage({
+    message: getKeyPublicationMessage(eoa.address, publicKey, version),
+  });
+  assert(
+    await verifyKeyPublication(publicClient, eoa.address, publicKey, version, eoaSignature),
+    'EOA signature is accepted'
+  );
+
+  // ===== TEST 2: Contract wallet =====
+  console.log('\n📝 TEST 2: Contract wallet publishing its own key');
+  const walletSignature = await walletOwner.signMessage({
+    message: getKeyPublicationMessage(contractWallet, publicKey, version),
+  });
+  assert(
+    await verifyKeyPublication(publicClient, contractWallet, publicKey, version, walletSignature),
+    'ERC-1271 signature is accepted for the wallet address'
+  );
+
+  // ===== TEST 3: Stranger signing for the contract wallet =====
+  console.log('\n📝 TEST 3: Key signed by someone who does not own the wallet');
+  const strangerSignature = await stranger.signMessage({
+    message: getKeyPublicationMessage(contractWallet, publicKey, version),
+  });
+  assert(
+    !(await verifyKeyPublication(publicClient, contractWallet, publicKey, version, strangerSignature)),
+    'Signature from a non-owner is rejected'
+  );
+
+  // ===== TEST 4: Signature over another key =====
+  console.log('\n📝 TEST 4: Signature reused for a different public key');
+  assert(
+    !(await verifyKeyPublication(publicClient, contractWallet, otherPublicKey, version, walletSignature)),
+    'Signature over another key is rejected'
+  );
+  assert(
+    !(await verifyKeyPublication(publicClient, contractWallet, publicKey, version + 1, walletSignature)),
+    'Signature over another key version is rejected'
+  );
+
+  // ===== TEST 5: Missing signature =====
+  console.log('\n📝 TEST 5: Key published without a signature');
+  assert(
+    !(await verifyKeyPublication(publicClient, eoa.address, publicKey, version, '')),
+    'Unsigned key is rejected'
+  );
+
+  // ===== TEST 6: Record proofs =====
+  console.log('\n📝 TEST 6: Direct message records are bound to their sender');
+  const dmKey = deriveKeyPair(await walletOwner.signMessage({ message: 'dm key' }), 1);
+  const keyAuthorization = await walletOwner.signMessage({
+    message: getKeyPublicationMessage(contractWallet, dmKey.publicKey, dmKey.version),
+  });
+  const record = {
+    id: 1700000000000123,
+    timestamp: 1700000000000,
+    conversationId: `${contractWallet.toLowerCase()}_${eoa.address.toLowerCase()}`,
+    sender: contractWallet,
+    recipient: eoa.address,
+    messageType: 0,
+    content: 'e2e:{}',
+  };
+  const proof = signDirectMessage(record, dmKey, keyAuthorization);
+
+  const key = recoverDirectMessageKey(record, proof);
+  assert(
+    !!key && await verifyKeyPublication(publicClient, record.sender, key.publicKey, key.version, key.authorization),
+    'Record signed with the sender\'s published key is accepted'
+  );
+
+  const spoofed = { ...record, sender: eoa.address, recipient: contractWallet };
+  const spoofedKey = recoverDirectMessageKey(spoofed, proof);
+  assert(
+    !spoofedKey || !(await verifyKeyPublication(publicClient, spoofed.sender, spoofedKey.publicKey, spoofedKey.version, spoofedKey.authorization)),
+    'Proof copied onto a record claiming another sender is rejected'
+  );
+
+  assert(
+    recoverDirectMessageKey({ ...record, content: 'e2e:{"tampered":true}' }, proof) === null,
+    'Record with altered content is rejected'
+  );
+  assert(recoverDirectMessageKey(record, '') === null, 'Record without a proof is rejected');
+
+  console.log('\n✅ All tests completed successfully!');
+}
+
+// Run tests
+testDMKeyVerification()
+  .then(() => {
+    console.log('\n🎉 DM key verification test completed!');
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('\n💥 Test failed:', error);
+    process.exit(1);
+  });
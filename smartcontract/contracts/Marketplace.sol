@@ -28,9 +28,24 @@ contract Marketplace is ReentrancyGuard, Ownable(msg.sender) {
         uint256 expiresAt;
     }
 
+    struct Auction {
+        uint256 id;
+        address seller;
+        address nftContract;
+        uint256 tokenId;
+        uint256 reservePrice;
+        uint256 minBidIncrement;   // basis points over the highest bid
+        address highestBidder;
+        uint256 highestBid;
+        uint256 startTime;
+        uint256 endTime;
+        bool isActive;
+    }
+
     // State variables
     uint256 private _listingIdCounter;
     uint256 private _offerIdCounter;
+    uint256 private _auctionIdCounter;
 
     mapping(uint256 => Listing) public listings;
     mapping(uint256 => Offer) public offers;
@@ -45,9 +60,30 @@ contract Marketplace is ReentrancyGuard, Ownable(msg.sender) {
     mapping(address => uint256[]) public userListings;
     mapping(address => uint256[]) public userOffers;
 
+    // Auctions - the NFT is held by the marketplace while the auction runs
+    mapping(uint256 => Auction) public auctions;
+    mapping(address => mapping(uint256 => uint256)) public activeAuctions;
+    mapping(address => uint256[]) public userAuctions;
+
+    // Outbid refunds, auction proceeds and rejected sale payouts - credited here and withdrawn
+    // by their owner, so a recipient that rejects ETH can never block a bid, sale or settlement
+    mapping(address => uint256) public pendingReturns;
+
+    // A bid in the last AUCTION_EXTENSION seconds pushes the end back (anti-sniping)
+    uint256 public constant AUCTION_EXTENSION = 10 minutes;
+    uint256 public constant MIN_AUCTION_DURATION = 1 hours;
+    uint256 public constant MAX_AUCTION_DURATION = 30 days;
+
+    // Enough for smart-contract wallets to accept ETH, too little to grief a bundle
+    uint256 public constant PAYOUT_GAS_LIMIT = 50000;
+
     // Platform fee (in basis points, e.g., 250 = 2.5%)
     uint256 public platformFee = 250;
 
+    // Referrer share of the platform fee (in basis points of the fee, e.g., 2000 = 20%) - paid by the
+    // platform, so a buyer referring their own second wallet never cuts into the seller's proceeds
+    uint256 public referralFee = 2000;
+
     // Events
     event ListingCreated(
         uint256 indexed listingId,
@@ -59,6 +95,9 @@ contract Marketplace is ReentrancyGuard, Ownable(msg.sender) {
 
     event ListingCancelled(uint256 indexed listingId);
     event ListingSold(uint256 indexed listingId, address indexed buyer, uint256 price);
+    event ReferralPaid(uint256 indexed listingId, address indexed referrer, uint256 amount);
+    event BundleItemFailed(uint256 indexed listingId, address indexed buyer, string reason);
+    event BundlePurchased(address indexed buyer, uint256 purchased, uint256 failed, uint256 refunded);
 
     event OfferCreated(
         uint256 indexed offerId,
@@ -71,6 +110,21 @@ contract Marketplace is ReentrancyGuard, Ownable(msg.sender) {
     event OfferAccepted(uint256 indexed offerId, uint256 listingId);
     event OfferCancelled(uint256 indexed offerId);
 
+    event AuctionCreated(
+        uint256 indexed auctionId,
+        address indexed seller,
+        address indexed nftContract,
+        uint256 tokenId,
+        uint256 reservePrice,
+        uint256 minBidIncrement,
+        uint256 endTime
+    );
+
+    event BidPlaced(uint256 indexed auctionId, address indexed bidder, uint256 amount, uint256 endTime);
+    event AuctionExtended(uint256 indexed auctionId, uint256 endTime);
+    event AuctionSettled(uint256 indexed auctionId, address indexed winner, uint256 amount);
+    event AuctionCancelled(uint256 indexed auctionId);
+
     constructor() {}
 
     /**
@@ -91,6 +145,7 @@ contract Marketplace is ReentrancyGuard, Ownable(msg.sender) {
 
         // Check if already listed
         require(activeListings[nftContract][tokenId] == 0, "Already listed");
+        require(activeAuctions[nftContract][tokenId] == 0, "Already in auction");
 
         _listingIdCounter++;
         uint256 listingId = _listingIdCounter;
@@ -117,34 +172,79 @@ contract Marketplace is ReentrancyGuard, Ownable(msg.sender) {
      * @dev Buy a listed NFT
      */
     function buyListing(uint256 listingId) public payable nonReentrant {
+        _buyListing(listingId, address(0));
+    }
+
+    /**
+     * @dev Buy a listed NFT through a referral link - the referrer's cut comes out of
+     * the platform fee, so the buyer pays the listing price and the seller's proceeds don't change
+     */
+    function buyListingWithReferral(uint256 listingId, address referrer) public payable nonReentrant {
+        require(referrer != msg.sender, "Cannot refer yourself");
+        _buyListing(listingId, referrer);
+    }
+
+    function _buyListing(uint256 listingId, address referrer) internal {
         Listing storage listing = listings[listingId];
         require(listing.isActive, "Listing not active");
         require(msg.value >= listing.price, "Insufficient payment");
 
-        address seller = listing.seller;
         uint256 price = listing.price;
 
-        // Calculate platform fee
-        uint256 fee = (price * platformFee) / 10000;
-        uint256 sellerProceeds = price - fee;
-
         // Transfer NFT
-        IERC721(listing.nftContract).safeTransferFrom(seller, msg.sender, listing.tokenId);
+        IERC721(listing.nftContract).safeTransferFrom(listing.seller, msg.sender, listing.tokenId);
 
-        // Transfer payments
-        payable(seller).transfer(sellerProceeds);
-        payable(owner()).transfer(fee);
+        _completeListingSale(listingId, msg.sender, referrer);
 
         // Refund excess payment
         if (msg.value > price) {
             payable(msg.sender).transfer(msg.value - price);
         }
+    }
 
-        // Update state
-        listing.isActive = false;
-        delete activeListings[listing.nftContract][listing.tokenId];
+    /**
+     * @dev Buy several listings in one transaction - unavailable items are skipped
+     * and their share of the payment is refunded
+     */
+    function buyListings(uint256[] calldata listingIds) public payable nonReentrant returns (bool[] memory purchased) {
+        require(listingIds.length > 0, "No listings");
+
+        purchased = new bool[](listingIds.length);
+        uint256 remaining = msg.value;
+        uint256 purchasedCount = 0;
+
+        for (uint i = 0; i < listingIds.length; i++) {
+            Listing storage listing = listings[listingIds[i]];
+
+            if (!listing.isActive) {
+                emit BundleItemFailed(listingIds[i], msg.sender, "Listing not active");
+                continue;
+            }
+            if (listing.seller == msg.sender) {
+                emit BundleItemFailed(listingIds[i], msg.sender, "Own listing");
+                continue;
+            }
+            if (remaining < listing.price) {
+                emit BundleItemFailed(listingIds[i], msg.sender, "Insufficient payment");
+                continue;
+            }
 
-        emit ListingSold(listingId, msg.sender, price);
+            // Seller may have moved the token or revoked approval since listing
+            try IERC721(listing.nftContract).safeTransferFrom(listing.seller, msg.sender, listing.tokenId) {
+                remaining -= listing.price;
+                _completeListingSale(listingIds[i], msg.sender, address(0));
+                purchased[i] = true;
+                purchasedCount++;
+            } catch {
+                emit BundleItemFailed(listingIds[i], msg.sender, "Transfer failed");
+            }
+        }
+
+        if (remaining > 0) {
+            payable(msg.sender).transfer(remaining);
+        }
+
+        emit BundlePurchased(msg.sender, purchasedCount, listingIds.length - purchasedCount, remaining);
     }
 
     /**
@@ -251,6 +351,189 @@ contract Marketplace is ReentrancyGuard, Ownable(msg.sender) {
         emit OfferCancelled(offerId);
     }
 
+    /**
+     * @dev Start an English auction - the NFT is escrowed until it is settled or cancelled
+     */
+    function createAuction(
+        address nftContract,
+        uint256 tokenId,
+        uint256 reservePrice,
+        uint256 minBidIncrement,
+        uint256 duration
+    ) public nonReentrant returns (uint256) {
+        require(reservePrice > 0, "Reserve must be greater than 0");
+        require(minBidIncrement > 0 && minBidIncrement <= 5000, "Invalid bid increment");
+        require(duration >= MIN_AUCTION_DURATION && duration <= MAX_AUCTION_DURATION, "Invalid duration");
+        require(IERC721(nftContract).ownerOf(tokenId) == msg.sender, "Not the owner");
+        require(activeListings[nftContract][tokenId] == 0, "Already listed");
+        require(activeAuctions[nftContract][tokenId] == 0, "Already in auction");
+
+        IERC721(nftContract).transferFrom(msg.sender, address(this), tokenId);
+
+        _auctionIdCounter++;
+        uint256 auctionId = _auctionIdCounter;
+
+        auctions[auctionId] = Auction({
+            id: auctionId,
+            seller: msg.sender,
+            nftContract: nftContract,
+            tokenId: tokenId,
+            reservePrice: reservePrice,
+            minBidIncrement: minBidIncrement,
+            highestBidder: address(0),
+            highestBid: 0,
+            startTime: block.timestamp,
+            endTime: block.timestamp + duration,
+            isActive: true
+        });
+
+        activeAuctions[nftContract][tokenId] = auctionId;
+        userAuctions[msg.sender].push(auctionId);
+
+        emit AuctionCreated(
+            auctionId,
+            msg.sender,
+            nftContract,
+            tokenId,
+            reservePrice,
+            minBidIncrement,
+            block.timestamp + duration
+        );
+
+        return auctionId;
+    }
+
+    /**
+     * @dev Place a bid - the full amount is held until the bidder is outbid or wins
+     */
+    function placeBid(uint256 auctionId) public payable nonReentrant {
+        Auction storage auction = auctions[auctionId];
+        require(auction.isActive, "Auction not active");
+        require(block.timestamp < auction.endTime, "Auction ended");
+        require(msg.sender != auction.seller, "Seller cannot bid");
+        require(msg.value >= getMinimumBid(auctionId), "Bid too low");
+
+        address previousBidder = auction.highestBidder;
+        uint256 previousBid = auction.highestBid;
+
+        auction.highestBidder = msg.sender;
+        auction.highestBid = msg.value;
+
+        if (auction.endTime - block.timestamp < AUCTION_EXTENSION) {
+            auction.endTime = block.timestamp + AUCTION_EXTENSION;
+            emit AuctionExtended(auctionId, auction.endTime);
+        }
+
+        emit BidPlaced(auctionId, msg.sender, msg.value, auction.endTime);
+
+        // Credit the outbid bidder - they withdraw it with withdrawPendingReturns
+        if (previousBidder != address(0)) {
+            pendingReturns[previousBidder] += previousBid;
+        }
+    }
+
+    /**
+     * @dev Settle an ended auction - anyone can call it
+     */
+    function settleAuction(uint256 auctionId) public nonReentrant {
+        Auction storage auction = auctions[auctionId];
+        require(auction.isActive, "Auction not active");
+        require(block.timestamp >= auction.endTime, "Auction not ended");
+
+        auction.isActive = false;
+        delete activeAuctions[auction.nftContract][auction.tokenId];
+
+        // transferFrom skips the receiver hook - a wallet without onERC721Received can't block settlement
+        if (auction.highestBidder == address(0)) {
+            // No bids - the NFT goes back to the seller
+            IERC721(auction.nftContract).transferFrom(address(this), auction.seller, auction.tokenId);
+            emit AuctionSettled(auctionId, address(0), 0);
+            return;
+        }
+
+        uint256 price = auction.highestBid;
+        uint256 fee = (price * platformFee) / 10000;
+        uint256 sellerProceeds = price - fee;
+
+        IERC721(auction.nftContract).transferFrom(address(this), auction.highestBidder, auction.tokenId);
+
+        pendingReturns[auction.seller] += sellerProceeds;
+        pendingReturns[owner()] += fee;
+
+        emit AuctionSettled(auctionId, auction.highestBidder, price);
+    }
+
+    /**
+     * @dev Cancel an auction that has no bids yet
+     */
+    function cancelAuction(uint256 auctionId) public nonReentrant {
+        Auction storage auction = auctions[auctionId];
+        require(auction.seller == msg.sender, "Not the seller");
+        require(auction.isActive, "Auction not active");
+        require(auction.highestBidder == address(0), "Auction has bids");
+
+        auction.isActive = false;
+        delete activeAuctions[auction.nftContract][auction.tokenId];
+
+        IERC721(auction.nftContract).transferFrom(address(this), msg.sender, auction.tokenId);
+
+        emit AuctionCancelled(auctionId);
+    }
+
+    /**
+     * @dev Withdraw outbid refunds, auction proceeds and rejected sale payouts
+     */
+    function withdrawPendingReturns() public nonReentrant {
+        uint256 amount = pendingReturns[msg.sender];
+        require(amount > 0, "Nothing to withdraw");
+
+        pendingReturns[msg.sender] = 0;
+        (bool sent, ) = payable(msg.sender).call{value: amount}("");
+        require(sent, "Withdraw failed");
+    }
+
+    /**
+     * @dev Pay out a listing whose NFT has already been transferred to the buyer
+     */
+    function _completeListingSale(uint256 listingId, address buyer, address referrer) internal {
+        Listing storage listing = listings[listingId];
+        uint256 price = listing.price;
+
+        // Calculate platform fee and the referrer's share of it
+        uint256 fee = (price * platformFee) / 10000;
+        uint256 referralCut = referrer != address(0) && referrer != listing.seller
+            ? (fee * referralFee) / 10000
+            : 0;
+        uint256 sellerProceeds = price - fee;
+
+        // Update state
+        listing.isActive = false;
+        delete activeListings[listing.nftContract][listing.tokenId];
+
+        // Pay out - a seller wallet that rejects ETH gets credited instead of reverting the sale (or a whole bundle)
+        _payOrCredit(listing.seller, sellerProceeds);
+        _payOrCredit(owner(), fee - referralCut);
+
+        if (referralCut > 0) {
+            _payOrCredit(referrer, referralCut);
+            emit ReferralPaid(listingId, referrer, referralCut);
+        }
+
+        emit ListingSold(listingId, buyer, price);
+    }
+
+    /**
+     * @dev Send ETH with a gas cap, crediting pendingReturns if the recipient rejects it
+     */
+    function _payOrCredit(address recipient, uint256 amount) internal {
+        if (amount == 0) return;
+
+        (bool sent, ) = payable(recipient).call{value: amount, gas: PAYOUT_GAS_LIMIT}("");
+        if (!sent) {
+            pendingReturns[recipient] += amount;
+        }
+    }
+
     /**
      * @dev Update platform fee (only owner)
      */
@@ -259,6 +542,14 @@ contract Marketplace is ReentrancyGuard, Ownable(msg.sender) {
         platformFee = newFee;
     }
 
+    /**
+     * @dev Update the referrer's share of the platform fee (only owner)
+     */
+    function setReferralFee(uint256 newFee) public onlyOwner {
+        require(newFee <= 10000, "Fee too high"); // Max the whole platform fee
+        referralFee = newFee;
+    }
+
     /**
      * @dev Get active listing for an NFT
      */
@@ -268,6 +559,27 @@ contract Marketplace is ReentrancyGuard, Ownable(msg.sender) {
         return listings[listingId];
     }
 
+    /**
+     * @dev Lowest amount the next bid must reach
+     */
+    function getMinimumBid(uint256 auctionId) public view returns (uint256) {
+        Auction storage auction = auctions[auctionId];
+        if (auction.highestBidder == address(0)) {
+            return auction.reservePrice;
+        }
+        uint256 increment = (auction.highestBid * auction.minBidIncrement) / 10000;
+        return auction.highestBid + (increment > 0 ? increment : 1);
+    }
+
+    /**
+     * @dev Get active auction for an NFT
+     */
+    function getActiveAuction(address nftContract, uint256 tokenId) public view returns (Auction memory) {
+        uint256 auctionId = activeAuctions[nftContract][tokenId];
+        require(auctionId != 0, "No active auction");
+        return auctions[auctionId];
+    }
+
     /**
      * @dev Get offers for an NFT
      */
@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721Receiver.sol";
+import "../Marketplace.sol";
+
+/**
+ * @dev Test-only smart wallet for the Marketplace payout paths - it can refuse ETH
+ * and try to re-enter withdrawPendingReturns while being paid
+ */
+contract MarketplaceTestWallet is IERC721Receiver {
+    Marketplace public immutable marketplace;
+
+    bool public acceptsPayments;
+    bool public reenterOnReceive;
+    bool public reentered;
+
+    constructor(Marketplace _marketplace) {
+        marketplace = _marketplace;
+    }
+
+    function setAcceptsPayments(bool value) external {
+        acceptsPayments = value;
+    }
+
+    function setReenterOnReceive(bool value) external {
+        reenterOnReceive = value;
+    }
+
+    function list(address nftContract, uint256 tokenId, uint256 price) external returns (uint256) {
+        IERC721(nftContract).approve(address(marketplace), tokenId);
+        return marketplace.createListing(nftContract, tokenId, price);
+    }
+
+    function bid(uint256 auctionId) external payable {
+        marketplace.placeBid{value: msg.value}(auctionId);
+    }
+
+    function withdraw() external {
+        marketplace.withdrawPendingReturns();
+    }
+
+    receive() external payable {
+        require(acceptsPayments, "Payments rejected");
+
+        if (reenterOnReceive) {
+            reenterOnReceive = false;
+            try marketplace.withdrawPendingReturns() {
+                reentered = true;
+            } catch {}
+        }
+    }
+
+    function onERC721Received(address, address, uint256, bytes calldata) external pure returns (bytes4) {
+        return IERC721Receiver.onERC721Received.selector;
+    }
+}
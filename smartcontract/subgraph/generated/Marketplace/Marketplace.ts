@@ -10,6 +10,200 @@ import {
   BigInt,
 } from "@graphprotocol/graph-ts";
 
+export class AuctionCancelled extends ethereum.Event {
+  get params(): AuctionCancelled__Params {
+    return new AuctionCancelled__Params(this);
+  }
+}
+
+export class AuctionCancelled__Params {
+  _event: AuctionCancelled;
+
+  constructor(event: AuctionCancelled) {
+    this._event = event;
+  }
+
+  get auctionId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+}
+
+export class AuctionCreated extends ethereum.Event {
+  get params(): AuctionCreated__Params {
+    return new AuctionCreated__Params(this);
+  }
+}
+
+export class AuctionCreated__Params {
+  _event: AuctionCreated;
+
+  constructor(event: AuctionCreated) {
+    this._event = event;
+  }
+
+  get auctionId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get seller(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get nftContract(): Address {
+    return this._event.parameters[2].value.toAddress();
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+
+  get reservePrice(): BigInt {
+    return this._event.parameters[4].value.toBigInt();
+  }
+
+  get minBidIncrement(): BigInt {
+    return this._event.parameters[5].value.toBigInt();
+  }
+
+  get endTime(): BigInt {
+    return this._event.parameters[6].value.toBigInt();
+  }
+}
+
+export class AuctionExtended extends ethereum.Event {
+  get params(): AuctionExtended__Params {
+    return new AuctionExtended__Params(this);
+  }
+}
+
+export class AuctionExtended__Params {
+  _event: AuctionExtended;
+
+  constructor(event: AuctionExtended) {
+    this._event = event;
+  }
+
+  get auctionId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get endTime(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+}
+
+export class AuctionSettled extends ethereum.Event {
+  get params(): AuctionSettled__Params {
+    return new AuctionSettled__Params(this);
+  }
+}
+
+export class AuctionSettled__Params {
+  _event: AuctionSettled;
+
+  constructor(event: AuctionSettled) {
+    this._event = event;
+  }
+
+  get auctionId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get winner(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get amount(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+}
+
+export class BidPlaced extends ethereum.Event {
+  get params(): BidPlaced__Params {
+    return new BidPlaced__Params(this);
+  }
+}
+
+export class BidPlaced__Params {
+  _event: BidPlaced;
+
+  constructor(event: BidPlaced) {
+    this._event = event;
+  }
+
+  get auctionId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get bidder(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get amount(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get endTime(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+}
+
+export class BundleItemFailed extends ethereum.Event {
+  get params(): BundleItemFailed__Params {
+    return new BundleItemFailed__Params(this);
+  }
+}
+
+export class BundleItemFailed__Params {
+  _event: BundleItemFailed;
+
+  constructor(event: BundleItemFailed) {
+    this._event = event;
+  }
+
+  get listingId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get buyer(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get reason(): string {
+    return this._event.parameters[2].value.toString();
+  }
+}
+
+export class BundlePurchased extends ethereum.Event {
+  get params(): BundlePurchased__Params {
+    return new BundlePurchased__Params(this);
+  }
+}
+
+export class BundlePurchased__Params {
+  _event: BundlePurchased;
+
+  constructor(event: BundlePurchased) {
+    this._event = event;
+  }
+
+  get buyer(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get purchased(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+
+  get failed(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get refunded(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+}
+
 export class ListingCancelled extends ethereum.Event {
   get params(): ListingCancelled__Params {
     return new ListingCancelled__Params(this);
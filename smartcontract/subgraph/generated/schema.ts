@@ -1077,6 +1077,18 @@ export class Song extends Entity {
     );
   }
 
+  get offers(): SongOfferLoader {
+    return new SongOfferLoader("Song", this.get("id")!.toString(), "offers");
+  }
+
+  get auctions(): SongAuctionLoader {
+    return new SongAuctionLoader(
+      "Song",
+      this.get("id")!.toString(),
+      "auctions",
+    );
+  }
+
   get playlists(): PlaylistSongLoader {
     return new PlaylistSongLoader(
       "Song",
@@ -1720,6 +1732,19 @@ export class Playlist extends Entity {
     this.set("isPublic", Value.fromBoolean(value));
   }
 
+  get isDeleted(): boolean {
+    let value = this.get("isDeleted");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set isDeleted(value: boolean) {
+    this.set("isDeleted", Value.fromBoolean(value));
+  }
+
   get songCount(): BigInt {
     let value = this.get("songCount");
     if (!value || value.kind == ValueKind.NULL) {
@@ -1733,6 +1758,32 @@ export class Playlist extends Entity {
     this.set("songCount", Value.fromBigInt(value));
   }
 
+  get likeCount(): BigInt {
+    let value = this.get("likeCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set likeCount(value: BigInt) {
+    this.set("likeCount", Value.fromBigInt(value));
+  }
+
+  get collaboratorCount(): BigInt {
+    let value = this.get("collaboratorCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set collaboratorCount(value: BigInt) {
+    this.set("collaboratorCount", Value.fromBigInt(value));
+  }
+
   get createdAt(): BigInt {
     let value = this.get("createdAt");
     if (!value || value.kind == ValueKind.NULL) {
@@ -1767,6 +1818,22 @@ export class Playlist extends Entity {
     );
   }
 
+  get likes(): PlaylistLikeLoader {
+    return new PlaylistLikeLoader(
+      "Playlist",
+      this.get("id")!.toString(),
+      "likes",
+    );
+  }
+
+  get collaborators(): PlaylistCollaboratorLoader {
+    return new PlaylistCollaboratorLoader(
+      "Playlist",
+      this.get("id")!.toString(),
+      "collaborators",
+    );
+  }
+
   get blockNumber(): BigInt {
     let value = this.get("blockNumber");
     if (!value || value.kind == ValueKind.NULL) {
@@ -1927,7 +1994,860 @@ export class PlaylistSong extends Entity {
   }
 }
 
-export class SongListing extends Entity {
+export class PlaylistLike extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save PlaylistLike entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type PlaylistLike must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("PlaylistLike", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): PlaylistLike | null {
+    return changetype<PlaylistLike | null>(
+      store.get_in_block("PlaylistLike", id),
+    );
+  }
+
+  static load(id: string): PlaylistLike | null {
+    return changetype<PlaylistLike | null>(store.get("PlaylistLike", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get playlist(): string {
+    let value = this.get("playlist");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set playlist(value: string) {
+    this.set("playlist", Value.fromString(value));
+  }
+
+  get user(): string {
+    let value = this.get("user");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set user(value: string) {
+    this.set("user", Value.fromString(value));
+  }
+
+  get isActive(): boolean {
+    let value = this.get("isActive");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set isActive(value: boolean) {
+    this.set("isActive", Value.fromBoolean(value));
+  }
+
+  get likedAt(): BigInt {
+    let value = this.get("likedAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set likedAt(value: BigInt) {
+    this.set("likedAt", Value.fromBigInt(value));
+  }
+
+  get unlikedAt(): BigInt | null {
+    let value = this.get("unlikedAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set unlikedAt(value: BigInt | null) {
+    if (!value) {
+      this.unset("unlikedAt");
+    } else {
+      this.set("unlikedAt", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get transactionHash(): Bytes {
+    let value = this.get("transactionHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set transactionHash(value: Bytes) {
+    this.set("transactionHash", Value.fromBytes(value));
+  }
+}
+
+export class PlaylistCollaborator extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save PlaylistCollaborator entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type PlaylistCollaborator must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("PlaylistCollaborator", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): PlaylistCollaborator | null {
+    return changetype<PlaylistCollaborator | null>(
+      store.get_in_block("PlaylistCollaborator", id),
+    );
+  }
+
+  static load(id: string): PlaylistCollaborator | null {
+    return changetype<PlaylistCollaborator | null>(store.get("PlaylistCollaborator", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get playlist(): string {
+    let value = this.get("playlist");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set playlist(value: string) {
+    this.set("playlist", Value.fromString(value));
+  }
+
+  get collaborator(): string {
+    let value = this.get("collaborator");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set collaborator(value: string) {
+    this.set("collaborator", Value.fromString(value));
+  }
+
+  get isActive(): boolean {
+    let value = this.get("isActive");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set isActive(value: boolean) {
+    this.set("isActive", Value.fromBoolean(value));
+  }
+
+  get addedAt(): BigInt {
+    let value = this.get("addedAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set addedAt(value: BigInt) {
+    this.set("addedAt", Value.fromBigInt(value));
+  }
+
+  get removedAt(): BigInt | null {
+    let value = this.get("removedAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set removedAt(value: BigInt | null) {
+    if (!value) {
+      this.unset("removedAt");
+    } else {
+      this.set("removedAt", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get transactionHash(): Bytes {
+    let value = this.get("transactionHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set transactionHash(value: Bytes) {
+    this.set("transactionHash", Value.fromBytes(value));
+  }
+}
+
+export class SongListing extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save SongListing entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type SongListing must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("SongListing", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): SongListing | null {
+    return changetype<SongListing | null>(
+      store.get_in_block("SongListing", id),
+    );
+  }
+
+  static load(id: string): SongListing | null {
+    return changetype<SongListing | null>(store.get("SongListing", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get song(): string {
+    let value = this.get("song");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set song(value: string) {
+    this.set("song", Value.fromString(value));
+  }
+
+  get seller(): string {
+    let value = this.get("seller");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set seller(value: string) {
+    this.set("seller", Value.fromString(value));
+  }
+
+  get price(): BigInt {
+    let value = this.get("price");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set price(value: BigInt) {
+    this.set("price", Value.fromBigInt(value));
+  }
+
+  get isActive(): boolean {
+    let value = this.get("isActive");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set isActive(value: boolean) {
+    this.set("isActive", Value.fromBoolean(value));
+  }
+
+  get listedAt(): BigInt {
+    let value = this.get("listedAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set listedAt(value: BigInt) {
+    this.set("listedAt", Value.fromBigInt(value));
+  }
+
+  get expiresAt(): BigInt | null {
+    let value = this.get("expiresAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set expiresAt(value: BigInt | null) {
+    if (!value) {
+      this.unset("expiresAt");
+    } else {
+      this.set("expiresAt", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get soldAt(): BigInt | null {
+    let value = this.get("soldAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set soldAt(value: BigInt | null) {
+    if (!value) {
+      this.unset("soldAt");
+    } else {
+      this.set("soldAt", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get buyer(): string | null {
+    let value = this.get("buyer");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set buyer(value: string | null) {
+    if (!value) {
+      this.unset("buyer");
+    } else {
+      this.set("buyer", Value.fromString(<string>value));
+    }
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get transactionHash(): Bytes {
+    let value = this.get("transactionHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set transactionHash(value: Bytes) {
+    this.set("transactionHash", Value.fromBytes(value));
+  }
+}
+
+export class SongSale extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save SongSale entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type SongSale must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("SongSale", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): SongSale | null {
+    return changetype<SongSale | null>(store.get_in_block("SongSale", id));
+  }
+
+  static load(id: string): SongSale | null {
+    return changetype<SongSale | null>(store.get("SongSale", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get song(): string {
+    let value = this.get("song");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set song(value: string) {
+    this.set("song", Value.fromString(value));
+  }
+
+  get seller(): string {
+    let value = this.get("seller");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set seller(value: string) {
+    this.set("seller", Value.fromString(value));
+  }
+
+  get buyer(): string {
+    let value = this.get("buyer");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set buyer(value: string) {
+    this.set("buyer", Value.fromString(value));
+  }
+
+  get price(): BigInt {
+    let value = this.get("price");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set price(value: BigInt) {
+    this.set("price", Value.fromBigInt(value));
+  }
+
+  get royaltyPaid(): BigInt {
+    let value = this.get("royaltyPaid");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set royaltyPaid(value: BigInt) {
+    this.set("royaltyPaid", Value.fromBigInt(value));
+  }
+
+  get platformFee(): BigInt {
+    let value = this.get("platformFee");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set platformFee(value: BigInt) {
+    this.set("platformFee", Value.fromBigInt(value));
+  }
+
+  get sellerProceeds(): BigInt {
+    let value = this.get("sellerProceeds");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set sellerProceeds(value: BigInt) {
+    this.set("sellerProceeds", Value.fromBigInt(value));
+  }
+
+  get timestamp(): BigInt {
+    let value = this.get("timestamp");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set timestamp(value: BigInt) {
+    this.set("timestamp", Value.fromBigInt(value));
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get transactionHash(): Bytes {
+    let value = this.get("transactionHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set transactionHash(value: Bytes) {
+    this.set("transactionHash", Value.fromBytes(value));
+  }
+}
+
+export class SongOffer extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id != null, "Cannot save SongOffer entity without an ID");
+    if (id) {
+      assert(
+        id.kind == ValueKind.STRING,
+        `Entities of type SongOffer must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+      );
+      store.set("SongOffer", id.toString(), this);
+    }
+  }
+
+  static loadInBlock(id: string): SongOffer | null {
+    return changetype<SongOffer | null>(store.get_in_block("SongOffer", id));
+  }
+
+  static load(id: string): SongOffer | null {
+    return changetype<SongOffer | null>(store.get("SongOffer", id));
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get song(): string {
+    let value = this.get("song");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set song(value: string) {
+    this.set("song", Value.fromString(value));
+  }
+
+  get buyer(): string {
+    let value = this.get("buyer");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set buyer(value: string) {
+    this.set("buyer", Value.fromString(value));
+  }
+
+  get seller(): string | null {
+    let value = this.get("seller");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set seller(value: string | null) {
+    if (!value) {
+      this.unset("seller");
+    } else {
+      this.set("seller", Value.fromString(<string>value));
+    }
+  }
+
+  get nftContract(): Bytes {
+    let value = this.get("nftContract");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set nftContract(value: Bytes) {
+    this.set("nftContract", Value.fromBytes(value));
+  }
+
+  get price(): BigInt {
+    let value = this.get("price");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set price(value: BigInt) {
+    this.set("price", Value.fromBigInt(value));
+  }
+
+  get status(): string {
+    let value = this.get("status");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set status(value: string) {
+    this.set("status", Value.fromString(value));
+  }
+
+  get isActive(): boolean {
+    let value = this.get("isActive");
+    if (!value || value.kind == ValueKind.NULL) {
+      return false;
+    } else {
+      return value.toBoolean();
+    }
+  }
+
+  set isActive(value: boolean) {
+    this.set("isActive", Value.fromBoolean(value));
+  }
+
+  get createdAt(): BigInt {
+    let value = this.get("createdAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set createdAt(value: BigInt) {
+    this.set("createdAt", Value.fromBigInt(value));
+  }
+
+  get expiresAt(): BigInt | null {
+    let value = this.get("expiresAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set expiresAt(value: BigInt | null) {
+    if (!value) {
+      this.unset("expiresAt");
+    } else {
+      this.set("expiresAt", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get acceptedAt(): BigInt | null {
+    let value = this.get("acceptedAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set acceptedAt(value: BigInt | null) {
+    if (!value) {
+      this.unset("acceptedAt");
+    } else {
+      this.set("acceptedAt", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get cancelledAt(): BigInt | null {
+    let value = this.get("cancelledAt");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set cancelledAt(value: BigInt | null) {
+    if (!value) {
+      this.unset("cancelledAt");
+    } else {
+      this.set("cancelledAt", Value.fromBigInt(<BigInt>value));
+    }
+  }
+
+  get blockNumber(): BigInt {
+    let value = this.get("blockNumber");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set blockNumber(value: BigInt) {
+    this.set("blockNumber", Value.fromBigInt(value));
+  }
+
+  get transactionHash(): Bytes {
+    let value = this.get("transactionHash");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set transactionHash(value: Bytes) {
+    this.set("transactionHash", Value.fromBytes(value));
+  }
+}
+
+export class SongAuction extends Entity {
   constructor(id: string) {
     super();
     this.set("id", Value.fromString(id));
@@ -1935,24 +2855,24 @@ export class SongListing extends Entity {
 
   save(): void {
     let id = this.get("id");
-    assert(id != null, "Cannot save SongListing entity without an ID");
+    assert(id != null, "Cannot save SongAuction entity without an ID");
     if (id) {
       assert(
         id.kind == ValueKind.STRING,
-        `Entities of type SongListing must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+        `Entities of type SongAuction must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
       );
-      store.set("SongListing", id.toString(), this);
+      store.set("SongAuction", id.toString(), this);
     }
   }
 
-  static loadInBlock(id: string): SongListing | null {
-    return changetype<SongListing | null>(
-      store.get_in_block("SongListing", id),
+  static loadInBlock(id: string): SongAuction | null {
+    return changetype<SongAuction | null>(
+      store.get_in_block("SongAuction", id),
     );
   }
 
-  static load(id: string): SongListing | null {
-    return changetype<SongListing | null>(store.get("SongListing", id));
+  static load(id: string): SongAuction | null {
+    return changetype<SongAuction | null>(store.get("SongAuction", id));
   }
 
   get id(): string {
@@ -1994,8 +2914,21 @@ export class SongListing extends Entity {
     this.set("seller", Value.fromString(value));
   }
 
-  get price(): BigInt {
-    let value = this.get("price");
+  get nftContract(): Bytes {
+    let value = this.get("nftContract");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set nftContract(value: Bytes) {
+    this.set("nftContract", Value.fromBytes(value));
+  }
+
+  get reservePrice(): BigInt {
+    let value = this.get("reservePrice");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -2003,8 +2936,77 @@ export class SongListing extends Entity {
     }
   }
 
-  set price(value: BigInt) {
-    this.set("price", Value.fromBigInt(value));
+  set reservePrice(value: BigInt) {
+    this.set("reservePrice", Value.fromBigInt(value));
+  }
+
+  get minBidIncrement(): BigInt {
+    let value = this.get("minBidIncrement");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set minBidIncrement(value: BigInt) {
+    this.set("minBidIncrement", Value.fromBigInt(value));
+  }
+
+  get highestBid(): BigInt {
+    let value = this.get("highestBid");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set highestBid(value: BigInt) {
+    this.set("highestBid", Value.fromBigInt(value));
+  }
+
+  get highestBidder(): string | null {
+    let value = this.get("highestBidder");
+    if (!value || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set highestBidder(value: string | null) {
+    if (!value) {
+      this.unset("highestBidder");
+    } else {
+      this.set("highestBidder", Value.fromString(<string>value));
+    }
+  }
+
+  get bidCount(): BigInt {
+    let value = this.get("bidCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toBigInt();
+    }
+  }
+
+  set bidCount(value: BigInt) {
+    this.set("bidCount", Value.fromBigInt(value));
+  }
+
+  get status(): string {
+    let value = this.get("status");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
+    } else {
+      return value.toString();
+    }
+  }
+
+  set status(value: string) {
+    this.set("status", Value.fromString(value));
   }
 
   get isActive(): boolean {
@@ -2020,8 +3022,8 @@ export class SongListing extends Entity {
     this.set("isActive", Value.fromBoolean(value));
   }
 
-  get listedAt(): BigInt {
-    let value = this.get("listedAt");
+  get startTime(): BigInt {
+    let value = this.get("startTime");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -2029,29 +3031,38 @@ export class SongListing extends Entity {
     }
   }
 
-  set listedAt(value: BigInt) {
-    this.set("listedAt", Value.fromBigInt(value));
+  set startTime(value: BigInt) {
+    this.set("startTime", Value.fromBigInt(value));
   }
 
-  get expiresAt(): BigInt | null {
-    let value = this.get("expiresAt");
+  get endTime(): BigInt {
+    let value = this.get("endTime");
     if (!value || value.kind == ValueKind.NULL) {
-      return null;
+      throw new Error("Cannot return null for a required field.");
     } else {
       return value.toBigInt();
     }
   }
 
-  set expiresAt(value: BigInt | null) {
-    if (!value) {
-      this.unset("expiresAt");
+  set endTime(value: BigInt) {
+    this.set("endTime", Value.fromBigInt(value));
+  }
+
+  get extensionCount(): BigInt {
+    let value = this.get("extensionCount");
+    if (!value || value.kind == ValueKind.NULL) {
+      throw new Error("Cannot return null for a required field.");
     } else {
-      this.set("expiresAt", Value.fromBigInt(<BigInt>value));
+      return value.toBigInt();
     }
   }
 
-  get soldAt(): BigInt | null {
-    let value = this.get("soldAt");
+  set extensionCount(value: BigInt) {
+    this.set("extensionCount", Value.fromBigInt(value));
+  }
+
+  get settledAt(): BigInt | null {
+    let value = this.get("settledAt");
     if (!value || value.kind == ValueKind.NULL) {
       return null;
     } else {
@@ -2059,16 +3070,16 @@ export class SongListing extends Entity {
     }
   }
 
-  set soldAt(value: BigInt | null) {
+  set settledAt(value: BigInt | null) {
     if (!value) {
-      this.unset("soldAt");
+      this.unset("settledAt");
     } else {
-      this.set("soldAt", Value.fromBigInt(<BigInt>value));
+      this.set("settledAt", Value.fromBigInt(<BigInt>value));
     }
   }
 
-  get buyer(): string | null {
-    let value = this.get("buyer");
+  get winner(): string | null {
+    let value = this.get("winner");
     if (!value || value.kind == ValueKind.NULL) {
       return null;
     } else {
@@ -2076,14 +3087,22 @@ export class SongListing extends Entity {
     }
   }
 
-  set buyer(value: string | null) {
+  set winner(value: string | null) {
     if (!value) {
-      this.unset("buyer");
+      this.unset("winner");
     } else {
-      this.set("buyer", Value.fromString(<string>value));
+      this.set("winner", Value.fromString(<string>value));
     }
   }
 
+  get bids(): AuctionBidLoader {
+    return new AuctionBidLoader(
+      "SongAuction",
+      this.get("id")!.toString(),
+      "bids",
+    );
+  }
+
   get blockNumber(): BigInt {
     let value = this.get("blockNumber");
     if (!value || value.kind == ValueKind.NULL) {
@@ -2111,7 +3130,7 @@ export class SongListing extends Entity {
   }
 }
 
-export class SongSale extends Entity {
+export class AuctionBid extends Entity {
   constructor(id: string) {
     super();
     this.set("id", Value.fromString(id));
@@ -2119,22 +3138,22 @@ export class SongSale extends Entity {
 
   save(): void {
     let id = this.get("id");
-    assert(id != null, "Cannot save SongSale entity without an ID");
+    assert(id != null, "Cannot save AuctionBid entity without an ID");
     if (id) {
       assert(
         id.kind == ValueKind.STRING,
-        `Entities of type SongSale must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
+        `Entities of type AuctionBid must have an ID of type String but the id '${id.displayData()}' is of type ${id.displayKind()}`,
       );
-      store.set("SongSale", id.toString(), this);
+      store.set("AuctionBid", id.toString(), this);
     }
   }
 
-  static loadInBlock(id: string): SongSale | null {
-    return changetype<SongSale | null>(store.get_in_block("SongSale", id));
+  static loadInBlock(id: string): AuctionBid | null {
+    return changetype<AuctionBid | null>(store.get_in_block("AuctionBid", id));
   }
 
-  static load(id: string): SongSale | null {
-    return changetype<SongSale | null>(store.get("SongSale", id));
+  static load(id: string): AuctionBid | null {
+    return changetype<AuctionBid | null>(store.get("AuctionBid", id));
   }
 
   get id(): string {
@@ -2150,8 +3169,8 @@ export class SongSale extends Entity {
     this.set("id", Value.fromString(value));
   }
 
-  get song(): string {
-    let value = this.get("song");
+  get auction(): string {
+    let value = this.get("auction");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -2159,12 +3178,12 @@ export class SongSale extends Entity {
     }
   }
 
-  set song(value: string) {
-    this.set("song", Value.fromString(value));
+  set auction(value: string) {
+    this.set("auction", Value.fromString(value));
   }
 
-  get seller(): string {
-    let value = this.get("seller");
+  get song(): string {
+    let value = this.get("song");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -2172,12 +3191,12 @@ export class SongSale extends Entity {
     }
   }
 
-  set seller(value: string) {
-    this.set("seller", Value.fromString(value));
+  set song(value: string) {
+    this.set("song", Value.fromString(value));
   }
 
-  get buyer(): string {
-    let value = this.get("buyer");
+  get bidder(): string {
+    let value = this.get("bidder");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -2185,51 +3204,12 @@ export class SongSale extends Entity {
     }
   }
 
-  set buyer(value: string) {
-    this.set("buyer", Value.fromString(value));
-  }
-
-  get price(): BigInt {
-    let value = this.get("price");
-    if (!value || value.kind == ValueKind.NULL) {
-      throw new Error("Cannot return null for a required field.");
-    } else {
-      return value.toBigInt();
-    }
-  }
-
-  set price(value: BigInt) {
-    this.set("price", Value.fromBigInt(value));
-  }
-
-  get royaltyPaid(): BigInt {
-    let value = this.get("royaltyPaid");
-    if (!value || value.kind == ValueKind.NULL) {
-      throw new Error("Cannot return null for a required field.");
-    } else {
-      return value.toBigInt();
-    }
-  }
-
-  set royaltyPaid(value: BigInt) {
-    this.set("royaltyPaid", Value.fromBigInt(value));
-  }
-
-  get platformFee(): BigInt {
-    let value = this.get("platformFee");
-    if (!value || value.kind == ValueKind.NULL) {
-      throw new Error("Cannot return null for a required field.");
-    } else {
-      return value.toBigInt();
-    }
-  }
-
-  set platformFee(value: BigInt) {
-    this.set("platformFee", Value.fromBigInt(value));
+  set bidder(value: string) {
+    this.set("bidder", Value.fromString(value));
   }
 
-  get sellerProceeds(): BigInt {
-    let value = this.get("sellerProceeds");
+  get amount(): BigInt {
+    let value = this.get("amount");
     if (!value || value.kind == ValueKind.NULL) {
       throw new Error("Cannot return null for a required field.");
     } else {
@@ -2237,8 +3217,8 @@ export class SongSale extends Entity {
     }
   }
 
-  set sellerProceeds(value: BigInt) {
-    this.set("sellerProceeds", Value.fromBigInt(value));
+  set amount(value: BigInt) {
+    this.set("amount", Value.fromBigInt(value));
   }
 
   get timestamp(): BigInt {
@@ -5402,6 +6382,60 @@ export class SongListingLoader extends Entity {
   }
 }
 
+export class SongOfferLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): SongOffer[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<SongOffer[]>(value);
+  }
+}
+
+export class SongAuctionLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): SongAuction[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<SongAuction[]>(value);
+  }
+}
+
+export class AuctionBidLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): AuctionBid[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<AuctionBid[]>(value);
+  }
+}
+
 export class TipLoader extends Entity {
   _entity: string;
   _field: string;
@@ -5546,6 +6580,42 @@ export class SongDailyStatsLoader extends Entity {
   }
 }
 
+export class PlaylistLikeLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): PlaylistLike[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<PlaylistLike[]>(value);
+  }
+}
+
+export class PlaylistCollaboratorLoader extends Entity {
+  _entity: string;
+  _field: string;
+  _id: string;
+
+  constructor(entity: string, id: string, field: string) {
+    super();
+    this._entity = entity;
+    this._id = id;
+    this._field = field;
+  }
+
+  load(): PlaylistCollaborator[] {
+    let value = store.loadRelated(this._entity, this._id, this._field);
+    return changetype<PlaylistCollaborator[]>(value);
+  }
+}
+
 export class LeaderboardEntryLoader extends Entity {
   _entity: string;
   _field: string;
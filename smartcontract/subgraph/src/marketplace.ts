@@ -1,12 +1,24 @@
-import { BigInt, Address } from "@graphprotocol/graph-ts"
+import { BigInt, Address, ByteArray, crypto, ethereum, log } from "@graphprotocol/graph-ts"
 import {
+  Marketplace,
   ListingCreated,
   ListingSold,
-  ListingCancelled
+  ListingCancelled,
+  OfferCreated,
+  OfferAccepted,
+  OfferCancelled,
+  AuctionCreated,
+  BidPlaced,
+  AuctionExtended,
+  AuctionSettled,
+  AuctionCancelled
 } from "../generated/Marketplace/Marketplace"
 import {
   SongListing,
   SongSale,
+  SongOffer,
+  SongAuction,
+  AuctionBid,
   MarketplaceStats,
   Song,
   UserProfile,
@@ -132,6 +144,141 @@ function getOrCreateUserProfile(address: string): UserProfile {
   return profile
 }
 
+// Marketplace.platformFee at deployment - used when the fee can't be read from the contract
+const DEFAULT_PLATFORM_FEE_BPS = 250
+
+// Platform fee taken from a sale, at the fee the contract charges now
+function getPlatformFee(marketplace: Address, salePrice: BigInt): BigInt {
+  let feeBps = Marketplace.bind(marketplace).try_platformFee()
+  let bps = feeBps.reverted ? BigInt.fromI32(DEFAULT_PLATFORM_FEE_BPS) : feeBps.value
+  return salePrice.times(bps).div(BigInt.fromI32(10000))
+}
+
+// Records a sale made outside fixed-price listings (accepted offer, settled auction)
+function recordMarketplaceSale(
+  event: ethereum.Event,
+  songId: string,
+  sellerAddress: string,
+  buyerAddress: string,
+  salePrice: BigInt,
+  priceEventType: string,
+  sellerDescription: string,
+  buyerDescription: string
+): void {
+  // Offer and auction sales only pay the platform fee, no royalty
+  let platformFee = getPlatformFee(event.address, salePrice)
+
+  // Create sale record
+  let sale = new SongSale(event.transaction.hash.toHex() + "-" + event.logIndex.toString())
+  sale.song = songId
+  sale.seller = sellerAddress
+  sale.buyer = buyerAddress
+  sale.price = salePrice
+  sale.royaltyPaid = BigInt.fromI32(0)
+  sale.platformFee = platformFee
+  sale.sellerProceeds = salePrice.minus(platformFee)
+  sale.timestamp = event.block.timestamp
+  sale.blockNumber = event.block.number
+  sale.transactionHash = event.transaction.hash
+  sale.save()
+
+  // Create price history entry
+  let priceHistoryId = songId + "-" + event.block.timestamp.toString()
+  let priceHistory = new SongPriceHistory(priceHistoryId)
+  priceHistory.song = songId
+  priceHistory.price = salePrice
+  priceHistory.eventType = priceEventType
+  priceHistory.timestamp = event.block.timestamp
+  priceHistory.blockNumber = event.block.number
+  priceHistory.transactionHash = event.transaction.hash
+  priceHistory.save()
+
+  // Update seller NFT stats
+  let sellerStats = getOrCreateUserNFTStats(sellerAddress, event.block.timestamp)
+  sellerStats.songsSold = sellerStats.songsSold.plus(BigInt.fromI32(1))
+  sellerStats.totalSalesVolume = sellerStats.totalSalesVolume.plus(salePrice)
+  sellerStats.lastActivityDate = event.block.timestamp
+  sellerStats.lastUpdated = event.block.timestamp
+  if (salePrice.gt(sellerStats.highestSalePrice)) {
+    sellerStats.highestSalePrice = salePrice
+    sellerStats.bestSellingSong = songId
+  }
+  sellerStats.averageSalePrice = sellerStats.totalSalesVolume.div(sellerStats.songsSold)
+  sellerStats.save()
+
+  // Update buyer NFT stats
+  let buyerStats = getOrCreateUserNFTStats(buyerAddress, event.block.timestamp)
+  buyerStats.songsBought = buyerStats.songsBought.plus(BigInt.fromI32(1))
+  buyerStats.totalPurchaseVolume = buyerStats.totalPurchaseVolume.plus(salePrice)
+  buyerStats.lastActivityDate = event.block.timestamp
+  buyerStats.lastUpdated = event.block.timestamp
+  buyerStats.save()
+
+  // Update marketplace stats
+  let marketStats = getOrCreateMarketplaceStats()
+  marketStats.totalSales = marketStats.totalSales.plus(BigInt.fromI32(1))
+  marketStats.totalVolume = marketStats.totalVolume.plus(salePrice)
+  marketStats.totalPlatformFees = marketStats.totalPlatformFees.plus(platformFee)
+  marketStats.averageSalePrice = marketStats.totalVolume.div(marketStats.totalSales)
+  marketStats.lastUpdated = event.block.timestamp
+  marketStats.save()
+
+  // Update platform stats
+  let platformStats = getOrCreatePlatformStats()
+  platformStats.totalSales = platformStats.totalSales.plus(BigInt.fromI32(1))
+  platformStats.totalVolume = platformStats.totalVolume.plus(salePrice)
+  platformStats.totalPlatformFees = platformStats.totalPlatformFees.plus(platformFee)
+  platformStats.sales24h = platformStats.sales24h.plus(BigInt.fromI32(1))
+  platformStats.volume24h = platformStats.volume24h.plus(salePrice)
+  platformStats.averageSalePrice = platformStats.totalVolume.div(platformStats.totalSales)
+  platformStats.lastUpdated = event.block.timestamp
+  platformStats.save()
+
+  // Update global stats
+  let globalStats = getOrCreateGlobalStats()
+  globalStats.totalSales = globalStats.totalSales.plus(BigInt.fromI32(1))
+  globalStats.lastUpdated = event.block.timestamp
+  globalStats.save()
+
+  // Create wallet activity for seller (sale)
+  let activitySeller = new WalletActivity(event.transaction.hash.toHex() + "-" + event.logIndex.toString() + "-seller")
+  activitySeller.user = sellerAddress
+  activitySeller.activityType = "sale"
+  activitySeller.from = buyerAddress
+  activitySeller.to = sellerAddress
+  activitySeller.amount = salePrice
+  activitySeller.token = "STT"
+  activitySeller.song = songId
+  activitySeller.listing = null
+  activitySeller.sale = sale.id
+  activitySeller.tip = null
+  activitySeller.status = "success"
+  activitySeller.description = sellerDescription
+  activitySeller.timestamp = event.block.timestamp
+  activitySeller.blockNumber = event.block.number
+  activitySeller.transactionHash = event.transaction.hash
+  activitySeller.save()
+
+  // Create wallet activity for buyer (purchase)
+  let activityBuyer = new WalletActivity(event.transaction.hash.toHex() + "-" + event.logIndex.toString() + "-buyer")
+  activityBuyer.user = buyerAddress
+  activityBuyer.activityType = "receive"
+  activityBuyer.from = sellerAddress
+  activityBuyer.to = buyerAddress
+  activityBuyer.amount = salePrice
+  activityBuyer.token = "STT"
+  activityBuyer.song = songId
+  activityBuyer.listing = null
+  activityBuyer.sale = sale.id
+  activityBuyer.tip = null
+  activityBuyer.status = "success"
+  activityBuyer.description = buyerDescription
+  activityBuyer.timestamp = event.block.timestamp
+  activityBuyer.blockNumber = event.block.number
+  activityBuyer.transactionHash = event.transaction.hash
+  activityBuyer.save()
+}
+
 export function handleListingCreated(event: ListingCreated): void {
   let sellerAddress = event.params.seller.toHexString()
   let listing = new SongListing(event.params.listingId.toString())
@@ -223,8 +370,8 @@ export function handleListingSold(event: ListingSold): void {
     listing.buyer = getOrCreateUserProfile(buyerAddress).id
     listing.save()
     
-    // Calculate fees (example: 2.5% platform fee, 5% royalty)
-    let platformFee = salePrice.times(BigInt.fromI32(25)).div(BigInt.fromI32(1000)) // 2.5%
+    // Calculate fees (example: 5% royalty)
+    let platformFee = getPlatformFee(event.address, salePrice)
     let royaltyFee = salePrice.times(BigInt.fromI32(50)).div(BigInt.fromI32(1000))  // 5%
     let sellerProceeds = salePrice.minus(platformFee).minus(royaltyFee)
     
@@ -408,3 +555,263 @@ export function handleListingCancelled(event: ListingCancelled): void {
     platformStats.save()
   }
 }
+
+export function handleOfferCreated(event: OfferCreated): void {
+  let buyerAddress = event.params.buyer.toHexString()
+  let offer = new SongOffer(event.params.offerId.toString())
+
+  offer.song = event.params.tokenId.toString()
+  offer.buyer = getOrCreateUserProfile(buyerAddress).id
+  offer.seller = null
+  offer.nftContract = event.params.nftContract
+  offer.price = event.params.price
+  offer.status = "active"
+  offer.isActive = true
+  offer.createdAt = event.block.timestamp
+  offer.acceptedAt = null
+  offer.cancelledAt = null
+  offer.blockNumber = event.block.number
+  offer.transactionHash = event.transaction.hash
+
+  // Expiry is not part of the event - read it from the offer struct
+  let contract = Marketplace.bind(event.address)
+  let onChainOffer = contract.try_offers(event.params.offerId)
+  if (!onChainOffer.reverted) {
+    offer.expiresAt = onChainOffer.value.getExpiresAt()
+  } else {
+    offer.expiresAt = null
+  }
+  offer.save()
+
+  // Create wallet activity for the escrowed offer
+  let song = Song.load(event.params.tokenId.toString())
+  let activityId = event.transaction.hash.toHex() + "-" + event.logIndex.toString()
+  let activity = new WalletActivity(activityId)
+  activity.user = buyerAddress
+  activity.activityType = "offer"
+  activity.from = buyerAddress
+  activity.to = null
+  activity.amount = event.params.price
+  activity.token = "STT"
+  activity.song = event.params.tokenId.toString()
+  activity.listing = null
+  activity.sale = null
+  activity.tip = null
+  activity.status = "success"
+  activity.description = "Made an offer on " + (song ? song.title : "NFT")
+  activity.timestamp = event.block.timestamp
+  activity.blockNumber = event.block.number
+  activity.transactionHash = event.transaction.hash
+  activity.save()
+}
+
+const TRANSFER_TOPIC = crypto.keccak256(ByteArray.fromUTF8("Transfer(address,address,uint256)"))
+
+// Previous owner of the token, from the ERC721 Transfer logged in the same transaction
+function findTransferSender(event: ethereum.Event, nftContract: Address, tokenId: string): string | null {
+  let receipt = event.receipt
+  if (receipt == null) return null
+
+  let logs = receipt.logs
+  for (let i = 0; i < logs.length; i++) {
+    let log = logs[i]
+    if (log.address != nftContract || log.topics.length != 4 || log.topics[0] != TRANSFER_TOPIC) continue
+
+    let loggedTokenId = ethereum.decode("uint256", log.topics[3])
+    if (loggedTokenId == null || loggedTokenId.toBigInt().toString() != tokenId) continue
+
+    let from = ethereum.decode("address", log.topics[1])
+    if (from != null) return from.toAddress().toHexString()
+  }
+  return null
+}
+
+export function handleOfferAccepted(event: OfferAccepted): void {
+  let offer = SongOffer.load(event.params.offerId.toString())
+  if (offer == null) return
+
+  // Gasless (Sequence) accepts are relayed, so tx.from can be the relayer - take the seller from the NFT Transfer,
+  // else from the listing the offer was accepted through
+  let sellerAddress = findTransferSender(event, Address.fromBytes(offer.nftContract), offer.song)
+  if (sellerAddress == null && !event.params.listingId.isZero()) {
+    let listing = SongListing.load(event.params.listingId.toString())
+    if (listing != null) {
+      sellerAddress = listing.seller
+    }
+  }
+  let buyerAddress = offer.buyer
+  let salePrice = offer.price
+
+  offer.status = "accepted"
+  offer.isActive = false
+  if (sellerAddress != null) {
+    offer.seller = getOrCreateUserProfile(sellerAddress!).id
+  }
+  offer.acceptedAt = event.block.timestamp
+  offer.save()
+
+  let song = Song.load(offer.song)
+  if (song != null) {
+    // The contract refunds every other active offer on the token without emitting events
+    let otherOffers = song.offers.load()
+    for (let i = 0; i < otherOffers.length; i++) {
+      let other = otherOffers[i]
+      if (other.id != offer.id && other.isActive) {
+        other.status = "refunded"
+        other.isActive = false
+        other.cancelledAt = event.block.timestamp
+        other.save()
+      }
+    }
+  }
+
+  // Without a known seller the sale isn't attributed to anyone
+  if (sellerAddress == null) {
+    log.warning("OfferAccepted {}: seller not found, sale not recorded", [offer.id])
+    return
+  }
+
+  let songTitle = song ? song.title : "NFT"
+  recordMarketplaceSale(
+    event,
+    offer.song,
+    sellerAddress!,
+    buyerAddress,
+    salePrice,
+    "offer_accepted",
+    "Accepted an offer for " + songTitle,
+    "Offer accepted for " + songTitle
+  )
+}
+
+export function handleOfferCancelled(event: OfferCancelled): void {
+  let offer = SongOffer.load(event.params.offerId.toString())
+
+  if (offer != null) {
+    offer.status = "cancelled"
+    offer.isActive = false
+    offer.cancelledAt = event.block.timestamp
+    offer.save()
+  }
+}
+
+export function handleAuctionCreated(event: AuctionCreated): void {
+  let sellerAddress = event.params.seller.toHexString()
+  let auction = new SongAuction(event.params.auctionId.toString())
+
+  auction.song = event.params.tokenId.toString()
+  auction.seller = getOrCreateUserProfile(sellerAddress).id
+  auction.nftContract = event.params.nftContract
+  auction.reservePrice = event.params.reservePrice
+  auction.minBidIncrement = event.params.minBidIncrement
+  auction.highestBid = BigInt.fromI32(0)
+  auction.highestBidder = null
+  auction.bidCount = BigInt.fromI32(0)
+  auction.status = "active"
+  auction.isActive = true
+  auction.startTime = event.block.timestamp
+  auction.endTime = event.params.endTime
+  auction.extensionCount = BigInt.fromI32(0)
+  auction.settledAt = null
+  auction.winner = null
+  auction.blockNumber = event.block.number
+  auction.transactionHash = event.transaction.hash
+  auction.save()
+}
+
+export function handleBidPlaced(event: BidPlaced): void {
+  let auction = SongAuction.load(event.params.auctionId.toString())
+  if (auction == null) return
+
+  let bidderAddress = event.params.bidder.toHexString()
+
+  let bid = new AuctionBid(event.transaction.hash.toHex() + "-" + event.logIndex.toString())
+  bid.auction = auction.id
+  bid.song = auction.song
+  bid.bidder = getOrCreateUserProfile(bidderAddress).id
+  bid.amount = event.params.amount
+  bid.timestamp = event.block.timestamp
+  bid.blockNumber = event.block.number
+  bid.transactionHash = event.transaction.hash
+  bid.save()
+
+  auction.highestBid = event.params.amount
+  auction.highestBidder = bid.bidder
+  auction.bidCount = auction.bidCount.plus(BigInt.fromI32(1))
+  auction.endTime = event.params.endTime
+  auction.save()
+
+  // Create wallet activity for the escrowed bid
+  let song = Song.load(auction.song)
+  let activity = new WalletActivity(bid.id)
+  activity.user = bidderAddress
+  activity.activityType = "bid"
+  activity.from = bidderAddress
+  activity.to = null
+  activity.amount = event.params.amount
+  activity.token = "STT"
+  activity.song = auction.song
+  activity.listing = null
+  activity.sale = null
+  activity.tip = null
+  activity.status = "success"
+  activity.description = "Bid on " + (song ? song.title : "NFT")
+  activity.timestamp = event.block.timestamp
+  activity.blockNumber = event.block.number
+  activity.transactionHash = event.transaction.hash
+  activity.save()
+}
+
+export function handleAuctionExtended(event: AuctionExtended): void {
+  let auction = SongAuction.load(event.params.auctionId.toString())
+
+  if (auction != null) {
+    auction.endTime = event.params.endTime
+    auction.extensionCount = auction.extensionCount.plus(BigInt.fromI32(1))
+    auction.save()
+  }
+}
+
+export function handleAuctionSettled(event: AuctionSettled): void {
+  let auction = SongAuction.load(event.params.auctionId.toString())
+  if (auction == null) return
+
+  auction.isActive = false
+  auction.settledAt = event.block.timestamp
+
+  // Settled without bids - the NFT went back to the seller
+  if (event.params.winner.equals(Address.zero())) {
+    auction.status = "unsold"
+    auction.save()
+    return
+  }
+
+  let winnerAddress = event.params.winner.toHexString()
+  auction.status = "settled"
+  auction.winner = getOrCreateUserProfile(winnerAddress).id
+  auction.save()
+
+  let song = Song.load(auction.song)
+  let songTitle = song ? song.title : "NFT"
+  recordMarketplaceSale(
+    event,
+    auction.song,
+    auction.seller,
+    winnerAddress,
+    event.params.amount,
+    "auction_sold",
+    "Sold " + songTitle + " at auction",
+    "Won the auction for " + songTitle
+  )
+}
+
+export function handleAuctionCancelled(event: AuctionCancelled): void {
+  let auction = SongAuction.load(event.params.auctionId.toString())
+
+  if (auction != null) {
+    auction.status = "cancelled"
+    auction.isActive = false
+    auction.settledAt = event.block.timestamp
+    auction.save()
+  }
+}
@@ -1,11 +1,24 @@
 import { BigInt } from "@graphprotocol/graph-ts"
 import {
+  PlaylistManager,
   PlaylistCreated,
   PlaylistUpdated,
   SongAddedToPlaylist,
-  SongRemovedFromPlaylist
+  SongRemovedFromPlaylist,
+  PlaylistLiked,
+  PlaylistUnliked,
+  CollaboratorAdded,
+  CollaboratorRemoved
 } from "../generated/PlaylistManager/PlaylistManager"
-import { Playlist, PlaylistSong, UserProfile, Song, GlobalStats } from "../generated/schema"
+import {
+  Playlist,
+  PlaylistSong,
+  PlaylistLike,
+  PlaylistCollaborator,
+  UserProfile,
+  Song,
+  GlobalStats
+} from "../generated/schema"
 
 function getOrCreateGlobalStats(): GlobalStats {
   let stats = GlobalStats.load("global")
@@ -56,7 +69,10 @@ export function handlePlaylistCreated(event: PlaylistCreated): void {
   playlist.description = ""
   playlist.coverHash = ""
   playlist.isPublic = true
+  playlist.isDeleted = false
   playlist.songCount = BigInt.fromI32(0)
+  playlist.likeCount = BigInt.fromI32(0)
+  playlist.collaboratorCount = BigInt.fromI32(0)
   playlist.createdAt = event.block.timestamp
   playlist.updatedAt = event.block.timestamp
   playlist.blockNumber = event.block.number
@@ -75,6 +91,21 @@ export function handlePlaylistUpdated(event: PlaylistUpdated): void {
   let playlist = Playlist.load(event.params.playlistId.toString())
   
   if (playlist != null) {
+    // 🔥 PlaylistUpdated carries only the ID - read edited details (and deletion) from contract storage
+    let contract = PlaylistManager.bind(event.address)
+    let playlistData = contract.try_getPlaylist(event.params.playlistId)
+
+    if (!playlistData.reverted) {
+      playlist.name = playlistData.value.name
+      playlist.description = playlistData.value.description
+      playlist.coverHash = playlistData.value.coverHash
+      playlist.isPublic = playlistData.value.isPublic
+      playlist.isDeleted = playlistData.value.isDeleted
+      playlist.songCount = BigInt.fromI32(playlistData.value.songIds.length)
+      playlist.likeCount = playlistData.value.likeCount
+      playlist.collaboratorCount = BigInt.fromI32(playlistData.value.collaborators.length)
+    }
+
     playlist.updatedAt = event.block.timestamp
     playlist.save()
   }
@@ -120,3 +151,96 @@ export function handleSongRemovedFromPlaylist(event: SongRemovedFromPlaylist): v
     playlist.save()
   }
 }
+
+export function handlePlaylistLiked(event: PlaylistLiked): void {
+  let playlist = Playlist.load(event.params.playlistId.toString())
+  if (playlist == null) return
+
+  let likeId = event.params.playlistId.toString() + "-" + event.params.user.toHexString()
+  let like = PlaylistLike.load(likeId)
+
+  // Likes are re-used across unlike/like cycles so there's one row per user
+  if (like == null) {
+    like = new PlaylistLike(likeId)
+    like.playlist = playlist.id
+    like.user = getOrCreateUserProfile(event.params.user.toHexString()).id
+  }
+
+  like.isActive = true
+  like.likedAt = event.block.timestamp
+  like.unlikedAt = null
+  like.blockNumber = event.block.number
+  like.transactionHash = event.transaction.hash
+  like.save()
+
+  playlist.likeCount = playlist.likeCount.plus(BigInt.fromI32(1))
+  playlist.save()
+}
+
+export function handlePlaylistUnliked(event: PlaylistUnliked): void {
+  let playlist = Playlist.load(event.params.playlistId.toString())
+  if (playlist == null) return
+
+  let likeId = event.params.playlistId.toString() + "-" + event.params.user.toHexString()
+  let like = PlaylistLike.load(likeId)
+
+  if (like != null && like.isActive) {
+    like.isActive = false
+    like.unlikedAt = event.block.timestamp
+    like.blockNumber = event.block.number
+    like.transactionHash = event.transaction.hash
+    like.save()
+  }
+
+  if (playlist.likeCount.gt(BigInt.fromI32(0))) {
+    playlist.likeCount = playlist.likeCount.minus(BigInt.fromI32(1))
+  }
+  playlist.save()
+}
+
+export function handleCollaboratorAdded(event: CollaboratorAdded): void {
+  let playlist = Playlist.load(event.params.playlistId.toString())
+  if (playlist == null) return
+
+  let collaboratorId = event.params.playlistId.toString() + "-" + event.params.collaborator.toHexString()
+  let collaborator = PlaylistCollaborator.load(collaboratorId)
+
+  if (collaborator == null) {
+    collaborator = new PlaylistCollaborator(collaboratorId)
+    collaborator.playlist = playlist.id
+    collaborator.collaborator = getOrCreateUserProfile(event.params.collaborator.toHexString()).id
+  }
+
+  collaborator.isActive = true
+  collaborator.addedAt = event.block.timestamp
+  collaborator.removedAt = null
+  collaborator.blockNumber = event.block.number
+  collaborator.transactionHash = event.transaction.hash
+  collaborator.save()
+
+  playlist.collaboratorCount = playlist.collaboratorCount.plus(BigInt.fromI32(1))
+  playlist.updatedAt = event.block.timestamp
+  playlist.save()
+}
+
+export function handleCollaboratorRemoved(event: CollaboratorRemoved): void {
+  let playlist = Playlist.load(event.params.playlistId.toString())
+  if (playlist == null) return
+
+  let collaboratorId = event.params.playlistId.toString() + "-" + event.params.collaborator.toHexString()
+  let collaborator = PlaylistCollaborator.load(collaboratorId)
+
+  if (collaborator != null && collaborator.isActive) {
+    collaborator.isActive = false
+    collaborator.removedAt = event.block.timestamp
+    collaborator.blockNumber = event.block.number
+    collaborator.transactionHash = event.transaction.hash
+    collaborator.save()
+  }
+
+  if (playlist.collaboratorCount.gt(BigInt.fromI32(0))) {
+    playlist.collaboratorCount = playlist.collaboratorCount.minus(BigInt.fromI32(1))
+  }
+  playlist.updatedAt = event.block.timestamp
+  playlist.save()
+}
@@ -389,6 +389,67 @@ describe("HiBeats Social Features Integration Test", function () {
 
       console.log("✅ Marketplace trading working");
     });
+
+    it("Should run a timed auction with anti-sniping", async function () {
+      const { time } = require("@nomicfoundation/hardhat-network-helpers");
+
+      await songNFT.connect(artist).approve(marketplace.target, songId1);
+      await marketplace.connect(artist).createAuction(
+        songNFT.target, songId1, ethers.parseEther("0.1"), 500, 3600 // 5% increment, 1 hour
+      );
+      const auction = await marketplace.getActiveAuction(songNFT.target, songId1);
+      expect(await songNFT.ownerOf(songId1)).to.equal(marketplace.target);
+
+      // Reserve and increment are enforced
+      await expect(
+        marketplace.connect(fan).placeBid(auction.id, { value: ethers.parseEther("0.05") })
+      ).to.be.revertedWith("Bid too low");
+      await marketplace.connect(fan).placeBid(auction.id, { value: ethers.parseEther("0.1") });
+      await expect(
+        marketplace.connect(user3).placeBid(auction.id, { value: ethers.parseEther("0.104") })
+      ).to.be.revertedWith("Bid too low");
+
+      // A bid in the last minutes extends the auction
+      await time.increaseTo(auction.endTime - 60n);
+      await expect(
+        marketplace.connect(user3).placeBid(auction.id, { value: ethers.parseEther("0.2") })
+      ).to.emit(marketplace, "AuctionExtended");
+      const extended = await marketplace.auctions(auction.id);
+      expect(extended.endTime).to.be.greaterThan(auction.endTime);
+
+      await expect(marketplace.settleAuction(auction.id)).to.be.revertedWith("Auction not ended");
+      await time.increaseTo(extended.endTime);
+      await marketplace.settleAuction(auction.id);
+
+      expect(await songNFT.ownerOf(songId1)).to.equal(user3.address);
+
+      console.log("✅ Marketplace auctions working");
+    });
+
+    it("Should buy a bundle of listings and refund failed items", async function () {
+      await songNFT.connect(artist).setApprovalForAll(marketplace.target, true);
+      await marketplace.connect(artist).createListing(songNFT.target, songId1, ethers.parseEther("0.1"));
+      await marketplace.connect(artist).createListing(songNFT.target, songId2, ethers.parseEther("0.2"));
+
+      const listings = await marketplace.getUserListings(artist.address);
+      const [listingId1, listingId2] = [listings[0].id, listings[1].id];
+
+      // Song 2 leaves the seller's wallet, so its listing can no longer be filled
+      await songNFT.connect(artist).transferFrom(artist.address, user4.address, songId2);
+
+      const balanceBefore = await ethers.provider.getBalance(fan.address);
+      const tx = marketplace.connect(fan).buyListings([listingId1, listingId2], { value: ethers.parseEther("0.3") });
+      await expect(tx).to.emit(marketplace, "BundleItemFailed").withArgs(listingId2, fan.address, "Transfer failed");
+      await expect(tx).to.emit(marketplace, "BundlePurchased").withArgs(fan.address, 1, 1, ethers.parseEther("0.2"));
+
+      expect(await songNFT.ownerOf(songId1)).to.equal(fan.address);
+      expect(await songNFT.ownerOf(songId2)).to.equal(user4.address);
+      // Only the purchased item is paid for (plus gas)
+      const spent = balanceBefore - await ethers.provider.getBalance(fan.address);
+      expect(spent).to.be.lessThan(ethers.parseEther("0.11"));
+
+      console.log("✅ Marketplace bundle purchases working");
+    });
   });
 
   describe("Complete User Journey", function () {
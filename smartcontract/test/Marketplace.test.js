@@ -0,0 +1,280 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+
+describe("Marketplace", function () {
+  let marketplace, songNFT;
+  let owner, seller, buyer, referrer, other;
+
+  const PRICE = ethers.parseEther("1");
+
+  const mintSong = async (to) => {
+    await songNFT.mintSong(
+      to, "Song", "Artist", "Pop", 180, "QmAudio", "QmArtwork", 500, false, "ipfs://metadata"
+    );
+    const songs = await songNFT.getArtistSongs(to);
+    return songs[songs.length - 1];
+  };
+
+  const listSong = async (from, tokenId, price = PRICE) => {
+    await songNFT.connect(from).approve(marketplace.target, tokenId);
+    await marketplace.connect(from).createListing(songNFT.target, tokenId, price);
+    return (await marketplace.getActiveListing(songNFT.target, tokenId)).id;
+  };
+
+  beforeEach(async function () {
+    [owner, seller, buyer, referrer, other] = await ethers.getSigners();
+
+    const SongNFT = await ethers.getContractFactory("SongNFT");
+    songNFT = await SongNFT.deploy();
+    await songNFT.waitForDeployment();
+
+    const Marketplace = await ethers.getContractFactory("Marketplace");
+    marketplace = await Marketplace.deploy();
+    await marketplace.waitForDeployment();
+  });
+
+  describe("Referrals", function () {
+    let tokenId, listingId;
+
+    beforeEach(async function () {
+      tokenId = await mintSong(seller.address);
+      listingId = await listSong(seller, tokenId);
+    });
+
+    it("Should pay the referrer out of the platform fee", async function () {
+      const fee = (PRICE * await marketplace.platformFee()) / 10000n;
+      const referralCut = (fee * await marketplace.referralFee()) / 10000n;
+
+      const sellerBefore = await ethers.provider.getBalance(seller.address);
+      const ownerBefore = await ethers.provider.getBalance(owner.address);
+      const referrerBefore = await ethers.provider.getBalance(referrer.address);
+
+      await expect(
+        marketplace.connect(buyer).buyListingWithReferral(listingId, referrer.address, { value: PRICE })
+      ).to.emit(marketplace, "ReferralPaid").withArgs(listingId, referrer.address, referralCut);
+
+      expect(await songNFT.ownerOf(tokenId)).to.equal(buyer.address);
+      expect(await ethers.provider.getBalance(referrer.address) - referrerBefore).to.equal(referralCut);
+      expect(await ethers.provider.getBalance(owner.address) - ownerBefore).to.equal(fee - referralCut);
+      // Seller proceeds are the same as a purchase without a referrer
+      expect(await ethers.provider.getBalance(seller.address) - sellerBefore).to.equal(PRICE - fee);
+    });
+
+    it("Should leave seller proceeds untouched when the buyer refers their own second wallet", async function () {
+      const fee = (PRICE * await marketplace.platformFee()) / 10000n;
+      const sellerBefore = await ethers.provider.getBalance(seller.address);
+
+      // `other` stands in for a second address controlled by the buyer
+      await marketplace.connect(buyer).buyListingWithReferral(listingId, other.address, { value: PRICE });
+
+      expect(await ethers.provider.getBalance(seller.address) - sellerBefore).to.equal(PRICE - fee);
+    });
+
+    it("Should reject self-referrals", async function () {
+      await expect(
+        marketplace.connect(buyer).buyListingWithReferral(listingId, buyer.address, { value: PRICE })
+      ).to.be.revertedWith("Cannot refer yourself");
+    });
+
+    it("Should not pay a referral when the seller is the referrer", async function () {
+      const fee = (PRICE * await marketplace.platformFee()) / 10000n;
+      const sellerBefore = await ethers.provider.getBalance(seller.address);
+      const ownerBefore = await ethers.provider.getBalance(owner.address);
+
+      await expect(
+        marketplace.connect(buyer).buyListingWithReferral(listingId, seller.address, { value: PRICE })
+      ).to.not.emit(marketplace, "ReferralPaid");
+
+      expect(await ethers.provider.getBalance(seller.address) - sellerBefore).to.equal(PRICE - fee);
+      expect(await ethers.provider.getBalance(owner.address) - ownerBefore).to.equal(fee);
+    });
+
+    it("Should split the whole price between seller, platform and referrer", async function () {
+      await marketplace.setPlatformFee(1000); // 10%
+      await marketplace.setReferralFee(10000); // the whole platform fee
+
+      const sellerBefore = await ethers.provider.getBalance(seller.address);
+      const ownerBefore = await ethers.provider.getBalance(owner.address);
+      const referrerBefore = await ethers.provider.getBalance(referrer.address);
+
+      await marketplace.connect(buyer).buyListingWithReferral(listingId, referrer.address, { value: PRICE });
+
+      const sellerGain = await ethers.provider.getBalance(seller.address) - sellerBefore;
+      const ownerGain = await ethers.provider.getBalance(owner.address) - ownerBefore;
+      const referrerGain = await ethers.provider.getBalance(referrer.address) - referrerBefore;
+
+      expect(sellerGain).to.equal(ethers.parseEther("0.9"));
+      expect(referrerGain).to.equal(ethers.parseEther("0.1"));
+      expect(ownerGain).to.equal(0n);
+      expect(sellerGain + ownerGain + referrerGain).to.equal(PRICE);
+      expect(await ethers.provider.getBalance(marketplace.target)).to.equal(0n);
+    });
+
+    it("Should bound the referral fee to the platform fee", async function () {
+      await marketplace.setReferralFee(10000);
+      expect(await marketplace.referralFee()).to.equal(10000);
+
+      await expect(marketplace.setReferralFee(10001)).to.be.revertedWith("Fee too high");
+      await expect(marketplace.connect(seller).setReferralFee(100))
+        .to.be.revertedWithCustomError(marketplace, "OwnableUnauthorizedAccount")
+        .withArgs(seller.address);
+    });
+  });
+
+  describe("Bundles", function () {
+    it("Should credit a seller wallet that rejects ETH without failing the bundle", async function () {
+      const MarketplaceTestWallet = await ethers.getContractFactory("MarketplaceTestWallet");
+      const wallet = await MarketplaceTestWallet.deploy(marketplace.target);
+      await wallet.waitForDeployment();
+
+      const walletToken = await mintSong(wallet.target);
+      await wallet.list(songNFT.target, walletToken, PRICE);
+      const walletListing = (await marketplace.getActiveListing(songNFT.target, walletToken)).id;
+
+      const sellerToken = await mintSong(seller.address);
+      const sellerListing = await listSong(seller, sellerToken);
+
+      const fee = (PRICE * await marketplace.platformFee()) / 10000n;
+      const sellerBefore = await ethers.provider.getBalance(seller.address);
+      const ownerBefore = await ethers.provider.getBalance(owner.address);
+
+      await expect(
+        marketplace.connect(buyer).buyListings([walletListing, sellerListing], { value: PRICE * 2n })
+      ).to.emit(marketplace, "BundlePurchased").withArgs(buyer.address, 2, 0, 0);
+
+      expect(await songNFT.ownerOf(walletToken)).to.equal(buyer.address);
+      expect(await songNFT.ownerOf(sellerToken)).to.equal(buyer.address);
+
+      expect(await marketplace.pendingReturns(wallet.target)).to.equal(PRICE - fee);
+      expect(await ethers.provider.getBalance(wallet.target)).to.equal(0n);
+      expect(await ethers.provider.getBalance(seller.address) - sellerBefore).to.equal(PRICE - fee);
+      expect(await ethers.provider.getBalance(owner.address) - ownerBefore).to.equal(fee * 2n);
+      // Only the credited proceeds stay in the contract
+      expect(await ethers.provider.getBalance(marketplace.target)).to.equal(PRICE - fee);
+    });
+
+    it("Should refund failed items and overpayment to the buyer", async function () {
+      const soldToken = await mintSong(seller.address);
+      const soldListing = await listSong(seller, soldToken);
+
+      const movedToken = await mintSong(seller.address);
+      const movedListing = await listSong(seller, movedToken);
+      // Seller moves the token away after listing it
+      await songNFT.connect(seller).transferFrom(seller.address, other.address, movedToken);
+
+      const overpayment = ethers.parseEther("0.25");
+      const value = PRICE * 2n + overpayment;
+      const refunded = PRICE + overpayment;
+      const buyerBefore = await ethers.provider.getBalance(buyer.address);
+
+      const tx = marketplace.connect(buyer).buyListings([soldListing, movedListing], { value });
+      await expect(tx)
+        .to.emit(marketplace, "BundleItemFailed").withArgs(movedListing, buyer.address, "Transfer failed");
+      await expect(tx)
+        .to.emit(marketplace, "BundlePurchased").withArgs(buyer.address, 1, 1, refunded);
+
+      const receipt = await (await tx).wait();
+      const gasCost = receipt.gasUsed * receipt.gasPrice;
+
+      expect(buyerBefore - await ethers.provider.getBalance(buyer.address)).to.equal(PRICE + gasCost);
+      expect(await songNFT.ownerOf(movedToken)).to.equal(other.address);
+      expect((await marketplace.getActiveListing(songNFT.target, movedToken)).isActive).to.equal(true);
+      expect(await ethers.provider.getBalance(marketplace.target)).to.equal(0n);
+    });
+
+    it("Should refund listings the buyer cannot pay for", async function () {
+      const firstToken = await mintSong(seller.address);
+      const firstListing = await listSong(seller, firstToken);
+
+      const secondToken = await mintSong(seller.address);
+      const secondListing = await listSong(seller, secondToken);
+
+      const value = PRICE + ethers.parseEther("0.5");
+
+      await expect(
+        marketplace.connect(buyer).buyListings([firstListing, secondListing], { value })
+      )
+        .to.emit(marketplace, "BundleItemFailed").withArgs(secondListing, buyer.address, "Insufficient payment")
+        .and.to.emit(marketplace, "BundlePurchased").withArgs(buyer.address, 1, 1, value - PRICE);
+
+      expect(await songNFT.ownerOf(secondToken)).to.equal(seller.address);
+      expect(await ethers.provider.getBalance(marketplace.target)).to.equal(0n);
+    });
+  });
+
+  describe("Auctions", function () {
+    const RESERVE = ethers.parseEther("1");
+    const BID_INCREMENT = 500; // 5%
+    const DURATION = 60 * 60;
+
+    let tokenId, auctionId, wallet;
+
+    beforeEach(async function () {
+      tokenId = await mintSong(seller.address);
+      await songNFT.connect(seller).approve(marketplace.target, tokenId);
+      await marketplace.connect(seller).createAuction(songNFT.target, tokenId, RESERVE, BID_INCREMENT, DURATION);
+      auctionId = (await marketplace.getActiveAuction(songNFT.target, tokenId)).id;
+
+      const MarketplaceTestWallet = await ethers.getContractFactory("MarketplaceTestWallet");
+      wallet = await MarketplaceTestWallet.deploy(marketplace.target);
+      await wallet.waitForDeployment();
+    });
+
+    it("Should credit an outbid contract that rejects ETH and let it withdraw later", async function () {
+      await wallet.bid(auctionId, { value: RESERVE });
+      await marketplace.connect(buyer).placeBid(auctionId, { value: await marketplace.getMinimumBid(auctionId) });
+
+      expect(await marketplace.pendingReturns(wallet.target)).to.equal(RESERVE);
+
+      // Still rejecting payments - the credit stays put
+      await expect(wallet.withdraw()).to.be.revertedWith("Withdraw failed");
+      expect(await marketplace.pendingReturns(wallet.target)).to.equal(RESERVE);
+
+      await wallet.setAcceptsPayments(true);
+      await wallet.withdraw();
+
+      expect(await marketplace.pendingReturns(wallet.target)).to.equal(0n);
+      expect(await ethers.provider.getBalance(wallet.target)).to.equal(RESERVE);
+    });
+
+    it("Should revert a withdrawal with nothing pending", async function () {
+      await expect(
+        marketplace.connect(other).withdrawPendingReturns()
+      ).to.be.revertedWith("Nothing to withdraw");
+    });
+
+    it("Should pay a pending return only once when the recipient re-enters", async function () {
+      await wallet.bid(auctionId, { value: RESERVE });
+      await marketplace.connect(buyer).placeBid(auctionId, { value: await marketplace.getMinimumBid(auctionId) });
+
+      await wallet.setAcceptsPayments(true);
+      await wallet.setReenterOnReceive(true);
+      await wallet.withdraw();
+
+      expect(await wallet.reentered()).to.equal(false);
+      expect(await marketplace.pendingReturns(wallet.target)).to.equal(0n);
+      expect(await ethers.provider.getBalance(wallet.target)).to.equal(RESERVE);
+    });
+
+    it("Should return the NFT when the seller cancels an auction without bids", async function () {
+      await expect(marketplace.connect(seller).cancelAuction(auctionId))
+        .to.emit(marketplace, "AuctionCancelled")
+        .withArgs(auctionId);
+
+      expect(await songNFT.ownerOf(tokenId)).to.equal(seller.address);
+      expect((await marketplace.auctions(auctionId)).isActive).to.equal(false);
+      await expect(
+        marketplace.getActiveAuction(songNFT.target, tokenId)
+      ).to.be.revertedWith("No active auction");
+    });
+
+    it("Should not cancel an auction that has bids", async function () {
+      await marketplace.connect(buyer).placeBid(auctionId, { value: RESERVE });
+
+      await expect(
+        marketplace.connect(seller).cancelAuction(auctionId)
+      ).to.be.revertedWith("Auction has bids");
+      expect(await songNFT.ownerOf(tokenId)).to.equal(marketplace.target);
+    });
+  });
+});
@@ -37,6 +37,8 @@ import UserProfile from "./pages/UserProfile";
 import PostDetail from "./pages/PostDetail";
 import Quests from "./pages/Quests";
 import InteractionLogs from "./pages/InteractionLogs";
+import Search from "./pages/Search";
+import Tag from "./pages/Tag";
 
 import NotFound from "./pages/NotFound";
 import ProfileCreation from "./components/ProfileCreation";
@@ -130,11 +132,14 @@ const AppContent = () => {
         <Route path="/" element={<Index />} />
         <Route path="/feed" element={<Feed />} />
         <Route path="/explore" element={<Explore />} />
+        <Route path="/search" element={<Search />} />
+        <Route path="/tag/:name" element={<Tag />} />
         <Route path="/beats" element={<Beats />} />
         <Route path="/create" element={<CreatePage />} />
         <Route path="/song-history" element={<SongHistoryPage />} />
         <Route path="/my-collection" element={<MyCollection />} />
         <Route path="/messages" element={<Messages />} />
+        <Route path="/messages/:address" element={<Messages />} />
         <Route path="/notifications" element={<Notifications />} />
         <Route path="/dashboard" element={<Dashboard />} />
         <Route path="/settings" element={<Settings />} />
@@ -10,14 +10,22 @@ import {
   Volume2,
   VolumeX,
   Heart,
-  MoreHorizontal,
+  Keyboard,
   Repeat,
+  Repeat1,
   Shuffle,
   ChevronUp,
-  ChevronDown
+  ChevronDown,
+  ListMusic,
+  Mic2
 } from "lucide-react";
 import { useAudio } from "@/contexts/AudioContext";
 import { AudioVisualizer } from "./AudioVisualizer";
+import QueuePanel from "./QueuePanel";
+import KeyboardShortcutsDialog from "./KeyboardShortcutsDialog";
+import LyricsPanel from "./LyricsPanel";
+import RemotePlayerBar from "./RemotePlayerBar";
+import { usePlayerShortcuts } from "@/hooks/usePlayerShortcuts";
 
 const AudioPlayer: React.FC = () => {
   const {
@@ -26,25 +34,40 @@ const AudioPlayer: React.FC = () => {
     currentTime,
     duration,
     volume,
-    playlist,
-    currentIndex,
+    shuffle,
+    repeatMode,
+    canGoNext,
+    canGoPrevious,
     audioData,
     visualizerUpdate,
     playTrack,
     pauseTrack,
     resumeTrack,
     setVolume,
+    toggleMute,
     seekTo,
     nextTrack,
     previousTrack,
+    toggleShuffle,
+    cycleRepeat,
+    isTrackLiked,
+    toggleLikeTrack,
+    resumePoint,
+    dismissResume,
+    remotePlayer,
   } = useAudio();
 
   const [isMiniMode, setIsMiniMode] = useState(false);
+  const [isQueueOpen, setIsQueueOpen] = useState(false);
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  const [isLyricsOpen, setIsLyricsOpen] = useState(false);
   const [miniPosition, setMiniPosition] = useState({ x: 50, y: 20 }); // Start more centered and lower
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const miniPlayerRef = useRef<HTMLDivElement>(null);
 
+  usePlayerShortcuts({ onShowHelp: () => setIsShortcutsOpen(true) });
+
   // Auto-switch to mini mode after 5 seconds of playing
   useEffect(() => {
     let timer: NodeJS.Timeout;
@@ -130,6 +153,11 @@ const AudioPlayer: React.FC = () => {
     }
   }, [isDragging, dragStart]);
 
+  // Another tab is playing - show its remote control instead
+  if (remotePlayer && !isPlaying) {
+    return <RemotePlayerBar />;
+  }
+
   if (!currentTrack) {
     return null;
   }
@@ -137,23 +165,126 @@ const AudioPlayer: React.FC = () => {
   // Mini mode - Dynamic Island style
   if (isMiniMode) {
     return (
-      <div
-        ref={miniPlayerRef}
-        className="fixed z-50 bg-black/20 backdrop-blur-xl border border-white/10 rounded-full px-6 py-3 shadow-2xl hover:shadow-3xl transition-all duration-300 max-w-md w-full cursor-move select-none overflow-hidden"
+      <>
+        <div
+          ref={miniPlayerRef}
+          className="fixed z-50 bg-black/20 backdrop-blur-xl border border-white/10 rounded-full px-6 py-3 shadow-2xl hover:shadow-3xl transition-all duration-300 max-w-md w-full cursor-move select-none overflow-hidden"
+          style={{
+            left: `${miniPosition.x}%`,
+            top: `${miniPosition.y}%`,
+            transform: 'translateX(-50%) translateY(-100%)',
+            background: 'linear-gradient(135deg, rgba(0,0,0,0.3) 0%, rgba(0,0,0,0.1) 100%)',
+            backdropFilter: 'blur(20px) saturate(180%)',
+            WebkitBackdropFilter: 'blur(20px) saturate(180%)',
+            border: '1px solid rgba(255,255,255,0.1)',
+            boxShadow: '0 8px 32px rgba(0,0,0,0.3), inset 0 1px 0 rgba(255,255,255,0.1)'
+          }}
+          onMouseDown={handleMouseDown}
+        >
+          {/* Audio Visualizer Background */}
+          <div className="absolute inset-0 opacity-30">
+            <AudioVisualizer
+              audioData={audioData}
+              isPlaying={isPlaying}
+              visualizerUpdate={visualizerUpdate}
+              className="w-full h-full"
+            />
+          </div>
+
+          <div className="relative z-10 flex items-center gap-4">
+            {/* Track Info */}
+            <div className="flex items-center gap-4 flex-1 min-w-0">
+              <img
+                src={currentTrack.cover}
+                alt={currentTrack.title}
+                className="w-10 h-10 rounded-lg object-cover flex-shrink-0"
+              />
+              <div className="min-w-0 flex-1">
+                <h4 className="font-semibold text-base truncate">{currentTrack.title}</h4>
+                <p className="text-sm text-muted-foreground truncate">{currentTrack.artist}</p>
+              </div>
+            </div>
+
+            {/* Controls */}
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-9 h-9 p-0 rounded-full"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  previousTrack();
+                }}
+                disabled={!canGoPrevious && currentTime <= 3}
+              >
+                <SkipBack className="w-5 h-5" />
+              </Button>
+
+              <Button
+                variant="default"
+                size="sm"
+                className="w-10 h-10 rounded-full p-0"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handlePlayPause();
+                }}
+              >
+                {isPlaying ? (
+                  <Pause className="w-5 h-5" />
+                ) : (
+                  <Play className="w-5 h-5 ml-0.5" />
+                )}
+              </Button>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-9 h-9 p-0 rounded-full"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  nextTrack();
+                }}
+                disabled={!canGoNext}
+              >
+                <SkipForward className="w-5 h-5" />
+              </Button>
+            </div>
+
+            {/* Expand Button */}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-9 h-9 p-0 rounded-full"
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleMiniMode();
+              }}
+            >
+              <ChevronDown className="w-5 h-5" />
+            </Button>
+          </div>
+        </div>
+        <QueuePanel open={isQueueOpen} onOpenChange={setIsQueueOpen} />
+        <KeyboardShortcutsDialog open={isShortcutsOpen} onOpenChange={setIsShortcutsOpen} />
+        <LyricsPanel open={isLyricsOpen} onOpenChange={setIsLyricsOpen} />
+      </>
+    );
+  }
+
+  // Full mode - Bottom player
+  return (
+    <>
+      <div className="fixed bottom-4 left-4 right-4 bg-black/20 backdrop-blur-xl border border-white/10 px-4 py-3 z-50 rounded-lg shadow-2xl mx-auto max-w-7xl overflow-hidden"
         style={{
-          left: `${miniPosition.x}%`,
-          top: `${miniPosition.y}%`,
-          transform: 'translateX(-50%) translateY(-100%)',
-          background: 'linear-gradient(135deg, rgba(0,0,0,0.3) 0%, rgba(0,0,0,0.1) 100%)',
+          background: 'linear-gradient(135deg, rgba(0,0,0,0.4) 0%, rgba(0,0,0,0.2) 100%)',
           backdropFilter: 'blur(20px) saturate(180%)',
           WebkitBackdropFilter: 'blur(20px) saturate(180%)',
           border: '1px solid rgba(255,255,255,0.1)',
-          boxShadow: '0 8px 32px rgba(0,0,0,0.3), inset 0 1px 0 rgba(255,255,255,0.1)'
+          boxShadow: '0 8px 32px rgba(0,0,0,0.4), inset 0 1px 0 rgba(255,255,255,0.1)'
         }}
-        onMouseDown={handleMouseDown}
       >
         {/* Audio Visualizer Background */}
-        <div className="absolute inset-0 opacity-30">
+        <div className="absolute inset-0 opacity-20">
           <AudioVisualizer
             audioData={audioData}
             isPlaying={isPlaying}
@@ -164,224 +295,188 @@ const AudioPlayer: React.FC = () => {
 
         <div className="relative z-10 flex items-center gap-4">
           {/* Track Info */}
-          <div className="flex items-center gap-4 flex-1 min-w-0">
+          <div className="flex items-center gap-3 min-w-0 flex-1">
             <img
               src={currentTrack.cover}
               alt={currentTrack.title}
-              className="w-10 h-10 rounded-lg object-cover flex-shrink-0"
+              className="w-12 h-12 rounded-md object-cover flex-shrink-0"
             />
             <div className="min-w-0 flex-1">
-              <h4 className="font-semibold text-base truncate">{currentTrack.title}</h4>
-              <p className="text-sm text-muted-foreground truncate">{currentTrack.artist}</p>
-            </div>
-          </div>
-
-          {/* Controls */}
-          <div className="flex items-center gap-2">
-            <Button
-              variant="ghost"
-              size="sm"
-              className="w-9 h-9 p-0 rounded-full"
-              onClick={(e) => {
-                e.stopPropagation();
-                previousTrack();
-              }}
-              disabled={currentIndex <= 0}
-            >
-              <SkipBack className="w-5 h-5" />
-            </Button>
-
-            <Button
-              variant="default"
-              size="sm"
-              className="w-10 h-10 rounded-full p-0"
-              onClick={(e) => {
-                e.stopPropagation();
-                handlePlayPause();
-              }}
-            >
-              {isPlaying ? (
-                <Pause className="w-5 h-5" />
+              <h4 className="font-semibold text-sm truncate">{currentTrack.title}</h4>
+              {resumePoint && !isPlaying ? (
+                <p className="text-xs text-muted-foreground truncate">
+                  <button type="button" className="text-primary hover:underline" onClick={resumeTrack}>
+                    Resume where you left off ({formatTime(resumePoint.position)})
+                  </button>
+                  {' · '}
+                  <button type="button" className="hover:underline" onClick={dismissResume}>
+                    Dismiss
+                  </button>
+                </p>
               ) : (
-                <Play className="w-5 h-5 ml-0.5" />
+                <p className="text-xs text-muted-foreground truncate">{currentTrack.artist}</p>
               )}
-            </Button>
-
+            </div>
             <Button
               variant="ghost"
               size="sm"
-              className="w-9 h-9 p-0 rounded-full"
-              onClick={(e) => {
-                e.stopPropagation();
-                nextTrack();
-              }}
-              disabled={currentIndex >= playlist.length - 1}
+              className={`w-8 h-8 p-0 flex-shrink-0 ${isTrackLiked(currentTrack.id) ? 'text-red-500' : ''}`}
+              onClick={() => toggleLikeTrack(currentTrack)}
+              aria-pressed={isTrackLiked(currentTrack.id)}
+              title={isTrackLiked(currentTrack.id) ? 'Unlike (L)' : 'Like (L)'}
             >
-              <SkipForward className="w-5 h-5" />
+              <Heart className={`w-4 h-4 ${isTrackLiked(currentTrack.id) ? 'fill-current' : ''}`} />
             </Button>
           </div>
 
-          {/* Expand Button */}
-          <Button
-            variant="ghost"
-            size="sm"
-            className="w-9 h-9 p-0 rounded-full"
-            onClick={(e) => {
-              e.stopPropagation();
-              toggleMiniMode();
-            }}
-          >
-            <ChevronDown className="w-5 h-5" />
-          </Button>
-        </div>
-      </div>
-    );
-  }
-
-  // Full mode - Bottom player
-  return (
-    <div className="fixed bottom-4 left-4 right-4 bg-black/20 backdrop-blur-xl border border-white/10 px-4 py-3 z-50 rounded-lg shadow-2xl mx-auto max-w-7xl overflow-hidden"
-      style={{
-        background: 'linear-gradient(135deg, rgba(0,0,0,0.4) 0%, rgba(0,0,0,0.2) 100%)',
-        backdropFilter: 'blur(20px) saturate(180%)',
-        WebkitBackdropFilter: 'blur(20px) saturate(180%)',
-        border: '1px solid rgba(255,255,255,0.1)',
-        boxShadow: '0 8px 32px rgba(0,0,0,0.4), inset 0 1px 0 rgba(255,255,255,0.1)'
-      }}
-    >
-      {/* Audio Visualizer Background */}
-      <div className="absolute inset-0 opacity-20">
-        <AudioVisualizer
-          audioData={audioData}
-          isPlaying={isPlaying}
-          visualizerUpdate={visualizerUpdate}
-          className="w-full h-full"
-        />
-      </div>
+          {/* Player Controls */}
+          <div className="flex flex-col items-center gap-2 flex-1 max-w-md">
+            {/* Control Buttons */}
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-8 h-8 p-0 rounded-full"
+                onClick={previousTrack}
+                disabled={!canGoPrevious && currentTime <= 3}
+              >
+                <SkipBack className="w-4 h-4" />
+              </Button>
+
+              <Button
+                variant="default"
+                size="sm"
+                className="w-10 h-10 rounded-full p-0"
+                onClick={handlePlayPause}
+              >
+                {isPlaying ? (
+                  <Pause className="w-5 h-5" />
+                ) : (
+                  <Play className="w-5 h-5 ml-0.5" />
+                )}
+              </Button>
+
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-8 h-8 p-0 rounded-full"
+                onClick={nextTrack}
+                disabled={!canGoNext}
+              >
+                <SkipForward className="w-4 h-4" />
+              </Button>
+            </div>
 
-      <div className="relative z-10 flex items-center gap-4">
-        {/* Track Info */}
-        <div className="flex items-center gap-3 min-w-0 flex-1">
-          <img
-            src={currentTrack.cover}
-            alt={currentTrack.title}
-            className="w-12 h-12 rounded-md object-cover flex-shrink-0"
-          />
-          <div className="min-w-0 flex-1">
-            <h4 className="font-semibold text-sm truncate">{currentTrack.title}</h4>
-            <p className="text-xs text-muted-foreground truncate">{currentTrack.artist}</p>
+            {/* Progress Bar */}
+            <div className="flex items-center gap-2 w-full">
+              <span className="text-xs text-muted-foreground w-10 text-right">
+                {formatTime(currentTime)}
+              </span>
+              <Slider
+                value={[currentTime]}
+                max={duration || 100}
+                step={1}
+                onValueChange={handleProgressChange}
+                className="flex-1"
+              />
+              <span className="text-xs text-muted-foreground w-10">
+                {formatTime(duration)}
+              </span>
+            </div>
           </div>
-          <Button variant="ghost" size="sm" className="w-8 h-8 p-0 flex-shrink-0">
-            <Heart className="w-4 h-4" />
-          </Button>
-        </div>
 
-        {/* Player Controls */}
-        <div className="flex flex-col items-center gap-2 flex-1 max-w-md">
-          {/* Control Buttons */}
-          <div className="flex items-center gap-2">
-            <Button
-              variant="ghost"
-              size="sm"
-              className="w-8 h-8 p-0 rounded-full"
-              onClick={previousTrack}
-              disabled={currentIndex <= 0}
-            >
-              <SkipBack className="w-4 h-4" />
-            </Button>
+          {/* Volume & Additional Controls */}
+          <div className="flex items-center gap-4 min-w-0 flex-1 justify-end">
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className={`w-8 h-8 p-0 ${shuffle ? 'text-primary' : ''}`}
+                onClick={toggleShuffle}
+                aria-pressed={shuffle}
+                title={shuffle ? 'Shuffle on' : 'Shuffle off'}
+              >
+                <Shuffle className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className={`w-8 h-8 p-0 ${repeatMode !== 'off' ? 'text-primary' : ''}`}
+                onClick={cycleRepeat}
+                title={repeatMode === 'one' ? 'Repeat one' : repeatMode === 'all' ? 'Repeat all' : 'Repeat off'}
+              >
+                {repeatMode === 'one' ? <Repeat1 className="w-4 h-4" /> : <Repeat className="w-4 h-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-8 h-8 p-0"
+                onClick={() => setIsQueueOpen(true)}
+                title="Queue"
+              >
+                <ListMusic className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className={`w-8 h-8 p-0 ${isLyricsOpen ? 'text-primary' : ''}`}
+                onClick={() => setIsLyricsOpen(true)}
+                title="Lyrics"
+              >
+                <Mic2 className="w-4 h-4" />
+              </Button>
+            </div>
 
-            <Button
-              variant="default"
-              size="sm"
-              className="w-10 h-10 rounded-full p-0"
-              onClick={handlePlayPause}
-            >
-              {isPlaying ? (
-                <Pause className="w-5 h-5" />
-              ) : (
-                <Play className="w-5 h-5 ml-0.5" />
-              )}
-            </Button>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-8 h-8 p-0"
+                onClick={toggleMute}
+                title={volume > 0 ? 'Mute (M)' : 'Unmute (M)'}
+              >
+                {volume > 0 ? (
+                  <Volume2 className="w-4 h-4" />
+                ) : (
+                  <VolumeX className="w-4 h-4" />
+                )}
+              </Button>
+              <Slider
+                value={[volume * 100]}
+                max={100}
+                step={1}
+                onValueChange={handleVolumeChange}
+                className="w-20"
+              />
+            </div>
 
+            {/* Mini Mode Toggle */}
             <Button
               variant="ghost"
               size="sm"
-              className="w-8 h-8 p-0 rounded-full"
-              onClick={nextTrack}
-              disabled={currentIndex >= playlist.length - 1}
+              className="w-8 h-8 p-0"
+              onClick={toggleMiniMode}
             >
-              <SkipForward className="w-4 h-4" />
-            </Button>
-          </div>
-
-          {/* Progress Bar */}
-          <div className="flex items-center gap-2 w-full">
-            <span className="text-xs text-muted-foreground w-10 text-right">
-              {formatTime(currentTime)}
-            </span>
-            <Slider
-              value={[currentTime]}
-              max={duration || 100}
-              step={1}
-              onValueChange={handleProgressChange}
-              className="flex-1"
-            />
-            <span className="text-xs text-muted-foreground w-10">
-              {formatTime(duration)}
-            </span>
-          </div>
-        </div>
-
-        {/* Volume & Additional Controls */}
-        <div className="flex items-center gap-4 min-w-0 flex-1 justify-end">
-          <div className="flex items-center gap-2">
-            <Button variant="ghost" size="sm" className="w-8 h-8 p-0">
-              <Shuffle className="w-4 h-4" />
-            </Button>
-            <Button variant="ghost" size="sm" className="w-8 h-8 p-0">
-              <Repeat className="w-4 h-4" />
+              <ChevronUp className="w-4 h-4" />
             </Button>
-          </div>
 
-          <div className="flex items-center gap-2">
             <Button
               variant="ghost"
               size="sm"
               className="w-8 h-8 p-0"
-              onClick={() => setVolume(volume > 0 ? 0 : 0.7)}
+              onClick={() => setIsShortcutsOpen(true)}
+              title="Keyboard shortcuts (?)"
             >
-              {volume > 0 ? (
-                <Volume2 className="w-4 h-4" />
-              ) : (
-                <VolumeX className="w-4 h-4" />
-              )}
+              <Keyboard className="w-4 h-4" />
             </Button>
-            <Slider
-              value={[volume * 100]}
-              max={100}
-              step={1}
-              onValueChange={handleVolumeChange}
-              className="w-20"
-            />
           </div>
-
-          {/* Mini Mode Toggle */}
-          <Button
-            variant="ghost"
-            size="sm"
-            className="w-8 h-8 p-0"
-            onClick={toggleMiniMode}
-          >
-            <ChevronUp className="w-4 h-4" />
-          </Button>
-
-          <Button variant="ghost" size="sm" className="w-8 h-8 p-0">
-            <MoreHorizontal className="w-4 h-4" />
-          </Button>
         </div>
       </div>
-    </div>
+      <QueuePanel open={isQueueOpen} onOpenChange={setIsQueueOpen} />
+      <KeyboardShortcutsDialog open={isShortcutsOpen} onOpenChange={setIsShortcutsOpen} />
+      <LyricsPanel open={isLyricsOpen} onOpenChange={setIsLyricsOpen} />
+    </>
   );
 };
 
-export default AudioPlayer;
\ No newline at end of file
+export default AudioPlayer;
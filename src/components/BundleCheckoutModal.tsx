@@ -0,0 +1,343 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { CheckCircle, Loader2, Package, XCircle } from "lucide-react";
+import { useBalance, usePublicClient } from "wagmi";
+import { decodeEventLog, encodeFunctionData, formatEther, type Hex } from "viem";
+import { toast } from "sonner";
+import { useSequence } from "@/contexts/SequenceContext";
+import { CONTRACT_ADDRESSES } from "@/lib/web3-config";
+import { MarketplaceABI } from "@/lib/abis/Marketplace";
+import { somniaDatastreamServiceV3 } from "@/services/somniaDatastreamService.v3";
+import { ActivityHistoryType } from "@/config/somniaDataStreams.v3";
+
+export interface BundleTrack {
+  tokenId: number;
+  title: string;
+  artist: string;
+}
+
+interface BundleCheckoutModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  bundleTitle: string;
+  tracks: BundleTrack[];
+}
+
+// Marketplace events that tell which bundle listings were filled
+type BundleSaleEvent =
+  | { eventName: 'ListingSold'; args: { listingId: bigint } }
+  | { eventName: 'BundleItemFailed'; args: { listingId: bigint; reason: string } };
+
+type BundleItemStatus = 'available' | 'unlisted' | 'owned' | 'purchased' | 'failed';
+
+interface BundleItem extends BundleTrack {
+  listingId: bigint | null;
+  seller: string | null;
+  price: bigint;
+  status: BundleItemStatus;
+  failureReason?: string;
+}
+
+const formatStt = (wei: bigint) => `${parseFloat(formatEther(wei)).toFixed(4)} STT`;
+
+const shareOf = (price: bigint, bps: bigint) => (price * bps) / 10000n;
+
+/**
+ * Buy every listed track of an album or playlist in one marketplace transaction.
+ * Items that can't be filled are skipped on-chain and refunded.
+ */
+const BundleCheckoutModal = ({ isOpen, onClose, bundleTitle, tracks }: BundleCheckoutModalProps) => {
+  const [items, setItems] = useState<BundleItem[]>([]);
+  const [platformFeeBps, setPlatformFeeBps] = useState<bigint>(0n);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPaying, setIsPaying] = useState(false);
+  const [isComplete, setIsComplete] = useState(false);
+
+  const { smartAccountAddress, executeGaslessTransaction } = useSequence();
+  const publicClient = usePublicClient();
+  const { data: balance } = useBalance({
+    address: smartAccountAddress as `0x${string}`,
+  });
+
+  const availableItems = items.filter(item => item.status === 'available');
+  const total = availableItems.reduce((sum, item) => sum + item.price, 0n);
+  const totalPlatformFee = availableItems.reduce((sum, item) => sum + shareOf(item.price, platformFeeBps), 0n);
+
+  // Quote every track: active listing and the marketplace fee
+  useEffect(() => {
+    if (!isOpen || !publicClient || tracks.length === 0) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setIsComplete(false);
+
+    const loadQuote = async () => {
+      const fee = await publicClient.readContract({
+        address: CONTRACT_ADDRESSES.marketplace as `0x${string}`,
+        abi: MarketplaceABI,
+        functionName: 'platformFee',
+        authorizationList: [],
+      });
+
+      const quoted = await Promise.all(tracks.map(async (track): Promise<BundleItem> => {
+        const listing = await publicClient.readContract({
+          address: CONTRACT_ADDRESSES.marketplace as `0x${string}`,
+          abi: MarketplaceABI,
+          functionName: 'getActiveListing',
+          args: [CONTRACT_ADDRESSES.songNFT as `0x${string}`, BigInt(track.tokenId)],
+          authorizationList: [],
+        }).catch(() => null); // reverts with "No active listing"
+
+        const item: BundleItem = {
+          ...track,
+          listingId: null,
+          seller: null,
+          price: 0n,
+          status: 'unlisted',
+        };
+
+        if (!listing?.isActive) return item;
+
+        const isOwnListing = listing.seller.toLowerCase() === smartAccountAddress?.toLowerCase();
+        return {
+          ...item,
+          listingId: listing.id,
+          seller: listing.seller,
+          price: listing.price,
+          status: isOwnListing ? 'owned' : 'available',
+        };
+      }));
+
+      if (cancelled) return;
+      setPlatformFeeBps(fee);
+      setItems(quoted);
+    };
+
+    loadQuote()
+      .catch((error) => {
+        console.warn('⚠️ [BundleCheckout] Failed to load quote:', error);
+        if (!cancelled) setItems([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, tracks, publicClient, smartAccountAddress]);
+
+  const handleCheckout = async () => {
+    if (!smartAccountAddress) {
+      toast.error("Please connect your wallet first");
+      return;
+    }
+    if (!publicClient) {
+      toast.error("Public client not available");
+      return;
+    }
+    if (availableItems.length === 0) {
+      toast.error("No tracks in this bundle are for sale");
+      return;
+    }
+    if (balance && total > balance.value) {
+      toast.error("Insufficient balance");
+      return;
+    }
+
+    setIsPaying(true);
+    try {
+      toast.loading(`Purchasing ${availableItems.length} tracks...`, { id: "bundle-checkout" });
+
+      const data = encodeFunctionData({
+        abi: MarketplaceABI,
+        functionName: 'buyListings',
+        args: [availableItems.map(item => item.listingId!)],
+      });
+      const txHash = await executeGaslessTransaction(CONTRACT_ADDRESSES.marketplace, data, total);
+
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash: txHash as `0x${string}`,
+        timeout: 10000,
+        pollingInterval: 100,
+        confirmations: 1,
+      });
+      if (receipt.status !== 'success') {
+        throw new Error('Transaction reverted on blockchain');
+      }
+
+      // Work out which listings were filled from the marketplace events
+      const sold = new Set<string>();
+      const failures = new Map<string, string>();
+      for (const log of receipt.logs) {
+        if (log.address.toLowerCase() !== CONTRACT_ADDRESSES.marketplace.toLowerCase()) continue;
+        try {
+          const decoded = decodeEventLog({
+            abi: MarketplaceABI,
+            data: log.data,
+            // Receipt logs carry topics at runtime, the inferred receipt type drops them
+            topics: (log as typeof log & { topics: [signature: Hex, ...args: Hex[]] }).topics,
+          }) as BundleSaleEvent;
+          if (decoded.eventName === 'ListingSold') {
+            sold.add(decoded.args.listingId.toString());
+          } else if (decoded.eventName === 'BundleItemFailed') {
+            failures.set(decoded.args.listingId.toString(), decoded.args.reason);
+          }
+        } catch {
+          continue;
+        }
+      }
+
+      const results = items.map(item => {
+        if (item.status !== 'available') return item;
+        const listingId = item.listingId!.toString();
+        return sold.has(listingId)
+          ? { ...item, status: 'purchased' as const }
+          : { ...item, status: 'failed' as const, failureReason: failures.get(listingId) || 'Not filled' };
+      });
+      setItems(results);
+      setIsComplete(true);
+
+      const purchased = results.filter(item => item.status === 'purchased');
+      purchased.forEach(item => {
+        somniaDatastreamServiceV3.recordActivity({
+          user: smartAccountAddress,
+          activityType: ActivityHistoryType.PURCHASE,
+          title: 'Song purchased',
+          description: `Bought "${item.title}" in "${bundleTitle}"`,
+          targetId: item.tokenId,
+          targetAddress: item.seller!,
+          txHash,
+          metadata: JSON.stringify({ price: item.price.toString(), bundle: bundleTitle }),
+        }).catch(error => console.warn('⚠️ [BundleCheckout] Failed to record purchase:', error));
+      });
+
+      const failedCount = results.filter(item => item.status === 'failed').length;
+      if (failedCount === 0) {
+        toast.success(`Bought all ${purchased.length} tracks`, { id: "bundle-checkout" });
+      } else if (purchased.length > 0) {
+        toast.warning(`Bought ${purchased.length} of ${purchased.length + failedCount} tracks`, {
+          id: "bundle-checkout",
+          description: "Tracks that couldn't be bought were refunded",
+        });
+      } else {
+        toast.error("None of the tracks could be bought - your payment was refunded", { id: "bundle-checkout" });
+      }
+    } catch (error) {
+      console.error("Bundle purchase failed:", error);
+      toast.dismiss("bundle-checkout");
+      toast.error(error instanceof Error ? error.message : "Failed to purchase bundle");
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  const handleClose = () => {
+    setItems([]);
+    setIsComplete(false);
+    onClose();
+  };
+
+  const renderStatus = (item: BundleItem) => {
+    switch (item.status) {
+      case 'purchased':
+        return <Badge className="gap-1"><CheckCircle className="w-3 h-3" />Purchased</Badge>;
+      case 'failed':
+        return <Badge variant="destructive" className="gap-1"><XCircle className="w-3 h-3" />{item.failureReason}</Badge>;
+      case 'owned':
+        return <Badge variant="secondary">Your listing</Badge>;
+      case 'unlisted':
+        return <Badge variant="outline">Not for sale</Badge>;
+      default:
+        return <span className="font-semibold">{formatStt(item.price)}</span>;
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Package className="w-5 h-5 text-primary" />
+            Buy "{bundleTitle}"
+          </DialogTitle>
+          <DialogDescription>
+            Every listed track is bought in a single transaction. Anything that sells out first is refunded.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground py-6">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Checking listings...
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {items.map(item => (
+                <div
+                  key={item.tokenId}
+                  className={`p-3 border rounded-lg text-sm ${item.status === 'unlisted' || item.status === 'owned' ? 'opacity-60' : ''}`}
+                >
+                  <div className="flex items-center justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{item.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">{item.artist}</p>
+                    </div>
+                    {renderStatus(item)}
+                  </div>
+                  {item.status === 'available' && (
+                    <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                      <span>Seller receives: {formatStt(item.price - shareOf(item.price, platformFeeBps))}</span>
+                      <span>Platform fee: {formatStt(shareOf(item.price, platformFeeBps))}</span>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {!isComplete && availableItems.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-1 text-sm">
+                  <div className="flex justify-between text-muted-foreground">
+                    <span>Platform fee {Number(platformFeeBps) / 100}% (included)</span>
+                    <span>{formatStt(totalPlatformFee)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold text-base pt-1">
+                    <span>Total ({availableItems.length} tracks)</span>
+                    <span>{formatStt(total)}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Balance: {balance ? parseFloat(balance.formatted).toFixed(4) : "0"} STT
+                  </p>
+                </div>
+              </>
+            )}
+
+            <div className="flex gap-3">
+              <Button variant="outline" onClick={handleClose} className="flex-1" disabled={isPaying}>
+                {isComplete ? 'Close' : 'Cancel'}
+              </Button>
+              {!isComplete && (
+                <Button
+                  onClick={handleCheckout}
+                  className="flex-1 gap-2"
+                  disabled={isPaying || availableItems.length === 0}
+                >
+                  {isPaying ? <Loader2 className="w-4 h-4 animate-spin" /> : <Package className="w-4 h-4" />}
+                  {isPaying ? 'Purchasing...' : `Buy ${availableItems.length} tracks`}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BundleCheckoutModal;
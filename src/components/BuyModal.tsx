@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
@@ -12,8 +12,20 @@ import {
   Music,
   Download,
   Heart,
-  Share2
+  Share2,
+  Loader2,
+  HandCoins
 } from "lucide-react";
+import { useBalance, usePublicClient } from "wagmi";
+import { encodeFunctionData, formatEther } from "viem";
+import { toast } from "sonner";
+import { useSequence } from "@/contexts/SequenceContext";
+import { CONTRACT_ADDRESSES } from "@/lib/web3-config";
+import { MarketplaceABI } from "@/lib/abis/Marketplace";
+import { somniaDatastreamServiceV3 } from "@/services/somniaDatastreamService.v3";
+import { ActivityHistoryType, type PaymentAttribution } from "@/config/somniaDataStreams.v3";
+import { getReferrer } from "@/utils/referral";
+import MakeOfferModal from "@/components/MakeOfferModal";
 
 interface BuyModalProps {
   isOpen: boolean;
@@ -27,24 +39,175 @@ interface BuyModalProps {
     genre: string;
     duration: string;
     price?: number;
+    tokenId?: number; // SongNFT linked to the post (enables marketplace purchase)
   } | null;
 }
 
+interface ActiveListing {
+  id: bigint;
+  seller: string;
+  price: bigint;
+}
+
 const BuyModal = ({ isOpen, onClose, track }: BuyModalProps) => {
   const [step, setStep] = useState<'purchase' | 'payment' | 'success'>('purchase');
   const [paymentMethod, setPaymentMethod] = useState<'wallet' | 'card'>('wallet');
+  const [listing, setListing] = useState<ActiveListing | null>(null);
+  const [isLoadingListing, setIsLoadingListing] = useState(false);
+  const [isPaying, setIsPaying] = useState(false);
+  const [isOfferOpen, setIsOfferOpen] = useState(false);
+  const [referralFeeBps, setReferralFeeBps] = useState(0n);
+  const [platformFeeBps, setPlatformFeeBps] = useState(0n);
+
+  const { smartAccountAddress, executeGaslessTransaction } = useSequence();
+  const publicClient = usePublicClient();
+  const { data: balance } = useBalance({
+    address: smartAccountAddress as `0x${string}`,
+  });
+
+  // track.id is the post id the song was shared in
+  const referrer = getReferrer(track?.id, [smartAccountAddress, listing?.seller]);
+  const listingPrice = listing?.price ?? 0n;
+  // Marketplace pays the referrer a share of its platform fee - the buyer pays the listing price only
+  const referralCut = referrer ? (((listingPrice * platformFeeBps) / 10000n) * referralFeeBps) / 10000n : 0n;
+  const formatStt = (wei: bigint) => `${parseFloat(formatEther(wei)).toFixed(4)} STT`;
+
+  // Load active marketplace listing for the linked SongNFT
+  useEffect(() => {
+    if (!isOpen || !track?.tokenId || !publicClient) {
+      setListing(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoadingListing(true);
+
+    publicClient.readContract({
+      address: CONTRACT_ADDRESSES.marketplace as `0x${string}`,
+      abi: MarketplaceABI,
+      functionName: 'getActiveListing',
+      args: [CONTRACT_ADDRESSES.songNFT as `0x${string}`, BigInt(track.tokenId)],
+      authorizationList: [],
+    })
+      .then((result) => {
+        if (cancelled) return;
+        setListing(result?.isActive ? { id: result.id, seller: result.seller, price: result.price } : null);
+      })
+      .catch((error) => {
+        console.warn('⚠️ [BuyModal] Failed to load listing:', error);
+        if (!cancelled) setListing(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingListing(false);
+      });
 
-  const price = track?.price || 299; // Default price in SOMI
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, track?.tokenId, publicClient]);
+
+  // Referral share and platform fee are set on the marketplace contract
+  useEffect(() => {
+    if (!isOpen || !referrer || !publicClient) return;
+
+    const readFee = (functionName: 'referralFee' | 'platformFee') => publicClient.readContract({
+      address: CONTRACT_ADDRESSES.marketplace as `0x${string}`,
+      abi: MarketplaceABI,
+      functionName,
+      authorizationList: [],
+    });
+
+    Promise.all([readFee('referralFee'), readFee('platformFee')])
+      .then(([referralFee, platformFee]) => {
+        setReferralFeeBps(referralFee);
+        setPlatformFeeBps(platformFee);
+      })
+      .catch((error) => console.warn('⚠️ [BuyModal] Failed to load referral fee:', error));
+  }, [isOpen, referrer, publicClient]);
 
   const handlePurchase = () => {
     setStep('payment');
   };
 
-  const handlePayment = () => {
-    // Simulate payment processing
-    setTimeout(() => {
+  const waitForConfirmation = async (txHash: string) => {
+    if (!publicClient) {
+      throw new Error("Public client not available");
+    }
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash: txHash as `0x${string}`,
+      timeout: 10000,
+      pollingInterval: 100,
+      confirmations: 1,
+    });
+    if (receipt.status !== 'success') {
+      throw new Error('Transaction reverted on blockchain');
+    }
+  };
+
+  const handlePayment = async () => {
+    if (paymentMethod === 'card') {
+      toast.error("Card payments are not available yet");
+      return;
+    }
+    if (!smartAccountAddress) {
+      toast.error("Please connect your wallet first");
+      return;
+    }
+    if (!listing || !track?.tokenId) {
+      toast.error("This track is not listed for sale");
+      return;
+    }
+    if (balance && listingPrice > balance.value) {
+      toast.error("Insufficient balance");
+      return;
+    }
+
+    setIsPaying(true);
+    try {
+      toast.loading("Purchasing track...", { id: "buy-track" });
+
+      // Referred purchases pay the referrer's cut inside the same sale
+      const data = referrer
+        ? encodeFunctionData({
+            abi: MarketplaceABI,
+            functionName: 'buyListingWithReferral',
+            args: [listing.id, referrer as `0x${string}`],
+          })
+        : encodeFunctionData({
+            abi: MarketplaceABI,
+            functionName: 'buyListing',
+            args: [listing.id],
+          });
+      const txHash = await executeGaslessTransaction(CONTRACT_ADDRESSES.marketplace, data, listing.price);
+      await waitForConfirmation(txHash);
+
+      const payment: PaymentAttribution = referrer && referralCut > 0n
+        ? { txHash, referrer, referrerCut: referralCut.toString(), referrerTxHash: txHash }
+        : { txHash };
+
+      // Purchase record keeps the referrer attribution
+      somniaDatastreamServiceV3.recordActivity({
+        user: smartAccountAddress,
+        activityType: ActivityHistoryType.PURCHASE,
+        title: 'Song purchased',
+        description: `Bought "${track.title}"`,
+        targetId: track.tokenId,
+        targetAddress: listing.seller,
+        txHash,
+        metadata: JSON.stringify({ price: listing.price.toString(), ...payment }),
+      }).catch(error => console.warn('⚠️ [BuyModal] Failed to record purchase:', error));
+
+      await somniaDatastreamServiceV3.recordReferralPayment('purchase', track.tokenId, smartAccountAddress, listing.price, payment);
+
+      toast.dismiss("buy-track");
       setStep('success');
-    }, 2000);
+    } catch (error) {
+      console.error("Purchase failed:", error);
+      toast.dismiss("buy-track");
+      toast.error(error instanceof Error ? error.message : "Failed to purchase track");
+    } finally {
+      setIsPaying(false);
+    }
   };
 
   const handleClose = () => {
@@ -56,7 +219,8 @@ const BuyModal = ({ isOpen, onClose, track }: BuyModalProps) => {
   if (!track) return null;
 
   return (
-    <Dialog open={isOpen} onOpenChange={handleClose}>
+    <>
+    <Dialog open={isOpen && !isOfferOpen} onOpenChange={handleClose}>
       <DialogContent className="max-w-md">
         {step === 'purchase' && (
           <>
@@ -88,21 +252,34 @@ const BuyModal = ({ isOpen, onClose, track }: BuyModalProps) => {
               </div>
 
               {/* Pricing */}
-              <div className="space-y-3">
-                <div className="flex justify-between items-center">
-                  <span className="text-sm">Track Price</span>
-                  <span className="font-semibold text-lg">{price} SOMI</span>
+              {isLoadingListing ? (
+                <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Loading listing...
                 </div>
-                <div className="flex justify-between items-center">
-                  <span className="text-sm">Platform Fee</span>
-                  <span className="text-sm text-muted-foreground">0 SOMI</span>
+              ) : !listing ? (
+                <div className="text-sm text-muted-foreground text-center">
+                  This track is not listed for sale right now.
                 </div>
-                <Separator />
-                <div className="flex justify-between items-center">
-                  <span className="font-semibold">Total</span>
-                  <span className="font-semibold text-xl text-primary">{price} SOMI</span>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <span className="text-sm">Track Price</span>
+                    <span className="font-semibold text-lg">{formatStt(listingPrice)}</span>
+                  </div>
+                  {referralCut > 0n && (
+                    <div className="flex justify-between items-center">
+                      <span className="text-sm">Referral Reward ({Number(referralFeeBps) / 100}% of platform fee)</span>
+                      <span className="text-sm text-muted-foreground">{formatStt(referralCut)}</span>
+                    </div>
+                  )}
+                  <Separator />
+                  <div className="flex justify-between items-center">
+                    <span className="font-semibold">Total</span>
+                    <span className="font-semibold text-xl text-primary">{formatStt(listingPrice)}</span>
+                  </div>
                 </div>
-              </div>
+              )}
 
               {/* What's Included */}
               <div className="space-y-3">
@@ -132,11 +309,17 @@ const BuyModal = ({ isOpen, onClose, track }: BuyModalProps) => {
                 <Button variant="outline" onClick={handleClose} className="flex-1">
                   Cancel
                 </Button>
-                <Button onClick={handlePurchase} className="flex-1 gap-2">
+                <Button onClick={handlePurchase} className="flex-1 gap-2" disabled={!listing}>
                   <ShoppingCart className="w-4 h-4" />
                   Purchase
                 </Button>
               </div>
+              {track.tokenId && (
+                <Button variant="ghost" onClick={() => setIsOfferOpen(true)} className="w-full gap-2">
+                  <HandCoins className="w-4 h-4" />
+                  Make offer
+                </Button>
+              )}
             </div>
           </>
         )}
@@ -164,8 +347,10 @@ const BuyModal = ({ isOpen, onClose, track }: BuyModalProps) => {
                   <div className="flex items-center gap-3">
                     <Wallet className="w-5 h-5 text-primary" />
                     <div>
-                      <p className="font-medium">SOMI Wallet</p>
-                      <p className="text-sm text-muted-foreground">Balance: 1,250 SOMI</p>
+                      <p className="font-medium">STT Wallet</p>
+                      <p className="text-sm text-muted-foreground">
+                        Balance: {balance ? parseFloat(balance.formatted).toFixed(4) : "0"} STT
+                      </p>
                     </div>
                   </div>
                 </div>
@@ -191,17 +376,21 @@ const BuyModal = ({ isOpen, onClose, track }: BuyModalProps) => {
               {/* Total */}
               <div className="flex justify-between items-center p-4 bg-muted/30 rounded-lg">
                 <span className="font-semibold">Total to Pay</span>
-                <span className="font-semibold text-xl text-primary">{price} SOMI</span>
+                <span className="font-semibold text-xl text-primary">{formatStt(listingPrice)}</span>
               </div>
 
               {/* Action Buttons */}
               <div className="flex gap-3">
-                <Button variant="outline" onClick={() => setStep('purchase')} className="flex-1">
+                <Button variant="outline" onClick={() => setStep('purchase')} className="flex-1" disabled={isPaying}>
                   Back
                 </Button>
-                <Button onClick={handlePayment} className="flex-1 gap-2">
-                  <CreditCard className="w-4 h-4" />
-                  Pay Now
+                <Button onClick={handlePayment} className="flex-1 gap-2" disabled={isPaying}>
+                  {isPaying ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <CreditCard className="w-4 h-4" />
+                  )}
+                  {isPaying ? 'Processing...' : 'Pay Now'}
                 </Button>
               </div>
             </div>
@@ -256,6 +445,16 @@ const BuyModal = ({ isOpen, onClose, track }: BuyModalProps) => {
         )}
       </DialogContent>
     </Dialog>
+
+    <MakeOfferModal
+      isOpen={isOpen && isOfferOpen}
+      onClose={() => {
+        setIsOfferOpen(false);
+        handleClose();
+      }}
+      track={track}
+    />
+    </>
   );
 };
 
@@ -0,0 +1,247 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { X, Gem, Loader2 } from "lucide-react";
+import { useBalance, usePublicClient, useWalletClient } from "wagmi";
+import { formatEther } from "viem";
+import { toast } from "sonner";
+import { useSequence } from "@/contexts/SequenceContext";
+import { somniaDatastreamServiceV3 } from "@/services/somniaDatastreamService.v3";
+import type { CollectablePost } from "@/config/somniaDataStreams.v3";
+import { getReferrer } from "@/utils/referral";
+import { getReferralCutLabel } from "@/config/referral";
+
+interface CollectPostModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  post: CollectablePost;
+  authorName: string;
+  authorAvatar?: string;
+  onCollected?: () => void;
+}
+
+export default function CollectPostModal({
+  isOpen,
+  onClose,
+  post,
+  authorName,
+  authorAvatar,
+  onCollected,
+}: CollectPostModalProps) {
+  const { smartAccountAddress, executeGaslessTransaction } = useSequence();
+  const { data: walletClient } = useWalletClient();
+  const publicClient = usePublicClient();
+  const referrer = getReferrer(post.id, [smartAccountAddress, post.author, post.collectModule]);
+  const { data: balance } = useBalance({
+    address: smartAccountAddress as `0x${string}`,
+  });
+
+  const [isCollecting, setIsCollecting] = useState(false);
+  const [status, setStatus] = useState<{ collects: number; remaining: number | null; soldOut: boolean; hasCollected: boolean } | null>(null);
+
+  const priceWei = BigInt(post.collectPrice || 0);
+  const priceLabel = priceWei > 0n ? `${formatEther(priceWei)} STT` : "Free";
+
+  // Load live collect status when the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    somniaDatastreamServiceV3
+      .getCollectStatus(post, smartAccountAddress || undefined)
+      .then((result) => {
+        if (!cancelled) setStatus(result);
+      })
+      .catch((error) => console.warn("⚠️ Failed to load collect status:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, post, smartAccountAddress]);
+
+  const handleCollect = async () => {
+    if (!smartAccountAddress) {
+      toast.error("Please connect your wallet first");
+      return;
+    }
+
+    if (balance && priceWei > balance.value) {
+      toast.error("Insufficient balance");
+      return;
+    }
+
+    setIsCollecting(true);
+    try {
+      toast.loading("Collecting post...", { id: "collect-post" });
+
+      await somniaDatastreamServiceV3.collectPost(
+        post,
+        smartAccountAddress,
+        async (amountWei, recipient) => {
+          toast.loading("Sending payment...", { id: "collect-post" });
+          const txHash = await executeGaslessTransaction(
+            recipient as `0x${string}`,
+            "0x",
+            amountWei
+          );
+
+          if (!publicClient) {
+            throw new Error("Public client not available");
+          }
+
+          toast.loading("Confirming on blockchain...", { id: "collect-post" });
+          const receipt = await publicClient.waitForTransactionReceipt({
+            hash: txHash as `0x${string}`,
+            timeout: 10000,
+            pollingInterval: 100,
+            confirmations: 1,
+          });
+
+          if (receipt.status !== "success") {
+            throw new Error("Payment transaction failed");
+          }
+
+          return txHash;
+        },
+        walletClient,
+        referrer
+      );
+
+      toast.dismiss("collect-post");
+      toast.success("Post collected!", {
+        description: `You collected a post by ${authorName}`,
+      });
+
+      // 🔔 Send collect notification
+      try {
+        const { notificationService } = await import("@/services/notificationService");
+        await notificationService.notifyCollect(
+          smartAccountAddress,
+          post.author,
+          post.id.toString(),
+          priceLabel
+        );
+      } catch (notifError) {
+        console.warn("⚠️ Failed to send collect notification:", notifError);
+      }
+
+      onCollected?.();
+      onClose();
+    } catch (error: any) {
+      console.error("Collect failed:", error);
+      toast.dismiss("collect-post");
+      toast.error(error.message || "Failed to collect post");
+    } finally {
+      setIsCollecting(false);
+    }
+  };
+
+  const collects = status?.collects ?? post.collectCount ?? 0;
+  const isUnavailable = status?.soldOut || status?.hasCollected;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md bg-background border-border/50 p-0">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-border/50">
+          <DialogTitle className="text-xl font-semibold">Collect post</DialogTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 hover:bg-accent"
+            onClick={onClose}
+          >
+            <X className="w-5 h-5" />
+          </Button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Author Info */}
+          <div className="flex items-center gap-3 p-4 bg-card/50 border border-border/50 rounded-xl">
+            <Avatar className="w-12 h-12 border-2 border-primary/20">
+              <AvatarImage src={authorAvatar} />
+              <AvatarFallback className="bg-gradient-to-br from-primary to-purple-600 text-white">
+                {authorName?.charAt(0)?.toUpperCase() || 'U'}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1">
+              <div className="font-semibold">{authorName || 'User'}</div>
+              <div className="text-xs text-muted-foreground">
+                {post.author?.slice(0, 6)}...{post.author?.slice(-4)}
+              </div>
+            </div>
+            <Gem className="w-5 h-5 text-primary" />
+          </div>
+
+          {/* Collect Details */}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="p-4 bg-card/50 border border-border/50 rounded-xl">
+              <div className="text-xs text-muted-foreground">Price</div>
+              <div className="text-lg font-semibold">{priceLabel}</div>
+            </div>
+            <div className="p-4 bg-card/50 border border-border/50 rounded-xl">
+              <div className="text-xs text-muted-foreground">Collected</div>
+              <div className="text-lg font-semibold">
+                {collects}
+                {post.collectLimit > 0 ? ` / ${post.collectLimit}` : ''}
+              </div>
+            </div>
+          </div>
+
+          {/* Balance Info */}
+          {priceWei > 0n && (
+            <div className="text-xs text-muted-foreground text-center">
+              Your balance: {balance ? parseFloat(balance.formatted).toFixed(4) : "0"} STT
+            </div>
+          )}
+
+          {/* Referral Info */}
+          {priceWei > 0n && referrer && (
+            <div className="text-xs text-muted-foreground text-center">
+              {getReferralCutLabel()} goes to {referrer.slice(0, 6)}...{referrer.slice(-4)} who shared this post
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              className="flex-1 h-12"
+              onClick={onClose}
+              disabled={isCollecting}
+            >
+              Cancel
+            </Button>
+            <Button
+              className="flex-1 h-12 bg-primary hover:bg-primary/90"
+              onClick={handleCollect}
+              disabled={isCollecting || !status || isUnavailable}
+            >
+              {isCollecting ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Collecting...
+                </>
+              ) : status?.hasCollected ? (
+                "Already collected"
+              ) : status?.soldOut ? (
+                "Sold out"
+              ) : (
+                `Collect for ${priceLabel}`
+              )}
+            </Button>
+          </div>
+
+          {/* Info */}
+          <div className="text-xs text-muted-foreground text-center space-y-1">
+            <div className="flex items-center justify-center gap-1">
+              <span className="text-green-500">⚡</span>
+              <span>Gasless transaction - No fees required</span>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,8 @@ import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAccount } from "wagmi";
 import {
   Music,
   Plus,
@@ -16,8 +18,19 @@ import {
   Image as ImageIcon,
   Sparkles,
   ListMusic,
-  Wand2
+  Wand2,
+  Filter,
+  Loader2
 } from "lucide-react";
+import {
+  smartPlaylistService,
+  describeSmartRules,
+  SMART_RULE_FIELDS,
+  SMART_RULE_OPERATOR_LABELS,
+  type SmartPlaylistRules,
+  type SmartRuleCondition,
+  type SmartRuleField
+} from "@/services/smartPlaylistService";
 
 interface CreatePlaylistModalProps {
   isOpen: boolean;
@@ -29,14 +42,51 @@ interface CreatePlaylistModalProps {
     coverHash: string;
     isPublic: boolean;
     trackIds: string[];
-    creationMode?: 'manual' | 'ai';
+    creationMode?: 'manual' | 'ai' | 'smart';
     aiPrompt?: string;
     tracks?: any[];
+    rules?: SmartPlaylistRules;
   }) => void;
 }
 
+const SMART_PRESETS: Array<{ label: string; rules: SmartPlaylistRules }> = [
+  {
+    label: "Fresh lo-fi hits",
+    rules: {
+      match: 'all',
+      conditions: [
+        { field: 'genre', operator: 'is', value: 'lo-fi' },
+        { field: 'mintedAt', operator: 'inLastDays', value: 30 },
+        { field: 'plays', operator: 'gt', value: 100 },
+      ],
+      sortBy: 'plays',
+    },
+  },
+  {
+    label: "Liked but not owned",
+    rules: {
+      match: 'all',
+      conditions: [
+        { field: 'likedByMe', operator: 'is', value: true },
+        { field: 'ownedByMe', operator: 'is', value: false },
+      ],
+      sortBy: 'newest',
+    },
+  },
+];
+
+const createDefaultCondition = (field: SmartRuleField = 'genre'): SmartRuleCondition => {
+  const config = SMART_RULE_FIELDS[field];
+  return {
+    field,
+    operator: config.operators[0],
+    value: config.type === 'boolean' ? true : config.type === 'text' ? '' : 0,
+  };
+};
+
 const CreatePlaylistModal = ({ isOpen, onClose, onCreate }: CreatePlaylistModalProps) => {
-  const [creationMode, setCreationMode] = useState<'manual' | 'ai'>('manual');
+  const { address } = useAccount();
+  const [creationMode, setCreationMode] = useState<'manual' | 'ai' | 'smart'>('manual');
   const [aiStep, setAiStep] = useState<'prompt' | 'generating' | 'result'>('prompt');
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
@@ -47,6 +97,50 @@ const CreatePlaylistModal = ({ isOpen, onClose, onCreate }: CreatePlaylistModalP
   // AI fields
   const [aiPrompt, setAiPrompt] = useState("");
   const [playlistName, setPlaylistName] = useState("");
+  // Smart playlist fields
+  const [smartRules, setSmartRules] = useState<SmartPlaylistRules>({
+    match: 'all',
+    conditions: [createDefaultCondition()],
+    sortBy: 'newest',
+    limit: 50,
+  });
+  const [smartPreviewCount, setSmartPreviewCount] = useState<number | null>(null);
+  const [isPreviewingSmart, setIsPreviewingSmart] = useState(false);
+
+  const updateSmartRules = (updates: Partial<SmartPlaylistRules>) => {
+    setSmartRules(prev => ({ ...prev, ...updates }));
+    setSmartPreviewCount(null);
+  };
+
+  const updateCondition = (index: number, updates: Partial<SmartRuleCondition>) => {
+    updateSmartRules({
+      conditions: smartRules.conditions.map((condition, i) => {
+        if (i !== index) return condition;
+        // Changing the field resets operator and value to ones that field supports
+        return updates.field && updates.field !== condition.field
+          ? createDefaultCondition(updates.field)
+          : { ...condition, ...updates };
+      }),
+    });
+  };
+
+  const handleSmartPreview = async () => {
+    if (!address) return;
+    setIsPreviewingSmart(true);
+    try {
+      const trackIds = await smartPlaylistService.evaluate(smartRules, address);
+      setSmartPreviewCount(trackIds.length);
+    } catch (error) {
+      console.error('❌ Failed to preview smart playlist:', error);
+      setSmartPreviewCount(null);
+    } finally {
+      setIsPreviewingSmart(false);
+    }
+  };
+
+  const isSmartValid = smartRules.conditions.length > 0 && smartRules.conditions.every(condition =>
+    SMART_RULE_FIELDS[condition.field].type === 'boolean' || String(condition.value).trim() !== ''
+  );
 
   // Handle cover image file upload
   const handleCoverFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -138,6 +232,7 @@ const CreatePlaylistModal = ({ isOpen, onClose, onCreate }: CreatePlaylistModalP
     
     if (creationMode === 'manual' && !title.trim()) return;
     if (creationMode === 'ai' && aiStep !== 'result') return;
+    if (creationMode === 'smart' && (!title.trim() || !isSmartValid)) return;
 
     // Prepare track IDs for blockchain storage
     const trackIds = creationMode === 'ai' 
@@ -145,8 +240,12 @@ const CreatePlaylistModal = ({ isOpen, onClose, onCreate }: CreatePlaylistModalP
       : [];
 
     const playlistData = {
-      title: creationMode === 'manual' ? title.trim() : (playlistName.trim() || `AI Generated: ${aiPrompt.slice(0, 30)}...`),
-      description: creationMode === 'manual' ? description.trim() : `Created with HiBeats AI based on: "${aiPrompt}"`,
+      title: creationMode !== 'ai' ? title.trim() : (playlistName.trim() || `AI Generated: ${aiPrompt.slice(0, 30)}...`),
+      description: creationMode === 'manual'
+        ? description.trim()
+        : creationMode === 'smart'
+          ? (description.trim() || describeSmartRules(smartRules))
+          : `Created with HiBeats AI based on: "${aiPrompt}"`,
       cover: coverUrl || "/api/placeholder/300/300", // ✅ Pass blob URL or IPFS URL
       coverHash: '', // Will be set by parent component after IPFS upload
       isPublic,
@@ -156,6 +255,9 @@ const CreatePlaylistModal = ({ isOpen, onClose, onCreate }: CreatePlaylistModalP
       ...(creationMode === 'ai' && {
         aiPrompt: aiPrompt.trim(),
         tracks: generatedTracks // Full track data for UI
+      }),
+      ...(creationMode === 'smart' && {
+        rules: smartRules // Tracks are resolved from the rules by the playlist service
       })
     };
 
@@ -171,6 +273,12 @@ const CreatePlaylistModal = ({ isOpen, onClose, onCreate }: CreatePlaylistModalP
     setCoverFile(null);
     setAiPrompt("");
     setPlaylistName("");
+    resetSmartRules();
+  };
+
+  const resetSmartRules = () => {
+    setSmartRules({ match: 'all', conditions: [createDefaultCondition()], sortBy: 'newest', limit: 50 });
+    setSmartPreviewCount(null);
   };
 
   const handleClose = () => {
@@ -182,6 +290,7 @@ const CreatePlaylistModal = ({ isOpen, onClose, onCreate }: CreatePlaylistModalP
     setCoverUrl("");
     setAiPrompt("");
     setPlaylistName("");
+    resetSmartRules();
     onClose();
   };
 
@@ -196,8 +305,8 @@ const CreatePlaylistModal = ({ isOpen, onClose, onCreate }: CreatePlaylistModalP
         </DialogHeader>
 
         <form onSubmit={handleSubmit}>
-          <Tabs value={creationMode} onValueChange={(value) => setCreationMode(value as 'manual' | 'ai')} className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <Tabs value={creationMode} onValueChange={(value) => setCreationMode(value as 'manual' | 'ai' | 'smart')} className="w-full">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="manual" className="gap-2">
               <Plus className="w-4 h-4" />
               Manual
@@ -206,6 +315,10 @@ const CreatePlaylistModal = ({ isOpen, onClose, onCreate }: CreatePlaylistModalP
               <Sparkles className="w-4 h-4" />
               Create with AI
             </TabsTrigger>
+            <TabsTrigger value="smart" className="gap-2">
+              <Filter className="w-4 h-4" />
+              Smart
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="manual" className="space-y-6 mt-6">
@@ -433,6 +546,181 @@ const CreatePlaylistModal = ({ isOpen, onClose, onCreate }: CreatePlaylistModalP
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="smart" className="space-y-4 mt-6">
+            {/* Title */}
+            <div className="space-y-2">
+              <Label htmlFor="smartTitle">Playlist Title *</Label>
+              <Input
+                id="smartTitle"
+                placeholder="e.g., Fresh Lo-fi Hits"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+
+            {/* Presets */}
+            <div className="flex flex-wrap gap-2">
+              {SMART_PRESETS.map(preset => (
+                <Button
+                  key={preset.label}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => updateSmartRules(preset.rules)}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+
+            {/* Match mode */}
+            <div className="flex items-center gap-2 text-sm">
+              <span>Match</span>
+              <Select
+                value={smartRules.match}
+                onValueChange={(value) => updateSmartRules({ match: value as 'all' | 'any' })}
+              >
+                <SelectTrigger className="h-8 w-20">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">all</SelectItem>
+                  <SelectItem value="any">any</SelectItem>
+                </SelectContent>
+              </Select>
+              <span>of these rules</span>
+            </div>
+
+            {/* Conditions */}
+            <div className="space-y-2 max-h-56 overflow-y-auto">
+              {smartRules.conditions.map((condition, index) => {
+                const fieldConfig = SMART_RULE_FIELDS[condition.field];
+                return (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select
+                      value={condition.field}
+                      onValueChange={(value) => updateCondition(index, { field: value as SmartRuleField })}
+                    >
+                      <SelectTrigger className="h-8 flex-1 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(SMART_RULE_FIELDS).map(([field, config]) => (
+                          <SelectItem key={field} value={field}>{config.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {fieldConfig.type === 'boolean' ? (
+                      <div className="flex flex-1 items-center justify-end gap-2">
+                        <span className="text-xs text-muted-foreground">{condition.value ? 'Yes' : 'No'}</span>
+                        <Switch
+                          checked={Boolean(condition.value)}
+                          onCheckedChange={(checked) => updateCondition(index, { value: checked })}
+                        />
+                      </div>
+                    ) : (
+                      <>
+                        <Select
+                          value={condition.operator}
+                          onValueChange={(value) => updateCondition(index, { operator: value as SmartRuleCondition['operator'] })}
+                        >
+                          <SelectTrigger className="h-8 flex-1 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {fieldConfig.operators.map(operator => (
+                              <SelectItem key={operator} value={operator}>{SMART_RULE_OPERATOR_LABELS[operator]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          className="h-8 flex-1 text-xs"
+                          type={fieldConfig.type === 'text' ? 'text' : 'number'}
+                          min={0}
+                          value={String(condition.value)}
+                          onChange={(e) => updateCondition(index, {
+                            value: fieldConfig.type === 'text' ? e.target.value : Number(e.target.value)
+                          })}
+                        />
+                      </>
+                    )}
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="w-8 h-8 p-0"
+                      onClick={() => updateSmartRules({ conditions: smartRules.conditions.filter((_, i) => i !== index) })}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="gap-2"
+              onClick={() => updateSmartRules({ conditions: [...smartRules.conditions, createDefaultCondition()] })}
+            >
+              <Plus className="w-4 h-4" />
+              Add Rule
+            </Button>
+
+            {/* Sort & limit */}
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Sort by</Label>
+                <Select
+                  value={smartRules.sortBy || 'newest'}
+                  onValueChange={(value) => updateSmartRules({ sortBy: value as SmartPlaylistRules['sortBy'] })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="newest">Newest</SelectItem>
+                    <SelectItem value="plays">Most played</SelectItem>
+                    <SelectItem value="likes">Most liked</SelectItem>
+                    <SelectItem value="price">Highest price</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Max tracks</Label>
+                <Input
+                  className="h-8 text-xs"
+                  type="number"
+                  min={1}
+                  max={200}
+                  value={smartRules.limit || 50}
+                  onChange={(e) => updateSmartRules({ limit: Math.min(200, Math.max(1, Number(e.target.value) || 1)) })}
+                />
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="flex items-center justify-between gap-2 p-3 rounded-md bg-muted/50">
+              <p className="text-xs text-muted-foreground">
+                {smartPreviewCount !== null
+                  ? `${smartPreviewCount} matching tracks right now. The playlist updates automatically.`
+                  : 'Tracks refresh automatically as songs are minted, played and liked.'}
+              </p>
+              <Button
+                type="button"
+                variant="secondary"
+                size="sm"
+                onClick={handleSmartPreview}
+                disabled={!address || !isSmartValid || isPreviewingSmart}
+              >
+                {isPreviewingSmart ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Preview'}
+              </Button>
+            </div>
+          </TabsContent>
         </Tabs>
 
         {/* Privacy Setting */}
@@ -473,6 +761,15 @@ const CreatePlaylistModal = ({ isOpen, onClose, onCreate }: CreatePlaylistModalP
               Create Playlist
             </Button>
           )}
+          {creationMode === 'smart' && (
+            <Button
+              type="submit"
+              disabled={!title.trim() || !isSmartValid}
+              className="flex-1"
+            >
+              Create Smart Playlist
+            </Button>
+          )}
           {creationMode === 'ai' && aiStep === 'result' && (
             <Button
               type="submit"
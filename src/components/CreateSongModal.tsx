@@ -32,7 +32,8 @@ import {
   ExternalLink,
   Upload,
   File,
-  Image as ImageIcon
+  Image as ImageIcon,
+  Timer
 } from "lucide-react";
 import { useAccount } from "wagmi";
 import { sunoService } from "@/services/sunoService";
@@ -43,6 +44,8 @@ import { useNFTOperations } from "@/hooks/useNFTOperations";
 import { useSequence } from "@/contexts/SequenceContext";
 import { useCurrentUserProfile } from "@/hooks/useRealTimeProfile";
 import ArtistUpgradeModal from "./ArtistUpgradeModal";
+import LyricsSyncEditor from "./LyricsSyncEditor";
+import { isSyncedLyrics } from "@/utils/lyrics";
 import { CONTRACT_ADDRESSES } from "@/lib/web3-config";
 import { somniaDatastreamServiceV3 } from "@/services/somniaDatastreamService.v3";
 import { createPostId, ContentType, type PostDataV3 } from "@/config/somniaDataStreams.v3";
@@ -80,6 +83,7 @@ const CreateSongModal = ({ isOpen, onClose, onShareToFeed }: CreateSongModalProp
   const [uploadReleaseDate, setUploadReleaseDate] = useState('');
   const [uploadLanguage, setUploadLanguage] = useState('');
   const [uploadLyrics, setUploadLyrics] = useState('');
+  const [showLyricsEditor, setShowLyricsEditor] = useState(false);
   const [uploadCopyright, setUploadCopyright] = useState('');
   const [uploadISRC, setUploadISRC] = useState('');
   const [uploadIsExplicit, setUploadIsExplicit] = useState(false);
@@ -709,6 +713,7 @@ const CreateSongModal = ({ isOpen, onClose, onShareToFeed }: CreateSongModalProp
             originalAudioUrl: track.audioUrl,
             originalImageUrl: track.imageUrl,
             genre: track.tags.split(', '),
+            lyrics: generationParams.lyrics,
             ipfsHash: ipfsResult.metadataHash,
             ipfsAudioHash: ipfsResult.audioHash,
             ipfsImageHash: ipfsResult.imageHash,
@@ -1142,7 +1147,7 @@ const CreateSongModal = ({ isOpen, onClose, onShareToFeed }: CreateSongModalProp
         replyToId: 0,
         mentions: '',
         collectModule: '0x0000000000000000000000000000000000000000',
-        collectPrice: 0,
+        collectPrice: '0',
         collectLimit: 0,
         collectCount: 0,
         isGated: false,
@@ -1811,18 +1816,38 @@ const CreateSongModal = ({ isOpen, onClose, onShareToFeed }: CreateSongModalProp
 
                 {/* Lyrics */}
                 <div className="space-y-2">
-                  <Label htmlFor="uploadLyrics">Lyrics (Optional)</Label>
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="uploadLyrics">Lyrics (Optional)</Label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 text-xs"
+                      onClick={() => setShowLyricsEditor(true)}
+                      disabled={!uploadedAudioFile || !uploadLyrics.trim()}
+                    >
+                      <Timer className="w-3 h-3 mr-1" />
+                      {isSyncedLyrics(uploadLyrics) ? 'Edit timings' : 'Sync timings'}
+                    </Button>
+                  </div>
                   <Textarea
                     id="uploadLyrics"
                     placeholder="Enter song lyrics here..."
                     value={uploadLyrics}
                     onChange={(e) => setUploadLyrics(e.target.value)}
                     className="min-h-[120px] resize-none font-mono text-sm"
-                    maxLength={5000}
+                    maxLength={8000}
                   />
                   <p className="text-xs text-muted-foreground">
-                    Adding lyrics helps fans connect with your music • {uploadLyrics.length}/5000
+                    Adding lyrics helps fans connect with your music • Sync timings to show them line by line while the song plays • {uploadLyrics.length}/8000
                   </p>
+                  <LyricsSyncEditor
+                    open={showLyricsEditor}
+                    onOpenChange={setShowLyricsEditor}
+                    audioSource={uploadedAudioFile}
+                    lyrics={uploadLyrics}
+                    onSave={setUploadLyrics}
+                  />
                 </div>
 
                 {/* Copyright & Legal */}
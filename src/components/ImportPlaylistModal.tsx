@@ -0,0 +1,249 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileUp, Loader2, CheckCircle, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import { playlistService, type PlaylistImportMatch } from "@/services/playlistService";
+
+interface ImportPlaylistModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (playlistData: {
+    title: string;
+    description: string;
+    coverHash: string;
+    isPublic: boolean;
+    trackIds: string[];
+  }) => Promise<void> | void;
+}
+
+const SKIP_VALUE = "skip";
+
+const METHOD_LABELS = {
+  tokenId: "Token ID",
+  ipfs: "IPFS hash",
+  fuzzy: "Title match",
+};
+
+const ImportPlaylistModal = ({ isOpen, onClose, onImport }: ImportPlaylistModalProps) => {
+  const [step, setStep] = useState<'upload' | 'matching' | 'review'>('upload');
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [coverHash, setCoverHash] = useState("");
+  const [isPublic, setIsPublic] = useState(true);
+  const [matches, setMatches] = useState<PlaylistImportMatch[]>([]);
+  // Track index -> chosen token ID (or SKIP_VALUE)
+  const [selections, setSelections] = useState<Record<number, string>>({});
+  const [isImporting, setIsImporting] = useState(false);
+
+  const reset = () => {
+    setStep('upload');
+    setTitle("");
+    setDescription("");
+    setCoverHash("");
+    setIsPublic(true);
+    setMatches([]);
+    setSelections({});
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setStep('matching');
+    try {
+      const content = await file.text();
+      const parsed = playlistService.parseImportFile(content, file.name);
+      if (parsed.tracks.length === 0) {
+        toast.error('No tracks found in this file');
+        setStep('upload');
+        return;
+      }
+
+      const results = await playlistService.matchImportedTracks(parsed.tracks);
+      setTitle(parsed.title);
+      setDescription(parsed.description);
+      setCoverHash(parsed.coverHash || "");
+      setIsPublic(parsed.isPublic ?? true);
+      setMatches(results);
+      setSelections(Object.fromEntries(results.map((match, index) => [index, match.tokenId || SKIP_VALUE])));
+      setStep('review');
+    } catch (error) {
+      console.error('❌ Failed to read playlist file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read playlist file');
+      setStep('upload');
+    }
+  };
+
+  const selectedTrackIds = Array.from(new Set(
+    matches
+      .map((_, index) => selections[index])
+      .filter(tokenId => tokenId && tokenId !== SKIP_VALUE)
+  ));
+  const exactCount = matches.filter(match => match.method === 'tokenId' || match.method === 'ipfs').length;
+  const needsReviewCount = matches.filter(match => match.method !== 'tokenId' && match.method !== 'ipfs').length;
+
+  const handleImport = async () => {
+    if (!title.trim() || selectedTrackIds.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      await onImport({
+        title: title.trim(),
+        description: description.trim(),
+        coverHash,
+        isPublic,
+        trackIds: selectedTrackIds,
+      });
+      reset();
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-primary" />
+            Import Playlist
+          </DialogTitle>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Import an M3U/M3U8, XSPF or HiBeats JSON playlist. Tracks are matched to minted songs by token ID,
+              IPFS hash or title and artist.
+            </p>
+            <input
+              type="file"
+              id="playlist-import"
+              accept=".m3u,.m3u8,.xspf,.json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full h-24 border-dashed gap-2"
+              onClick={() => document.getElementById('playlist-import')?.click()}
+            >
+              <FileUp className="w-5 h-5" />
+              Choose playlist file
+            </Button>
+          </div>
+        )}
+
+        {step === 'matching' && (
+          <div className="flex items-center justify-center gap-2 py-12 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Matching tracks to minted songs...
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="importTitle">Playlist Title *</Label>
+              <Input
+                id="importTitle"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              <Badge variant="secondary" className="gap-1">
+                <CheckCircle className="w-3 h-3" />
+                {exactCount} matched
+              </Badge>
+              {needsReviewCount > 0 && (
+                <Badge variant="outline" className="gap-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  {needsReviewCount} to review
+                </Badge>
+              )}
+            </div>
+
+            {/* Review list - exact matches are fixed, the rest can be picked or skipped */}
+            <div className="space-y-2 max-h-72 overflow-y-auto pr-1">
+              {matches.map((match, index) => {
+                const isExact = match.method === 'tokenId' || match.method === 'ipfs';
+                return (
+                  <div key={index} className="flex items-center gap-3 p-2 rounded-md bg-muted/50">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{match.track.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">{match.track.artist || 'Unknown artist'}</p>
+                    </div>
+                    {isExact ? (
+                      <Badge variant="outline" className="text-xs shrink-0">
+                        {METHOD_LABELS[match.method]} • #{match.tokenId}
+                      </Badge>
+                    ) : match.candidates.length > 0 ? (
+                      <Select
+                        value={selections[index] || SKIP_VALUE}
+                        onValueChange={(value) => setSelections(prev => ({ ...prev, [index]: value }))}
+                      >
+                        <SelectTrigger className="h-8 w-44 text-xs shrink-0">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {match.candidates.map(candidate => (
+                            <SelectItem key={candidate.tokenId} value={candidate.tokenId}>
+                              {candidate.title} ({Math.round(candidate.score * 100)}%)
+                            </SelectItem>
+                          ))}
+                          <SelectItem value={SKIP_VALUE}>Skip track</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="secondary" className="text-xs shrink-0">Not minted</Badge>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label>Public playlist</Label>
+              <Switch checked={isPublic} onCheckedChange={setIsPublic} />
+            </div>
+
+            <div className="flex gap-3">
+              <Button type="button" variant="outline" className="flex-1" onClick={reset} disabled={isImporting}>
+                Choose another file
+              </Button>
+              <Button
+                type="button"
+                className="flex-1"
+                onClick={handleImport}
+                disabled={!title.trim() || selectedTrackIds.length === 0 || isImporting}
+              >
+                {isImporting ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  `Import ${selectedTrackIds.length} tracks`
+                )}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportPlaylistModal;
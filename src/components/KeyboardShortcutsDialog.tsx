@@ -0,0 +1,58 @@
+import React from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Keyboard } from "lucide-react";
+import { PLAYER_SHORTCUTS } from "@/hooks/usePlayerShortcuts";
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const KeyboardShortcutsDialog: React.FC<KeyboardShortcutsDialogProps> = ({ open, onOpenChange }) => {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Keyboard className="w-5 h-5" />
+            Keyboard shortcuts
+          </DialogTitle>
+          <DialogDescription>Control the player from anywhere in the app</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          {PLAYER_SHORTCUTS.map(shortcut => (
+            <div
+              key={shortcut.description}
+              className="flex items-center justify-between py-2 border-b last:border-b-0"
+            >
+              <span className="text-sm">{shortcut.description}</span>
+              <div className="flex items-center gap-1">
+                {shortcut.keys.map(key => (
+                  <kbd
+                    key={key}
+                    className="min-w-[1.75rem] px-2 py-0.5 rounded-md border bg-muted text-xs font-mono text-center"
+                  >
+                    {key}
+                  </kbd>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Media keys, headset buttons and lock screen controls work too.
+        </p>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default KeyboardShortcutsDialog;
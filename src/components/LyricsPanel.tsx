@@ -0,0 +1,112 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Loader2, Mic2 } from "lucide-react";
+import { useAudio } from "@/contexts/AudioContext";
+import { lyricsService } from "@/services/lyricsService";
+import { getActiveLyricIndex, parseLyrics } from "@/utils/lyrics";
+import { cn } from "@/lib/utils";
+
+interface LyricsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const LyricsPanel: React.FC<LyricsPanelProps> = ({ open, onOpenChange }) => {
+  const { currentTrack, currentTime, seekTo } = useAudio();
+  const [rawLyrics, setRawLyrics] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const lineRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  // Load lyrics for the current track while the panel is open
+  useEffect(() => {
+    if (!open || !currentTrack) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setRawLyrics('');
+    lyricsService.getLyrics(currentTrack).then(lyrics => {
+      if (cancelled) return;
+      setRawLyrics(lyrics);
+      setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, currentTrack]);
+
+  const lyrics = useMemo(() => parseLyrics(rawLyrics), [rawLyrics]);
+  const activeIndex = lyrics.synced ? getActiveLyricIndex(lyrics.lines, currentTime) : -1;
+
+  // Keep the sung line in view
+  useEffect(() => {
+    if (activeIndex >= 0) {
+      lineRefs.current[activeIndex]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [activeIndex]);
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Mic2 className="w-5 h-5" />
+            Lyrics
+          </SheetTitle>
+          <SheetDescription className="truncate">
+            {currentTrack ? `${currentTrack.title} · ${currentTrack.artist}` : 'Nothing is playing'}
+          </SheetDescription>
+        </SheetHeader>
+
+        <ScrollArea className="flex-1 -mx-2">
+          <div className="px-2 py-4">
+            {isLoading ? (
+              <div className="flex items-center justify-center py-12 text-muted-foreground">
+                <Loader2 className="w-5 h-5 animate-spin mr-2" />
+                Loading lyrics...
+              </div>
+            ) : lyrics.lines.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">No lyrics for this song yet</p>
+            ) : lyrics.synced ? (
+              <div className="space-y-3">
+                {lyrics.lines.map((line, index) => (
+                  <button
+                    key={`${line.time}-${index}`}
+                    ref={element => {
+                      lineRefs.current[index] = element;
+                    }}
+                    type="button"
+                    onClick={() => line.time !== null && seekTo(line.time)}
+                    className={cn(
+                      "block w-full text-left text-lg font-semibold transition-all duration-300",
+                      index === activeIndex
+                        ? "text-foreground scale-[1.02] origin-left"
+                        : index < activeIndex
+                          ? "text-muted-foreground/60 hover:text-muted-foreground"
+                          : "text-muted-foreground hover:text-foreground/80"
+                    )}
+                  >
+                    {line.text || '♪'}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-base leading-relaxed whitespace-pre-line">
+                {lyrics.lines.map(line => line.text).join('\n')}
+              </p>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default LyricsPanel;
@@ -0,0 +1,233 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Pause, Play, RotateCcw, Timer, Undo2 } from "lucide-react";
+import { formatLrcTimestamp, parseLyrics, serializeLrc, toPlainLyrics, type LyricLine } from "@/utils/lyrics";
+import { cn } from "@/lib/utils";
+
+interface LyricsSyncEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  audioSource: File | string | null;  // song being synced
+  lyrics: string;                       // plain text or LRC
+  onSave: (lyrics: string) => void;     // LRC when every line has a time, plain text otherwise
+}
+
+// Blank lines are not sung - they are left out of the timing
+const toEditorLines = (lyrics: string): LyricLine[] => {
+  return parseLyrics(lyrics).lines.filter(line => line.text.trim() !== '');
+};
+
+/**
+ * Tap out lyric timings: play the song and press Tap (or Enter) when each line starts
+ */
+const LyricsSyncEditor: React.FC<LyricsSyncEditorProps> = ({
+  open,
+  onOpenChange,
+  audioSource,
+  lyrics,
+  onSave
+}) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const lineRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [lines, setLines] = useState<LyricLine[]>([]);
+  const [cursor, setCursor] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const audioUrl = useMemo(() => {
+    if (!audioSource) return '';
+    return typeof audioSource === 'string' ? audioSource : URL.createObjectURL(audioSource);
+  }, [audioSource]);
+
+  useEffect(() => {
+    return () => {
+      if (audioSource instanceof File && audioUrl) URL.revokeObjectURL(audioUrl);
+    };
+  }, [audioSource, audioUrl]);
+
+  // Start from the current lyrics every time the editor opens
+  useEffect(() => {
+    if (!open) return;
+    const initial = toEditorLines(lyrics);
+    setLines(initial);
+    const firstUntimed = initial.findIndex(line => line.time === null);
+    setCursor(firstUntimed === -1 ? initial.length : firstUntimed);
+    setCurrentTime(0);
+  }, [open, lyrics]);
+
+  useEffect(() => {
+    if (!open) {
+      audioRef.current?.pause();
+    }
+  }, [open]);
+
+  useEffect(() => {
+    lineRefs.current[cursor]?.scrollIntoView({ block: 'nearest' });
+  }, [cursor]);
+
+  const timedCount = lines.filter(line => line.time !== null).length;
+  const isComplete = lines.length > 0 && timedCount === lines.length;
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(error => console.error('❌ [LyricsEditor] Playback failed:', error));
+    } else {
+      audio.pause();
+    }
+  };
+
+  const tap = () => {
+    const audio = audioRef.current;
+    if (!audio || cursor >= lines.length) return;
+
+    // Timings never go backwards - a line starts after the line before it
+    const previous = lines.slice(0, cursor).reverse().find(line => line.time !== null);
+    const time = Math.max(audio.currentTime, previous?.time ?? 0);
+    setLines(prev => prev.map((line, index) => (index === cursor ? { ...line, time } : line)));
+    setCursor(cursor + 1);
+  };
+
+  const undo = () => {
+    if (cursor === 0) return;
+    const index = cursor - 1;
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, time: null } : line)));
+    setCursor(index);
+    const previousTime = lines[index - 1]?.time;
+    if (audioRef.current && previousTime !== null && previousTime !== undefined) {
+      audioRef.current.currentTime = previousTime;
+    }
+  };
+
+  const resetTimings = () => {
+    setLines(prev => prev.map(line => ({ ...line, time: null })));
+    setCursor(0);
+    if (audioRef.current) {
+      audioRef.current.pause();
+      audioRef.current.currentTime = 0;
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.target instanceof HTMLButtonElement && (event.key === 'Enter' || event.key === ' ')) return;
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      tap();
+    } else if (event.key === ' ') {
+      event.preventDefault();
+      togglePlay();
+    } else if (event.key === 'Backspace') {
+      event.preventDefault();
+      undo();
+    }
+  };
+
+  const handleSave = () => {
+    onSave(isComplete ? serializeLrc(lines) : toPlainLyrics(lyrics));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" onKeyDown={handleKeyDown}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Timer className="w-5 h-5" />
+            Sync lyrics
+          </DialogTitle>
+          <DialogDescription>
+            Play the song and press Tap (or Enter) as each line starts. Space plays/pauses, Backspace undoes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <audio
+          ref={audioRef}
+          src={audioUrl || undefined}
+          onPlay={() => setIsPlaying(true)}
+          onPause={() => setIsPlaying(false)}
+          onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+          className="hidden"
+        />
+
+        {lines.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">Write the lyrics first, then sync them here.</p>
+        ) : (
+          <>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={togglePlay} disabled={!audioUrl}>
+                {isPlaying ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+                {isPlaying ? 'Pause' : 'Play'}
+              </Button>
+              <span className="text-sm font-mono text-muted-foreground">{formatLrcTimestamp(currentTime)}</span>
+              <span className="text-xs text-muted-foreground ml-auto">{timedCount}/{lines.length} timed</span>
+            </div>
+
+            <ScrollArea className="h-72 rounded-md border">
+              <div className="p-2 space-y-1">
+                {lines.map((line, index) => (
+                  <div
+                    key={index}
+                    ref={element => {
+                      lineRefs.current[index] = element;
+                    }}
+                    onClick={() => setCursor(index)}
+                    className={cn(
+                      "flex items-center gap-3 px-2 py-1.5 rounded-md cursor-pointer text-sm",
+                      index === cursor ? "bg-primary/10 ring-1 ring-primary" : "hover:bg-muted/50"
+                    )}
+                  >
+                    <button
+                      type="button"
+                      className="font-mono text-xs text-muted-foreground hover:text-primary w-20 text-left"
+                      disabled={line.time === null}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (audioRef.current && line.time !== null) audioRef.current.currentTime = line.time;
+                      }}
+                    >
+                      {line.time !== null ? formatLrcTimestamp(line.time) : '[--:--.--]'}
+                    </button>
+                    <span className="truncate">{line.text}</span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex items-center gap-2">
+              <Button onClick={tap} disabled={!audioUrl || cursor >= lines.length} className="flex-1">
+                Tap
+              </Button>
+              <Button variant="outline" size="icon" onClick={undo} disabled={cursor === 0} title="Undo">
+                <Undo2 className="w-4 h-4" />
+              </Button>
+              <Button variant="outline" size="icon" onClick={resetTimings} disabled={timedCount === 0} title="Clear timings">
+                <RotateCcw className="w-4 h-4" />
+              </Button>
+            </div>
+          </>
+        )}
+
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            {isComplete ? 'Saved as synced (LRC) lyrics' : 'Time every line to save synced lyrics'}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={lines.length === 0}>Save</Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LyricsSyncEditor;
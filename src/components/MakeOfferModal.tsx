@@ -0,0 +1,342 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { HandCoins, Loader2, X } from "lucide-react";
+import { useBalance, usePublicClient } from "wagmi";
+import { encodeFunctionData, formatEther, parseEther } from "viem";
+import { toast } from "sonner";
+import { useSequence } from "@/contexts/SequenceContext";
+import { CONTRACT_ADDRESSES } from "@/lib/web3-config";
+import { MarketplaceABI } from "@/lib/abis/Marketplace";
+import { SONG_NFT_ABI } from "@/lib/abis/SongNFT";
+import { subgraphService, type SubgraphSongOffer } from "@/services/subgraphService";
+
+interface MakeOfferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  track: {
+    title: string;
+    artist: string;
+    cover: string;
+    tokenId?: number;
+  } | null;
+}
+
+// Marketplace accepts offers between 1 hour and 30 days
+const OFFER_DURATIONS = [
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '3 days', seconds: 3 * 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+  { label: '30 days', seconds: 30 * 24 * 60 * 60 },
+];
+
+const formatStt = (wei: bigint | string) => `${parseFloat(formatEther(BigInt(wei))).toFixed(4)} STT`;
+
+/**
+ * Make an offer on a SongNFT - the amount is held by the marketplace until the
+ * owner accepts it or the buyer cancels
+ */
+const MakeOfferModal = ({ isOpen, onClose, track }: MakeOfferModalProps) => {
+  const [amount, setAmount] = useState('');
+  const [duration, setDuration] = useState(String(OFFER_DURATIONS[3].seconds));
+  const [owner, setOwner] = useState<string | null>(null);
+  const [offers, setOffers] = useState<SubgraphSongOffer[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+
+  const { smartAccountAddress, executeGaslessTransaction } = useSequence();
+  const publicClient = usePublicClient();
+  const { data: balance } = useBalance({
+    address: smartAccountAddress as `0x${string}`,
+  });
+
+  const tokenId = track?.tokenId;
+  const isOwner = !!owner && !!smartAccountAddress && owner.toLowerCase() === smartAccountAddress.toLowerCase();
+  const myOffers = offers.filter(offer => offer.buyer.id === smartAccountAddress?.toLowerCase());
+  const highestOffer = offers[0];
+
+  // Load the current owner and the active offers on this song
+  useEffect(() => {
+    if (!isOpen || !tokenId || !publicClient) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setOwner(null);
+    setOffers([]);
+
+    Promise.all([
+      publicClient.readContract({
+        address: CONTRACT_ADDRESSES.songNFT as `0x${string}`,
+        abi: SONG_NFT_ABI,
+        functionName: 'ownerOf',
+        args: [BigInt(tokenId)],
+        authorizationList: [],
+      }),
+      subgraphService.getSongOffers(tokenId),
+    ])
+      .then(([tokenOwner, songOffers]) => {
+        if (cancelled) return;
+        setOwner(tokenOwner);
+        setOffers(songOffers);
+      })
+      .catch((error) => {
+        console.warn('⚠️ [MakeOffer] Failed to load offers:', error);
+        if (!cancelled) setOwner(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, tokenId, publicClient]);
+
+  const waitForConfirmation = async (txHash: string) => {
+    if (!publicClient) {
+      throw new Error("Public client not available");
+    }
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash: txHash as `0x${string}`,
+      timeout: 10000,
+      pollingInterval: 100,
+      confirmations: 1,
+    });
+    if (receipt.status !== 'success') {
+      throw new Error('Transaction reverted on blockchain');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!smartAccountAddress) {
+      toast.error("Please connect your wallet first");
+      return;
+    }
+    if (!tokenId || !owner) {
+      toast.error("This song can't receive offers");
+      return;
+    }
+
+    let price: bigint;
+    try {
+      price = parseEther(amount);
+    } catch {
+      toast.error("Enter a valid amount");
+      return;
+    }
+    if (price <= 0n) {
+      toast.error("Offer must be greater than 0");
+      return;
+    }
+    if (balance && price > balance.value) {
+      toast.error("Insufficient balance");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      toast.loading("Sending offer...", { id: "make-offer" });
+
+      const data = encodeFunctionData({
+        abi: MarketplaceABI,
+        functionName: 'createOffer',
+        args: [CONTRACT_ADDRESSES.songNFT as `0x${string}`, BigInt(tokenId), price, BigInt(duration)],
+      });
+      const txHash = await executeGaslessTransaction(CONTRACT_ADDRESSES.marketplace, data, price);
+      await waitForConfirmation(txHash);
+
+      // 🔔 Let the owner know - the offer already went through, so a failure is only logged
+      try {
+        const { notificationService } = await import('@/services/notificationService');
+        await notificationService.notifyNftOffer(
+          smartAccountAddress,
+          owner,
+          tokenId.toString(),
+          formatEther(price)
+        );
+      } catch (notifError) {
+        console.warn('⚠️ Failed to send offer notification:', notifError);
+      }
+
+      toast.success("Offer sent", { id: "make-offer" });
+      handleClose();
+    } catch (error) {
+      console.error("Offer failed:", error);
+      toast.dismiss("make-offer");
+      toast.error(error instanceof Error ? error.message : "Failed to send offer");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCancelOffer = async (offerId: string) => {
+    setCancellingId(offerId);
+    try {
+      toast.loading("Cancelling offer...", { id: "cancel-offer" });
+
+      const data = encodeFunctionData({
+        abi: MarketplaceABI,
+        functionName: 'cancelOffer',
+        args: [BigInt(offerId)],
+      });
+      const txHash = await executeGaslessTransaction(CONTRACT_ADDRESSES.marketplace, data);
+      await waitForConfirmation(txHash);
+
+      toast.success("Offer cancelled and refunded", { id: "cancel-offer" });
+      // The subgraph catches up a few blocks later
+      setOffers(prev => prev.filter(offer => offer.id !== offerId));
+    } catch (error) {
+      console.error("Cancel offer failed:", error);
+      toast.dismiss("cancel-offer");
+      toast.error(error instanceof Error ? error.message : "Failed to cancel offer");
+    } finally {
+      setCancellingId(null);
+    }
+  };
+
+  const handleClose = () => {
+    setAmount('');
+    setDuration(String(OFFER_DURATIONS[3].seconds));
+    onClose();
+  };
+
+  if (!track) return null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HandCoins className="w-5 h-5 text-primary" />
+            Make an Offer
+          </DialogTitle>
+          <DialogDescription>
+            Your offer is held by the marketplace until the owner accepts it. Cancel any time for a full refund.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {/* Track Info */}
+          <div className="flex items-center gap-4 p-4 bg-muted/30 rounded-lg">
+            <img
+              src={track.cover}
+              alt={track.title}
+              className="w-16 h-16 rounded-lg object-cover"
+            />
+            <div className="flex-1 min-w-0">
+              <h3 className="font-semibold truncate">{track.title}</h3>
+              <p className="text-sm text-muted-foreground truncate">{track.artist}</p>
+              {highestOffer && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Highest offer: <span className="font-semibold text-foreground">{formatStt(highestOffer.price)}</span>
+                </p>
+              )}
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Loading offers...
+            </div>
+          ) : !tokenId || !owner ? (
+            <div className="text-sm text-muted-foreground text-center">
+              This song is not minted as an NFT, so it can't receive offers.
+            </div>
+          ) : isOwner ? (
+            <div className="text-sm text-muted-foreground text-center">
+              You own this song. Incoming offers show up in your offers inbox.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="offer-amount">Offer amount (STT)</Label>
+                <Input
+                  id="offer-amount"
+                  type="number"
+                  min="0"
+                  step="0.001"
+                  placeholder="0.00"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Balance: {balance ? parseFloat(balance.formatted).toFixed(4) : "0"} STT
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Offer expires in</Label>
+                <Select value={duration} onValueChange={setDuration}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {OFFER_DURATIONS.map(option => (
+                      <SelectItem key={option.seconds} value={String(option.seconds)}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {/* Buyer's own active offers */}
+          {myOffers.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-semibold text-sm">Your active offers</h4>
+              {myOffers.map(offer => (
+                <div key={offer.id} className="flex items-center justify-between p-3 border rounded-lg text-sm">
+                  <div>
+                    <p className="font-semibold">{formatStt(offer.price)}</p>
+                    {offer.expiresAt && (
+                      <p className="text-xs text-muted-foreground">
+                        {Number(offer.expiresAt) * 1000 < Date.now()
+                          ? 'Expired - cancel to get your STT back'
+                          : `Expires ${new Date(Number(offer.expiresAt) * 1000).toLocaleString()}`}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-1.5"
+                    onClick={() => handleCancelOffer(offer.id)}
+                    disabled={cancellingId !== null}
+                  >
+                    {cancellingId === offer.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <X className="w-3 h-3" />}
+                    Cancel
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={handleClose} className="flex-1" disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              className="flex-1 gap-2"
+              disabled={isSubmitting || isLoading || !owner || isOwner || !amount}
+            >
+              {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <HandCoins className="w-4 h-4" />}
+              {isSubmitting ? 'Sending...' : 'Make Offer'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MakeOfferModal;
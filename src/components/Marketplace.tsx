@@ -9,6 +9,8 @@ import album2 from "@/assets/album-2.jpg";
 import album3 from "@/assets/album-3.jpg";
 import album4 from "@/assets/album-4.jpg";
 import BuyModal from "@/components/BuyModal";
+import OffersInbox from "@/components/OffersInbox";
+import MarketplaceAnalytics from "@/components/MarketplaceAnalytics";
 
 const Marketplace = () => {
   const [playingTrack, setPlayingTrack] = useState<number | null>(null);
@@ -165,6 +167,9 @@ const Marketplace = () => {
           {/* Social Feed - Left Side */}
           <div className="lg:col-span-2">
             <div className="space-y-4">
+              {/* Collection price, floor and volume charts */}
+              <MarketplaceAnalytics />
+
               {tracks.map((track) => (
                 <Card key={track.id} className="border-border/50 hover:border-primary/20 transition-all duration-300">
                   <CardContent className="p-4 sm:p-5 space-y-3">
@@ -271,6 +276,9 @@ const Marketplace = () => {
           {/* Right Side Content */}
           <div className="lg:col-span-1">
             <div className="lg:sticky lg:top-8 space-y-6">
+              {/* Incoming offers on the user's songs */}
+              <OffersInbox />
+
               {/* Featured Artist */}
               <Card className="border-border/50 bg-background/80 backdrop-blur-sm">
                 <CardContent className="p-4">
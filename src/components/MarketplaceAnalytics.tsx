@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Bar, CartesianGrid, Cell, ComposedChart, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { BarChart3, Loader2, RefreshCw } from "lucide-react";
+import { useMarketplaceAnalytics } from "@/hooks/useMarketplaceAnalytics";
+
+interface MarketplaceAnalyticsProps {
+  songId?: string;      // Song scope - omit for the whole collection
+  artistId?: string;
+  title?: string;
+}
+
+const RANGES = [7, 30, 90];
+
+const HOLDER_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(var(--secondary))",
+  "hsl(var(--accent))",
+  "hsl(200 80% 60%)",
+  "hsl(40 90% 60%)",
+  "hsl(var(--muted-foreground))",
+];
+
+const chartConfig = {
+  price: { label: "Price (STT)", color: "hsl(var(--primary))" },
+  usd: { label: "USD", color: "hsl(var(--secondary))" },
+  floor: { label: "Floor (STT)", color: "hsl(var(--primary))" },
+  volume: { label: "Volume (STT)", color: "hsl(var(--primary))" },
+  usdVolume: { label: "Volume (USD)", color: "hsl(var(--secondary))" },
+  count: { label: "Songs held" },
+} satisfies ChartConfig;
+
+const formatStt = (value: number) => `${value.toFixed(4)} STT`;
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+
+/**
+ * Price history, floor, volume, holders and royalty totals for a song or the collection
+ */
+const MarketplaceAnalytics = ({ songId, artistId, title }: MarketplaceAnalyticsProps) => {
+  const [days, setDays] = useState(30);
+  const { sales, daily, holders, totals, allTime, usdPrice, loading, error, refresh } = useMarketplaceAnalytics({
+    songId,
+    artistId,
+    days,
+  });
+
+  const hasFloor = daily.some(point => point.floor !== null);
+  const hasVolume = daily.some(point => point.volume > 0);
+  const summary = allTime ?? totals;
+
+  const renderEmpty = (message: string) => (
+    <p className="text-sm text-muted-foreground text-center py-10">{message}</p>
+  );
+
+  return (
+    <Card className="border-border/50">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="font-clash font-semibold text-lg flex items-center gap-2">
+            <BarChart3 className="w-4 h-4 text-primary" />
+            {title || (songId ? 'Song analytics' : 'Market analytics')}
+          </h3>
+          <div className="flex items-center gap-1">
+            {RANGES.map(range => (
+              <Button
+                key={range}
+                variant={days === range ? "secondary" : "ghost"}
+                size="sm"
+                className="h-7 px-2 text-xs"
+                onClick={() => setDays(range)}
+              >
+                {range}d
+              </Button>
+            ))}
+            <Button variant="ghost" size="sm" className="w-7 h-7 p-0" onClick={refresh} disabled={loading}>
+              <RefreshCw className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+
+        {/* Royalty totals */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-sm">
+          {[
+            { label: allTime ? 'All-time volume' : `${days}d volume`, value: summary.volume },
+            { label: 'Royalties', value: summary.royalties },
+            { label: 'Platform fees', value: summary.platformFees },
+            { label: 'Seller proceeds', value: summary.sellerProceeds },
+          ].map(stat => (
+            <div key={stat.label} className="p-2 rounded-lg bg-muted/30">
+              <p className="text-xs text-muted-foreground">{stat.label}</p>
+              <p className="font-semibold">{formatStt(stat.value)}</p>
+              {usdPrice !== null && (
+                <p className="text-xs text-muted-foreground">{formatUsd(stat.value * usdPrice)}</p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {error ? (
+          renderEmpty("Analytics are unavailable right now.")
+        ) : loading && sales.length === 0 && holders.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground py-10">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading analytics...
+          </div>
+        ) : (
+          <Tabs defaultValue="sales">
+            <TabsList className="grid grid-cols-4 w-full">
+              <TabsTrigger value="sales">Sales</TabsTrigger>
+              <TabsTrigger value="floor">Floor</TabsTrigger>
+              <TabsTrigger value="volume">Volume</TabsTrigger>
+              <TabsTrigger value="holders">Holders</TabsTrigger>
+            </TabsList>
+
+            {/* Sale price history */}
+            <TabsContent value="sales">
+              {sales.length === 0 ? renderEmpty(`No sales in the last ${days} days.`) : (
+                <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+                  <LineChart data={sales}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis yAxisId="stt" tickLine={false} axisLine={false} width={48} />
+                    {usdPrice !== null && (
+                      <YAxis yAxisId="usd" orientation="right" tickLine={false} axisLine={false} width={48} />
+                    )}
+                    <ChartTooltip
+                      content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0]?.payload?.title} />}
+                    />
+                    <Line yAxisId="stt" dataKey="price" type="monotone" stroke="var(--color-price)" strokeWidth={2} dot />
+                    {usdPrice !== null && (
+                      <Line yAxisId="usd" dataKey="usd" type="monotone" stroke="var(--color-usd)" strokeDasharray="4 4" dot={false} />
+                    )}
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </TabsContent>
+
+            {/* Floor price over time */}
+            <TabsContent value="floor">
+              {!hasFloor ? renderEmpty("Nothing was listed in this period.") : (
+                <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+                  <LineChart data={daily}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis tickLine={false} axisLine={false} width={48} />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          formatter={(value) => usdPrice !== null
+                            ? `${formatStt(Number(value))} (${formatUsd(Number(value) * usdPrice)})`
+                            : formatStt(Number(value))}
+                        />
+                      }
+                    />
+                    <Line dataKey="floor" type="stepAfter" stroke="var(--color-floor)" strokeWidth={2} dot={false} connectNulls={false} />
+                  </LineChart>
+                </ChartContainer>
+              )}
+            </TabsContent>
+
+            {/* Volume by day */}
+            <TabsContent value="volume">
+              {!hasVolume ? renderEmpty(`No trading volume in the last ${days} days.`) : (
+                <ChartContainer config={chartConfig} className="h-56 w-full aspect-auto">
+                  <ComposedChart data={daily}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+                    <YAxis yAxisId="stt" tickLine={false} axisLine={false} width={48} />
+                    {usdPrice !== null && (
+                      <YAxis yAxisId="usd" orientation="right" tickLine={false} axisLine={false} width={48} />
+                    )}
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar yAxisId="stt" dataKey="volume" fill="var(--color-volume)" radius={4} />
+                    {usdPrice !== null && (
+                      <Line yAxisId="usd" dataKey="usdVolume" type="monotone" stroke="var(--color-usdVolume)" strokeDasharray="4 4" dot={false} />
+                    )}
+                  </ComposedChart>
+                </ChartContainer>
+              )}
+            </TabsContent>
+
+            {/* Holder distribution */}
+            <TabsContent value="holders">
+              {holders.length === 0 ? renderEmpty("No holders yet.") : (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 items-center">
+                  <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+                    <PieChart>
+                      <ChartTooltip content={<ChartTooltipContent nameKey="holder" hideLabel />} />
+                      <Pie data={holders} dataKey="count" nameKey="holder" innerRadius={40} outerRadius={70}>
+                        {holders.map((slice, index) => (
+                          <Cell key={slice.holder} fill={HOLDER_COLORS[index % HOLDER_COLORS.length]} />
+                        ))}
+                      </Pie>
+                    </PieChart>
+                  </ChartContainer>
+                  <div className="space-y-1.5 text-sm">
+                    {holders.map((slice, index) => (
+                      <div key={slice.holder} className="flex items-center justify-between gap-2">
+                        <span className="flex items-center gap-2 truncate">
+                          <span
+                            className="w-2.5 h-2.5 rounded-sm flex-shrink-0"
+                            style={{ backgroundColor: HOLDER_COLORS[index % HOLDER_COLORS.length] }}
+                          />
+                          <span className="truncate">{slice.holder}</span>
+                        </span>
+                        <span className="text-muted-foreground">{slice.count}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+
+        {usdPrice !== null && (
+          <p className="text-xs text-muted-foreground">
+            USD values use the current SOMI price ({formatUsd(usdPrice)}).
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MarketplaceAnalytics;
@@ -55,6 +55,7 @@ const Navbar = ({ showCreateSongButton = true }: NavbarProps) => {
   const [isCreatePlaylistModalOpen, setIsCreatePlaylistModalOpen] = useState(false);
   const [isUpgradeModalOpen, setIsUpgradeModalOpen] = useState(false);
   const [isWalletSidebarOpen, setIsWalletSidebarOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
   const { isAuthenticated, userProfile, logout } = useAuth();
   const { profileData } = useCurrentUserProfile(); // Get real-time profile data
   const { smartAccountAddress } = useSequence();
@@ -127,13 +128,23 @@ const Navbar = ({ showCreateSongButton = true }: NavbarProps) => {
             <div className="order-3 w-full md:order-none md:flex-1 md:flex md:items-center md:justify-center">
               {/* Search Bar */}
               <div className="hidden md:flex w-full max-w-lg">
-                <div className="relative w-full">
+                <form
+                  className="relative w-full"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (!searchQuery.trim()) return;
+                    navigate(`/search?q=${encodeURIComponent(searchQuery.trim())}`);
+                    setSearchQuery("");
+                  }}
+                >
                   <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
                   <Input
-                    placeholder="Search tracks, artists, or albums..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search people, songs, playlists or #tags..."
                     className="pl-10 pr-4 py-2 w-full rounded-full border-border/50 focus:border-primary bg-background/50"
                   />
-                </div>
+                </form>
               </div>
             </div>
 
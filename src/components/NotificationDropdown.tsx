@@ -17,7 +17,8 @@ import {
   ShoppingCart,
   AtSign,
   DollarSign,
-  Repeat
+  Repeat,
+  Gavel
 } from "lucide-react";
 import { Link } from "react-router-dom";
 import { notificationService, type Notification } from "@/services/notificationService";
@@ -159,6 +160,7 @@ const NotificationDropdown = ({ className }: NotificationDropdownProps) => {
       
       // Financial
       case "tip":
+      case "collect":
       case "received_somi":
       case "sent_somi":
         return <DollarSign className="w-5 h-5 text-green-600" />;
@@ -172,6 +174,8 @@ const NotificationDropdown = ({ className }: NotificationDropdownProps) => {
         return <ShoppingCart className="w-5 h-5 text-green-500" />;
       case "nft_offer":
         return <DollarSign className="w-5 h-5 text-orange-500" />;
+      case "nft_outbid":
+        return <Gavel className="w-5 h-5 text-orange-500" />;
       
       // Music
       case "music_generated":
@@ -219,6 +223,8 @@ const NotificationDropdown = ({ className }: NotificationDropdownProps) => {
         return `${fromUser} tipped you ${metadata.amount || ''}`;
       case 'reply':
         return `${fromUser} replied to your comment`;
+      case 'collect':
+        return `${fromUser} collected your post`;
       default:
         return `New notification from ${fromUser}`;
     }
@@ -253,7 +259,7 @@ const NotificationDropdown = ({ className }: NotificationDropdownProps) => {
       case 'mentions':
         return notifications.filter(notification => notification.notificationType === 'mention');
       case 'activity':
-        return notifications.filter(notification => ['like', 'comment', 'follow', 'repost', 'tip', 'reply'].includes(notification.notificationType));
+        return notifications.filter(notification => ['like', 'comment', 'follow', 'repost', 'tip', 'collect', 'reply'].includes(notification.notificationType));
       default:
         return notifications;
     }
@@ -300,6 +306,8 @@ const NotificationDropdown = ({ className }: NotificationDropdownProps) => {
       // Financial
       case 'tip':
         return <>{renderUser()} <span className="text-muted-foreground">tipped you</span> <span className="font-semibold text-green-600">{metadata.amount || ''}</span></>;
+      case 'collect':
+        return <>{renderUser()} <span className="text-muted-foreground">collected your post</span> {metadata.amount && <span className="font-semibold text-green-600">{metadata.amount}</span>}</>;
       case 'received_somi':
         return <><span className="text-muted-foreground">Received</span> <span className="font-semibold text-green-600">{metadata.amount || ''} SOMI</span> <span className="text-muted-foreground">from</span> {renderUser()}</>;
       case 'sent_somi':
@@ -316,6 +324,8 @@ const NotificationDropdown = ({ className }: NotificationDropdownProps) => {
         return <><span className="text-muted-foreground">Your NFT</span> <span className="font-semibold">#{metadata.tokenId || ''}</span> <span className="text-muted-foreground">is listed for</span> <span className="font-semibold">{metadata.price || ''} SOMI</span></>;
       case 'nft_offer':
         return <>{renderUser()} <span className="text-muted-foreground">offered</span> <span className="font-semibold text-orange-600">{metadata.offerAmount || ''} SOMI</span> <span className="text-muted-foreground">for NFT</span> <span className="font-semibold">#{metadata.tokenId || ''}</span></>;
+      case 'nft_outbid':
+        return <>{renderUser()} <span className="text-muted-foreground">outbid you with</span> <span className="font-semibold text-orange-600">{metadata.bidAmount || ''} SOMI</span> <span className="text-muted-foreground">on NFT</span> <span className="font-semibold">#{metadata.tokenId || ''}</span></>;
       
       // Music
       case 'music_generated':
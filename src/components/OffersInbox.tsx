@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Check, HandCoins, Loader2, RefreshCw, X } from "lucide-react";
+import { usePublicClient } from "wagmi";
+import { encodeFunctionData, formatEther } from "viem";
+import { toast } from "sonner";
+import { useSequence } from "@/contexts/SequenceContext";
+import { CONTRACT_ADDRESSES } from "@/lib/web3-config";
+import { MarketplaceABI } from "@/lib/abis/Marketplace";
+import { SONG_NFT_ABI } from "@/lib/abis/SongNFT";
+import { getIpfsUrl } from "@/lib/ipfs";
+import { subgraphService, type SubgraphSongOffer } from "@/services/subgraphService";
+import { somniaDatastreamServiceV3 } from "@/services/somniaDatastreamService.v3";
+import { ActivityHistoryType } from "@/config/somniaDataStreams.v3";
+
+// The contract has no decline for owners - declined offers are hidden on this device
+// and stay refundable by the buyer
+const DECLINED_OFFERS_STORAGE_PREFIX = 'hibeats_declined_offers_';
+
+const loadDeclinedOffers = (owner: string): string[] => {
+  try {
+    const saved = localStorage.getItem(`${DECLINED_OFFERS_STORAGE_PREFIX}${owner.toLowerCase()}`);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveDeclinedOffers = (owner: string, offerIds: string[]) => {
+  try {
+    localStorage.setItem(`${DECLINED_OFFERS_STORAGE_PREFIX}${owner.toLowerCase()}`, JSON.stringify(offerIds));
+  } catch (error) {
+    console.warn('⚠️ [OffersInbox] Failed to save declined offers:', error);
+  }
+};
+
+const formatStt = (wei: string) => `${parseFloat(formatEther(BigInt(wei))).toFixed(4)} STT`;
+
+const isExpired = (offer: SubgraphSongOffer) => !!offer.expiresAt && Number(offer.expiresAt) * 1000 < Date.now();
+
+/**
+ * Incoming offers on songs the connected user owns
+ */
+const OffersInbox = () => {
+  const [offers, setOffers] = useState<SubgraphSongOffer[]>([]);
+  const [declined, setDeclined] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [acceptingId, setAcceptingId] = useState<string | null>(null);
+
+  const { smartAccountAddress, executeGaslessTransaction } = useSequence();
+  const publicClient = usePublicClient();
+
+  const loadOffers = useCallback(async () => {
+    if (!smartAccountAddress) return;
+    setIsLoading(true);
+    try {
+      setOffers(await subgraphService.getSongOffersReceived(smartAccountAddress));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [smartAccountAddress]);
+
+  useEffect(() => {
+    if (!smartAccountAddress) {
+      setOffers([]);
+      setDeclined([]);
+      return;
+    }
+    setDeclined(loadDeclinedOffers(smartAccountAddress));
+    loadOffers();
+  }, [smartAccountAddress, loadOffers]);
+
+  const waitForConfirmation = async (txHash: string) => {
+    if (!publicClient) {
+      throw new Error("Public client not available");
+    }
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash: txHash as `0x${string}`,
+      timeout: 10000,
+      pollingInterval: 100,
+      confirmations: 1,
+    });
+    if (receipt.status !== 'success') {
+      throw new Error('Transaction reverted on blockchain');
+    }
+  };
+
+  const handleAccept = async (offer: SubgraphSongOffer) => {
+    if (!smartAccountAddress || !publicClient) return;
+
+    setAcceptingId(offer.id);
+    try {
+      // The marketplace transfers the NFT itself, so it needs approval first
+      const isApproved = await publicClient.readContract({
+        address: CONTRACT_ADDRESSES.songNFT as `0x${string}`,
+        abi: SONG_NFT_ABI,
+        functionName: 'isApprovedForAll',
+        args: [smartAccountAddress as `0x${string}`, CONTRACT_ADDRESSES.marketplace as `0x${string}`],
+      } as any) as boolean;
+
+      if (!isApproved) {
+        toast.loading("Approving marketplace...", { id: "accept-offer" });
+        const approveData = encodeFunctionData({
+          abi: SONG_NFT_ABI,
+          functionName: 'setApprovalForAll',
+          args: [CONTRACT_ADDRESSES.marketplace as `0x${string}`, true],
+        });
+        await waitForConfirmation(await executeGaslessTransaction(CONTRACT_ADDRESSES.songNFT, approveData));
+      }
+
+      toast.loading("Accepting offer...", { id: "accept-offer" });
+      const data = encodeFunctionData({
+        abi: MarketplaceABI,
+        functionName: 'acceptOffer',
+        args: [BigInt(offer.id)],
+      });
+      const txHash = await executeGaslessTransaction(CONTRACT_ADDRESSES.marketplace, data);
+      await waitForConfirmation(txHash);
+
+      somniaDatastreamServiceV3.recordActivity({
+        user: smartAccountAddress,
+        activityType: ActivityHistoryType.SALE,
+        title: 'Offer accepted',
+        description: `Sold "${offer.song.title}" for ${formatStt(offer.price)}`,
+        targetId: Number(offer.song.tokenId),
+        targetAddress: offer.buyer.id,
+        txHash,
+        metadata: JSON.stringify({ price: offer.price, offerId: offer.id }),
+      }).catch(error => console.warn('⚠️ [OffersInbox] Failed to record sale:', error));
+
+      toast.success(`Sold "${offer.song.title}"`, { id: "accept-offer" });
+      // Other offers on the song were refunded by the contract
+      setOffers(prev => prev.filter(item => item.song.id !== offer.song.id));
+    } catch (error: any) {
+      console.error("Accept offer failed:", error);
+      toast.dismiss("accept-offer");
+      toast.error(error.message || "Failed to accept offer");
+    } finally {
+      setAcceptingId(null);
+    }
+  };
+
+  const handleDecline = (offer: SubgraphSongOffer) => {
+    if (!smartAccountAddress) return;
+    const next = [...declined, offer.id];
+    setDeclined(next);
+    saveDeclinedOffers(smartAccountAddress, next);
+    toast.success("Offer declined", { description: "The buyer can cancel it for a refund at any time" });
+  };
+
+  if (!smartAccountAddress) return null;
+
+  const visibleOffers = offers.filter(offer => !declined.includes(offer.id) && !isExpired(offer));
+
+  return (
+    <Card className="border-border/50 bg-background/80 backdrop-blur-sm">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-clash font-semibold text-lg flex items-center gap-2">
+            <HandCoins className="w-4 h-4 text-primary" />
+            Offers
+          </h3>
+          <Button variant="ghost" size="sm" className="w-7 h-7 p-0" onClick={loadOffers} disabled={isLoading}>
+            <RefreshCw className={`w-3 h-3 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+
+        {isLoading && offers.length === 0 ? (
+          <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground py-4">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Loading offers...
+          </div>
+        ) : visibleOffers.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No offers on your songs right now.</p>
+        ) : (
+          <div className="space-y-3">
+            {visibleOffers.map(offer => (
+              <div key={offer.id} className="space-y-2 p-2 rounded-md border border-border/50">
+                <div className="flex items-center gap-3">
+                  {offer.song.coverHash ? (
+                    <img
+                      src={getIpfsUrl(offer.song.coverHash)}
+                      alt={offer.song.title}
+                      className="w-10 h-10 rounded-md object-cover flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="w-10 h-10 rounded-md bg-muted flex-shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{offer.song.title}</p>
+                    <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                      <Avatar className="w-4 h-4">
+                        <AvatarImage src={offer.buyer.avatarHash ? getIpfsUrl(offer.buyer.avatarHash) : ''} />
+                        <AvatarFallback className="text-[8px]">
+                          {(offer.buyer.username || offer.buyer.id).slice(0, 2).toUpperCase()}
+                        </AvatarFallback>
+                      </Avatar>
+                      <span className="truncate">
+                        {offer.buyer.username && offer.buyer.username !== 'unknown'
+                          ? `@${offer.buyer.username}`
+                          : `${offer.buyer.id.slice(0, 6)}...${offer.buyer.id.slice(-4)}`}
+                      </span>
+                    </div>
+                  </div>
+                  <span className="text-sm font-semibold whitespace-nowrap">{formatStt(offer.price)}</span>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    className="flex-1 h-7 gap-1 text-xs"
+                    onClick={() => handleAccept(offer)}
+                    disabled={acceptingId !== null}
+                  >
+                    {acceptingId === offer.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="flex-1 h-7 gap-1 text-xs"
+                    onClick={() => handleDecline(offer)}
+                    disabled={acceptingId !== null}
+                  >
+                    <X className="w-3 h-3" />
+                    Decline
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OffersInbox;
@@ -0,0 +1,159 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Headphones } from "lucide-react";
+import { MAX_CROSSFADE_SECONDS, useAudio } from "@/contexts/AudioContext";
+import {
+  EQ_FREQUENCIES,
+  EQ_MAX_GAIN,
+  EQ_PRESETS,
+  MAX_PLAYBACK_RATE,
+  MIN_PLAYBACK_RATE,
+  PLAYBACK_RATES,
+  type EqPresetId
+} from "@/utils/audioEffects";
+
+const formatFrequency = (frequency: number) => (frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`);
+
+/**
+ * Playback settings - crossfade is stored on this device, effects per account
+ */
+const PlaybackSettingsCard = () => {
+  const { crossfadeSeconds, setCrossfadeSeconds, audioEffects, setAudioEffects } = useAudio();
+
+  const handleBandChange = (index: number, gain: number) => {
+    setAudioEffects({ eqGains: audioEffects.eqGains.map((value, i) => (i === index ? gain : value)) });
+  };
+
+  return (
+    <div className="bg-card border rounded-2xl p-6 shadow-sm">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 bg-purple-500/10 rounded-xl flex items-center justify-center">
+          <Headphones className="w-5 h-5 text-purple-500" />
+        </div>
+        <div>
+          <h2 className="text-xl font-semibold">Playback</h2>
+          <p className="text-sm text-muted-foreground">Crossfade, equalizer and speed</p>
+        </div>
+      </div>
+
+      <div className="space-y-8">
+        {/* Crossfade */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">Crossfade</Label>
+            <span className="text-sm text-muted-foreground">
+              {crossfadeSeconds === 0 ? 'Off (gapless)' : `${crossfadeSeconds}s`}
+            </span>
+          </div>
+          <Slider
+            value={[crossfadeSeconds]}
+            min={0}
+            max={MAX_CROSSFADE_SECONDS}
+            step={1}
+            onValueChange={(value) => setCrossfadeSeconds(value[0])}
+          />
+          <p className="text-xs text-muted-foreground">
+            The next song in your queue is preloaded. With crossfade off, songs play back to back without a gap.
+            Saved on this device.
+          </p>
+        </div>
+
+        {/* Loudness Normalization */}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <Label className="text-sm font-medium">Normalize volume</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Plays every song at a similar loudness, so quiet and loud masters sound even.
+            </p>
+          </div>
+          <Switch
+            checked={audioEffects.normalizeLoudness}
+            onCheckedChange={(checked) => setAudioEffects({ normalizeLoudness: checked })}
+          />
+        </div>
+
+        {/* Playback Speed */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">Playback speed</Label>
+            <span className="text-sm text-muted-foreground">{audioEffects.playbackRate.toFixed(2)}x</span>
+          </div>
+          <Slider
+            value={[audioEffects.playbackRate]}
+            min={MIN_PLAYBACK_RATE}
+            max={MAX_PLAYBACK_RATE}
+            step={0.05}
+            onValueChange={(value) => setAudioEffects({ playbackRate: value[0] })}
+          />
+          <div className="flex flex-wrap gap-2">
+            {PLAYBACK_RATES.map(rate => (
+              <Button
+                key={rate}
+                variant={audioEffects.playbackRate === rate ? "default" : "outline"}
+                size="sm"
+                className="h-7 px-3 text-xs"
+                onClick={() => setAudioEffects({ playbackRate: rate })}
+              >
+                {rate}x
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* Equalizer */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label className="text-sm font-medium">Equalizer</Label>
+            <div className="flex items-center gap-3">
+              <Select
+                value={audioEffects.eqPreset}
+                onValueChange={(value) => setAudioEffects({ eqPreset: value as EqPresetId })}
+                disabled={!audioEffects.eqEnabled}
+              >
+                <SelectTrigger className="w-36 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EQ_PRESETS).map(([id, preset]) => (
+                    <SelectItem key={id} value={id}>{preset.label}</SelectItem>
+                  ))}
+                  <SelectItem value="custom" disabled>Custom</SelectItem>
+                </SelectContent>
+              </Select>
+              <Switch
+                checked={audioEffects.eqEnabled}
+                onCheckedChange={(checked) => setAudioEffects({ eqEnabled: checked })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+            {EQ_FREQUENCIES.map((frequency, index) => (
+              <div key={frequency} className="flex items-center gap-3">
+                <span className="text-xs text-muted-foreground w-8 text-right">{formatFrequency(frequency)}</span>
+                <Slider
+                  value={[audioEffects.eqGains[index]]}
+                  min={-EQ_MAX_GAIN}
+                  max={EQ_MAX_GAIN}
+                  step={1}
+                  disabled={!audioEffects.eqEnabled}
+                  onValueChange={(value) => handleBandChange(index, value[0])}
+                  className="flex-1"
+                />
+                <span className="text-xs text-muted-foreground w-10">
+                  {audioEffects.eqGains[index] > 0 ? '+' : ''}{audioEffects.eqGains[index]} dB
+                </span>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">Equalizer, normalization and speed are saved to your account on this browser.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PlaybackSettingsCard;
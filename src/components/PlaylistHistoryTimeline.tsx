@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  History,
+  Plus,
+  Minus,
+  ArrowUpDown,
+  Edit,
+  Users,
+  RotateCcw,
+  Trash2,
+  Sparkles,
+  Loader2,
+  RefreshCw
+} from "lucide-react";
+import { playlistService } from "@/services/playlistService";
+import type { PlaylistHistoryAction, PlaylistHistoryEntry } from "@/services/playlistHistoryService";
+
+interface PlaylistHistoryTimelineProps {
+  playlistId: string;
+  owner: string;             // Playlist owner - history is checked against who could edit
+  currentUser?: string;
+  canRestore: boolean;
+  onRestore: (entry: PlaylistHistoryEntry) => Promise<boolean>;
+  refreshKey?: number;  // Bump to reload after an edit
+}
+
+const ACTION_ICONS: Record<PlaylistHistoryAction, typeof History> = {
+  create: Sparkles,
+  add: Plus,
+  remove: Minus,
+  reorder: ArrowUpDown,
+  update: Edit,
+  collaborators: Users,
+  restore: RotateCcw,
+  delete: Trash2,
+};
+
+const formatTimeAgo = (timestamp: number) => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  if (hours < 24) return `${hours}h ago`;
+  if (days < 7) return `${days}d ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describeEntry = (entry: PlaylistHistoryEntry): string => {
+  const { details } = entry;
+  switch (entry.action) {
+    case 'create':
+      return `created the playlist with ${plural(entry.trackIds.length, 'track')}`;
+    case 'add':
+      return `added ${plural(details.added?.length || 0, 'track')}` +
+        (details.removed?.length ? ` and removed ${details.removed.length}` : '');
+    case 'remove':
+      return `removed ${plural(details.removed?.length || 0, 'track')}`;
+    case 'reorder':
+      return 'reordered tracks';
+    case 'update':
+      return `changed ${(details.fields || []).join(', ') || 'details'}`;
+    case 'collaborators':
+      return [
+        details.collaboratorsAdded?.length ? `invited ${plural(details.collaboratorsAdded.length, 'collaborator')}` : '',
+        details.collaboratorsRemoved?.length ? `removed ${plural(details.collaboratorsRemoved.length, 'collaborator')}` : '',
+      ].filter(Boolean).join(' and ');
+    case 'restore':
+      return `restored the version from ${details.restoredFrom ? new Date(details.restoredFrom).toLocaleString() : 'earlier'}`;
+    case 'delete':
+      return 'deleted the playlist';
+    default:
+      return 'edited the playlist';
+  }
+};
+
+/**
+ * Playlist edit log - who changed what, with a restore action per version
+ */
+const PlaylistHistoryTimeline = ({
+  playlistId,
+  owner,
+  currentUser,
+  canRestore,
+  onRestore,
+  refreshKey = 0,
+}: PlaylistHistoryTimelineProps) => {
+  const [entries, setEntries] = useState<PlaylistHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async (forceRefresh = false) => {
+    setIsLoading(true);
+    try {
+      setEntries(await playlistService.getPlaylistHistory(playlistId, owner, forceRefresh));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [playlistId, owner]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, refreshKey]);
+
+  const formatEditor = (editor: string) =>
+    currentUser && editor.toLowerCase() === currentUser.toLowerCase()
+      ? 'You'
+      : `${editor.slice(0, 6)}...${editor.slice(-4)}`;
+
+  // Per-collaborator attribution - edits and tracks added
+  const contributors = useMemo(() => {
+    const byEditor = new Map<string, { editor: string; edits: number; tracksAdded: number }>();
+    entries.forEach(entry => {
+      const key = entry.editor.toLowerCase();
+      const stats = byEditor.get(key) || { editor: entry.editor, edits: 0, tracksAdded: 0 };
+      stats.edits += 1;
+      stats.tracksAdded += entry.action === 'create' ? entry.trackIds.length : entry.details.added?.length || 0;
+      byEditor.set(key, stats);
+    });
+    return Array.from(byEditor.values()).sort((a, b) => b.edits - a.edits);
+  }, [entries]);
+
+  const handleRestore = async (entry: PlaylistHistoryEntry) => {
+    setRestoringId(entry.id);
+    try {
+      const restored = await onRestore(entry);
+      if (restored) await loadHistory(true);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (isLoading && entries.length === 0) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <History className="w-10 h-10 mx-auto text-muted-foreground mb-3" />
+        <p className="text-sm text-muted-foreground">No changes recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-1">
+          {contributors.map(contributor => (
+            <Badge key={contributor.editor} variant="outline" className="text-xs font-normal">
+              {formatEditor(contributor.editor)} • {plural(contributor.edits, 'edit')} • {contributor.tracksAdded} added
+            </Badge>
+          ))}
+        </div>
+        <Button variant="ghost" size="sm" className="w-8 h-8 p-0" onClick={() => loadHistory(true)} disabled={isLoading}>
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="relative pl-6 space-y-4">
+        <div className="absolute left-2.5 top-1 bottom-1 w-px bg-border" />
+        {entries.map((entry, index) => {
+          const Icon = ACTION_ICONS[entry.action] || Edit;
+          const isLatest = index === 0;
+          return (
+            <div key={entry.id} className="relative flex items-start gap-3">
+              <div className="absolute -left-6 w-5 h-5 rounded-full bg-muted flex items-center justify-center">
+                <Icon className="w-3 h-3 text-primary" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm">
+                  <span className="font-medium">{formatEditor(entry.editor)}</span>{' '}
+                  {describeEntry(entry)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {formatTimeAgo(entry.timestamp)} • {plural(entry.trackIds.length, 'track')}
+                  {isLatest && ' • current version'}
+                </p>
+              </div>
+              {canRestore && !isLatest && entry.action !== 'delete' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs gap-1 shrink-0"
+                  onClick={() => handleRestore(entry)}
+                  disabled={restoringId !== null}
+                >
+                  {restoringId === entry.id ? (
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                  ) : (
+                    <RotateCcw className="w-3 h-3" />
+                  )}
+                  Restore
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PlaylistHistoryTimeline;
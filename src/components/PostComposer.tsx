@@ -2,6 +2,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { VerifiedBadge } from "@/components/VerifiedBadge";
@@ -21,7 +23,9 @@ import {
   Music2,
   Loader2,
   AlertCircle,
-  Send
+  Send,
+  Gem,
+  Lock
 } from "lucide-react";
 import EmojiPicker from 'emoji-picker-react';
 import { useState, useRef, useMemo, useEffect } from "react";
@@ -34,9 +38,28 @@ import { CONTRACT_ADDRESSES } from "@/lib/web3-config";
 import { ipfsService } from "@/services/ipfsService";
 import { toast } from "sonner";
 import { useWalletClient } from "wagmi";
+import { parseEther } from "viem";
+import { GatingRule } from "@/config/somniaDataStreams.v3";
+
+/** Collect settings chosen in the composer. Price is a wei decimal string, limit 0 means unlimited. */
+export interface PostCollectOptions {
+  collectPrice: string;
+  collectLimit: number;
+}
+
+/** Gating settings chosen in the composer. gatedTokenId is 0 unless rule is SONG_HOLDERS. */
+export interface PostGatingOptions {
+  gatingRule: GatingRule;
+  gatedTokenId: number;
+}
+
+export interface PostPublishOptions {
+  collect?: PostCollectOptions;
+  gating?: PostGatingOptions;
+}
 
 interface PostComposerProps {
-  onPost: (content: string, attachments: any[]) => void;
+  onPost: (content: string, attachments: any[], options?: PostPublishOptions) => void;
   placeholder?: string;
   className?: string;
 }
@@ -58,6 +81,11 @@ const PostComposer = ({ onPost, placeholder = "What's happening in music?", clas
   const [mentionSearch, setMentionSearch] = useState('');
   const [mentionPosition, setMentionPosition] = useState(0);
   const [selectedMentionIndex, setSelectedMentionIndex] = useState(0);
+  const [showCollectSettings, setShowCollectSettings] = useState(false);
+  const [collectPrice, setCollectPrice] = useState('');
+  const [collectLimit, setCollectLimit] = useState('');
+  const [showGatingSettings, setShowGatingSettings] = useState(false);
+  const [gatedSong, setGatedSong] = useState('any'); // 'any' or SongNFT tokenId
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -746,6 +774,33 @@ const PostComposer = ({ onPost, placeholder = "What's happening in music?", clas
       return;
     }
 
+    // Validate collect settings before clearing the form
+    let collectOptions: PostCollectOptions | undefined;
+    if (showCollectSettings) {
+      const price = collectPrice.trim() ? Number(collectPrice) : 0;
+      const limit = collectLimit.trim() ? Number(collectLimit) : 0;
+
+      if (!Number.isFinite(price) || price < 0) {
+        toast.error('Invalid collect price');
+        return;
+      }
+      if (!Number.isInteger(limit) || limit < 0) {
+        toast.error('Collect limit must be a whole number');
+        return;
+      }
+
+      collectOptions = {
+        collectPrice: price > 0 ? parseEther(collectPrice.trim()).toString() : '0',
+        collectLimit: limit
+      };
+    }
+
+    const gatingOptions: PostGatingOptions | undefined = showGatingSettings
+      ? gatedSong === 'any'
+        ? { gatingRule: GatingRule.ARTIST_HOLDERS, gatedTokenId: 0 }
+        : { gatingRule: GatingRule.SONG_HOLDERS, gatedTokenId: Number(gatedSong) }
+      : undefined;
+
     console.log('✅ Posting allowed, processing...');
     
     // Save current content and attachments
@@ -758,6 +813,11 @@ const PostComposer = ({ onPost, placeholder = "What's happening in music?", clas
     setSelectedTrack(null);
     setIsRecording(false);
     setShowEmojiPicker(false);
+    setShowCollectSettings(false);
+    setCollectPrice('');
+    setCollectLimit('');
+    setShowGatingSettings(false);
+    setGatedSong('any');
     
     // Set posting state
     setIsPosting(true);
@@ -782,7 +842,7 @@ const PostComposer = ({ onPost, placeholder = "What's happening in music?", clas
       console.log('✅ All attachments ready, posting...');
       
       // Call onPost callback with attachments (already have IPFS hashes)
-      await onPost(contentToPost, validAttachments);
+      await onPost(contentToPost, validAttachments, { collect: collectOptions, gating: gatingOptions });
       
       console.log('✅ Post submitted successfully');
       
@@ -1411,6 +1471,70 @@ const PostComposer = ({ onPost, placeholder = "What's happening in music?", clas
               </div>
             )}
 
+            {showCollectSettings && (
+              <div className="mt-3 p-3 border border-border/50 rounded-lg bg-muted/30 space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <Gem className="w-4 h-4 text-primary" />
+                  Collectible post
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="text-xs text-muted-foreground">Price (STT)</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      placeholder="0 = free"
+                      value={collectPrice}
+                      onChange={(e) => setCollectPrice(e.target.value)}
+                      disabled={isPosting}
+                      className="h-8"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-xs text-muted-foreground">Edition limit</label>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      placeholder="0 = unlimited"
+                      value={collectLimit}
+                      onChange={(e) => setCollectLimit(e.target.value)}
+                      disabled={isPosting}
+                      className="h-8"
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {showGatingSettings && (
+              <div className="mt-3 p-3 border border-border/50 rounded-lg bg-muted/30 space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <Lock className="w-4 h-4 text-primary" />
+                  Holders-only post
+                </div>
+                <Select value={gatedSong} onValueChange={setGatedSong} disabled={isPosting}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue placeholder="Who can see this post?" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="any">Holders of any of my songs</SelectItem>
+                    {mySongs.map((song) => (
+                      <SelectItem key={song.tokenId} value={song.tokenId.toString()}>
+                        Holders of "{song.title}"
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  {showCollectSettings
+                    ? 'Collectors also unlock this post by paying the collect price.'
+                    : 'Enable collecting to let non-holders unlock by paying.'}
+                </p>
+              </div>
+            )}
+
             <div className="flex flex-col gap-3 mt-3 sm:flex-row sm:items-center sm:justify-between">
               <div className="flex flex-wrap gap-2">
                 <input
@@ -1497,6 +1621,38 @@ const PostComposer = ({ onPost, placeholder = "What's happening in music?", clas
                 >
                   <Music className="w-4 h-4" />
                 </Button>
+
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className={`hover:text-primary disabled:opacity-50 ${showCollectSettings ? 'text-primary' : 'text-muted-foreground'}`}
+                  disabled={isPosting}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    setShowCollectSettings(!showCollectSettings);
+                  }}
+                  title="Make collectible"
+                >
+                  <Gem className="w-4 h-4" />
+                </Button>
+
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className={`hover:text-primary disabled:opacity-50 ${showGatingSettings ? 'text-primary' : 'text-muted-foreground'}`}
+                  disabled={isPosting}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    setShowGatingSettings(!showGatingSettings);
+                  }}
+                  title="Holders only"
+                >
+                  <Lock className="w-4 h-4" />
+                </Button>
               </div>
 
               <div className="flex items-center gap-2 sm:justify-end sm:flex-1 sm:flex-row">
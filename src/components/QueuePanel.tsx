@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  GripVertical,
+  ListMusic,
+  Repeat,
+  Repeat1,
+  Shuffle,
+  X
+} from "lucide-react";
+import { useAudio, type Track } from "@/contexts/AudioContext";
+import { cn } from "@/lib/utils";
+
+interface QueuePanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const HISTORY_PREVIEW = 10;
+
+const QueueTrackInfo: React.FC<{ track: Track; active?: boolean }> = ({ track, active }) => (
+  <>
+    <img
+      src={track.cover}
+      alt={track.title}
+      className="w-10 h-10 rounded-md object-cover flex-shrink-0"
+    />
+    <div className="min-w-0 flex-1 text-left">
+      <p className={cn("text-sm font-medium truncate", active && "text-primary")}>{track.title}</p>
+      <p className="text-xs text-muted-foreground truncate">{track.artist}</p>
+    </div>
+  </>
+);
+
+const QueuePanel: React.FC<QueuePanelProps> = ({ open, onOpenChange }) => {
+  const {
+    playlist,
+    currentIndex,
+    shuffle,
+    repeatMode,
+    playHistory,
+    playTrack,
+    playQueueIndex,
+    removeFromQueue,
+    moveQueueItem,
+    toggleShuffle,
+    cycleRepeat,
+    clearQueue,
+  } = useAudio();
+
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  const current = playlist[currentIndex];
+  const upcoming = playlist
+    .map((track, index) => ({ track, index }))
+    .filter(({ index }) => index > currentIndex);
+  const history = playHistory.filter(track => track.id !== current?.id).slice(0, HISTORY_PREVIEW);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      moveQueueItem(dragIndex, index);
+    }
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <ListMusic className="w-5 h-5" />
+            Queue
+          </SheetTitle>
+          <SheetDescription>Drag tracks to change what plays next</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant={shuffle ? "default" : "outline"}
+            size="sm"
+            onClick={toggleShuffle}
+            aria-pressed={shuffle}
+          >
+            <Shuffle className="w-4 h-4 mr-2" />
+            Shuffle
+          </Button>
+          <Button
+            variant={repeatMode !== 'off' ? "default" : "outline"}
+            size="sm"
+            onClick={cycleRepeat}
+          >
+            {repeatMode === 'one' ? <Repeat1 className="w-4 h-4 mr-2" /> : <Repeat className="w-4 h-4 mr-2" />}
+            {repeatMode === 'one' ? 'Repeat one' : repeatMode === 'all' ? 'Repeat all' : 'Repeat off'}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="ml-auto"
+            onClick={clearQueue}
+            disabled={upcoming.length === 0}
+          >
+            Clear
+          </Button>
+        </div>
+
+        <ScrollArea className="flex-1 -mx-2">
+          <div className="px-2 space-y-6">
+            {/* Now Playing */}
+            <section>
+              <h3 className="text-xs font-semibold uppercase text-muted-foreground mb-2">Now playing</h3>
+              {current ? (
+                <div className="flex items-center gap-3 p-2 rounded-md bg-muted/50">
+                  <QueueTrackInfo track={current} active />
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">Nothing is playing</p>
+              )}
+            </section>
+
+            {/* Next Up */}
+            <section>
+              <h3 className="text-xs font-semibold uppercase text-muted-foreground mb-2">
+                Next up {upcoming.length > 0 && `(${upcoming.length})`}
+              </h3>
+              {upcoming.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Use "Play next" or "Add to queue" on a song</p>
+              ) : (
+                <div className="space-y-1">
+                  {upcoming.map(({ track, index }) => (
+                    <div
+                      key={track.id}
+                      draggable
+                      onDragStart={() => setDragIndex(index)}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        setOverIndex(index);
+                      }}
+                      onDragLeave={() => setOverIndex(prev => (prev === index ? null : prev))}
+                      onDrop={() => handleDrop(index)}
+                      onDragEnd={() => {
+                        setDragIndex(null);
+                        setOverIndex(null);
+                      }}
+                      className={cn(
+                        "group flex items-center gap-2 p-2 rounded-md hover:bg-muted/50 transition-colors",
+                        dragIndex === index && "opacity-50",
+                        overIndex === index && dragIndex !== index && "ring-1 ring-primary"
+                      )}
+                    >
+                      <GripVertical className="w-4 h-4 text-muted-foreground cursor-grab flex-shrink-0" />
+                      <button
+                        type="button"
+                        className="flex items-center gap-3 flex-1 min-w-0"
+                        onClick={() => playQueueIndex(index)}
+                      >
+                        <QueueTrackInfo track={track} />
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="w-8 h-8 p-0 opacity-0 group-hover:opacity-100"
+                        onClick={() => removeFromQueue(track.id)}
+                        aria-label={`Remove ${track.title} from queue`}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </section>
+
+            {/* History */}
+            {history.length > 0 && (
+              <section>
+                <h3 className="text-xs font-semibold uppercase text-muted-foreground mb-2">Recently played</h3>
+                <div className="space-y-1">
+                  {history.map(track => (
+                    <button
+                      key={track.id}
+                      type="button"
+                      className="flex items-center gap-3 w-full p-2 rounded-md hover:bg-muted/50 transition-colors"
+                      onClick={() => playTrack(track)}
+                    >
+                      <QueueTrackInfo track={track} />
+                    </button>
+                  ))}
+                </div>
+              </section>
+            )}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default QueuePanel;
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Link2, ExternalLink } from "lucide-react";
+import { formatEther } from "viem";
+import { useSequence } from "@/contexts/SequenceContext";
+import { somniaDatastreamServiceV3 } from "@/services/somniaDatastreamService.v3";
+import type { ReferralReward, ReferralSource } from "@/config/somniaDataStreams.v3";
+import { getReferralCutLabel } from "@/config/referral";
+
+const SOURCE_LABELS: Record<ReferralSource, string> = {
+  collect: "Collect",
+  tip: "Tip",
+  purchase: "Purchase",
+};
+
+const formatStt = (wei: bigint) => `${parseFloat(formatEther(wei)).toFixed(4)} STT`;
+
+export const ReferralEarningsCard = () => {
+  const { smartAccountAddress } = useSequence();
+  const [rewards, setRewards] = useState<ReferralReward[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!smartAccountAddress) {
+      setRewards([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    somniaDatastreamServiceV3.getReferralEarnings(smartAccountAddress)
+      .then(result => {
+        if (!cancelled) setRewards(result);
+      })
+      .catch(error => console.warn('⚠️ [Referral] Failed to load earnings:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [smartAccountAddress]);
+
+  const totalEarned = rewards.reduce((sum, reward) => sum + BigInt(reward.cut || '0'), 0n);
+  const countBySource = rewards.reduce<Record<ReferralSource, number>>(
+    (counts, reward) => ({ ...counts, [reward.source]: (counts[reward.source] || 0) + 1 }),
+    { collect: 0, tip: 0, purchase: 0 }
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="w-5 h-5" />
+          Referral earnings
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between p-4 rounded-lg bg-primary/10 border border-primary/20">
+              <div>
+                <p className="text-sm text-muted-foreground">Total earned</p>
+                <p className="text-2xl font-semibold">{formatStt(totalEarned)}</p>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(SOURCE_LABELS) as ReferralSource[]).map(source => (
+                  <Badge key={source} variant="secondary" className="text-xs">
+                    {countBySource[source]} {SOURCE_LABELS[source].toLowerCase()}s
+                  </Badge>
+                ))}
+              </div>
+            </div>
+
+            {rewards.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-4">
+                Share posts to earn {getReferralCutLabel()} of every collect, tip or purchase made through your link.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                {rewards.slice(0, 10).map(reward => (
+                  <div key={`${reward.id}-${reward.txHash}`} className="flex items-center gap-3 p-3 rounded-lg border border-border/50">
+                    <Badge variant="outline" className="text-xs">{SOURCE_LABELS[reward.source]}</Badge>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate">
+                        {reward.source === 'purchase' ? `Song #${reward.targetId}` : `Post #${reward.targetId}`}
+                        {' · '}
+                        <span className="text-muted-foreground">
+                          by {reward.payer.slice(0, 6)}...{reward.payer.slice(-4)}
+                        </span>
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(reward.timestamp).toLocaleString()}
+                      </p>
+                    </div>
+                    <span className="text-sm font-semibold text-green-500">
+                      +{formatStt(BigInt(reward.cut || '0'))}
+                    </span>
+                    {reward.txHash && (
+                      <a
+                        href={`https://shannon-explorer.somnia.network/tx/${reward.txHash}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-muted-foreground hover:text-foreground"
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
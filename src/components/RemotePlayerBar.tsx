@@ -0,0 +1,104 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import {
+  MonitorSpeaker,
+  Pause,
+  Play,
+  SkipBack,
+  SkipForward
+} from "lucide-react";
+import { useAudio } from "@/contexts/AudioContext";
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Remote control for the player running in another tab
+ */
+const RemotePlayerBar: React.FC = () => {
+  const { remotePlayer, sendRemoteCommand, playHere } = useAudio();
+
+  if (!remotePlayer) {
+    return null;
+  }
+
+  const { track, isPlaying, currentTime, duration, canGoNext, canGoPrevious } = remotePlayer;
+
+  return (
+    <div
+      className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md rounded-2xl px-4 py-3 shadow-2xl"
+      style={{
+        background: 'linear-gradient(135deg, rgba(0,0,0,0.4) 0%, rgba(0,0,0,0.2) 100%)',
+        backdropFilter: 'blur(20px) saturate(180%)',
+        WebkitBackdropFilter: 'blur(20px) saturate(180%)',
+        border: '1px solid rgba(255,255,255,0.1)',
+        boxShadow: '0 8px 32px rgba(0,0,0,0.4), inset 0 1px 0 rgba(255,255,255,0.1)'
+      }}
+    >
+      <div className="flex items-center gap-3">
+        <img
+          src={track.cover}
+          alt={track.title}
+          className="w-10 h-10 rounded-lg object-cover flex-shrink-0"
+        />
+        <div className="min-w-0 flex-1">
+          <h4 className="font-semibold text-sm truncate">{track.title}</h4>
+          <p className="text-xs text-muted-foreground truncate flex items-center gap-1">
+            <MonitorSpeaker className="w-3 h-3 flex-shrink-0" />
+            Playing in another tab
+          </p>
+        </div>
+
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-8 h-8 p-0 rounded-full"
+            onClick={() => sendRemoteCommand('previous')}
+            disabled={!canGoPrevious}
+          >
+            <SkipBack className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="default"
+            size="sm"
+            className="w-9 h-9 rounded-full p-0"
+            onClick={() => sendRemoteCommand(isPlaying ? 'pause' : 'play')}
+          >
+            {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4 ml-0.5" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-8 h-8 p-0 rounded-full"
+            onClick={() => sendRemoteCommand('next')}
+            disabled={!canGoNext}
+          >
+            <SkipForward className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 mt-2">
+        <span className="text-xs text-muted-foreground w-10 text-right">{formatTime(currentTime)}</span>
+        <Slider
+          value={[currentTime]}
+          max={duration || 100}
+          step={1}
+          onValueCommit={(value) => sendRemoteCommand('seek', value[0])}
+          className="flex-1"
+        />
+        <span className="text-xs text-muted-foreground w-10">{formatTime(duration)}</span>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={playHere}>
+          Play here
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default RemotePlayerBar;
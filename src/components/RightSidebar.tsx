@@ -10,6 +10,7 @@ import { useCurrentUserProfile } from "@/hooks/useRealTimeProfile";
 import { VerifiedBadge } from "@/components/VerifiedBadge";
 import DataStreamStatus from "@/components/DataStreamStatus";
 import { useTrendingMusic } from "@/hooks/useTrendingMusic";
+import { useTrendingHashtags } from "@/hooks/useTrendingHashtags";
 import { useAudio } from "@/contexts/AudioContext";
 
 interface Transaction {
@@ -37,6 +38,9 @@ const RightSidebar = ({
   
   // 🔥 Load trending music from blockchain (limit to 5)
   const { trendingTracks, isLoading: loadingTrending } = useTrendingMusic(5);
+  
+  // #️⃣ Trending topics from the hashtag index (limit to 5)
+  const { trendingHashtags, isLoading: loadingTopics } = useTrendingHashtags(5);
 
   const formatNumber = (num: number) => {
     if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
@@ -151,6 +155,50 @@ const RightSidebar = ({
           </Card>
         )}
 
+        {/* Trending Topics - Hashtag Index */}
+        <Card className="border-border/50 bg-background/80 backdrop-blur-sm">
+          <CardContent className="p-4">
+            <h3 className="font-clash font-semibold text-lg mb-3">Trending Topics</h3>
+            
+            {/* Loading State */}
+            {loadingTopics && (
+              <div className="space-y-3">
+                {[1, 2, 3].map((i) => (
+                  <div key={i} className="p-2">
+                    <div className="h-3 w-24 bg-muted animate-pulse rounded mb-1" />
+                    <div className="h-2 w-16 bg-muted animate-pulse rounded" />
+                  </div>
+                ))}
+              </div>
+            )}
+            
+            {/* Trending Hashtags */}
+            {!loadingTopics && trendingHashtags.length > 0 && (
+              <div className="space-y-1">
+                {trendingHashtags.map((topic) => (
+                  <Link
+                    key={topic.tag}
+                    to={`/tag/${encodeURIComponent(topic.tag)}`}
+                    className="block hover:bg-muted/50 p-2 rounded-md transition-colors"
+                  >
+                    <p className="text-sm font-medium truncate">#{topic.tag}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatNumber(topic.posts)} {topic.posts === 1 ? 'post' : 'posts'}
+                    </p>
+                  </Link>
+                ))}
+              </div>
+            )}
+            
+            {/* Empty State */}
+            {!loadingTopics && trendingHashtags.length === 0 && (
+              <div className="text-center py-6 text-muted-foreground text-sm">
+                No trending topics yet
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Trending Songs - Real Data */}
         <Card className="border-border/50 bg-background/80 backdrop-blur-sm">
           <CardContent className="p-4">
@@ -8,6 +8,7 @@
  * - Share ke WhatsApp
  * - Share ke Telegram
  * - Embed code
+ * - Referral code (?ref=) supaya sharer dapat cut dari tip/collect/purchase
  */
 
 import React, { useState } from 'react';
@@ -33,6 +34,9 @@ import {
   ExternalLink,
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { useSequence } from '@/contexts/SequenceContext';
+import { buildReferralUrl } from '@/utils/referral';
+import { getReferralCutLabel } from '@/config/referral';
 
 interface SharePostModalProps {
   isOpen: boolean;
@@ -51,9 +55,11 @@ export function SharePostModal({
 }: SharePostModalProps) {
   const [copied, setCopied] = useState(false);
   const [embedCopied, setEmbedCopied] = useState(false);
+  const { smartAccountAddress } = useSequence();
 
-  // Generate URLs
-  const postUrl = `${window.location.origin}/post/${postId}`;
+  // Generate URLs (share link carries the sharer's referral code)
+  const basePostUrl = `${window.location.origin}/post/${postId}`;
+  const postUrl = buildReferralUrl(basePostUrl, smartAccountAddress);
   const encodedUrl = encodeURIComponent(postUrl);
   const encodedText = encodeURIComponent(
     postContent.slice(0, 100) + (postContent.length > 100 ? '...' : '')
@@ -68,7 +74,7 @@ export function SharePostModal({
   };
 
   // Embed code
-  const embedCode = `<iframe src="${postUrl}/embed" width="550" height="400" frameborder="0" scrolling="no"></iframe>`;
+  const embedCode = `<iframe src="${basePostUrl}/embed" width="550" height="400" frameborder="0" scrolling="no"></iframe>`;
 
   const handleCopyLink = async () => {
     try {
@@ -136,6 +142,11 @@ export function SharePostModal({
                   )}
                 </Button>
               </div>
+              {postUrl !== basePostUrl && (
+                <p className="text-xs text-muted-foreground">
+                  This link includes your referral code. You earn {getReferralCutLabel()} when people collect, tip or buy through it.
+                </p>
+              )}
             </div>
 
             {/* Social Media Buttons */}
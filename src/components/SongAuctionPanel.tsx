@@ -0,0 +1,587 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Gavel, Loader2, Timer } from "lucide-react";
+import { useBalance, usePublicClient } from "wagmi";
+import { encodeFunctionData, formatEther, parseEther, parseEventLogs, type TransactionReceipt } from "viem";
+import { toast } from "sonner";
+import { useSequence } from "@/contexts/SequenceContext";
+import { CONTRACT_ADDRESSES } from "@/lib/web3-config";
+import { MarketplaceABI } from "@/lib/abis/Marketplace";
+import { SONG_NFT_ABI } from "@/lib/abis/SongNFT";
+import { subgraphService, type SubgraphAuctionBid } from "@/services/subgraphService";
+
+interface SongAuctionPanelProps {
+  tokenId: number;
+  title: string;
+}
+
+interface ActiveAuction {
+  id: bigint;
+  seller: string;
+  reservePrice: bigint;
+  minBidIncrement: bigint;
+  highestBidder: string;
+  highestBid: bigint;
+  endTime: number;
+}
+
+interface BidPlacedLog {
+  logIndex: number;
+  args: { auctionId?: bigint; bidder?: string };
+}
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+// Mirrors Marketplace.AUCTION_EXTENSION - late bids push the end back by this much
+const AUCTION_EXTENSION_SECONDS = 10 * 60;
+const AUCTION_REFRESH_INTERVAL = 15000;
+
+const AUCTION_DURATIONS = [
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '3 days', seconds: 3 * 24 * 60 * 60 },
+  { label: '7 days', seconds: 7 * 24 * 60 * 60 },
+];
+
+// Basis points over the highest bid
+const BID_INCREMENTS = [
+  { label: '1%', bps: 100 },
+  { label: '5%', bps: 500 },
+  { label: '10%', bps: 1000 },
+];
+
+const formatStt = (wei: bigint | string) => `${parseFloat(formatEther(BigInt(wei))).toFixed(4)} STT`;
+
+const formatCountdown = (seconds: number) => {
+  if (seconds <= 0) return 'Ended';
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  const clock = `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * English auction for a SongNFT - owners start one, everyone else bids against a countdown
+ */
+const SongAuctionPanel = ({ tokenId, title }: SongAuctionPanelProps) => {
+  const [auction, setAuction] = useState<ActiveAuction | null>(null);
+  const [minimumBid, setMinimumBid] = useState<bigint>(0n);
+  const [bids, setBids] = useState<SubgraphAuctionBid[]>([]);
+  const [owner, setOwner] = useState<string | null>(null);
+  const [pendingRefund, setPendingRefund] = useState<bigint>(0n);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  const [bidAmount, setBidAmount] = useState('');
+  const [reservePrice, setReservePrice] = useState('');
+  const [bidIncrement, setBidIncrement] = useState(String(BID_INCREMENTS[1].bps));
+  const [duration, setDuration] = useState(String(AUCTION_DURATIONS[1].seconds));
+
+  const { smartAccountAddress, executeGaslessTransaction } = useSequence();
+  const publicClient = usePublicClient();
+  const { data: balance } = useBalance({
+    address: smartAccountAddress as `0x${string}`,
+  });
+
+  const me = smartAccountAddress?.toLowerCase();
+  const isOwner = !!owner && owner.toLowerCase() === me;
+  const isSeller = !!auction && auction.seller.toLowerCase() === me;
+  const hasBids = !!auction && auction.highestBidder !== ZERO_ADDRESS;
+  const isHighestBidder = hasBids && auction!.highestBidder.toLowerCase() === me;
+  const secondsLeft = auction ? auction.endTime - now : 0;
+  const hasEnded = !!auction && secondsLeft <= 0;
+
+  const loadAuction = useCallback(async () => {
+    if (!publicClient) return;
+
+    try {
+      const tokenOwner = await publicClient.readContract({
+        address: CONTRACT_ADDRESSES.songNFT as `0x${string}`,
+        abi: SONG_NFT_ABI,
+        functionName: 'ownerOf',
+        args: [BigInt(tokenId)],
+        authorizationList: [],
+      });
+      setOwner(tokenOwner);
+
+      // Outbid refunds and auction proceeds waiting to be withdrawn
+      if (smartAccountAddress) {
+        const pending = await publicClient.readContract({
+          address: CONTRACT_ADDRESSES.marketplace as `0x${string}`,
+          abi: MarketplaceABI,
+          functionName: 'pendingReturns',
+          args: [smartAccountAddress as `0x${string}`],
+          authorizationList: [],
+        });
+        setPendingRefund(pending);
+      }
+
+      // Reverts with "No active auction" when there is none
+      const result = await publicClient.readContract({
+        address: CONTRACT_ADDRESSES.marketplace as `0x${string}`,
+        abi: MarketplaceABI,
+        functionName: 'getActiveAuction',
+        args: [CONTRACT_ADDRESSES.songNFT as `0x${string}`, BigInt(tokenId)],
+        authorizationList: [],
+      }).catch(() => null);
+
+      if (!result?.isActive) {
+        setAuction(null);
+        setBids([]);
+        return;
+      }
+
+      const nextMinimum = await publicClient.readContract({
+        address: CONTRACT_ADDRESSES.marketplace as `0x${string}`,
+        abi: MarketplaceABI,
+        functionName: 'getMinimumBid',
+        args: [result.id],
+        authorizationList: [],
+      });
+
+      setAuction({
+        id: result.id,
+        seller: result.seller,
+        reservePrice: result.reservePrice,
+        minBidIncrement: result.minBidIncrement,
+        highestBidder: result.highestBidder,
+        highestBid: result.highestBid,
+        endTime: Number(result.endTime),
+      });
+      setMinimumBid(nextMinimum);
+      setBids(await subgraphService.getAuctionBids(result.id.toString()));
+    } catch (error) {
+      console.warn('⚠️ [Auction] Failed to load auction:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [publicClient, tokenId, smartAccountAddress]);
+
+  // Refresh regularly - other bids can raise the price or extend the end time
+  useEffect(() => {
+    loadAuction();
+    const interval = setInterval(loadAuction, AUCTION_REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadAuction]);
+
+  // Countdown tick
+  useEffect(() => {
+    if (!auction) return;
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, [auction]);
+
+  // Suggest the minimum bid whenever it moves
+  useEffect(() => {
+    if (minimumBid > 0n) {
+      setBidAmount(formatEther(minimumBid));
+    }
+  }, [minimumBid]);
+
+  const waitForConfirmation = async (txHash: string) => {
+    if (!publicClient) {
+      throw new Error("Public client not available");
+    }
+    const receipt = await publicClient.waitForTransactionReceipt({
+      hash: txHash as `0x${string}`,
+      timeout: 10000,
+      pollingInterval: 100,
+      confirmations: 1,
+    });
+    if (receipt.status !== 'success') {
+      throw new Error('Transaction reverted on blockchain');
+    }
+    return receipt;
+  };
+
+  // Bidder our bid replaced - the last earlier bid in the same block, else the highest bidder one block before
+  const findOutbidBidder = async (receipt: TransactionReceipt, auctionId: bigint): Promise<string | null> => {
+    if (!publicClient) return null;
+
+    const [ourBid] = (parseEventLogs({ abi: MarketplaceABI, eventName: 'BidPlaced', logs: receipt.logs }) as unknown as BidPlacedLog[])
+      .filter(log => log.args.auctionId === auctionId);
+    if (!ourBid) return null;
+
+    const sameBlockBids = await publicClient.getContractEvents({
+      address: CONTRACT_ADDRESSES.marketplace as `0x${string}`,
+      abi: MarketplaceABI,
+      eventName: 'BidPlaced',
+      args: { auctionId },
+      fromBlock: receipt.blockNumber,
+      toBlock: receipt.blockNumber,
+    });
+    const earlierInBlock = sameBlockBids.filter(log => log.logIndex < ourBid.logIndex);
+    if (earlierInBlock.length > 0) {
+      return earlierInBlock[earlierInBlock.length - 1].args.bidder;
+    }
+
+    const before = await publicClient.readContract({
+      address: CONTRACT_ADDRESSES.marketplace as `0x${string}`,
+      abi: MarketplaceABI,
+      functionName: 'auctions',
+      args: [auctionId],
+      blockNumber: receipt.blockNumber - 1n,
+      authorizationList: [],
+    });
+    // auctions() returns the struct fields as a tuple - highestBidder is index 6
+    const highestBidder = before[6];
+    return highestBidder !== ZERO_ADDRESS ? highestBidder : null;
+  };
+
+  const handleStartAuction = async () => {
+    if (!smartAccountAddress || !publicClient) {
+      toast.error("Please connect your wallet first");
+      return;
+    }
+
+    let reserve: bigint;
+    try {
+      reserve = parseEther(reservePrice);
+    } catch {
+      toast.error("Enter a valid reserve price");
+      return;
+    }
+    if (reserve <= 0n) {
+      toast.error("Reserve price must be greater than 0");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      // The marketplace holds the NFT while the auction runs
+      const isApproved = await publicClient.readContract({
+        address: CONTRACT_ADDRESSES.songNFT as `0x${string}`,
+        abi: SONG_NFT_ABI,
+        functionName: 'isApprovedForAll',
+        args: [smartAccountAddress as `0x${string}`, CONTRACT_ADDRESSES.marketplace as `0x${string}`],
+        authorizationList: [],
+      });
+
+      if (!isApproved) {
+        toast.loading("Approving marketplace...", { id: "start-auction" });
+        const approveData = encodeFunctionData({
+          abi: SONG_NFT_ABI,
+          functionName: 'setApprovalForAll',
+          args: [CONTRACT_ADDRESSES.marketplace as `0x${string}`, true],
+        });
+        await waitForConfirmation(await executeGaslessTransaction(CONTRACT_ADDRESSES.songNFT, approveData));
+      }
+
+      toast.loading("Starting auction...", { id: "start-auction" });
+      const data = encodeFunctionData({
+        abi: MarketplaceABI,
+        functionName: 'createAuction',
+        args: [
+          CONTRACT_ADDRESSES.songNFT as `0x${string}`,
+          BigInt(tokenId),
+          reserve,
+          BigInt(bidIncrement),
+          BigInt(duration),
+        ],
+      });
+      await waitForConfirmation(await executeGaslessTransaction(CONTRACT_ADDRESSES.marketplace, data));
+
+      toast.success(`Auction for "${title}" started`, { id: "start-auction" });
+      setReservePrice('');
+      await loadAuction();
+    } catch (error) {
+      console.error("Start auction failed:", error);
+      toast.dismiss("start-auction");
+      toast.error(error instanceof Error ? error.message : "Failed to start auction");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePlaceBid = async () => {
+    if (!auction) return;
+    if (!smartAccountAddress) {
+      toast.error("Please connect your wallet first");
+      return;
+    }
+
+    let amount: bigint;
+    try {
+      amount = parseEther(bidAmount);
+    } catch {
+      toast.error("Enter a valid bid");
+      return;
+    }
+    if (amount < minimumBid) {
+      toast.error(`Minimum bid is ${formatStt(minimumBid)}`);
+      return;
+    }
+    if (balance && amount > balance.value) {
+      toast.error("Insufficient balance");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      toast.loading("Placing bid...", { id: "place-bid" });
+
+      const data = encodeFunctionData({
+        abi: MarketplaceABI,
+        functionName: 'placeBid',
+        args: [auction.id],
+      });
+      const txHash = await executeGaslessTransaction(CONTRACT_ADDRESSES.marketplace, data, amount);
+      const receipt = await waitForConfirmation(txHash);
+
+      toast.success("You're the highest bidder", { id: "place-bid" });
+
+      // 🔔 Tell the previous highest bidder - their bid is now withdrawable
+      try {
+        // Read from chain - the auction state shown here can be several seconds old
+        const previousBidder = await findOutbidBidder(receipt, auction.id);
+        if (previousBidder && previousBidder.toLowerCase() !== smartAccountAddress.toLowerCase()) {
+          const { notificationService } = await import('@/services/notificationService');
+          await notificationService.notifyNftOutbid(
+            smartAccountAddress,
+            previousBidder,
+            tokenId.toString(),
+            formatEther(amount)
+          );
+        }
+      } catch (notifError) {
+        console.warn('⚠️ Failed to send outbid notification:', notifError);
+      }
+
+      await loadAuction();
+    } catch (error) {
+      console.error("Bid failed:", error);
+      toast.dismiss("place-bid");
+      toast.error(error instanceof Error ? error.message : "Failed to place bid");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleWithdrawRefund = async () => {
+    setIsSubmitting(true);
+    try {
+      toast.loading("Withdrawing refund...", { id: "withdraw-refund" });
+
+      const data = encodeFunctionData({
+        abi: MarketplaceABI,
+        functionName: 'withdrawPendingReturns',
+        args: [],
+      });
+      await waitForConfirmation(await executeGaslessTransaction(CONTRACT_ADDRESSES.marketplace, data));
+
+      toast.success(`${formatStt(pendingRefund)} withdrawn`, { id: "withdraw-refund" });
+      setPendingRefund(0n);
+    } catch (error) {
+      console.error("Withdraw refund failed:", error);
+      toast.dismiss("withdraw-refund");
+      toast.error(error instanceof Error ? error.message : "Failed to withdraw refund");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleAuctionAction = async (functionName: 'settleAuction' | 'cancelAuction') => {
+    if (!auction) return;
+    const isSettle = functionName === 'settleAuction';
+
+    setIsSubmitting(true);
+    try {
+      toast.loading(isSettle ? "Settling auction..." : "Cancelling auction...", { id: "auction-action" });
+
+      const data = encodeFunctionData({
+        abi: MarketplaceABI,
+        functionName,
+        args: [auction.id],
+      });
+      await waitForConfirmation(await executeGaslessTransaction(CONTRACT_ADDRESSES.marketplace, data));
+
+      toast.success(isSettle ? "Auction settled" : "Auction cancelled", { id: "auction-action" });
+      await loadAuction();
+    } catch (error) {
+      console.error(`${functionName} failed:`, error);
+      toast.dismiss("auction-action");
+      toast.error(error instanceof Error ? error.message : "Auction update failed");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) return null;
+  // Nothing to show to visitors when the song isn't being auctioned
+  if (!auction && !isOwner && pendingRefund === 0n) return null;
+
+  return (
+    <Card className="mb-3 border-border/30">
+      <CardContent className="p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold flex items-center gap-2">
+            <Gavel className="w-4 h-4 text-primary" />
+            {auction ? 'Live auction' : 'Auction this song'}
+          </h3>
+          {auction && (
+            <Badge variant={hasEnded ? "secondary" : "default"} className="gap-1 font-mono">
+              <Timer className="w-3 h-3" />
+              {formatCountdown(secondsLeft)}
+            </Badge>
+          )}
+        </div>
+
+        {pendingRefund > 0n && (
+          <div className="flex items-center justify-between p-3 rounded-lg border text-sm">
+            <span>You have {formatStt(pendingRefund)} in refunds and auction proceeds</span>
+            <Button size="sm" variant="outline" onClick={handleWithdrawRefund} disabled={isSubmitting}>
+              Withdraw
+            </Button>
+          </div>
+        )}
+
+        {!auction ? (
+          // Owner starts an auction
+          isOwner && (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="auction-reserve">Reserve price (STT)</Label>
+              <Input
+                id="auction-reserve"
+                type="number"
+                min="0"
+                step="0.001"
+                placeholder="0.00"
+                value={reservePrice}
+                onChange={(e) => setReservePrice(e.target.value)}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label>Min. raise</Label>
+                <Select value={bidIncrement} onValueChange={setBidIncrement}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BID_INCREMENTS.map(option => (
+                      <SelectItem key={option.bps} value={String(option.bps)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Duration</Label>
+                <Select value={duration} onValueChange={setDuration}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {AUCTION_DURATIONS.map(option => (
+                      <SelectItem key={option.seconds} value={String(option.seconds)}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The song is held by the marketplace until the auction is settled. Bids in the last 10 minutes extend it.
+            </p>
+            <Button onClick={handleStartAuction} className="w-full gap-2" disabled={isSubmitting || !reservePrice}>
+              {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Gavel className="w-4 h-4" />}
+              Start auction
+            </Button>
+          </div>
+          )
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="p-3 rounded-lg bg-muted/30">
+                <p className="text-xs text-muted-foreground">{hasBids ? 'Highest bid' : 'Reserve price'}</p>
+                <p className="font-semibold text-lg">{formatStt(hasBids ? auction.highestBid : auction.reservePrice)}</p>
+                {isHighestBidder && <p className="text-xs text-green-600">You're winning</p>}
+              </div>
+              <div className="p-3 rounded-lg bg-muted/30">
+                <p className="text-xs text-muted-foreground">Ends</p>
+                <p className="font-semibold">{new Date(auction.endTime * 1000).toLocaleString()}</p>
+                {!hasEnded && secondsLeft < AUCTION_EXTENSION_SECONDS && (
+                  <p className="text-xs text-orange-600">Closing - new bids extend it</p>
+                )}
+              </div>
+            </div>
+
+            {hasEnded ? (
+              <Button
+                onClick={() => handleAuctionAction('settleAuction')}
+                className="w-full gap-2"
+                disabled={isSubmitting}
+              >
+                {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                {hasBids ? 'Settle auction' : 'Close auction and return song'}
+              </Button>
+            ) : isSeller ? (
+              !hasBids && (
+                <Button
+                  variant="outline"
+                  onClick={() => handleAuctionAction('cancelAuction')}
+                  className="w-full"
+                  disabled={isSubmitting}
+                >
+                  Cancel auction
+                </Button>
+              )
+            ) : (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    value={bidAmount}
+                    onChange={(e) => setBidAmount(e.target.value)}
+                    disabled={isSubmitting}
+                  />
+                  <Button onClick={handlePlaceBid} className="gap-2" disabled={isSubmitting || !bidAmount}>
+                    {isSubmitting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Gavel className="w-4 h-4" />}
+                    Bid
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Minimum bid {formatStt(minimumBid)}. If you're outbid, your STT is refunded automatically.
+                </p>
+              </div>
+            )}
+
+            {/* Bid history */}
+            {bids.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-semibold">Bids</h4>
+                {bids.map(bid => (
+                  <div key={bid.id} className="flex items-center justify-between text-sm">
+                    <span className="text-muted-foreground truncate">
+                      {bid.bidder.username && bid.bidder.username !== 'unknown'
+                        ? `@${bid.bidder.username}`
+                        : shortAddress(bid.bidder.id)}
+                    </span>
+                    <span className="flex items-center gap-3">
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(Number(bid.timestamp) * 1000).toLocaleString()}
+                      </span>
+                      <span className="font-semibold">{formatStt(bid.amount)}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SongAuctionPanel;
@@ -3,10 +3,13 @@ import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { X, Coins } from "lucide-react";
-import { useBalance, usePublicClient } from "wagmi";
+import { useBalance, usePublicClient, useWalletClient } from "wagmi";
 import { parseEther } from "viem";
 import { toast } from "sonner";
 import { useSequence } from "@/contexts/SequenceContext";
+import { somniaDatastreamServiceV3 } from "@/services/somniaDatastreamService.v3";
+import { getReferrer } from "@/utils/referral";
+import { getReferralCutLabel } from "@/config/referral";
 
 interface TipModalProps {
   isOpen: boolean;
@@ -14,6 +17,7 @@ interface TipModalProps {
   recipientAddress: string;
   recipientName: string;
   recipientAvatar?: string;
+  postId?: string; // Tip a specific post (recorded on the post, referral cut applies)
   onTipSent?: () => void;
 }
 
@@ -25,10 +29,13 @@ export default function TipModal({
   recipientAddress,
   recipientName,
   recipientAvatar,
+  postId,
   onTipSent,
 }: TipModalProps) {
   const { smartAccountAddress, executeGaslessTransaction } = useSequence();
+  const { data: walletClient } = useWalletClient();
   const publicClient = usePublicClient();
+  const referrer = getReferrer(postId, [smartAccountAddress, recipientAddress]);
   const { data: balance } = useBalance({
     address: smartAccountAddress as `0x${string}`,
   });
@@ -55,68 +62,82 @@ export default function TipModal({
       const startTime = Date.now();
       toast.loading("Sending tip...", { id: "send-tip" });
 
-      const txData = "0x";
       const amountWei = parseEther(amount.toString());
 
-      const txHash = await executeGaslessTransaction(
-        recipientAddress as `0x${string}`,
-        txData,
-        amountWei
-      );
+      // Send one transfer and wait for blockchain confirmation
+      const sendPayment = async (valueWei: bigint, to: string): Promise<string> => {
+        const txHash = await executeGaslessTransaction(
+          to as `0x${string}`,
+          "0x",
+          valueWei
+        );
 
-      const sendTime = Date.now() - startTime;
-      console.log('📤 Tip transaction sent:', txHash, `in ${sendTime}ms`);
-      
-      // 🔥 CRITICAL: Wait for blockchain confirmation
-      toast.loading("Confirming on blockchain...", { id: "send-tip" });
-      
-      if (!publicClient) {
-        throw new Error("Public client not available");
-      }
-      
-      // Wait for transaction receipt (Somnia has sub-second finality)
-      const receipt = await publicClient.waitForTransactionReceipt({
-        hash: txHash as `0x${string}`,
-        timeout: 10000, // 10s timeout (Somnia usually < 1s)
-        pollingInterval: 100, // Poll every 100ms
-        confirmations: 1
-      });
+        console.log('📤 Tip transaction sent:', txHash, `in ${Date.now() - startTime}ms`);
 
-      const totalTime = Date.now() - startTime;
-      const confirmTime = totalTime - sendTime;
+        // 🔥 CRITICAL: Wait for blockchain confirmation
+        toast.loading("Confirming on blockchain...", { id: "send-tip" });
 
-      toast.dismiss("send-tip");
-      
-      // Check transaction status
-      if (receipt.status === 'success') {
-        toast.success("Tip sent!", {
-          description: `Sent ${amount} STT to ${recipientName} in ${(totalTime/1000).toFixed(1)}s`,
-          action: {
-            label: "View",
-            onClick: () =>
-              window.open(
-                `https://shannon-explorer.somnia.network/tx/${txHash}`,
-                "_blank"
-              ),
-          },
-        });
+        if (!publicClient) {
+          throw new Error("Public client not available");
+        }
 
-        console.log('✅ Tip transaction confirmed:', {
-          txHash,
-          amount: `${amount} STT`,
-          recipient: recipientName,
-          blockNumber: receipt.blockNumber,
-          sendTime: `${sendTime}ms`,
-          confirmTime: `${confirmTime}ms`,
-          totalTime: `${totalTime}ms`,
-          status: receipt.status
+        // Wait for transaction receipt (Somnia has sub-second finality)
+        const receipt = await publicClient.waitForTransactionReceipt({
+          hash: txHash as `0x${string}`,
+          timeout: 10000, // 10s timeout (Somnia usually < 1s)
+          pollingInterval: 100, // Poll every 100ms
+          confirmations: 1
         });
-      } else if (receipt.status === 'reverted') {
-        throw new Error('Transaction reverted on blockchain. The transaction was rejected by the smart contract.');
+
+        if (receipt.status === 'reverted') {
+          throw new Error('Transaction reverted on blockchain. The transaction was rejected by the smart contract.');
+        } else if (receipt.status !== 'success') {
+          throw new Error(`Transaction failed with status: ${receipt.status}`);
+        }
+
+        return txHash;
+      };
+
+      // Post tips are recorded on the post and share a cut with the referrer
+      let txHash: string;
+      if (postId && smartAccountAddress) {
+        const payment = await somniaDatastreamServiceV3.tipPost(
+          Number(postId),
+          recipientAddress,
+          smartAccountAddress,
+          amountWei,
+          sendPayment,
+          walletClient,
+          referrer
+        );
+        txHash = payment.txHash;
       } else {
-        throw new Error(`Transaction failed with status: ${receipt.status}`);
+        txHash = await sendPayment(amountWei, recipientAddress);
       }
 
+      const totalTime = Date.now() - startTime;
+
+      toast.dismiss("send-tip");
+      toast.success("Tip sent!", {
+        description: `Sent ${amount} STT to ${recipientName} in ${(totalTime/1000).toFixed(1)}s`,
+        action: {
+          label: "View",
+          onClick: () =>
+            window.open(
+              `https://shannon-explorer.somnia.network/tx/${txHash}`,
+              "_blank"
+            ),
+        },
+      });
+
+      console.log('✅ Tip transaction confirmed:', {
+        txHash,
+        amount: `${amount} STT`,
+        recipient: recipientName,
+        referrer,
+        totalTime: `${totalTime}ms`
+      });
+
       // 🔔 Send tip notification
       if (smartAccountAddress && recipientAddress && smartAccountAddress.toLowerCase() !== recipientAddress.toLowerCase()) {
         try {
@@ -124,7 +145,7 @@ export default function TipModal({
           await notificationService.notifyTip(
             smartAccountAddress,
             recipientAddress,
-            '', // postId - empty for direct tip
+            postId || '', // postId - empty for direct tip
             `${amount} STT`
           );
           console.log('✅ Tip notification sent to:', recipientAddress);
@@ -226,6 +247,13 @@ export default function TipModal({
             Your balance: {balance ? parseFloat(balance.formatted).toFixed(4) : "0"} STT
           </div>
 
+          {/* Referral Info */}
+          {referrer && (
+            <div className="text-xs text-muted-foreground text-center">
+              {getReferralCutLabel()} goes to {referrer.slice(0, 6)}...{referrer.slice(-4)} who shared this post
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex gap-3">
             <Button
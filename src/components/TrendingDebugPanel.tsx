@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { useAccount } from 'wagmi';
-import { recordMusicPlay } from '@/utils/playCountHelper';
+import { recordMusicPlayNow } from '@/utils/playCountHelper';
 import { somniaDatastreamServiceV3 } from '@/services/somniaDatastreamService.v3';
 import { Play, RefreshCw, Database, TrendingUp, Music } from 'lucide-react';
 import { toast } from 'sonner';
@@ -27,7 +27,8 @@ export const TrendingDebugPanel = () => {
       const testTokenId = 1; // Change this to a real token ID if you have one
       
       console.log('🧪 [Debug] Recording test play event...');
-      await recordMusicPlay(testTokenId, address, 180, 'explore');
+      // Written right away - the listen tracker would wait for real playback
+      await recordMusicPlayNow(testTokenId, address, 180, 'explore');
       
       toast.success('✅ Test play event recorded!');
       
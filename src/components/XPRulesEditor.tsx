@@ -0,0 +1,404 @@
+// XP Rules Editor
+// For admins to publish versioned BXP reward rule sets
+
+import { useEffect, useState } from 'react';
+import { useWalletClient } from 'wagmi';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { xpRulesService, type XPRuleSetDraft } from '@/services/xpRulesService';
+import {
+  BXP_REWARDS,
+  BXP_MULTIPLIERS,
+  DEFAULT_XP_RULE_SET,
+  resolveActiveRuleSet,
+  type BXPRewardType,
+  type BXPMultiplierType,
+  type XPRuleCondition,
+  type XPRuleSet,
+} from '@/config/bxpRewards';
+import { Plus, Save, Scale, Trash2, Copy } from 'lucide-react';
+
+const ALL_REWARDS = 'all';
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const WEEKEND_LOFI_PRESET: Omit<XPRuleCondition, 'id'> = {
+  label: 'Double XP on lo-fi this weekend',
+  rewardTypes: ['COMPLETE_SONG_PLAY'],
+  genre: 'lo-fi',
+  daysOfWeek: [0, 6],
+  multiplier: 2,
+};
+
+// datetime-local <-> ms
+const toInputDate = (ms?: number) => {
+  if (!ms) return '';
+  const date = new Date(ms);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromInputDate = (value: string) => (value ? new Date(value).getTime() : undefined);
+
+const toDraft = (ruleSet: XPRuleSet): XPRuleSetDraft => ({
+  name: ruleSet.version === 0 ? '' : ruleSet.name,
+  effectiveFrom: Date.now(),
+  rewards: { ...ruleSet.rewards },
+  multipliers: { ...ruleSet.multipliers },
+  dailyCap: ruleSet.dailyCap,
+  weeklyCap: ruleSet.weeklyCap,
+  conditions: ruleSet.conditions.map(condition => ({ ...condition })),
+});
+
+export function XPRulesEditor() {
+  const [ruleSets, setRuleSets] = useState<XPRuleSet[]>([]);
+  const [draft, setDraft] = useState<XPRuleSetDraft>(toDraft(DEFAULT_XP_RULE_SET));
+  const [loading, setLoading] = useState(true);
+  const [publishing, setPublishing] = useState(false);
+  const [message, setMessage] = useState('');
+  const { data: walletClient } = useWalletClient();
+
+  const activeRuleSet = resolveActiveRuleSet(ruleSets);
+  const isAdmin = xpRulesService.isAdmin(walletClient?.account?.address);
+
+  useEffect(() => {
+    xpRulesService.getRuleSets(true)
+      .then(loaded => {
+        setRuleSets(loaded);
+        setDraft(toDraft(resolveActiveRuleSet(loaded)));
+      })
+      .finally(() => setLoading(false));
+  }, []);
+
+  const updateDraft = <K extends keyof XPRuleSetDraft>(field: K, value: XPRuleSetDraft[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const updateCondition = (index: number, updates: Partial<XPRuleCondition>) => {
+    setDraft(prev => ({
+      ...prev,
+      conditions: prev.conditions.map((condition, i) => (i === index ? { ...condition, ...updates } : condition)),
+    }));
+  };
+
+  const addCondition = (preset?: Omit<XPRuleCondition, 'id'>) => {
+    const condition: XPRuleCondition = {
+      id: `rule_${Date.now().toString(36)}`,
+      label: '',
+      multiplier: 1,
+      ...preset,
+    };
+    updateDraft('conditions', [...draft.conditions, condition]);
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = draft.conditions[index].daysOfWeek || [];
+    updateCondition(index, {
+      daysOfWeek: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort(),
+    });
+  };
+
+  const handlePublish = async () => {
+    if (!walletClient || !isAdmin) {
+      setMessage('❌ Connect an XP rules admin wallet to publish');
+      return;
+    }
+    if (!draft.name.trim()) {
+      setMessage('❌ Please give the rule set a name');
+      return;
+    }
+    if (draft.effectiveUntil && draft.effectiveUntil <= draft.effectiveFrom) {
+      setMessage('❌ End date must be after the start date');
+      return;
+    }
+
+    try {
+      setPublishing(true);
+      setMessage('');
+
+      const published = await xpRulesService.publishRuleSet({
+        ...draft,
+        name: draft.name.trim(),
+        conditions: draft.conditions.filter(condition => condition.label.trim()),
+      }, walletClient);
+
+      setRuleSets(await xpRulesService.getRuleSets());
+      setMessage(`✅ Rule set v${published.version} published`);
+    } catch (error: any) {
+      setMessage(`❌ Error: ${error.message}`);
+    } finally {
+      setPublishing(false);
+    }
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Scale className="w-6 h-6" />
+          <h2 className="text-2xl font-bold">XP Reward Rules</h2>
+        </div>
+
+        {/* Published versions */}
+        <div className="space-y-2">
+          <Label>Published Rule Sets</Label>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading rule sets...</p>
+          ) : ruleSets.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No rule sets published - default rewards are in effect</p>
+          ) : (
+            <div className="space-y-2 max-h-48 overflow-y-auto">
+              {ruleSets.map(ruleSet => (
+                <div key={ruleSet.version} className="flex items-center gap-3 p-2 rounded-lg bg-muted/50">
+                  <Badge variant={ruleSet.version === activeRuleSet.version ? 'default' : 'outline'}>
+                    v{ruleSet.version}
+                  </Badge>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{ruleSet.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(ruleSet.effectiveFrom).toLocaleString()}
+                      {ruleSet.effectiveUntil ? ` → ${new Date(ruleSet.effectiveUntil).toLocaleString()}` : ' onwards'}
+                      {' • '}{ruleSet.conditions.length} conditions
+                    </p>
+                  </div>
+                  <Button type="button" variant="ghost" size="sm" onClick={() => setDraft(toDraft(ruleSet))}>
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Name & schedule */}
+        <div className="space-y-2">
+          <Label htmlFor="ruleSetName">Rule Set Name *</Label>
+          <Input
+            id="ruleSetName"
+            placeholder="e.g., Lo-fi Weekend"
+            value={draft.name}
+            onChange={(e) => updateDraft('name', e.target.value)}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="effectiveFrom">Effective From *</Label>
+            <Input
+              id="effectiveFrom"
+              type="datetime-local"
+              value={toInputDate(draft.effectiveFrom)}
+              onChange={(e) => updateDraft('effectiveFrom', fromInputDate(e.target.value) || Date.now())}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="effectiveUntil">Effective Until</Label>
+            <Input
+              id="effectiveUntil"
+              type="datetime-local"
+              value={toInputDate(draft.effectiveUntil)}
+              onChange={(e) => updateDraft('effectiveUntil', fromInputDate(e.target.value))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave empty to keep it until the next rule set
+            </p>
+          </div>
+        </div>
+
+        {/* Caps */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="dailyCap">Daily XP Cap</Label>
+            <Input
+              id="dailyCap"
+              type="number"
+              min={0}
+              value={draft.dailyCap}
+              onChange={(e) => updateDraft('dailyCap', parseInt(e.target.value) || 0)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="weeklyCap">Weekly XP Cap</Label>
+            <Input
+              id="weeklyCap"
+              type="number"
+              min={0}
+              value={draft.weeklyCap}
+              onChange={(e) => updateDraft('weeklyCap', parseInt(e.target.value) || 0)}
+            />
+          </div>
+        </div>
+
+        {/* Rewards */}
+        <div className="space-y-2">
+          <Label>Rewards (BXP)</Label>
+          <div className="grid grid-cols-2 gap-2 max-h-64 overflow-y-auto pr-1">
+            {(Object.keys(BXP_REWARDS) as BXPRewardType[]).map(rewardType => (
+              <div key={rewardType} className="flex items-center gap-2">
+                <span className="flex-1 text-xs text-muted-foreground truncate">{rewardType}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  className="h-8 w-24"
+                  value={draft.rewards[rewardType]}
+                  onChange={(e) => updateDraft('rewards', { ...draft.rewards, [rewardType]: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Multipliers */}
+        <div className="space-y-2">
+          <Label>User Multipliers</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(BXP_MULTIPLIERS) as BXPMultiplierType[]).map(multiplierType => (
+              <div key={multiplierType} className="flex items-center gap-2">
+                <span className="flex-1 text-xs text-muted-foreground truncate">{multiplierType}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  className="h-8 w-24"
+                  value={draft.multipliers[multiplierType]}
+                  onChange={(e) => updateDraft('multipliers', { ...draft.multipliers, [multiplierType]: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Conditions */}
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <Label>Conditions</Label>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => addCondition(WEEKEND_LOFI_PRESET)}>
+                Lo-fi weekend preset
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => addCondition()}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          {draft.conditions.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Conditions boost XP for specific rewards, genres or days (e.g. double XP on lo-fi this weekend)
+            </p>
+          )}
+
+          {draft.conditions.map((condition, index) => (
+            <div key={condition.id} className="space-y-3 p-3 rounded-lg border">
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="Label, e.g. Double XP on lo-fi"
+                  value={condition.label}
+                  onChange={(e) => updateCondition(index, { label: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateDraft('conditions', draft.conditions.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={condition.rewardTypes?.[0] || ALL_REWARDS}
+                  onValueChange={(value) => updateCondition(index, {
+                    rewardTypes: value === ALL_REWARDS ? undefined : [value as BXPRewardType],
+                  })}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_REWARDS}>All rewards</SelectItem>
+                    {(Object.keys(BXP_REWARDS) as BXPRewardType[]).map(rewardType => (
+                      <SelectItem key={rewardType} value={rewardType}>{rewardType}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="h-8 text-xs"
+                  placeholder="Genre (any)"
+                  value={condition.genre || ''}
+                  onChange={(e) => updateCondition(index, { genre: e.target.value || undefined })}
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-1">
+                {DAY_LABELS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    variant={condition.daysOfWeek?.includes(day) ? 'default' : 'outline'}
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => toggleDay(index, day)}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">Multiplier</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    className="h-8"
+                    value={condition.multiplier ?? 1}
+                    onChange={(e) => updateCondition(index, { multiplier: parseFloat(e.target.value) || 1 })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">Bonus XP</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    className="h-8"
+                    value={condition.bonusXP ?? 0}
+                    onChange={(e) => updateCondition(index, { bonusXP: parseInt(e.target.value) || undefined })}
+                  />
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Message */}
+        {message && (
+          <div className={`p-3 rounded-lg ${message.startsWith('✅') ? 'bg-green-500/20 text-green-500' : 'bg-red-500/20 text-red-500'}`}>
+            {message}
+          </div>
+        )}
+
+        {/* Publish */}
+        <Button type="button" onClick={handlePublish} disabled={publishing || loading || !isAdmin} className="w-full">
+          <Save className="w-4 h-4 mr-2" />
+          {publishing ? 'Publishing...' : `Publish as v${Math.max(0, ...ruleSets.map(r => r.version)) + 1}`}
+        </Button>
+
+        {/* Info */}
+        <div className="p-4 bg-blue-500/10 rounded-lg text-sm">
+          <p className="font-semibold mb-2">📝 Note:</p>
+          <ul className="list-disc list-inside space-y-1 text-muted-foreground">
+            <li>Published rule sets are never edited - publish a new version instead</li>
+            <li>The newest rule set already in effect prices every award</li>
+            <li>Each XP transaction records the rule set version it used</li>
+            <li>Only wallets listed in VITE_XP_RULES_ADMINS can publish</li>
+          </ul>
+        </div>
+      </div>
+    </Card>
+  );
+}
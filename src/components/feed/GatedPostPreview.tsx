@@ -0,0 +1,69 @@
+import { Button } from '@/components/ui/button';
+import { Lock, Loader2, Gem } from 'lucide-react';
+import { GatingRule } from '@/config/somniaDataStreams.v3';
+
+interface GatedPostPreviewProps {
+  rule: GatingRule;
+  nftTokenId?: number;
+  authorName: string;
+  isChecking?: boolean;
+  collectLabel?: string; // Collect price label, only set when collecting unlocks the post
+  onCollect?: () => void;
+}
+
+// Locked preview for token-gated posts - never renders the real content
+export const GatedPostPreview = ({
+  rule,
+  nftTokenId,
+  authorName,
+  isChecking = false,
+  collectLabel,
+  onCollect,
+}: GatedPostPreviewProps) => {
+  const requirement = rule === GatingRule.SONG_HOLDERS
+    ? `Hold ${authorName}'s song NFT #${nftTokenId} to unlock`
+    : `Hold any song NFT by ${authorName} to unlock`;
+
+  return (
+    <div className="relative overflow-hidden rounded-lg border border-border/50 bg-muted/30">
+      {/* Placeholder lines */}
+      <div className="p-4 space-y-2 blur-sm select-none" aria-hidden="true">
+        <div className="h-3 w-full rounded bg-muted-foreground/20" />
+        <div className="h-3 w-5/6 rounded bg-muted-foreground/20" />
+        <div className="h-3 w-2/3 rounded bg-muted-foreground/20" />
+        <div className="h-24 w-full rounded bg-muted-foreground/10" />
+      </div>
+
+      <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center bg-background/60">
+        {isChecking ? (
+          <>
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            <span className="text-xs text-muted-foreground">Checking access...</span>
+          </>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <Lock className="w-4 h-4 text-primary" />
+              Holders only
+            </div>
+            <p className="text-xs text-muted-foreground">{requirement}</p>
+            {collectLabel && onCollect && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-8 mt-1"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCollect();
+                }}
+              >
+                <Gem className="w-4 h-4 mr-1" />
+                Collect for {collectLabel}
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -37,7 +37,11 @@ import {
   Trash2,
   Play,
   Pause,
-  Coins
+  Coins,
+  Gem,
+  ListEnd,
+  ListPlus,
+  Lock
 } from 'lucide-react';
 import { useSomniaDatastream } from '@/contexts/SomniaDatastreamContext';
 import { useSequence } from '@/contexts/SequenceContext';
@@ -51,6 +55,11 @@ import { OptimizedVideo } from '@/components/OptimizedVideo';
 import { LiveIndicators } from '@/components/LiveIndicators';
 import { recordMusicPlay } from '@/utils/playCountHelper';
 import TipModal from '@/components/TipModal';
+import CollectPostModal from '@/components/CollectPostModal';
+import { GatedPostPreview } from '@/components/feed/GatedPostPreview';
+import { type CollectablePost } from '@/config/somniaDataStreams.v3';
+import { useGatedAccess } from '@/hooks/useGatedAccess';
+import { formatEther } from 'viem';
 import { toast } from 'sonner';
 import { useBookmarks } from '@/hooks/useBookmarks';
 import { SharePostModal } from '@/components/SharePostModal';
@@ -71,6 +80,13 @@ interface PostData {
   isRepost?: boolean; // Is this post a repost/quote?
   quoteText?: string; // Text for quote repost
   quotedPost?: PostData; // The original post being quoted
+  collectModule?: string; // Collect payout address (zero address = not collectible)
+  collectPrice?: string; // Collect price in wei (decimal string)
+  collectLimit?: number; // Max editions (0 = unlimited)
+  collectCount?: number;
+  isCollected?: boolean; // Has current user collected this
+  isGated?: boolean; // Content locked to SongNFT holders / collectors
+  nftTokenId?: number; // Required SongNFT for gated posts (0 = any song by author)
   reposter?: string; // Address of user who reposted (for simple reposts)
   reposterProfile?: {
     username: string;
@@ -162,7 +178,7 @@ const PostCard: React.FC<PostCardProps> = ({
   const navigate = useNavigate();
   const { smartAccountAddress } = useSequence();
   const { readUserProfile } = useSomniaDatastream();
-  const { playTrack, pauseTrack, currentTrack, isPlaying: audioIsPlaying, currentTime, duration: audioDuration } = useAudio();
+  const { playTrack, pauseTrack, playNext, addToQueue, currentTrack, isPlaying: audioIsPlaying, currentTime, duration: audioDuration } = useAudio();
   const globalPlayCounts = useGlobalPlayCounts();
 
   const [authorProfile, setAuthorProfile] = useState<any>(null);
@@ -182,6 +198,9 @@ const PostCard: React.FC<PostCardProps> = ({
   const [showAllTracks, setShowAllTracks] = useState(false);
   const [showShareModal, setShowShareModal] = useState(false);
   const [showTipModal, setShowTipModal] = useState(false);
+  const [showCollectModal, setShowCollectModal] = useState(false);
+  const [collectCount, setCollectCount] = useState(post?.collectCount || 0);
+  const [isCollected, setIsCollected] = useState(post?.isCollected || false);
   const likeButtonRef = React.useRef<HTMLButtonElement>(null);
   const bookmarkButtonRef = React.useRef<HTMLButtonElement>(null);
   
@@ -226,6 +245,19 @@ const PostCard: React.FC<PostCardProps> = ({
     }
   }, [post?.likes]);
 
+  // Sync collect state with post prop changes
+  React.useEffect(() => {
+    if (post?.collectCount !== undefined) {
+      setCollectCount(post.collectCount);
+    }
+  }, [post?.collectCount]);
+
+  React.useEffect(() => {
+    if (post?.isCollected !== undefined) {
+      setIsCollected(post.isCollected);
+    }
+  }, [post?.isCollected]);
+
   // Track tokenId for play count updates
   React.useEffect(() => {
     if (post?.contentType === 'music' && post?.metadata) {
@@ -367,6 +399,59 @@ const PostCard: React.FC<PostCardProps> = ({
     return Boolean(post?.authorProfile?.isArtist || authorProfile?.isArtist);
   }, [post?.authorProfile, authorProfile]);
 
+  // Collect data in datastream format (null = post is not collectible)
+  const collectablePost = useMemo<CollectablePost | null>(() => {
+    if (!post?.collectModule || post.collectModule === '0x0000000000000000000000000000000000000000') {
+      return null;
+    }
+    return {
+      id: Number(post.id),
+      author: post.author,
+      collectModule: post.collectModule,
+      collectPrice: post.collectPrice || '0',
+      collectLimit: post.collectLimit || 0,
+      collectCount,
+    };
+  }, [post?.id, post?.author, post?.collectModule, post?.collectPrice, post?.collectLimit, collectCount]);
+
+  const isSoldOut = Boolean(collectablePost && collectablePost.collectLimit > 0 && collectCount >= collectablePost.collectLimit);
+
+  const gatedPost = useMemo(() => {
+    if (!post?.author) return null;
+    return { author: post.author, isGated: post.isGated || false, nftTokenId: post.nftTokenId || 0 };
+  }, [post?.author, post?.isGated, post?.nftTokenId]);
+  const gatedAccess = useGatedAccess(gatedPost, isCollected);
+  // Gated posts only render their content once access is confirmed
+  const isContentLocked = gatedAccess.isGated && (gatedAccess.isChecking || gatedAccess.isLocked);
+
+  // A quote never unlocks the post it quotes - the viewer needs access to the original
+  const quotedGatedPost = useMemo(() => {
+    if (!post?.quotedPost?.author) return null;
+    return { author: post.quotedPost.author, isGated: post.quotedPost.isGated || false, nftTokenId: post.quotedPost.nftTokenId || 0 };
+  }, [post?.quotedPost?.author, post?.quotedPost?.isGated, post?.quotedPost?.nftTokenId]);
+  const quotedGatedAccess = useGatedAccess(quotedGatedPost);
+  const isQuotedContentLocked = quotedGatedAccess.isGated && (quotedGatedAccess.isChecking || quotedGatedAccess.isLocked);
+
+  const handleCollectClick = () => {
+    if (!smartAccountAddress) {
+      toast.error('Please connect your wallet first');
+      return;
+    }
+    if (post?.author && smartAccountAddress.toLowerCase() === post.author.toLowerCase()) {
+      toast.info('You cannot collect your own post');
+      return;
+    }
+    if (isCollected) {
+      toast.info('You already collected this post');
+      return;
+    }
+    if (isSoldOut) {
+      toast.info('This post is sold out');
+      return;
+    }
+    setShowCollectModal(true);
+  };
+
   const formatTimeAgo = useMemo(() => {
     if (!post?.timestamp) return '';
 
@@ -655,6 +740,57 @@ const PostCard: React.FC<PostCardProps> = ({
   // Use parsed metadata for rendering
   const metadata = parsedMetadata || {};
 
+  // Build the player track of a music post (null when there is no valid audio URL)
+  const buildMusicTrack = () => {
+    // Construct audio URL - support multiple field names and ensure proper IPFS URL
+    let audioUrl = metadata.audioUrl;
+    if (!audioUrl && metadata.ipfsAudioHash) {
+      // Extract clean hash (remove any ipfs:// prefix)
+      const hash = metadata.ipfsAudioHash.replace(/^ipfs:\/\//, '');
+      audioUrl = `https://ipfs.io/ipfs/${hash}`;
+    } else if (audioUrl) {
+      // Clean existing URL (fix double prefix if exists)
+      audioUrl = cleanIPFSUrl(audioUrl);
+    }
+    
+    if (!audioUrl || audioUrl === 'https://ipfs.io/ipfs/') {
+      return null;
+    }
+    
+    // Construct cover URL - clean any double prefix
+    let coverUrl = metadata.imageUrl || metadata.ipfsImageHash || metadata.ipfsArtworkHash;
+    coverUrl = coverUrl ? cleanIPFSUrl(coverUrl) : '/assets/default-cover.jpg';
+    
+    return {
+      id: metadata.tokenId || Number(post.id),
+      tokenId: metadata.tokenId, // ✅ ADD: Explicit tokenId for play count tracking
+      title: metadata.title || 'Untitled',
+      artist: metadata.artist || 'Unknown Artist',
+      avatar: coverUrl,
+      cover: coverUrl,
+      genre: metadata.genre || 'Music',
+      duration: metadata.duration ? `${Math.floor(metadata.duration / 60)}:${String(Math.floor(metadata.duration % 60)).padStart(2, '0')}` : '0:00',
+      audioUrl: audioUrl,
+      likes: post.likes || 0,
+    };
+  };
+
+  const handleQueueTrack = (mode: 'next' | 'end') => {
+    const track = buildMusicTrack();
+    if (!track) {
+      toast.error('Audio file not available');
+      return;
+    }
+    
+    if (mode === 'next') {
+      playNext(track);
+      toast.success(`"${track.title}" will play next`);
+    } else {
+      addToQueue(track);
+      toast.success(`"${track.title}" added to queue`);
+    }
+  };
+
   // Parse content for @mentions and #hashtags using utility function
   const parseContentWithLinksAndTags = (text: string) => {
     if (!text) return null;
@@ -775,6 +911,33 @@ const PostCard: React.FC<PostCardProps> = ({
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-56">
+                {/* Queue options for music posts */}
+                {post.contentType === 'music' && !isContentLocked && (
+                  <>
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleQueueTrack('next');
+                      }}
+                      className="cursor-pointer"
+                    >
+                      <ListEnd className="w-4 h-4 mr-2" />
+                      Play next
+                    </DropdownMenuItem>
+                    <DropdownMenuItem 
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleQueueTrack('end');
+                      }}
+                      className="cursor-pointer"
+                    >
+                      <ListPlus className="w-4 h-4 mr-2" />
+                      Add to queue
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                  </>
+                )}
+
                 {/* Show Delete option if post is from current user */}
                 {post && currentUserAddress && post.author.toLowerCase() === currentUserAddress.toLowerCase() && onDelete && (
                   <>
@@ -872,8 +1035,22 @@ const PostCard: React.FC<PostCardProps> = ({
       </CardHeader>
 
       <CardContent className="space-y-4">
+        {/* Locked preview for token-gated posts */}
+        {isContentLocked && (
+          <GatedPostPreview
+            rule={gatedAccess.rule}
+            nftTokenId={post.nftTokenId}
+            authorName={displayName}
+            isChecking={gatedAccess.isChecking}
+            collectLabel={collectablePost && !isSoldOut
+              ? (BigInt(collectablePost.collectPrice || 0) > 0n ? `${formatEther(BigInt(collectablePost.collectPrice))} STT` : 'free')
+              : undefined}
+            onCollect={handleCollectClick}
+          />
+        )}
+
         {/* Post Content - Show caption FIRST (above music card) */}
-        {post.content && post.content.trim() && (
+        {!isContentLocked && post.content && post.content.trim() && (
           <div className="space-y-2 cursor-pointer">
             <p className="text-sm leading-relaxed whitespace-pre-wrap">
               {parseContentWithLinksAndTags(post.content)}
@@ -882,7 +1059,7 @@ const PostCard: React.FC<PostCardProps> = ({
         )}
 
         {/* Music Content - Same design as PostDetail */}
-        {post.contentType === 'music' && metadata && (
+        {!isContentLocked && post.contentType === 'music' && metadata && (
           <Card className="border-border/30 bg-muted/30">
             <CardContent className="p-3">
               <div className="flex items-center gap-3">
@@ -987,45 +1164,16 @@ const PostCard: React.FC<PostCardProps> = ({
                     console.log('🎵 [BUTTON] Play button clicked!');
                     console.log('🎵 [BUTTON] Metadata:', metadata);
                     
-                    // Construct audio URL - support multiple field names and ensure proper IPFS URL
-                    let audioUrl = metadata.audioUrl;
-                    if (!audioUrl && metadata.ipfsAudioHash) {
-                      // Extract clean hash (remove any ipfs:// prefix)
-                      const hash = metadata.ipfsAudioHash.replace(/^ipfs:\/\//, '');
-                      audioUrl = `https://ipfs.io/ipfs/${hash}`;
-                    } else if (audioUrl) {
-                      // Clean existing URL (fix double prefix if exists)
-                      audioUrl = cleanIPFSUrl(audioUrl);
-                    }
-                    
-                    // Construct cover URL - clean any double prefix
-                    let coverUrl = metadata.imageUrl || metadata.ipfsImageHash || metadata.ipfsArtworkHash;
-                    coverUrl = coverUrl ? cleanIPFSUrl(coverUrl) : '/assets/default-cover.jpg';
-                    
-                    console.log('🔗 [BUTTON] Audio URL:', audioUrl);
-                    console.log('🔗 [BUTTON] Cover URL:', coverUrl);
+const track = buildMusicTrack();
                     
                     // Validate audio URL
-                    if (!audioUrl || audioUrl === 'https://ipfs.io/ipfs/') {
-                      console.error('❌ [BUTTON] Invalid audio URL:', audioUrl);
+                    if (!track) {
+                      console.error('❌ [BUTTON] Invalid audio URL');
                       console.error('❌ [BUTTON] Metadata:', metadata);
                       alert('Audio file not available. Please check if the song was uploaded correctly.');
                       return;
                     }
                     
-                    const track = {
-                      id: metadata.tokenId || Number(post.id),
-                      tokenId: metadata.tokenId, // ✅ ADD: Explicit tokenId for play count tracking
-                      title: metadata.title || 'Untitled',
-                      artist: metadata.artist || 'Unknown Artist',
-                      avatar: coverUrl,
-                      cover: coverUrl,
-                      genre: metadata.genre || 'Music',
-                      duration: metadata.duration ? `${Math.floor(metadata.duration / 60)}:${String(Math.floor(metadata.duration % 60)).padStart(2, '0')}` : '0:00',
-                      audioUrl: audioUrl,
-                      likes: post.likes || 0,
-                    };
-                    
                     console.log('🎵 [PLAY] Track data:', track);
                     console.log('🎵 [PLAY] TokenId for play count:', track.tokenId);
                     console.log('🎵 [PLAY] Audio URL:', track.audioUrl);
@@ -1193,7 +1341,7 @@ const PostCard: React.FC<PostCardProps> = ({
         )}
 
         {/* Quoted Post (if this is a quote repost) - Same styling as DataStreamSocialTest */}
-        {post.quotedPost && (
+        {!isContentLocked && post.quotedPost && (
           <div 
             className="mt-3 p-3 border-2 border-border rounded-lg bg-muted/30 hover:bg-muted/40 transition-colors cursor-pointer"
             onClick={(e) => {
@@ -1231,13 +1379,20 @@ const PostCard: React.FC<PostCardProps> = ({
               </div>
             </div>
 
-            {/* Quoted Post Content */}
-            <div className="text-sm text-muted-foreground line-clamp-3">
-              {post.quotedPost.content}
-            </div>
+            {/* Quoted Post Content - gated originals stay locked inside the quote */}
+            {isQuotedContentLocked ? (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Lock className="w-4 h-4" />
+                <span>{quotedGatedAccess.isChecking ? 'Checking access...' : 'This post is token-gated. Open it to unlock.'}</span>
+              </div>
+            ) : (
+              <div className="text-sm text-muted-foreground line-clamp-3">
+                {post.quotedPost.content}
+              </div>
+            )}
 
             {/* Quoted Post Media - Direct ipfsHash (same as DataStreamSocialTest) */}
-            {post.quotedPost.ipfsHash && (
+            {!isQuotedContentLocked && post.quotedPost.ipfsHash && (
               <div className="mt-2">
                 {post.quotedPost.contentType === 'image' && (
                   <img
@@ -1260,7 +1415,7 @@ const PostCard: React.FC<PostCardProps> = ({
         )}
 
         {/* Post Media - Show after quoted post if exists (same as DataStreamSocialTest) */}
-        {post.ipfsHash && (post.contentType === 'image' || post.contentType === 'quote') && (
+        {!isContentLocked && post.ipfsHash && (post.contentType === 'image' || post.contentType === 'quote') && (
           <img
             src={`https://ipfs.io/ipfs/${post.ipfsHash}`}
             alt="Post"
@@ -1300,7 +1455,7 @@ const PostCard: React.FC<PostCardProps> = ({
         )}
 
         {/* Image/Video Attachments - Support for multiple media (metadata.attachments) */}
-        {metadata?.attachments && metadata.attachments.length > 0 && (
+        {!isContentLocked && metadata?.attachments && metadata.attachments.length > 0 && (
           <div className={`mt-3 ${
             metadata.attachments.length === 1 
               ? '' // Single image: no grid
@@ -1547,6 +1702,27 @@ const PostCard: React.FC<PostCardProps> = ({
                 <Coins className="w-4 h-4" />
               </Button>
             )}
+
+            {/* Collect - Only show for collectible posts */}
+            {collectablePost && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className={`h-8 px-2 space-x-2 transition-colors ${isCollected ? 'text-primary' : 'text-muted-foreground hover:text-primary'} hover:bg-primary/10`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleCollectClick();
+                }}
+                disabled={isLoading}
+                title={isSoldOut ? 'Sold out' : isCollected ? 'Collected' : 'Collect this post'}
+              >
+                <Gem className={`w-4 h-4 ${isCollected ? 'fill-current' : ''}`} />
+                <span className="text-xs">
+                  {collectCount}
+                  {collectablePost.collectLimit > 0 ? `/${collectablePost.collectLimit}` : ''}
+                </span>
+              </Button>
+            )}
           </div>
 
           {/* Right side: Bookmark, Share */}
@@ -1603,6 +1779,7 @@ const PostCard: React.FC<PostCardProps> = ({
             recipientAddress={post.author}
             recipientName={displayName}
             recipientAvatar={avatarUrl}
+            postId={post.id}
             onTipSent={() => {
               // Optional: refresh post or show success message
               console.log('Tip sent successfully');
@@ -1610,6 +1787,21 @@ const PostCard: React.FC<PostCardProps> = ({
           />
         )}
 
+        {/* Collect Modal */}
+        {collectablePost && (
+          <CollectPostModal
+            isOpen={showCollectModal}
+            onClose={() => setShowCollectModal(false)}
+            post={collectablePost}
+            authorName={displayName}
+            authorAvatar={avatarUrl}
+            onCollected={() => {
+              setIsCollected(true);
+              setCollectCount(prev => prev + 1);
+            }}
+          />
+        )}
+
         {/* View Likes and Reposts Links - sama seperti DataStreamSocialTest */}
         <div className="flex items-center gap-4 pt-2">
           {likesCount > 0 && onViewLikes && (
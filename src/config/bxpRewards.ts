@@ -85,12 +85,54 @@ export const WEEKLY_XP_CAP = 5000;
 export type BXPRewardType = keyof typeof BXP_REWARDS;
 export type BXPMultiplierType = keyof typeof BXP_MULTIPLIERS;
 
+// ===== XP RULE SETS =====
+// Rewards, caps and multipliers are versioned rule sets loaded at runtime (see xpRulesService).
+// The constants above are version 0 - the fallback when no published rule set is in effect.
+
+export interface XPRuleCondition {
+  id: string;
+  label: string;                    // e.g. "Double XP on lo-fi this weekend"
+  rewardTypes?: BXPRewardType[];    // Empty = every reward type
+  genre?: string;                   // Matches metadata.genre (case-insensitive)
+  daysOfWeek?: number[];            // 0 = Sunday ... 6 = Saturday
+  startsAt?: number;                // Optional window inside the rule set (ms)
+  endsAt?: number;
+  multiplier?: number;              // Applied on top of user multipliers
+  bonusXP?: number;                 // Flat XP added after multipliers
+}
+
+export interface XPRuleSet {
+  version: number;
+  name: string;
+  effectiveFrom: number;            // ms - the newest set already in effect wins
+  effectiveUntil?: number;          // ms - after this the previous set applies again
+  rewards: Record<BXPRewardType, number>;
+  multipliers: Record<BXPMultiplierType, number>;
+  dailyCap: number;
+  weeklyCap: number;
+  conditions: XPRuleCondition[];
+  author?: string;
+  createdAt?: number;
+}
+
+export const DEFAULT_XP_RULE_SET: XPRuleSet = {
+  version: 0,
+  name: 'Default rewards',
+  effectiveFrom: 0,
+  rewards: { ...BXP_REWARDS },
+  multipliers: { ...BXP_MULTIPLIERS },
+  dailyCap: DAILY_XP_CAP,
+  weeklyCap: WEEKLY_XP_CAP,
+  conditions: [],
+};
+
 export interface BXPTransaction {
   id: string;
   userAddress: string;
   amount: number;
   type: BXPRewardType;
   multiplier: number;
+  ruleSetVersion: number;           // XP rule set used to price this award (0 = defaults)
   timestamp: number;
   metadata?: {
     songId?: string;
@@ -149,11 +191,14 @@ export function calculateLevel(totalXP: number): {
 }
 
 // Helper function to calculate total multiplier
-export function calculateMultiplier(multipliers: BXPMultiplierType[]): number {
+export function calculateMultiplier(
+  multipliers: BXPMultiplierType[],
+  ruleSet: XPRuleSet = DEFAULT_XP_RULE_SET
+): number {
   let totalMultiplier = 1.0;
   
   for (const multiplierType of multipliers) {
-    totalMultiplier *= BXP_MULTIPLIERS[multiplierType];
+    totalMultiplier *= ruleSet.multipliers[multiplierType] ?? BXP_MULTIPLIERS[multiplierType];
   }
   
   return totalMultiplier;
@@ -162,8 +207,46 @@ export function calculateMultiplier(multipliers: BXPMultiplierType[]): number {
 // Helper function to calculate final XP with multipliers
 export function calculateFinalXP(
   baseXP: number,
-  multipliers: BXPMultiplierType[]
+  multipliers: BXPMultiplierType[],
+  ruleSet: XPRuleSet = DEFAULT_XP_RULE_SET
 ): number {
-  const multiplier = calculateMultiplier(multipliers);
+  const multiplier = calculateMultiplier(multipliers, ruleSet);
   return Math.floor(baseXP * multiplier);
 }
+
+// Helper function to order rule sets newest version first
+// Two admins publishing at once can claim the same version - the earlier publish, then the lower author address, wins
+export function compareRuleSets(a: XPRuleSet, b: XPRuleSet): number {
+  return b.version - a.version
+    || (a.createdAt || 0) - (b.createdAt || 0)
+    || (a.author || '').toLowerCase().localeCompare((b.author || '').toLowerCase());
+}
+
+// Helper function to pick the rule set in effect at a given time
+export function resolveActiveRuleSet(ruleSets: XPRuleSet[], at: number = Date.now()): XPRuleSet {
+  const active = ruleSets
+    .filter(ruleSet => ruleSet.effectiveFrom <= at && (!ruleSet.effectiveUntil || at < ruleSet.effectiveUntil))
+    .sort((a, b) => b.effectiveFrom - a.effectiveFrom || compareRuleSets(a, b));
+
+  return active[0] || DEFAULT_XP_RULE_SET;
+}
+
+// Helper function to find the conditions of a rule set that apply to an award
+export function getMatchingConditions(
+  ruleSet: XPRuleSet,
+  rewardType: BXPRewardType,
+  context: { genre?: string; timestamp?: number } = {}
+): XPRuleCondition[] {
+  const at = context.timestamp ?? Date.now();
+  const day = new Date(at).getDay();
+  const genre = context.genre?.toLowerCase();
+
+  return ruleSet.conditions.filter(condition => {
+    if (condition.rewardTypes?.length && !condition.rewardTypes.includes(rewardType)) return false;
+    if (condition.genre && condition.genre.toLowerCase() !== genre) return false;
+    if (condition.daysOfWeek?.length && !condition.daysOfWeek.includes(day)) return false;
+    if (condition.startsAt && at < condition.startsAt) return false;
+    if (condition.endsAt && at >= condition.endsAt) return false;
+    return true;
+  });
+}
@@ -0,0 +1,30 @@
+// Referral Revenue Sharing Configuration
+// Share link ?ref=<address> -> referrer dapat cut dari tip, collect & purchase
+
+const DEFAULT_CUT_BPS = 500;
+const envCutBps = Number(import.meta.env.VITE_REFERRAL_CUT_BPS ?? DEFAULT_CUT_BPS);
+
+export const REFERRAL_CONFIG = {
+  // Query param carried by share links
+  queryParam: 'ref',
+
+  // Referrer cut in basis points (500 = 5%)
+  cutBps: Number.isFinite(envCutBps) ? envCutBps : DEFAULT_CUT_BPS,
+
+  // How long a referral link stays attributed after the visit
+  attributionWindowMs: 7 * 24 * 60 * 60 * 1000, // 7 days
+
+  // localStorage key for captured referrals
+  storageKey: 'hibeats_referrals',
+} as const;
+
+// Calculate referrer cut (wei) for a payment amount
+export const calculateReferralCut = (amountWei: bigint): bigint => {
+  const bps = Math.min(Math.max(Math.floor(REFERRAL_CONFIG.cutBps), 0), 10000);
+  return (amountWei * BigInt(bps)) / 10000n;
+};
+
+// Cut as a display percentage (e.g. "5%")
+export const getReferralCutLabel = (): string => {
+  return `${REFERRAL_CONFIG.cutBps / 100}%`;
+};
@@ -12,6 +12,7 @@ export const BXP_SCHEMAS = {
       baseAmount: 'number',            // Base XP before multipliers
       type: 'string',                  // Reward type (e.g., "COMPLETE_SONG_PLAY")
       multiplier: 'number',            // Total multiplier applied
+      ruleSetVersion: 'number',        // XP rule set version used (0 = defaults)
       timestamp: 'number',             // Unix timestamp
       metadata: 'string',              // JSON string with additional data
       dailyTotal: 'number',            // Running total for the day
@@ -104,3 +105,26 @@ export const BXP_SCHEMA_IDS: Record<string, string> = {
 };
 
 export type BXPSchemaType = keyof typeof BXP_SCHEMAS;
+
+// BXP transaction as stored on-chain (metadata kept as a JSON string)
+export interface BXPTransactionRecord {
+  id: string;
+  userAddress: string;
+  amount: number;
+  baseAmount: number;
+  type: string;
+  multiplier: number;
+  ruleSetVersion: number;
+  timestamp: number;
+  metadata: string;
+}
+
+// On-chain schema strings for BXP data written through the Somnia SDK
+// (multiplier stored in basis points - schema has no decimals)
+export const BXP_SCHEMA_STRINGS: Partial<Record<BXPSchemaType, string>> = {
+  BXP_TRANSACTIONS: 'uint64 timestamp, string id, address userAddress, uint64 amount, uint64 baseAmount, string rewardType, uint32 multiplierBps, uint64 ruleSetVersion, string metadata',
+};
+
+// Versioned XP reward rule sets (see services/xpRulesService)
+export const XP_RULES_SCHEMA_NAME = 'hibeats_xp_rules_v1';
+export const XP_RULES_SCHEMA = 'uint64 timestamp, uint64 version, uint64 effectiveFrom, uint64 effectiveUntil, string name, string rules, address author';
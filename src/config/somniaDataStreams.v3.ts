@@ -42,8 +42,8 @@ export const SOMNIA_CONFIG_V3 = {
     // Interactions V6 - Enhanced with tipping
     interactions: 'hibeats_interactions_v6',
     
-    // User profiles V6 - Cached for fast lookups
-    profiles: 'hibeats_profiles_v6',
+    // User profiles V7 - Cached for fast lookups + DM encryption public key
+    profiles: 'hibeats_profiles_v7',
     
     // NEW: Feed index - For ultra-fast feed loading
     feedIndex: 'hibeats_feed_index_v1',
@@ -59,6 +59,12 @@ export const SOMNIA_CONFIG_V3 = {
     
     // NEW: Activity history - For wallet activity tracking
     activityHistory: 'hibeats_activity_history_v1',
+    
+    // NEW: Direct messages - 1:1 conversations between wallets
+    directMessages: 'hibeats_direct_messages_v2',
+    
+    // NEW: Hashtag index - hashtag -> postIds lookup & trending topics
+    hashtagIndex: 'hibeats_hashtag_index_v1',
   },
   
   // Schema Strings for Somnia SDK (V6 - FULL SOCIALFI FEATURES)
@@ -71,8 +77,9 @@ export const SOMNIA_CONFIG_V3 = {
     // NEW: Tip support, metadata for extensibility
     interactions: 'uint256 id, uint256 timestamp, uint8 interactionType, uint256 targetId, uint8 targetType, address fromUser, string content, uint256 parentId, uint256 tipAmount',
     
-    // Profiles Schema (9 fields - cached stats)
-    profiles: 'address userAddress, string username, string displayName, string bio, string avatarHash, uint32 followerCount, uint32 followingCount, bool isVerified, bool isArtist',
+    // Profiles Schema (12 fields - cached stats + signed DM encryption key)
+    // encryptionKey = compressed secp256k1 public key (see utils/dmCrypto)
+    profiles: 'address userAddress, string username, string displayName, string bio, string avatarHash, uint32 followerCount, uint32 followingCount, bool isVerified, bool isArtist, string encryptionKey, uint32 encryptionKeyVersion, bytes encryptionKeySignature',
     
     // NEW: Feed Index Schema (4 fields - ultra minimal for speed)
     // Maps sequential index to postId for O(1) pagination
@@ -93,6 +100,15 @@ export const SOMNIA_CONFIG_V3 = {
     // NEW: Activity History Schema (10 fields - for wallet activity tracking)
     // Records all user activities for activity feed
     activityHistory: 'uint256 id, uint256 timestamp, address user, uint8 activityType, string title, string description, uint256 targetId, address targetAddress, string txHash, string metadata',
+    
+    // NEW: Direct Messages Schema (8 fields - 1:1 chat + read receipts)
+    // conversationId = both wallet addresses (sorted, lowercase)
+    // proof = sender's signature over the record (see utils/dmCrypto) - the server wallet writes, so sender is only trusted with it
+    directMessages: 'uint256 id, uint256 timestamp, string conversationId, address sender, address recipient, uint8 messageType, string content, string proof',
+    
+    // NEW: Hashtag Index Schema (4 fields - one record per tag per post)
+    // tag = lowercase, without '#' (see parseHashtags)
+    hashtagIndex: 'uint256 timestamp, string tag, uint256 postId, address author',
   },
 } as const;
 
@@ -135,6 +151,7 @@ export enum TargetType {
   POST = 0,
   COMMENT = 1,
   USER = 2,  // NEW: For follow/unfollow interactions
+  SONG = 3,  // Minted SongNFT likes (targetId = tokenId)
 }
 
 /**
@@ -149,6 +166,24 @@ export enum ActivityType {
   USER_UNFOLLOWED = 5,
 }
 
+/**
+ * Gating rules for token-gated posts.
+ * Not stored directly - derived from isGated + nftTokenId (see getGatingRule)
+ */
+export enum GatingRule {
+  NONE = 0,            // Public post
+  ARTIST_HOLDERS = 1,  // Holders of any SongNFT by the author
+  SONG_HOLDERS = 2,    // Holders of one specific SongNFT (nftTokenId)
+}
+
+/**
+ * Direct message record types (uint8 enum)
+ */
+export enum DirectMessageType {
+  TEXT = 0,          // Chat message
+  READ_RECEIPT = 1,  // Sender has read everything up to timestamp in content
+}
+
 /**
  * Generated music status (uint8 enum)
  */
@@ -182,10 +217,10 @@ export interface PostDataV3 {
   
   // Monetization Features
   collectModule: string;   // Smart contract address for collect logic (0x0 = disabled)
-  collectPrice: number;    // Price in wei to collect this post (0 = free)
+  collectPrice: string;    // Price in wei as a decimal string - uint256 doesn't fit a Number ('0' = free)
   collectLimit: number;    // Max number of collects (0 = unlimited)
   collectCount: number;    // Current number of collects
-  isGated: boolean;        // Is content locked behind payment
+  isGated: boolean;        // Is content locked to holders/collectors (see GatingRule)
   referrer: string;        // Referral address for revenue sharing (0x0 = none)
   
   // NFT & Flags
@@ -199,12 +234,34 @@ export interface PostDataV3 {
   reposts?: number;
   quotes?: number;
   tips?: number;           // Total tips received
+  collectors?: string[];   // Users who currently hold a collect
   isLiked?: boolean;
   isReposted?: boolean;
   isBookmarked?: boolean;
   isCollected?: boolean;   // Has current user collected this
 }
 
+/**
+ * Subset of post fields needed for the collect flow
+ */
+export type CollectablePost = Pick<
+  PostDataV3,
+  'id' | 'author' | 'collectModule' | 'collectPrice' | 'collectLimit' | 'collectCount'
+>;
+
+/**
+ * Subset of post fields needed to check gated access
+ */
+export type GatedPost = Pick<PostDataV3, 'author' | 'isGated' | 'nftTokenId'>;
+
+/**
+ * Minimal SongNFT ownership record used for gating checks
+ */
+export interface OwnedSongRef {
+  tokenId: string | number;
+  artist?: { id: string };
+}
+
 /**
  * Interaction data structure V6 (Enhanced with Tipping)
  */
@@ -233,6 +290,9 @@ export interface ProfileDataV3 {
   followingCount: number;  // cached following count
   isVerified: boolean;     // verified badge
   isArtist: boolean;       // artist badge
+  encryptionKey: string;   // DM encryption public key ('' = not set up)
+  encryptionKeyVersion: number; // bumped on every key rotation
+  encryptionKeySignature: string; // wallet signature over key + version (see utils/dmCrypto)
 }
 
 /**
@@ -245,6 +305,16 @@ export interface FeedIndexEntry {
   author: string;          // post author
 }
 
+/**
+ * Hashtag index entry (hashtag -> postId)
+ */
+export interface HashtagIndexEntry {
+  timestamp: number;       // post timestamp
+  tag: string;             // lowercase tag without '#'
+  postId: number;          // V6: uint256 post ID
+  author: string;          // post author
+}
+
 /**
  * User activity entry (for personalized feeds)
  */
@@ -285,6 +355,28 @@ export interface PlayEventData {
   source: string;          // where played (feed, collection, album, etc)
 }
 
+/**
+ * Why a play event doesn't count (excluded from trending, play counts & milestones)
+ */
+export type PlayEventFlag =
+  | 'short_listen'   // listened less than MIN_LISTEN_SECONDS
+  | 'rate_limited'   // too many plays of the same token by the listener this hour
+  | 'burst'          // more plays than one player can produce in the burst window
+  | 'loop';          // back-to-back tiny-duration plays
+
+/**
+ * Per-token play aggregate (persistent play-event index)
+ * Updated incrementally, so play queries stay O(tokens) instead of O(events)
+ */
+export interface PlayTokenAggregate {
+  tokenId: number;
+  plays: number;                     // all-time play count
+  listeners: Record<string, number>; // listener (lowercase) -> last play timestamp
+  hourly: Record<number, number>;    // hour bucket (timestamp / PLAY_BUCKET_SIZE) -> plays
+  lastPlayedAt: number;
+  flaggedPlays: number;              // plays excluded by validation (not in the counts above)
+}
+
 /**
  * Activity history types (uint8 enum)
  */
@@ -299,6 +391,7 @@ export enum ActivityHistoryType {
   COMMENT = 7,
   LIKE = 8,
   REPOST = 9,
+  REFERRAL_REWARD = 10,  // Referrer received a cut (user = referrer)
 }
 
 /**
@@ -308,7 +401,7 @@ export interface ActivityHistoryData {
   id: number;              // uint256 = timestamp
   timestamp: number;       // unix timestamp
   user: string;            // user address
-  activityType: ActivityHistoryType; // enum (0-9)
+  activityType: ActivityHistoryType; // enum (0-10)
   title: string;           // activity title
   description: string;     // activity description
   targetId: number;        // target ID (tokenId, postId, etc)
@@ -317,6 +410,67 @@ export interface ActivityHistoryData {
   metadata: string;        // JSON metadata
 }
 
+/**
+ * Direct message data structure (1:1 chat between wallets)
+ */
+export interface DirectMessageData {
+  id: number;              // uint256 = timestamp + random
+  timestamp: number;       // unix timestamp
+  conversationId: string;  // see getConversationId
+  sender: string;          // sender address
+  recipient: string;       // recipient address
+  messageType: DirectMessageType; // enum (0-1)
+  content: string;         // e2e envelope (see utils/dmCrypto), read receipts: last read timestamp
+  proof: string;           // sender's signature over the other fields (see utils/dmCrypto)
+}
+
+export type UnsignedDirectMessage = Omit<DirectMessageData, 'proof'>;
+
+// Signs a record on behalf of its sender, returns the proof
+export type DirectMessageSigner = (message: UnsignedDirectMessage) => Promise<string>;
+
+/**
+ * Conversation summary for the inbox (derived, not stored)
+ */
+export interface ConversationSummary {
+  conversationId: string;
+  peer: string;                 // the other wallet
+  messages: DirectMessageData[]; // TEXT messages, oldest first
+  lastMessage?: DirectMessageData;
+  unreadCount: number;          // peer messages newer than my last read receipt
+  lastReadByMe: number;         // timestamp
+  lastReadByPeer: number;       // timestamp
+}
+
+/**
+ * Payment details for TIP / COLLECT interactions (stored in content)
+ */
+export interface PaymentAttribution {
+  txHash: string;           // Payment tx to the post author
+  referrer?: string;        // Referrer address from share link
+  referrerCut?: string;     // Wei paid to referrer (string to keep bigint precision)
+  referrerTxHash?: string;  // Payment tx to the referrer
+}
+
+/**
+ * What a referral reward was earned on
+ */
+export type ReferralSource = 'collect' | 'tip' | 'purchase';
+
+/**
+ * Referral reward (parsed from REFERRAL_REWARD activity history)
+ */
+export interface ReferralReward {
+  id: number;
+  timestamp: number;
+  source: ReferralSource;
+  targetId: number;        // postId (collect/tip) or tokenId (purchase)
+  payer: string;           // who paid
+  amount: string;          // gross payment in wei
+  cut: string;             // referrer cut in wei
+  txHash: string;          // referrer payment tx
+}
+
 /**
  * Aggregated post stats (computed from interactions)
  */
@@ -326,11 +480,14 @@ export interface PostStats {
   reposts: number;
   quotes: number;
   bookmarks: number;
+  collects: number;
   userLiked: boolean;
   userReposted: boolean;
   userBookmarked: boolean;
+  userCollected: boolean;
   likedBy: string[];       // List of users who liked
   repostedBy: string[];    // List of users who reposted
+  collectedBy: string[];   // List of users who collected
   topComments: InteractionDataV3[]; // Top-level comments only
 }
 
@@ -468,6 +625,18 @@ export const parseMentions = (mentions: string): string[] => {
   return mentions.split(',').map(m => m.trim()).filter(m => m.startsWith('0x'));
 };
 
+/**
+ * Extract hashtags from post content (lowercase, unique, without #)
+ * 
+ * @param content - "New beat #LoFi #lofi #chill"
+ * @returns ["lofi", "chill"]
+ */
+export const parseHashtags = (content: string): string[] => {
+  if (!content) return [];
+  const tags = (content.match(/#(\w+)/g) || []).map(tag => tag.slice(1).toLowerCase());
+  return Array.from(new Set(tags));
+};
+
 /**
  * Format mentions to comma-separated string
  * 
@@ -487,7 +656,7 @@ export const formatMentions = (addresses: string[]): string => {
 export const isMonetized = (post: PostDataV3): boolean => {
   return (
     (post.collectModule && post.collectModule !== '0x0000000000000000000000000000000000000000') ||
-    (post.collectPrice && post.collectPrice > 0) ||
+    BigInt(post.collectPrice || 0) > 0n ||
     post.isGated
   );
 };
@@ -498,7 +667,7 @@ export const isMonetized = (post: PostDataV3): boolean => {
  * @param post - Post data
  * @returns true if collect is available
  */
-export const canCollect = (post: PostDataV3): boolean => {
+export const canCollect = (post: CollectablePost): boolean => {
   if (!post.collectModule || post.collectModule === '0x0000000000000000000000000000000000000000') {
     return false;
   }
@@ -508,6 +677,103 @@ export const canCollect = (post: PostDataV3): boolean => {
   return true;
 };
 
+/**
+ * Get remaining collects for a post
+ * 
+ * @param post - Post data
+ * @returns Remaining collects, or null if unlimited
+ */
+export const getRemainingCollects = (post: CollectablePost): number | null => {
+  if (!post.collectLimit || post.collectLimit <= 0) return null;
+  return Math.max(post.collectLimit - (post.collectCount || 0), 0);
+};
+
+/**
+ * Apply a post's collect limit to its aggregated collects
+ * 
+ * Collect interactions are written by the collector, so collects past the limit can still
+ * be recorded - only the first `collectLimit` collectors (in order) count and unlock the post.
+ * 
+ * @param stats - Aggregated stats (collectedBy is oldest first)
+ * @param collectLimit - Max number of collects (0 = unlimited)
+ * @param viewer - Address the stats were aggregated for
+ */
+export const applyCollectLimit = (
+  stats: Pick<PostStats, 'collects' | 'collectedBy' | 'userCollected'>,
+  collectLimit: number,
+  viewer?: string
+): Pick<PostStats, 'collects' | 'collectedBy' | 'userCollected'> => {
+  if (!collectLimit || collectLimit <= 0) {
+    return { collects: stats.collects, collectedBy: stats.collectedBy, userCollected: stats.userCollected };
+  }
+
+  const collectedBy = stats.collectedBy.slice(0, collectLimit);
+  const viewerLower = viewer?.toLowerCase();
+  return {
+    collects: collectedBy.length,
+    collectedBy,
+    userCollected: stats.userCollected && !!viewerLower && collectedBy.some(c => c.toLowerCase() === viewerLower),
+  };
+};
+
+/**
+ * Normalize a decoded uint256 wei amount to a decimal string
+ */
+export const toWeiString = (value: unknown): string => {
+  try {
+    if (typeof value === 'bigint') return value.toString();
+    if (typeof value === 'number' || typeof value === 'string') {
+      return BigInt(typeof value === 'number' ? Math.trunc(value) : value.trim() || '0').toString();
+    }
+  } catch {
+    // Not a number
+  }
+  return '0';
+};
+
+/**
+ * Get the gating rule of a post
+ * 
+ * @param post - Post data
+ * @returns GatingRule derived from isGated + nftTokenId
+ */
+export const getGatingRule = (post: Pick<PostDataV3, 'isGated' | 'nftTokenId'>): GatingRule => {
+  if (!post.isGated) return GatingRule.NONE;
+  return post.nftTokenId > 0 ? GatingRule.SONG_HOLDERS : GatingRule.ARTIST_HOLDERS;
+};
+
+/**
+ * Check if a viewer can see the content of a gated post
+ * 
+ * Author always has access. Collectors unlock by paying the collect price,
+ * everyone else needs a matching SongNFT.
+ * 
+ * @param post - Post data
+ * @param viewer - Viewer address (undefined = not connected)
+ * @param ownedSongs - SongNFTs owned by the viewer
+ * @param hasCollected - Has viewer collected this post
+ * @returns true if content should be shown
+ */
+export const canViewGatedPost = (
+  post: GatedPost,
+  viewer: string | undefined,
+  ownedSongs: OwnedSongRef[],
+  hasCollected: boolean = false
+): boolean => {
+  const rule = getGatingRule(post);
+  if (rule === GatingRule.NONE) return true;
+  if (!viewer) return false;
+  if (viewer.toLowerCase() === post.author.toLowerCase()) return true;
+  if (hasCollected) return true;
+
+  if (rule === GatingRule.SONG_HOLDERS) {
+    return ownedSongs.some(song => Number(song.tokenId) === post.nftTokenId);
+  }
+
+  const author = post.author.toLowerCase();
+  return ownedSongs.some(song => song.artist?.id?.toLowerCase() === author);
+};
+
 /**
  * Format price for display
  * 
@@ -584,7 +850,7 @@ export const createDefaultPostData = (author: string, content: string): PostData
     replyToId: 0, // V6: new field
     mentions: '', // V6: new field
     collectModule: '0x0000000000000000000000000000000000000000', // V6: new field
-    collectPrice: 0, // V6: new field
+    collectPrice: '0', // V6: new field
     collectLimit: 0, // V6: new field
     collectCount: 0, // V6: new field
     isGated: false, // V6: new field
@@ -708,6 +974,86 @@ export const createUnbookmarkInteraction = (postId: number, fromUser: string): I
   };
 };
 
+/**
+ * Encode payment attribution for the interaction content field
+ * 
+ * Plain tx hash when there is no referrer, JSON otherwise
+ */
+export const encodePaymentAttribution = (payment: PaymentAttribution): string => {
+  if (!payment.referrer) return payment.txHash;
+  return JSON.stringify(payment);
+};
+
+/**
+ * Parse payment attribution from a TIP / COLLECT interaction content
+ */
+export const parsePaymentAttribution = (content: string): PaymentAttribution => {
+  if (!content || !content.startsWith('{')) {
+    return { txHash: content || '' };
+  }
+  try {
+    const parsed = JSON.parse(content);
+    return {
+      txHash: parsed.txHash || '',
+      referrer: parsed.referrer,
+      referrerCut: parsed.referrerCut,
+      referrerTxHash: parsed.referrerTxHash,
+    };
+  } catch {
+    return { txHash: '' };
+  }
+};
+
+/**
+ * Create tip interaction data
+ * 
+ * tipAmount records the total tip (wei), content stores the payment attribution
+ */
+export const createTipInteraction = (
+  postId: number,
+  fromUser: string,
+  amount: number,
+  payment: PaymentAttribution = { txHash: '' }
+): InteractionDataV3 => {
+  const timestamp = Date.now();
+  return {
+    id: createInteractionId(InteractionType.TIP, fromUser, timestamp, postId),
+    timestamp,
+    interactionType: InteractionType.TIP,
+    targetId: postId,
+    targetType: TargetType.POST,
+    fromUser,
+    content: encodePaymentAttribution(payment),
+    parentId: 0,
+    tipAmount: amount,
+  };
+};
+
+/**
+ * Create collect interaction data
+ * 
+ * tipAmount records the price paid (wei), content stores the payment attribution
+ */
+export const createCollectInteraction = (
+  postId: number,
+  fromUser: string,
+  pricePaid: bigint,
+  payment: PaymentAttribution = { txHash: '' }
+): InteractionDataV3 => {
+  const timestamp = Date.now();
+  return {
+    id: createInteractionId(InteractionType.COLLECT, fromUser, timestamp, postId),
+    timestamp,
+    interactionType: InteractionType.COLLECT,
+    targetId: postId,
+    targetType: TargetType.POST,
+    fromUser,
+    content: encodePaymentAttribution(payment),
+    parentId: 0,
+    tipAmount: Number(pricePaid), // Informational - the collect price itself stays a wei string on the post
+  };
+};
+
 /**
  * Create follow interaction data
  */
@@ -766,6 +1112,7 @@ export const aggregateInteractions = (
   const userLikeState = new Map<number, Map<string, boolean>>(); // postId -> userId -> isLiked
   const userRepostState = new Map<number, Map<string, boolean>>(); // postId -> userId -> isReposted
   const userBookmarkState = new Map<number, Map<string, boolean>>(); // postId -> userId -> isBookmarked
+  const userCollectState = new Map<number, Map<string, boolean>>(); // postId -> userId -> isCollected
   
   // Sort interactions by timestamp (oldest first) untuk process secara chronological
   const sortedInteractions = [...interactions].sort((a, b) => a.timestamp - b.timestamp);
@@ -783,11 +1130,14 @@ export const aggregateInteractions = (
         reposts: 0,
         quotes: 0,
         bookmarks: 0,
+        collects: 0,
         userLiked: false,
         userReposted: false,
         userBookmarked: false,
+        userCollected: false,
         likedBy: [],
         repostedBy: [],
+        collectedBy: [],
         topComments: [],
       };
       statsMap.set(targetId, stats);
@@ -887,6 +1237,34 @@ export const aggregateInteractions = (
         }
         break;
       }
+        
+      case InteractionType.COLLECT: {
+        // Get or create user collect state for this post
+        let postCollects = userCollectState.get(targetId);
+        if (!postCollects) {
+          postCollects = new Map();
+          userCollectState.set(targetId, postCollects);
+        }
+        
+        // One collect per user (retries of the same collect are ignored)
+        if (!postCollects.get(fromUserLower)) {
+          postCollects.set(fromUserLower, true);
+          stats.collectedBy.push(fromUser);
+          if (isCurrentUser) stats.userCollected = true;
+        }
+        break;
+      }
+        
+      case InteractionType.UNCOLLECT: {
+        // Get user collect state for this post
+        const postCollects = userCollectState.get(targetId);
+        if (postCollects && postCollects.get(fromUserLower)) {
+          postCollects.set(fromUserLower, false);
+          stats.collectedBy = stats.collectedBy.filter(u => u.toLowerCase() !== fromUserLower);
+          if (isCurrentUser) stats.userCollected = false;
+        }
+        break;
+      }
     }
   }
   
@@ -910,6 +1288,12 @@ export const aggregateInteractions = (
       stats.bookmarks = Array.from(postBookmarks.values()).filter(bookmarked => bookmarked).length;
     }
     
+    // Count collects
+    const postCollects = userCollectState.get(targetId);
+    if (postCollects) {
+      stats.collects = Array.from(postCollects.values()).filter(collected => collected).length;
+    }
+    
     // Sort top comments by timestamp (oldest first)
     stats.topComments.sort((a, b) => a.timestamp - b.timestamp);
   }
@@ -1046,7 +1430,8 @@ export const countQuotes = (posts: PostDataV3[]): Map<number, number> => {
 export const mergePostsWithStats = (
   posts: PostDataV3[],
   statsMap: Map<number, PostStats>,
-  quoteCounts?: Map<number, number>
+  quoteCounts?: Map<number, number>,
+  viewer?: string
 ): PostDataV3[] => {
   return posts.map(post => {
     const stats = statsMap.get(post.id);
@@ -1059,15 +1444,21 @@ export const mergePostsWithStats = (
       };
     }
     
+    const collectStats = applyCollectLimit(stats, post.collectLimit, viewer);
+
     return {
       ...post,
       likes: stats.likes,
       comments: stats.comments,
       reposts: stats.reposts,
       quotes,
+      // Stored collectCount is only a snapshot at post time; interactions are the source of truth
+      collectCount: Math.max(post.collectCount || 0, collectStats.collects),
+      collectors: collectStats.collectedBy,
       isLiked: stats.userLiked,
       isReposted: stats.userReposted,
       isBookmarked: stats.userBookmarked,
+      isCollected: collectStats.userCollected,
     };
   });
 };
@@ -1317,6 +1708,98 @@ export const validatePlayEventData = (data: Partial<PlayEventData>): boolean =>
   return true;
 };
 
+// Play validation (anti-farming) thresholds
+export const PLAY_VALIDATION = {
+  MIN_LISTEN_SECONDS: 30,                  // real listen time (playback clock) before a play counts
+  MAX_PLAYS_PER_TOKEN_PER_HOUR: 3,         // per listener
+  BURST_WINDOW: 10 * 60 * 1000,            // 10 minutes
+  LOOP_MAX_DURATION: 45,                   // seconds - "tiny" plays, barely over the minimum
+  LOOP_MIN_REPEATS: 3,                     // consecutive tiny plays that make a loop
+  LOOP_WINDOW: 10 * 60 * 1000,             // 10 minutes
+  HISTORY_WINDOW: 60 * 60 * 1000,          // longest window above - older plays can be forgotten
+};
+
+/**
+ * Get validation flags for a play event
+ * recentPlays = earlier accepted plays of the same listener (any token), oldest first
+ * An empty array means the play counts
+ */
+export const getPlayEventFlags = (
+  event: Pick<PlayEventData, 'timestamp' | 'tokenId' | 'duration'>,
+  recentPlays: PlayEventData[]
+): PlayEventFlag[] => {
+  const flags: PlayEventFlag[] = [];
+
+  if (event.duration < PLAY_VALIDATION.MIN_LISTEN_SECONDS) {
+    flags.push('short_listen');
+  }
+
+  // Same token, same listener, last hour
+  const tokenPlaysThisHour = recentPlays.filter(p =>
+    p.tokenId === event.tokenId && event.timestamp - p.timestamp < 60 * 60 * 1000
+  ).length;
+  if (tokenPlaysThisHour >= PLAY_VALIDATION.MAX_PLAYS_PER_TOKEN_PER_HOUR) {
+    flags.push('rate_limited');
+  }
+
+  // One player can't produce more than BURST_WINDOW / MIN_LISTEN_SECONDS real listens
+  const maxPlaysPerBurstWindow = Math.floor(PLAY_VALIDATION.BURST_WINDOW / (PLAY_VALIDATION.MIN_LISTEN_SECONDS * 1000));
+  const playsInBurstWindow = recentPlays.filter(p => event.timestamp - p.timestamp < PLAY_VALIDATION.BURST_WINDOW).length;
+  if (playsInBurstWindow >= maxPlaysPerBurstWindow) {
+    flags.push('burst');
+  }
+
+  // Tiny play right after other tiny plays (e.g. skipping every track after ~30s)
+  if (event.duration < PLAY_VALIDATION.LOOP_MAX_DURATION) {
+    const previous = recentPlays.slice(-(PLAY_VALIDATION.LOOP_MIN_REPEATS - 1));
+    const isLoop = previous.length === PLAY_VALIDATION.LOOP_MIN_REPEATS - 1 && previous.every(p =>
+      p.duration < PLAY_VALIDATION.LOOP_MAX_DURATION &&
+      event.timestamp - p.timestamp < PLAY_VALIDATION.LOOP_WINDOW
+    );
+    if (isLoop) {
+      flags.push('loop');
+    }
+  }
+
+  return flags;
+};
+
+/**
+ * Keep a listener's accepted play history short (oldest first, mutates the array)
+ */
+export const prunePlayHistory = (history: PlayEventData[], now: number): void => {
+  const cutoff = now - PLAY_VALIDATION.HISTORY_WINDOW;
+  let expired = 0;
+  while (expired < history.length && history[expired].timestamp <= cutoff) {
+    expired++;
+  }
+  if (expired > 0) history.splice(0, expired);
+};
+
+/**
+ * Drop flagged play events (bursts, loops, rate-limited & short plays)
+ * Events are checked in time order against the listener's earlier accepted plays
+ */
+export const filterValidPlayEvents = (events: PlayEventData[]): PlayEventData[] => {
+  const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+  const historyByListener = new Map<string, PlayEventData[]>();
+  const valid: PlayEventData[] = [];
+
+  for (const event of sorted) {
+    const listener = event.listener.toLowerCase();
+    const history = historyByListener.get(listener) || [];
+    prunePlayHistory(history, event.timestamp);
+
+    if (getPlayEventFlags(event, history).length === 0) {
+      history.push(event);
+      valid.push(event);
+    }
+    historyByListener.set(listener, history);
+  }
+
+  return valid;
+};
+
 /**
  * Aggregate play counts from events
  * Returns Map of tokenId -> play count
@@ -1359,8 +1842,8 @@ export const calculateTrendingScore = (
   const now = Date.now();
   const cutoff = now - timeWindow;
   
-  // Filter events within time window
-  const recentEvents = events.filter(e => 
+  // Filter valid events within time window (flagged plays don't count)
+  const recentEvents = filterValidPlayEvents(events).filter(e => 
     e.tokenId === tokenId && e.timestamp >= cutoff
   );
   
@@ -1391,11 +1874,12 @@ export const getTrendingSongs = (
   limit: number = 10,
   timeWindow?: number
 ): Array<{ tokenId: number; score: number; plays: number; uniqueListeners: number }> => {
+  const validEvents = filterValidPlayEvents(events);
   const trending = tokenIds.map(tokenId => {
-    const score = calculateTrendingScore(tokenId, events, timeWindow);
-    const songEvents = events.filter(e => e.tokenId === tokenId);
+    const score = calculateTrendingScore(tokenId, validEvents, timeWindow);
+    const songEvents = validEvents.filter(e => e.tokenId === tokenId);
     const plays = songEvents.length;
-    const uniqueListeners = getUniqueListeners(events, tokenId).size;
+    const uniqueListeners = getUniqueListeners(validEvents, tokenId).size;
     
     return { tokenId, score, plays, uniqueListeners };
   });
@@ -1406,6 +1890,80 @@ export const getTrendingSongs = (
   return trending.slice(0, limit);
 };
 
+export const PLAY_BUCKET_SIZE = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Add a valid play event to a token aggregate (mutates the aggregate)
+ * Flagged events only bump flaggedPlays - see getPlayEventFlags
+ */
+export const applyPlayEventToAggregate = (aggregate: PlayTokenAggregate, event: PlayEventData): void => {
+  const listener = event.listener.toLowerCase();
+  const bucket = Math.floor(event.timestamp / PLAY_BUCKET_SIZE);
+
+  aggregate.plays += 1;
+  aggregate.listeners[listener] = Math.max(aggregate.listeners[listener] || 0, event.timestamp);
+  aggregate.hourly[bucket] = (aggregate.hourly[bucket] || 0) + 1;
+  aggregate.lastPlayedAt = Math.max(aggregate.lastPlayedAt, event.timestamp);
+};
+
+/**
+ * Calculate trending score from a token aggregate
+ * Same formula as calculateTrendingScore, with hourly buckets instead of raw events
+ */
+export const calculateAggregateTrendingScore = (
+  aggregate: PlayTokenAggregate,
+  timeWindow: number = 7 * 24 * 60 * 60 * 1000 // 7 days
+): number => {
+  const now = Date.now();
+  const cutoff = now - timeWindow;
+  const cutoffBucket = Math.floor(cutoff / PLAY_BUCKET_SIZE);
+
+  // Count plays in buckets within time window
+  let playCount = 0;
+  let timestampSum = 0;
+  for (const [bucketKey, plays] of Object.entries(aggregate.hourly)) {
+    const bucket = Number(bucketKey);
+    if (bucket < cutoffBucket) continue;
+    playCount += plays;
+    // Bucket midpoint, clamped to the window
+    const midpoint = Math.min(Math.max(bucket * PLAY_BUCKET_SIZE + PLAY_BUCKET_SIZE / 2, cutoff), now);
+    timestampSum += midpoint * plays;
+  }
+
+  if (playCount === 0) return 0;
+
+  // Count unique listeners (last play within time window)
+  const uniqueListeners = Object.values(aggregate.listeners).filter(ts => ts >= cutoff).length;
+
+  // Calculate recency boost (newer = higher score)
+  const avgTimestamp = timestampSum / playCount;
+  const recencyBoost = (avgTimestamp - cutoff) / timeWindow * 10; // 0-10 points
+
+  // Final score
+  return (playCount * 0.7) + (uniqueListeners * 0.3) + recencyBoost;
+};
+
+/**
+ * Get trending songs from token aggregates (sorted by score)
+ */
+export const getTrendingSongsFromAggregates = (
+  aggregates: PlayTokenAggregate[],
+  limit: number = 10,
+  timeWindow?: number
+): Array<{ tokenId: number; score: number; plays: number; uniqueListeners: number }> => {
+  const trending = aggregates.map(aggregate => ({
+    tokenId: aggregate.tokenId,
+    score: calculateAggregateTrendingScore(aggregate, timeWindow),
+    plays: aggregate.plays,
+    uniqueListeners: Object.keys(aggregate.listeners).length,
+  }));
+
+  // Sort by score (highest first)
+  trending.sort((a, b) => b.score - a.score);
+
+  return trending.slice(0, limit);
+};
+
 /**
  * Check if user already played song today (anti-spam)
  */
@@ -1425,4 +1983,160 @@ export const hasPlayedToday = (
   );
 };
 
+// ===== Direct Messages Helper Functions =====
+
+/**
+ * Conversation ID for two wallets (order independent)
+ */
+export const getConversationId = (addressA: string, addressB: string): string => {
+  return [addressA.toLowerCase(), addressB.toLowerCase()].sort().join('_');
+};
+
+/**
+ * Get the other wallet of a conversation
+ */
+export const getConversationPeer = (conversationId: string, userAddress: string): string => {
+  const [first, second] = conversationId.split('_');
+  return first === userAddress.toLowerCase() ? second : first;
+};
+
+/**
+ * Create direct message ID (uint256 = timestamp + random)
+ */
+export const createDirectMessageId = (): number => {
+  const ts = Date.now();
+  const random = Math.floor(Math.random() * 1000);
+  return ts * 1000 + random;
+};
+
+/**
+ * Validate direct message data
+ */
+export const validateDirectMessageData = (data: Partial<DirectMessageData>): boolean => {
+  if (!data.sender || !data.recipient) return false;
+  if (data.sender.toLowerCase() === data.recipient.toLowerCase()) return false;
+  if (data.messageType === DirectMessageType.TEXT && !data.content?.trim()) return false;
+  return true;
+};
+
+/**
+ * Group a user's direct message records into conversations
+ * Newest conversation first
+ */
+export const buildConversations = (
+  records: DirectMessageData[],
+  userAddress: string
+): ConversationSummary[] => {
+  const me = userAddress.toLowerCase();
+  const conversations = new Map<string, ConversationSummary>();
+
+  const getSummary = (record: DirectMessageData): ConversationSummary => {
+    const conversationId = record.conversationId || getConversationId(record.sender, record.recipient);
+    let summary = conversations.get(conversationId);
+    if (!summary) {
+      summary = {
+        conversationId,
+        peer: getConversationPeer(conversationId, me),
+        messages: [],
+        unreadCount: 0,
+        lastReadByMe: 0,
+        lastReadByPeer: 0,
+      };
+      conversations.set(conversationId, summary);
+    }
+    return summary;
+  };
+
+  [...records]
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .forEach(record => {
+      const summary = getSummary(record);
+      const fromMe = record.sender.toLowerCase() === me;
+
+      if (record.messageType === DirectMessageType.READ_RECEIPT) {
+        const readUntil = Number(record.content) || record.timestamp;
+        if (fromMe) {
+          summary.lastReadByMe = Math.max(summary.lastReadByMe, readUntil);
+        } else {
+          summary.lastReadByPeer = Math.max(summary.lastReadByPeer, readUntil);
+        }
+        return;
+      }
+
+      summary.messages.push(record);
+      summary.lastMessage = record;
+    });
+
+  return Array.from(conversations.values())
+    .filter(summary => summary.messages.length > 0)
+    .map(summary => ({
+      ...summary,
+      unreadCount: summary.messages.filter(
+        message => message.sender.toLowerCase() !== me && message.timestamp > summary.lastReadByMe
+      ).length,
+    }))
+    .sort((a, b) => (b.lastMessage?.timestamp || 0) - (a.lastMessage?.timestamp || 0));
+};
+
+// ===== Hashtag Index Helper Functions =====
+
+/**
+ * Calculate hashtag trending score
+ * Formula: (posts * 0.7) + (unique_authors * 0.3) + recency_boost
+ */
+export const calculateHashtagTrendingScore = (
+  tag: string,
+  entries: HashtagIndexEntry[],
+  timeWindow: number = 7 * 24 * 60 * 60 * 1000 // 7 days
+): number => {
+  const now = Date.now();
+  const cutoff = now - timeWindow;
+  
+  // Filter entries within time window
+  const recentEntries = entries.filter(e => 
+    e.tag === tag && e.timestamp >= cutoff
+  );
+  
+  if (recentEntries.length === 0) return 0;
+  
+  // Count posts
+  const postCount = recentEntries.length;
+  
+  // Count unique authors
+  const uniqueAuthors = new Set(recentEntries.map(e => e.author.toLowerCase())).size;
+  
+  // Calculate recency boost (newer = higher score)
+  const avgTimestamp = recentEntries.reduce((sum, e) => sum + e.timestamp, 0) / recentEntries.length;
+  const recencyBoost = (avgTimestamp - cutoff) / timeWindow * 10; // 0-10 points
+  
+  // Final score
+  const score = (postCount * 0.7) + (uniqueAuthors * 0.3) + recencyBoost;
+  
+  return score;
+};
+
+/**
+ * Get trending hashtags (sorted by score)
+ */
+export const getTrendingHashtags = (
+  entries: HashtagIndexEntry[],
+  limit: number = 10,
+  timeWindow: number = 7 * 24 * 60 * 60 * 1000
+): Array<{ tag: string; score: number; posts: number }> => {
+  const cutoff = Date.now() - timeWindow;
+  const tags = new Set(entries.filter(e => e.timestamp >= cutoff).map(e => e.tag));
+  
+  const trending = Array.from(tags).map(tag => {
+    const score = calculateHashtagTrendingScore(tag, entries, timeWindow);
+    const posts = entries.filter(e => e.tag === tag && e.timestamp >= cutoff).length;
+    
+    return { tag, score, posts };
+  });
+  
+  // Sort by score (highest first)
+  trending.sort((a, b) => b.score - a.score);
+  
+  return trending.slice(0, limit);
+};
+
 export default SOMNIA_CONFIG_V3;
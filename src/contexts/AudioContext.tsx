@@ -1,5 +1,59 @@
 import React, { createContext, useContext, useState, useRef, useEffect, useCallback } from 'react';
+import { usePublicClient } from 'wagmi';
+import { encodeFunctionData } from 'viem';
+import { toast } from 'sonner';
 import demoAudio from '@/assets/Akbar Ajie - Jingga.mp3';
+import { useSequence } from '@/contexts/SequenceContext';
+import { CONTRACT_ADDRESSES } from '@/lib/web3-config';
+import { SONG_NFT_ABI } from '@/lib/abis/SongNFT';
+import { somniaDatastreamServiceV3 } from '@/services/somniaDatastreamService.v3';
+import { listenTracker } from '@/services/listenTracker';
+import { getIpfsUrl, isIpfsHash } from '@/lib/ipfs';
+import {
+  playerTabSync,
+  type PlayerTabMessage,
+  type RemotePlayerCommand,
+  type RemotePlayerState,
+} from '@/services/playerTabSync';
+import {
+  type AudioEffectsSettings,
+  EQ_FREQUENCIES,
+  LOUDNESS_FINAL_BLOCKS,
+  LOUDNESS_GATE_DB,
+  LOUDNESS_MIN_BLOCKS,
+  cacheLoudness,
+  getBlockLoudness,
+  getCachedLoudness,
+  getNormalizationGain,
+  loadAudioEffects,
+  saveAudioEffects,
+  updateAudioEffects,
+} from '@/utils/audioEffects';
+import {
+  type PlaybackResumePoint,
+  clearResumePoint,
+  loadResumePoint,
+  saveResumePoint,
+} from '@/utils/playbackResume';
+import {
+  type PlayQueueState,
+  type RepeatMode,
+  addToQueue as addTrackToQueue,
+  clearQueue as clearQueueTracks,
+  cycleQueueRepeat,
+  getNextQueueIndex,
+  getPreviousQueueIndex,
+  loadQueue,
+  moveInQueue,
+  playNextInQueue,
+  playTrackInQueue,
+  pushQueueHistory,
+  QUEUE_STORAGE_KEY,
+  removeFromQueue as removeTrackFromQueue,
+  saveQueue,
+  setQueueTracks,
+  toggleQueueShuffle,
+} from '@/utils/playQueue';
 
 export interface Track {
   id: number;
@@ -16,6 +70,8 @@ export interface Track {
   bpm?: number;
   key?: string;
   price?: string;
+  tokenId?: number | string; // minted song, when it isn't the track id - lyrics are read from its metadata
+  lyrics?: string;           // plain text or LRC ([mm:ss.xx] line)
 }
 
 interface AudioContextType {
@@ -24,8 +80,14 @@ interface AudioContextType {
   currentTime: number;
   duration: number;
   volume: number;
+  isMuted: boolean;
   playlist: Track[];
   currentIndex: number;
+  shuffle: boolean;
+  repeatMode: RepeatMode;
+  playHistory: Track[];
+  canGoNext: boolean;
+  canGoPrevious: boolean;
   audioData: Uint8Array;
   visualizerUpdate: number;
   isAudioReady: boolean;
@@ -34,6 +96,7 @@ interface AudioContextType {
   resumeTrack: () => void;
   stopTrack: () => void;
   setVolume: (volume: number) => void;
+  toggleMute: () => void;
   seekTo: (time: number) => void;
   nextTrack: () => void;
   previousTrack: () => void;
@@ -41,10 +104,97 @@ interface AudioContextType {
   removeFromPlaylist: (track: Track) => void;
   clearPlaylist: () => void;
   setPlaylist: (tracks: Track[]) => void;
+  // Queue
+  playNext: (track: Track) => void;
+  addToQueue: (track: Track) => void;
+  removeFromQueue: (trackId: number) => void;
+  moveQueueItem: (fromIndex: number, toIndex: number) => void;
+  playQueueIndex: (index: number) => void;
+  toggleShuffle: () => void;
+  cycleRepeat: () => void;
+  clearQueue: () => void;
+  // Transitions (0 = gapless)
+  crossfadeSeconds: number;
+  setCrossfadeSeconds: (seconds: number) => void;
+  // Equalizer, loudness normalization & speed (stored per user)
+  audioEffects: AudioEffectsSettings;
+  setAudioEffects: (update: Partial<AudioEffectsSettings>) => void;
+  // Liked tracks (SongNFT likes - resolves to whether the like changed)
+  isTrackLiked: (trackId: number) => boolean;
+  toggleLikeTrack: (track: Track) => Promise<boolean>;
+  // Last session (offered as "resume where you left off")
+  resumePoint: PlaybackResumePoint | null;
+  dismissResume: () => void;
+  // Another tab is playing - this tab is a remote control
+  remotePlayer: RemotePlayerState | null;
+  sendRemoteCommand: (command: RemotePlayerCommand, value?: number) => void;
+  playHere: () => void;
 }
 
 const AudioContext = createContext<AudioContextType | undefined>(undefined);
 
+export const MAX_CROSSFADE_SECONDS = 12;
+const CROSSFADE_STORAGE_KEY = 'hibeats_crossfade_seconds';
+
+const loadCrossfadeSeconds = (): number => {
+  const saved = Number(localStorage.getItem(CROSSFADE_STORAGE_KEY));
+  return Number.isFinite(saved) ? Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, saved)) : 0;
+};
+
+const RESUME_SAVE_INTERVAL = 5000;
+const STATE_BROADCAST_INTERVAL = 1000;
+// Seconds skipped by the media session seek actions when the OS doesn't say
+const MEDIA_SEEK_OFFSET = 10;
+
+// Likes live on the SongNFT contract, keyed by token id (the track id for minted songs)
+const getSongTokenId = (track: Track): number | null => {
+  const tokenId = Number(track.tokenId ?? track.id);
+  return Number.isInteger(tokenId) && tokenId > 0 ? tokenId : null;
+};
+
+// Absolute cover URL for the media session (lock screen / OS controls)
+const resolveArtworkUrl = (cover: string): string => {
+  if (!cover) return '';
+  if (/^(https?:|data:|blob:)/.test(cover)) return cover;
+  if (isIpfsHash(cover)) return getIpfsUrl(cover);
+  return new URL(cover, window.location.origin).href;
+};
+
+// Set the source of an audio element (demo audio when the track has no audioUrl)
+const loadTrackSource = (element: HTMLAudioElement, track: Track) => {
+  if (track.audioUrl && track.audioUrl.trim() !== '') {
+    // For IPFS URLs, add crossorigin attribute
+    if (track.audioUrl.includes('ipfs')) {
+      element.crossOrigin = 'anonymous';
+      console.log('🌐 [AudioContext] Loading IPFS audio:', track.audioUrl);
+    } else {
+      console.log('🌐 [AudioContext] Loading audio from:', track.audioUrl);
+    }
+    element.src = track.audioUrl;
+  } else {
+    // Use demo audio for tracks without audioUrl
+    console.warn('⚠️ [AudioContext] No audioUrl provided, using demo audio');
+    element.src = demoAudio;
+  }
+
+  // Add error handler for audio loading
+  const handleLoadError = () => {
+    console.error('❌ Failed to load audio from:', element.src);
+    
+    // Try alternative IPFS gateway
+    if (element.src.includes('ipfs.io')) {
+      const hash = element.src.split('/ipfs/')[1];
+      const altUrl = `https://gateway.pinata.cloud/ipfs/${hash}`;
+      console.log('🔄 Trying alternative gateway:', altUrl);
+      element.src = altUrl;
+      element.load();
+    }
+  };
+  
+  element.addEventListener('error', handleLoadError, { once: true });
+  element.load();
+};
+
 export const useAudio = () => {
   const context = useContext(AudioContext);
   if (!context) {
@@ -54,23 +204,60 @@ export const useAudio = () => {
 };
 
 export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { smartAccountAddress, executeGaslessTransaction } = useSequence();
+  const publicClient = usePublicClient();
   const [currentTrack, setCurrentTrack] = useState<Track | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [volume, setVolumeState] = useState(0.7);
-  const [playlist, setPlaylistState] = useState<Track[]>([]);
-  const [currentIndex, setCurrentIndex] = useState(-1);
+  // Volume to restore when unmuting
+  const unmuteVolumeRef = useRef(0.7);
+  const [likedTrackIds, setLikedTrackIds] = useState<number[]>([]);
+  // Play queue (persisted in localStorage)
+  const [queue, setQueue] = useState<PlayQueueState>(loadQueue);
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  const playlist = queue.tracks;
+  const currentIndex = queue.currentIndex;
 
   const [isAudioReady, setIsAudioReady] = useState(false);
   const [hasUserInteracted, setHasUserInteracted] = useState(false);
   const [audioData, setAudioData] = useState<Uint8Array<ArrayBuffer>>(new Uint8Array(0) as Uint8Array<ArrayBuffer>);
   const [visualizerUpdate, setVisualizerUpdate] = useState(0);
   const [isLoadingTrack, setIsLoadingTrack] = useState(false);
+  const [crossfadeSeconds, setCrossfadeState] = useState(loadCrossfadeSeconds);
+  const crossfadeRef = useRef(crossfadeSeconds);
+  crossfadeRef.current = crossfadeSeconds;
   const analyserRef = useRef<AnalyserNode | null>(null);
   const animationRef = useRef<number | null>(null);
+  // Two players: the active one (audioRef) and a standby one that preloads the next queued track
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const playersRef = useRef<HTMLAudioElement[]>([]);
+  const gainsRef = useRef<Map<HTMLAudioElement, GainNode>>(new Map());
+  const preloadRef = useRef<{ trackId: number; track: Track; element: HTMLAudioElement } | null>(null);
+  const transitionTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const fadeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [fadeCompletions, setFadeCompletions] = useState(0);
+  const currentTrackRef = useRef(currentTrack);
+  currentTrackRef.current = currentTrack;
   const audioContextRef = useRef<AudioContext | null>(null);
+  // Effects chain: each player -> meter -> normalization gain -> crossfade gain -> EQ -> limiter -> analyser
+  const [audioEffects, setAudioEffectsState] = useState<AudioEffectsSettings>(() => loadAudioEffects(null));
+  const audioEffectsRef = useRef(audioEffects);
+  audioEffectsRef.current = audioEffects;
+  const filtersRef = useRef<BiquadFilterNode[]>([]);
+  const limiterRef = useRef<DynamicsCompressorNode | null>(null);
+  const metersRef = useRef<Map<HTMLAudioElement, AnalyserNode>>(new Map());
+  const normGainsRef = useRef<Map<HTMLAudioElement, GainNode>>(new Map());
+  const playerTrackIdsRef = useRef<Map<HTMLAudioElement, number>>(new Map());
+  const loudnessRef = useRef<{ trackId: number; power: number; blocks: number; done: boolean } | null>(null);
+  // Playback across sessions and tabs - only the tab that played last saves and publishes
+  const [resumePoint, setResumePoint] = useState<PlaybackResumePoint | null>(null);
+  const [remotePlayer, setRemotePlayer] = useState<RemotePlayerState | null>(null);
+  const ownsPlaybackRef = useRef(false);
+  const lastResumeSaveRef = useRef(0);
+  const lastStateBroadcastRef = useRef(0);
   const sourceRef = useRef<MediaElementAudioSourceNode | null>(null);
 
   // Initialize Web Audio API for visualizer
@@ -82,11 +269,47 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         analyserRef.current.fftSize = 256;
         analyserRef.current.smoothingTimeConstant = 0.8;
 
-        // Only create source if not already created
+        // Only create sources if not already created
         if (!sourceRef.current) {
-          sourceRef.current = audioContextRef.current.createMediaElementSource(audioRef.current);
-          sourceRef.current.connect(analyserRef.current);
-          analyserRef.current.connect(audioContextRef.current.destination);
+          const ctx = audioContextRef.current;
+
+          // Shared chain: 10-band EQ -> limiter (catches peaks after EQ and normalization boost)
+          filtersRef.current = EQ_FREQUENCIES.map((frequency, index) => {
+            const filter = ctx.createBiquadFilter();
+            filter.type = index === 0 ? 'lowshelf' : index === EQ_FREQUENCIES.length - 1 ? 'highshelf' : 'peaking';
+            filter.frequency.value = frequency;
+            filter.Q.value = 1.4;
+            filter.gain.value = 0;
+            return filter;
+          });
+          filtersRef.current.forEach((filter, index) => {
+            const next = filtersRef.current[index + 1];
+            if (next) filter.connect(next);
+          });
+          limiterRef.current = ctx.createDynamicsCompressor();
+          filtersRef.current[filtersRef.current.length - 1].connect(limiterRef.current);
+          limiterRef.current.connect(analyserRef.current);
+
+          // Each player gets a loudness meter, a normalization gain and its own crossfade gain
+          playersRef.current.forEach(player => {
+            const source = ctx.createMediaElementSource(player);
+            const meter = ctx.createAnalyser();
+            meter.fftSize = 2048;
+            const normGain = ctx.createGain();
+            const gain = ctx.createGain();
+            source.connect(meter);
+            meter.connect(normGain);
+            normGain.connect(gain);
+            gain.connect(filtersRef.current[0]);
+            metersRef.current.set(player, meter);
+            normGainsRef.current.set(player, normGain);
+            gainsRef.current.set(player, gain);
+            if (player === audioRef.current) {
+              sourceRef.current = source;
+            }
+          });
+          analyserRef.current.connect(ctx.destination);
+          applyAudioEffectsRef.current();
           console.log('✅ Web Audio API initialized - audio routed through AudioContext');
         }
 
@@ -133,37 +356,60 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     };
   }, [isPlaying, updateAudioData]); // Include updateAudioData in dependencies
 
-  // Initialize audio element
+  // Initialize audio elements
   useEffect(() => {
     if (!audioRef.current) {
-      audioRef.current = new Audio();
-      audioRef.current.volume = volume;
+      playersRef.current = [new Audio(), new Audio()];
+      audioRef.current = playersRef.current[0];
 
-      // Initialize Web Audio API for visualizer
-      initializeAudioContext();
+      // Audio event listeners - only the active player updates state
+      playersRef.current.forEach(player => {
+        player.volume = volume;
+        player.preload = 'auto';
 
-      // Audio event listeners
-      audioRef.current.addEventListener('loadedmetadata', () => {
-        if (audioRef.current) {
-          setDuration(audioRef.current.duration);
-        }
-      });
+        player.addEventListener('loadedmetadata', () => {
+          if (player === audioRef.current) {
+            setDuration(player.duration);
+          }
+        });
 
-      audioRef.current.addEventListener('timeupdate', () => {
-        if (audioRef.current) {
-          setCurrentTime(audioRef.current.currentTime);
-        }
-      });
+        player.addEventListener('timeupdate', () => {
+          if (player !== audioRef.current) return;
+          setCurrentTime(player.currentTime);
+          // Real listen time for play validation
+          if (!player.paused) {
+            listenTracker.tick(player.currentTime, getPlaybackClock());
+          }
+          // Latest handlers - this listener is registered once
+          scheduleTransitionRef.current();
+          syncPlaybackRef.current(false);
+          measureLoudnessRef.current(player);
+        });
 
-      audioRef.current.addEventListener('ended', () => {
-        nextTrack();
-      });
+        // Seeking and pausing must not count as listening
+        player.addEventListener('seeking', () => {
+          if (player === audioRef.current) listenTracker.resetClock();
+        });
+        player.addEventListener('play', () => {
+          if (player === audioRef.current) listenTracker.resetClock();
+        });
+
+        player.addEventListener('ended', () => {
+          // The outgoing player of a transition ends after the next track already started
+          if (player !== audioRef.current) return;
+          listenTracker.endSession();
+          advanceQueueRef.current(true);
+        });
 
-      audioRef.current.addEventListener('canplay', () => {
-        // Audio is ready to play, but we handle playing in playTrack function
-        console.log('Audio can play');
+        player.addEventListener('canplay', () => {
+          // Audio is ready to play, but we handle playing in playTrack function
+          if (player === audioRef.current) console.log('Audio can play');
+        });
       });
 
+      // Initialize Web Audio API for visualizer
+      initializeAudioContext();
+
       // Add user interaction handler to resume audio context
       const handleUserInteraction = async () => {
         setHasUserInteracted(true);
@@ -184,16 +430,39 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         document.addEventListener(event, handleUserInteraction, { passive: true });
       });
 
+      // Report the current listen and save the resume point before the page goes away (best effort)
+      const handlePageHide = () => {
+        listenTracker.endSession();
+        if (ownsPlaybackRef.current) {
+          syncPlaybackRef.current(true);
+          playerTabSync.release();
+        }
+      };
+      window.addEventListener('pagehide', handlePageHide);
+
+      // Other tabs: follow the owner's queue, react to claims, state and commands
+      const handleStorage = (event: StorageEvent) => {
+        if (event.key === QUEUE_STORAGE_KEY && !ownsPlaybackRef.current) {
+          setQueue(loadQueue());
+        }
+      };
+      window.addEventListener('storage', handleStorage);
+      const unsubscribeTabs = playerTabSync.subscribe(message => handleTabMessageRef.current(message));
+      playerTabSync.hello();
+
       return () => {
         events.forEach(event => {
           document.removeEventListener(event, handleUserInteraction);
         });
+        window.removeEventListener('pagehide', handlePageHide);
+        window.removeEventListener('storage', handleStorage);
+        unsubscribeTabs();
       };
     }
 
     return () => {
       if (audioRef.current) {
-        audioRef.current.pause();
+        playersRef.current.forEach(player => player.pause());
         audioRef.current = null;
       }
       if (audioContextRef.current) {
@@ -203,15 +472,374 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     };
   }, []);
 
-  // Update volume when it changes
+  // Offer the last track again - loaded paused at the saved position
   useEffect(() => {
-    if (audioRef.current) {
-      audioRef.current.volume = volume;
+    const saved = loadResumePoint();
+    const player = audioRef.current;
+    if (!saved || !player) return;
+
+    console.log('⏯️ [AudioContext] Restoring last track:', saved.track.title, 'at', Math.floor(saved.position), 's');
+    loadTrackSource(player, saved.track);
+    applyNormalizationRef.current(player, saved.track.id, true);
+    if (saved.position > 0) {
+      player.addEventListener('loadedmetadata', () => {
+        player.currentTime = saved.position;
+      }, { once: true });
     }
+    setQueue(prev => playTrackInQueue(prev, saved.track));
+    setCurrentTrack(saved.track);
+    setCurrentTime(saved.position);
+    setResumePoint(saved);
+  }, []);
+
+  // Save queue on every change so it survives a reload
+  useEffect(() => {
+    saveQueue(queue);
+  }, [queue]);
+
+  // Update volume when it changes
+  useEffect(() => {
+    playersRef.current.forEach(player => {
+      player.volume = volume;
+    });
   }, [volume]);
 
+  // Preload the next queued track into the standby player
+  useEffect(() => {
+    const standby = playersRef.current.find(player => player !== audioRef.current);
+    // The standby player is still fading out - preload after the fade
+    if (!standby || !currentTrack || fadeTimerRef.current) return;
+
+    const nextIndex = getNextQueueIndex(queue, true);
+    const nextQueued = nextIndex !== null ? queue.tracks[nextIndex] : null;
+    if (!nextQueued || nextQueued.id === currentTrack.id) {
+      preloadRef.current = null;
+      return;
+    }
+    if (preloadRef.current?.trackId === nextQueued.id) return;
+
+    console.log('⏭️ [AudioContext] Preloading next track:', nextQueued.title);
+    loadTrackSource(standby, nextQueued);
+    applyNormalizationRef.current(standby, nextQueued.id, true);
+    preloadRef.current = { trackId: nextQueued.id, track: nextQueued, element: standby };
+  }, [queue, currentTrack, fadeCompletions]);
+
+  // Web Audio clock only advances while audio is actually rendered
+  const getPlaybackClock = () => {
+    return audioContextRef.current ? audioContextRef.current.currentTime : performance.now() / 1000;
+  };
+
+  const setPlayerGain = (player: HTMLAudioElement, value: number) => {
+    const gain = gainsRef.current.get(player);
+    if (gain && audioContextRef.current) {
+      gain.gain.cancelScheduledValues(audioContextRef.current.currentTime);
+      gain.gain.setValueAtTime(value, audioContextRef.current.currentTime);
+    }
+  };
+
+  // Stop a scheduled or running transition, only the active player keeps playing
+  const cancelTransition = () => {
+    if (transitionTimerRef.current) {
+      clearTimeout(transitionTimerRef.current);
+      transitionTimerRef.current = null;
+    }
+    if (fadeTimerRef.current) {
+      clearTimeout(fadeTimerRef.current);
+      fadeTimerRef.current = null;
+      setFadeCompletions(count => count + 1);
+    }
+    playersRef.current.forEach(player => {
+      if (player !== audioRef.current) player.pause();
+      setPlayerGain(player, 1);
+    });
+  };
+
+  // Switch to the preloaded track: gapless (crossfade 0) or crossfade over crossfadeSeconds
+  const startTransition = () => {
+    transitionTimerRef.current = null;
+    const preloaded = preloadRef.current;
+    const outgoing = audioRef.current;
+    if (!preloaded || !outgoing || preloaded.element === outgoing) return;
+
+    const incoming = preloaded.element;
+    // Never fade longer than half of the outgoing track
+    const fade = Number.isFinite(outgoing.duration) ? Math.min(crossfadeRef.current, outgoing.duration / 2) : 0;
+    const ctx = audioContextRef.current;
+    const previousTrack = currentTrackRef.current;
+
+    preloadRef.current = null;
+    audioRef.current = incoming;
+    incoming.currentTime = 0;
+
+    if (fade > 0 && ctx) {
+      const now = ctx.currentTime;
+      const inGain = gainsRef.current.get(incoming);
+      const outGain = gainsRef.current.get(outgoing);
+      inGain?.gain.cancelScheduledValues(now);
+      inGain?.gain.setValueAtTime(0, now);
+      inGain?.gain.linearRampToValueAtTime(1, now + fade);
+      outGain?.gain.cancelScheduledValues(now);
+      outGain?.gain.setValueAtTime(1, now);
+      outGain?.gain.linearRampToValueAtTime(0, now + fade);
+
+      fadeTimerRef.current = setTimeout(() => {
+        fadeTimerRef.current = null;
+        outgoing.pause();
+        setPlayerGain(outgoing, 1);
+        setFadeCompletions(count => count + 1);
+      }, fade * 1000);
+    } else {
+      setPlayerGain(incoming, 1);
+    }
+
+    incoming.play().catch(error => {
+      console.error('❌ Transition playback failed:', error);
+      setIsPlaying(false);
+      setIsAudioReady(true);
+    });
+    if (!(fade > 0 && ctx)) {
+      outgoing.pause();
+    }
+
+    console.log(`⏭️ [AudioContext] ${fade > 0 ? `Crossfade (${fade}s)` : 'Gapless'} transition to:`, preloaded.track.title);
+
+    // Same bookkeeping as playTrack
+    listenTracker.endSession();
+    listenTracker.startSession(preloaded.track.id);
+    setQueue(prev => {
+      const next = playTrackInQueue(prev, preloaded.track);
+      return previousTrack ? pushQueueHistory(next, previousTrack) : next;
+    });
+    setCurrentTrack(preloaded.track);
+    setCurrentTime(0);
+    setDuration(incoming.duration || 0);
+  };
+
+  // Called on every timeupdate of the active player - times the start of the next track
+  const scheduleTransition = () => {
+    const active = audioRef.current;
+    const preloaded = preloadRef.current;
+    if (!active || active.paused || !preloaded || transitionTimerRef.current || fadeTimerRef.current) return;
+    if (!Number.isFinite(active.duration) || active.duration <= 0) return;
+    // Next track must be playable right away, otherwise 'ended' handles it
+    if (preloaded.element.readyState < HTMLMediaElement.HAVE_FUTURE_DATA) return;
+
+    const fade = Math.min(crossfadeRef.current, active.duration / 2);
+    // Wall-clock seconds left (playback speed)
+    const remaining = (active.duration - active.currentTime) / (active.playbackRate || 1);
+    // timeupdate fires every ~250ms, so start timing one second ahead
+    if (remaining > fade + 1) return;
+
+    transitionTimerRef.current = setTimeout(startTransition, Math.max(0, (remaining - fade) * 1000));
+  };
+  const scheduleTransitionRef = useRef(scheduleTransition);
+  scheduleTransitionRef.current = scheduleTransition;
+
+  const setCrossfadeSeconds = (seconds: number) => {
+    const value = Math.max(0, Math.min(MAX_CROSSFADE_SECONDS, seconds));
+    setCrossfadeState(value);
+    localStorage.setItem(CROSSFADE_STORAGE_KEY, String(value));
+  };
+
+  // ===== Audio Effects =====
+
+  // Each user has their own settings
+  useEffect(() => {
+    setAudioEffectsState(loadAudioEffects(smartAccountAddress));
+  }, [smartAccountAddress]);
+
+  const setAudioEffects = (update: Partial<AudioEffectsSettings>) => {
+    const next = updateAudioEffects(audioEffectsRef.current, update);
+    setAudioEffectsState(next);
+    saveAudioEffects(smartAccountAddress, next);
+  };
+
+  const setNormalizationGain = (player: HTMLAudioElement, value: number, immediate: boolean) => {
+    const normGain = normGainsRef.current.get(player);
+    const ctx = audioContextRef.current;
+    if (!normGain || !ctx) return;
+    normGain.gain.cancelScheduledValues(ctx.currentTime);
+    if (immediate) {
+      normGain.gain.setValueAtTime(value, ctx.currentTime);
+    } else {
+      normGain.gain.setTargetAtTime(value, ctx.currentTime, 0.5);
+    }
+  };
+
+  // Level a player for the track it holds: cached loudness, or unity until it is measured
+  const applyNormalization = (player: HTMLAudioElement, trackId: number, immediate: boolean) => {
+    playerTrackIdsRef.current.set(player, trackId);
+    const loudness = audioEffectsRef.current.normalizeLoudness ? getCachedLoudness(trackId) : null;
+    setNormalizationGain(player, loudness !== null ? getNormalizationGain(loudness) : 1, immediate);
+  };
+  const applyNormalizationRef = useRef(applyNormalization);
+  applyNormalizationRef.current = applyNormalization;
+
+  const applyAudioEffects = () => {
+    const settings = audioEffectsRef.current;
+    const ctx = audioContextRef.current;
+
+    if (ctx) {
+      filtersRef.current.forEach((filter, index) => {
+        filter.gain.setTargetAtTime(settings.eqEnabled ? settings.eqGains[index] : 0, ctx.currentTime, 0.05);
+      });
+      // Limiter only while normalization can boost quiet tracks
+      if (limiterRef.current) {
+        limiterRef.current.threshold.value = settings.normalizeLoudness ? -1 : 0;
+        limiterRef.current.ratio.value = settings.normalizeLoudness ? 20 : 1;
+        limiterRef.current.knee.value = 0;
+        limiterRef.current.attack.value = 0.003;
+        limiterRef.current.release.value = 0.25;
+      }
+      playerTrackIdsRef.current.forEach((trackId, player) => applyNormalization(player, trackId, false));
+    }
+
+    // defaultPlaybackRate survives loading the next track
+    playersRef.current.forEach(player => {
+      player.defaultPlaybackRate = settings.playbackRate;
+      player.playbackRate = settings.playbackRate;
+    });
+  };
+  const applyAudioEffectsRef = useRef(applyAudioEffects);
+  applyAudioEffectsRef.current = applyAudioEffects;
+
+  useEffect(() => {
+    applyAudioEffectsRef.current();
+  }, [audioEffects]);
+
+  // Called on every timeupdate of the active player - measures tracks without a cached loudness
+  const measureLoudness = (player: HTMLAudioElement) => {
+    const trackId = playerTrackIdsRef.current.get(player);
+    const meter = metersRef.current.get(player);
+    if (!audioEffectsRef.current.normalizeLoudness || trackId === undefined || !meter) return;
+    // Element volume is applied before the meter
+    if (player.paused || player.volume === 0) return;
+
+    let state = loudnessRef.current;
+    if (!state || state.trackId !== trackId) {
+      state = { trackId, power: 0, blocks: 0, done: getCachedLoudness(trackId) !== null };
+      loudnessRef.current = state;
+    }
+    if (state.done) return;
+
+    const samples = new Float32Array(meter.fftSize);
+    meter.getFloatTimeDomainData(samples);
+    const blockDb = getBlockLoudness(samples) - 20 * Math.log10(player.volume);
+    if (blockDb < LOUDNESS_GATE_DB) return;
+
+    state.power += Math.pow(10, blockDb / 10);
+    state.blocks += 1;
+    if (state.blocks < LOUDNESS_MIN_BLOCKS) return;
+
+    const loudness = 10 * Math.log10(state.power / state.blocks);
+    setNormalizationGain(player, getNormalizationGain(loudness), false);
+    if (state.blocks >= LOUDNESS_FINAL_BLOCKS) {
+      state.done = true;
+      cacheLoudness(trackId, loudness);
+      console.log(`🎚️ [AudioContext] Track ${trackId} loudness: ${loudness.toFixed(1)} dBFS`);
+    }
+  };
+  const measureLoudnessRef = useRef(measureLoudness);
+  measureLoudnessRef.current = measureLoudness;
+
+  // ===== Sessions & Tabs =====
+
+  // This tab plays from now on - other tabs pause and become remote controls
+  const claimPlayback = () => {
+    ownsPlaybackRef.current = true;
+    playerTabSync.claim();
+    setRemotePlayer(null);
+    setResumePoint(null);
+  };
+
+  // Save the resume point and publish the state to other tabs (throttled unless forced)
+  const syncPlayback = (force: boolean) => {
+    const track = currentTrackRef.current;
+    const player = audioRef.current;
+    if (!track || !player || !ownsPlaybackRef.current) return;
+
+    const now = Date.now();
+    if (force || now - lastResumeSaveRef.current >= RESUME_SAVE_INTERVAL) {
+      lastResumeSaveRef.current = now;
+      saveResumePoint(track, player.currentTime);
+    }
+    if (force || now - lastStateBroadcastRef.current >= STATE_BROADCAST_INTERVAL) {
+      lastStateBroadcastRef.current = now;
+      playerTabSync.publishState({
+        track,
+        isPlaying: !player.paused,
+        currentTime: player.currentTime,
+        duration: Number.isFinite(player.duration) ? player.duration : 0,
+        canGoNext: getNextQueueIndex(queueRef.current, false) !== null,
+        canGoPrevious: getPreviousQueueIndex(queueRef.current) !== null || player.currentTime > 3,
+      });
+    }
+  };
+  const syncPlaybackRef = useRef(syncPlayback);
+  syncPlaybackRef.current = syncPlayback;
+
+  useEffect(() => {
+    syncPlaybackRef.current(true);
+  }, [currentTrack, isPlaying, queue]);
+
+  const handleTabMessage = (message: PlayerTabMessage) => {
+    switch (message.type) {
+      case 'claim':
+        if (!ownsPlaybackRef.current) return;
+        console.log('📡 [AudioContext] Another tab started playing - pausing here');
+        ownsPlaybackRef.current = false;
+        pauseTrack();
+        listenTracker.endSession();
+        break;
+      case 'state':
+        if (!ownsPlaybackRef.current) setRemotePlayer(message.state);
+        break;
+      case 'release':
+        setRemotePlayer(prev => (prev?.tabId === message.tabId ? null : prev));
+        break;
+      case 'hello':
+        syncPlayback(true);
+        break;
+      case 'command':
+        if (message.targetTabId !== playerTabSync.tabId || !ownsPlaybackRef.current) return;
+        if (message.command === 'play') resumeTrack();
+        if (message.command === 'pause') pauseTrack();
+        if (message.command === 'next') nextTrack();
+        if (message.command === 'previous') previousTrack();
+        if (message.command === 'seek' && message.value !== undefined) seekTo(message.value);
+        break;
+    }
+  };
+  const handleTabMessageRef = useRef(handleTabMessage);
+  handleTabMessageRef.current = handleTabMessage;
+
+  const sendRemoteCommand = (command: RemotePlayerCommand, value?: number) => {
+    if (!remotePlayer) return;
+    playerTabSync.sendCommand(remotePlayer.tabId, command, value);
+  };
+
+  // Move playback from the other tab to this one, at the same position
+  const playHere = async () => {
+    const remote = remotePlayer;
+    if (!remote) return;
+    await playTrack(remote.track);
+    seekTo(remote.currentTime);
+  };
+
+  const dismissResume = () => {
+    setResumePoint(null);
+    clearResumePoint();
+    if (!isPlaying) {
+      audioRef.current?.pause();
+      setCurrentTrack(null);
+      setCurrentTime(0);
+      setDuration(0);
+    }
+  };
+
   const playTrack = async (track: Track) => {
     if (!audioRef.current || isLoadingTrack) return;
+    claimPlayback();
 
     console.log('🎵 [AudioContext] playTrack called with:', track);
     console.log('🎵 [AudioContext] Track audioUrl:', track.audioUrl);
@@ -230,7 +858,7 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       }
     }
 
-    // If it's the same track, just resume
+    // If it's the same track, just resume (resumeTrack keeps or restarts its listen session)
     if (currentTrack?.id === track.id) {
       console.log('🎵 [AudioContext] Same track, resuming');
       resumeTrack();
@@ -239,46 +867,33 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
     // Set loading state to prevent multiple calls
     setIsLoadingTrack(true);
+    cancelTransition();
+
+    // Jump to the track in the queue (or queue it after the current one)
+    setQueue(prev => {
+      const next = playTrackInQueue(prev, track);
+      return currentTrack ? pushQueueHistory(next, currentTrack) : next;
+    });
 
-    // Set new track
+    // Set new track - listen time starts over with it
+    listenTracker.startSession(track.id);
     setCurrentTrack(track);
     setCurrentTime(0);
     setDuration(0);
 
-    // Always use the demo audio file for all tracks
-    const demoAudioUrl = demoAudio;
-
-    if (track.audioUrl && track.audioUrl.trim() !== '') {
-      // For IPFS URLs, add crossorigin attribute
-      if (track.audioUrl.includes('ipfs')) {
-        audioRef.current.crossOrigin = 'anonymous';
-        console.log('🌐 [AudioContext] Loading IPFS audio:', track.audioUrl);
-      } else {
-        console.log('🌐 [AudioContext] Loading audio from:', track.audioUrl);
-      }
-      audioRef.current.src = track.audioUrl;
+    if (preloadRef.current?.trackId === track.id) {
+      // Already buffered in the standby player - switch players
+      const preloaded = preloadRef.current.element;
+      audioRef.current.pause();
+      audioRef.current = preloaded;
+      preloaded.currentTime = 0;
+      setDuration(preloaded.duration || 0);
+      console.log('⚡ [AudioContext] Using preloaded track:', track.title);
     } else {
-      // Use demo audio for tracks without audioUrl
-      console.warn('⚠️ [AudioContext] No audioUrl provided, using demo audio');
-      audioRef.current.src = demoAudioUrl;
+      loadTrackSource(audioRef.current, track);
+      applyNormalization(audioRef.current, track.id, true);
     }
-
-    // Add error handler for audio loading
-    const handleLoadError = () => {
-      console.error('❌ Failed to load audio from:', audioRef.current?.src);
-      
-      // Try alternative IPFS gateway
-      if (audioRef.current && audioRef.current.src.includes('ipfs.io')) {
-        const hash = audioRef.current.src.split('/ipfs/')[1];
-        const altUrl = `https://gateway.pinata.cloud/ipfs/${hash}`;
-        console.log('🔄 Trying alternative gateway:', altUrl);
-        audioRef.current.src = altUrl;
-        audioRef.current.load();
-      }
-    };
-    
-    audioRef.current.addEventListener('error', handleLoadError, { once: true });
-    audioRef.current.load();
+    preloadRef.current = null;
 
     // Always try to play - modern browsers handle autoplay policies
     try {
@@ -311,15 +926,10 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       // Reset loading state
       setIsLoadingTrack(false);
     }
-
-    // Update current index in playlist
-    const index = playlist.findIndex(t => t.id === track.id);
-    if (index !== -1) {
-      setCurrentIndex(index);
-    }
   };
 
   const pauseTrack = () => {
+    cancelTransition();
     if (audioRef.current) {
       audioRef.current.pause();
     }
@@ -328,6 +938,11 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
   const resumeTrack = async () => {
     if (audioRef.current && currentTrack) {
+      claimPlayback();
+      if (listenTracker.getTrackId() !== currentTrack.id) {
+        listenTracker.startSession(currentTrack.id);
+      }
+
       try {
         // Ensure audio context is running
         if (audioContextRef.current && audioContextRef.current.state === 'suspended') {
@@ -358,74 +973,289 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   };
 
   const stopTrack = () => {
+    cancelTransition();
     if (audioRef.current) {
       audioRef.current.pause();
       audioRef.current.currentTime = 0;
     }
+    listenTracker.endSession();
     setIsPlaying(false);
     setCurrentTime(0);
+    if (ownsPlaybackRef.current) {
+      clearResumePoint();
+      playerTabSync.release();
+    }
   };
 
   const setVolume = (newVolume: number) => {
     setVolumeState(Math.max(0, Math.min(1, newVolume)));
   };
 
+  const toggleMute = () => {
+    if (volume > 0) {
+      unmuteVolumeRef.current = volume;
+      setVolumeState(0);
+    } else {
+      setVolumeState(unmuteVolumeRef.current || 0.7);
+    }
+  };
+
   const seekTo = (time: number) => {
+    cancelTransition();
     if (audioRef.current) {
       audioRef.current.currentTime = time;
       setCurrentTime(time);
     }
   };
 
-  const nextTrack = () => {
-    if (playlist.length > 0 && currentIndex < playlist.length - 1) {
-      const nextIndex = currentIndex + 1;
-      setCurrentIndex(nextIndex);
-      playTrack(playlist[nextIndex]);
-    } else {
+  // auto = current track ended (repeat-one replays it, end of queue stops)
+  const advanceQueue = (auto: boolean) => {
+    const state = queueRef.current;
+    const index = getNextQueueIndex(state, auto);
+    if (index === null) {
       stopTrack();
+      return;
     }
+    playTrack(state.tracks[index]);
+  };
+  const advanceQueueRef = useRef(advanceQueue);
+  advanceQueueRef.current = advanceQueue;
+
+  const nextTrack = () => {
+    advanceQueue(false);
   };
 
   const previousTrack = () => {
-    if (playlist.length > 0 && currentIndex > 0) {
-      const prevIndex = currentIndex - 1;
-      setCurrentIndex(prevIndex);
-      playTrack(playlist[prevIndex]);
+    // Restart the current track first, like most players
+    if (audioRef.current && audioRef.current.currentTime > 3) {
+      seekTo(0);
+      return;
+    }
+
+    const index = getPreviousQueueIndex(queueRef.current);
+    if (index !== null) {
+      playTrack(queueRef.current.tracks[index]);
+    }
+  };
+
+  const playQueueIndex = (index: number) => {
+    const track = queueRef.current.tracks[index];
+    if (track) {
+      playTrack(track);
     }
   };
 
+  const playNext = (track: Track) => {
+    setQueue(prev => playNextInQueue(prev, track));
+  };
+
+  const addToQueue = (track: Track) => {
+    setQueue(prev => addTrackToQueue(prev, track));
+  };
+
+  const removeFromQueue = (trackId: number) => {
+    setQueue(prev => removeTrackFromQueue(prev, trackId));
+  };
+
+  const moveQueueItem = (fromIndex: number, toIndex: number) => {
+    setQueue(prev => moveInQueue(prev, fromIndex, toIndex));
+  };
+
+  const toggleShuffle = () => {
+    setQueue(prev => toggleQueueShuffle(prev));
+  };
+
+  const cycleRepeat = () => {
+    setQueue(prev => cycleQueueRepeat(prev));
+  };
+
+  // Clears upcoming tracks, the current track keeps playing
+  const clearQueue = () => {
+    setQueue(prev => clearQueueTracks(prev));
+  };
+
   const addToPlaylist = (track: Track) => {
-    setPlaylistState(prev => {
-      if (!prev.find(t => t.id === track.id)) {
-        return [...prev, track];
-      }
-      return prev;
-    });
+    addToQueue(track);
   };
 
   const removeFromPlaylist = (track: Track) => {
-    setPlaylistState(prev => prev.filter(t => t.id !== track.id));
+    removeFromQueue(track.id);
   };
 
   const clearPlaylist = () => {
-    setPlaylistState([]);
-    setCurrentIndex(-1);
+    clearQueue();
   };
 
   const setPlaylist = (tracks: Track[]) => {
-    setPlaylistState(tracks);
-    setCurrentIndex(0);
+    setQueue(prev => setQueueTracks(prev, tracks, 0));
+  };
+
+  const isTrackLiked = (trackId: number) => likedTrackIds.includes(trackId);
+
+  const setTrackLiked = (trackId: number, liked: boolean) => {
+    setLikedTrackIds(prev => {
+      const without = prev.filter(id => id !== trackId);
+      return liked ? [...without, trackId] : without;
+    });
   };
 
+  // Load the like state of the playing song from the contract
+  const currentTrackId = currentTrack?.id;
+  const currentTokenId = currentTrack ? getSongTokenId(currentTrack) : null;
+  useEffect(() => {
+    if (currentTrackId === undefined || !currentTokenId || !smartAccountAddress || !publicClient) return;
+
+    let cancelled = false;
+    publicClient.readContract({
+      address: CONTRACT_ADDRESSES.songNFT as `0x${string}`,
+      abi: SONG_NFT_ABI,
+      functionName: 'hasLiked',
+      args: [BigInt(currentTokenId), smartAccountAddress as `0x${string}`],
+      authorizationList: []
+    })
+      .then(liked => {
+        if (!cancelled) setTrackLiked(currentTrackId, liked);
+      })
+      .catch(error => console.warn('⚠️ Failed to load song like state:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentTrackId, currentTokenId, smartAccountAddress, publicClient]);
+
+  const toggleLikeTrack = async (track: Track): Promise<boolean> => {
+    const tokenId = getSongTokenId(track);
+    if (!tokenId) {
+      toast.error('Only minted songs can be liked');
+      return false;
+    }
+    if (!smartAccountAddress) {
+      toast.error('Connect your wallet to like songs');
+      return false;
+    }
+
+    const liked = !likedTrackIds.includes(track.id);
+    setTrackLiked(track.id, liked);
+
+    try {
+      const data = encodeFunctionData({
+        abi: SONG_NFT_ABI,
+        functionName: liked ? 'likeSong' : 'unlikeSong',
+        args: [BigInt(tokenId)]
+      });
+      await executeGaslessTransaction(CONTRACT_ADDRESSES.songNFT, data);
+
+      // Feed / activity readers pick the like up from the interactions stream
+      somniaDatastreamServiceV3.recordSongLike(tokenId, smartAccountAddress, liked).catch(() => {});
+      return true;
+    } catch (error) {
+      console.error('❌ Failed to update song like:', error);
+      setTrackLiked(track.id, !liked);
+      toast.error(liked ? 'Failed to like song' : 'Failed to unlike song');
+      return false;
+    }
+  };
+
+  // ===== Media Session (OS media keys, lock screen, headset buttons) =====
+
+  // Handlers are registered once - they call the latest player functions
+  const mediaActionsRef = useRef({ resumeTrack, pauseTrack, stopTrack, seekTo, nextTrack, previousTrack });
+  mediaActionsRef.current = { resumeTrack, pauseTrack, stopTrack, seekTo, nextTrack, previousTrack };
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    const seekBy = (offset: number) => {
+      const player = audioRef.current;
+      if (!player) return;
+      const end = Number.isFinite(player.duration) ? player.duration : player.currentTime + offset;
+      mediaActionsRef.current.seekTo(Math.max(0, Math.min(end, player.currentTime + offset)));
+    };
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ['play', () => mediaActionsRef.current.resumeTrack()],
+      ['pause', () => mediaActionsRef.current.pauseTrack()],
+      ['stop', () => mediaActionsRef.current.stopTrack()],
+      ['seekbackward', (details) => seekBy(-(details.seekOffset || MEDIA_SEEK_OFFSET))],
+      ['seekforward', (details) => seekBy(details.seekOffset || MEDIA_SEEK_OFFSET)],
+      ['seekto', (details) => {
+        if (details.seekTime !== undefined) mediaActionsRef.current.seekTo(details.seekTime);
+      }],
+      ['previoustrack', () => mediaActionsRef.current.previousTrack()],
+      ['nexttrack', () => mediaActionsRef.current.nextTrack()],
+    ];
+
+    handlers.forEach(([action, handler]) => {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch {
+        // Action not supported by this browser
+      }
+    });
+
+    return () => {
+      handlers.forEach(([action]) => {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch {
+          // Action not supported by this browser
+        }
+      });
+    };
+  }, []);
+
+  // Track info shown by the OS
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+
+    if (!currentTrack) {
+      navigator.mediaSession.metadata = null;
+      return;
+    }
+
+    const artwork = resolveArtworkUrl(currentTrack.cover);
+    navigator.mediaSession.metadata = new MediaMetadata({
+      title: currentTrack.title,
+      artist: currentTrack.artist,
+      artwork: artwork ? [{ src: artwork, sizes: '512x512' }] : [],
+    });
+  }, [currentTrack]);
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.playbackState = currentTrack ? (isPlaying ? 'playing' : 'paused') : 'none';
+  }, [currentTrack, isPlaying]);
+
+  // Progress bar on the lock screen
+  useEffect(() => {
+    if (!('mediaSession' in navigator) || !navigator.mediaSession.setPositionState) return;
+    if (!currentTrack || !Number.isFinite(duration) || duration <= 0) return;
+
+    try {
+      navigator.mediaSession.setPositionState({
+        duration,
+        playbackRate: audioRef.current?.playbackRate || 1,
+        position: Math.min(currentTime, duration),
+      });
+    } catch (error) {
+      console.warn('⚠️ [AudioContext] Failed to update media position:', error);
+    }
+  }, [currentTrack, currentTime, duration]);
+
   const value: AudioContextType = {
     currentTrack,
     isPlaying,
     currentTime,
     duration,
     volume,
+    isMuted: volume === 0,
     playlist,
     currentIndex,
+    shuffle: queue.shuffle,
+    repeatMode: queue.repeat,
+    playHistory: queue.history,
+    canGoNext: getNextQueueIndex(queue, false) !== null,
+    canGoPrevious: getPreviousQueueIndex(queue) !== null,
     audioData,
     visualizerUpdate,
     isAudioReady,
@@ -434,6 +1264,7 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     resumeTrack,
     stopTrack,
     setVolume,
+    toggleMute,
     seekTo,
     nextTrack,
     previousTrack,
@@ -441,6 +1272,25 @@ export const AudioProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     removeFromPlaylist,
     clearPlaylist,
     setPlaylist,
+    playNext,
+    addToQueue,
+    removeFromQueue,
+    moveQueueItem,
+    playQueueIndex,
+    toggleShuffle,
+    cycleRepeat,
+    clearQueue,
+    crossfadeSeconds,
+    setCrossfadeSeconds,
+    audioEffects,
+    setAudioEffects,
+    isTrackLiked,
+    toggleLikeTrack,
+    resumePoint,
+    dismissResume,
+    remotePlayer,
+    sendRemoteCommand,
+    playHere,
   };
 
   return (
@@ -511,3 +511,123 @@ export const GET_POST_COMMENTS = gql`
     }
   }
 `;
+
+// ============================================================
+// MARKETPLACE ANALYTICS
+// ============================================================
+
+// Get sales (song or collection scope via $where)
+export const GET_SALE_HISTORY = gql`
+  query GetSaleHistory($where: SongSale_filter!, $first: Int!) {
+    songSales(
+      where: $where
+      first: $first
+      orderBy: timestamp
+      orderDirection: asc
+    ) {
+      id
+      price
+      royaltyPaid
+      platformFee
+      sellerProceeds
+      timestamp
+      song {
+        id
+        title
+      }
+      buyer {
+        id
+        username
+      }
+    }
+  }
+`;
+
+// Get listings for floor price over time
+export const GET_LISTING_HISTORY = gql`
+  query GetListingHistory($where: SongListing_filter!, $first: Int!) {
+    songListings(
+      where: $where
+      first: $first
+      orderBy: listedAt
+      orderDirection: asc
+    ) {
+      id
+      price
+      isActive
+      listedAt
+      soldAt
+    }
+  }
+`;
+
+// Get price events for a song
+export const GET_PRICE_HISTORY = gql`
+  query GetPriceHistory($songId: String!, $first: Int!) {
+    songPriceHistories(
+      where: { song: $songId }
+      first: $first
+      orderBy: timestamp
+      orderDirection: asc
+    ) {
+      id
+      price
+      eventType
+      timestamp
+    }
+  }
+`;
+
+// Get daily trading stats for a song
+export const GET_SONG_DAILY_STATS = gql`
+  query GetSongDailyStats($songId: String!, $first: Int!) {
+    songDailyStats(
+      where: { song: $songId }
+      first: $first
+      orderBy: date
+      orderDirection: desc
+    ) {
+      id
+      date
+      sales
+      volume
+      averagePrice
+      uniqueBuyers
+      uniqueSellers
+    }
+  }
+`;
+
+// Get current owners for holder distribution
+export const GET_SONG_HOLDERS = gql`
+  query GetSongHolders($where: Song_filter!, $first: Int!) {
+    songs(
+      where: $where
+      first: $first
+    ) {
+      id
+      owner {
+        id
+        username
+        displayName
+      }
+    }
+  }
+`;
+
+// Get all-time marketplace totals
+export const GET_MARKETPLACE_STATS = gql`
+  query GetMarketplaceStats {
+    marketplaceStats(id: "global") {
+      id
+      totalListings
+      activeListings
+      totalSales
+      totalVolume
+      totalRoyalties
+      totalPlatformFees
+      averageSalePrice
+      lastUpdated
+    }
+  }
+`;
@@ -0,0 +1,104 @@
+/**
+ * useGatedAccess Hook
+ *
+ * Cek apakah user boleh melihat isi token-gated post
+ * - Author selalu bisa lihat
+ * - Collector (sudah bayar collect price) bisa lihat
+ * - Holder SongNFT sesuai gating rule bisa lihat
+ */
+
+import { useEffect, useState } from 'react';
+import { useSequence } from '@/contexts/SequenceContext';
+import { subgraphService, type SubgraphSong } from '@/services/subgraphService';
+import { canViewGatedPost, getGatingRule, GatingRule, type GatedPost } from '@/config/somniaDataStreams.v3';
+
+const OWNED_SONGS_TTL = 60000; // 1 minute
+
+// Shared across all post cards so the feed only queries ownership once per viewer
+const ownedSongsCache = new Map<string, { songs: SubgraphSong[]; timestamp: number }>();
+const pendingOwnedSongs = new Map<string, Promise<SubgraphSong[]>>();
+
+const loadOwnedSongs = async (viewer: string): Promise<SubgraphSong[]> => {
+  const key = viewer.toLowerCase();
+  const cached = ownedSongsCache.get(key);
+  if (cached && Date.now() - cached.timestamp < OWNED_SONGS_TTL) {
+    return cached.songs;
+  }
+
+  const pending = pendingOwnedSongs.get(key);
+  if (pending) return pending;
+
+  const request = subgraphService.getUserOwnedSongs(key)
+    .then(songs => {
+      ownedSongsCache.set(key, { songs, timestamp: Date.now() });
+      return songs;
+    })
+    .finally(() => pendingOwnedSongs.delete(key));
+
+  pendingOwnedSongs.set(key, request);
+  return request;
+};
+
+/**
+ * Forget cached ownership so the next check hits the subgraph (e.g. after a purchase)
+ */
+export const invalidateGatedAccess = (viewer?: string) => {
+  if (viewer) {
+    ownedSongsCache.delete(viewer.toLowerCase());
+  } else {
+    ownedSongsCache.clear();
+  }
+};
+
+export function useGatedAccess(post: GatedPost | null, hasCollected: boolean = false) {
+  const { smartAccountAddress } = useSequence();
+  const author = post?.author || '';
+  const isGated = post?.isGated || false;
+  const nftTokenId = post?.nftTokenId || 0;
+  const rule = getGatingRule({ isGated, nftTokenId });
+  const [isUnlocked, setIsUnlocked] = useState(rule === GatingRule.NONE);
+  const [isChecking, setIsChecking] = useState(rule !== GatingRule.NONE);
+
+  useEffect(() => {
+    if (!author || rule === GatingRule.NONE) {
+      setIsUnlocked(true);
+      setIsChecking(false);
+      return;
+    }
+
+    const gatedPost: GatedPost = { author, isGated, nftTokenId };
+
+    // Author, collectors and disconnected viewers don't need an ownership lookup
+    if (!smartAccountAddress || hasCollected || smartAccountAddress.toLowerCase() === author.toLowerCase()) {
+      setIsUnlocked(canViewGatedPost(gatedPost, smartAccountAddress || undefined, [], hasCollected));
+      setIsChecking(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsChecking(true);
+
+    loadOwnedSongs(smartAccountAddress)
+      .then(songs => {
+        if (!cancelled) setIsUnlocked(canViewGatedPost(gatedPost, smartAccountAddress, songs, hasCollected));
+      })
+      .catch(error => {
+        console.warn('⚠️ [Gated] Failed to check SongNFT ownership:', error);
+        if (!cancelled) setIsUnlocked(false);
+      })
+      .finally(() => {
+        if (!cancelled) setIsChecking(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [author, isGated, nftTokenId, rule, smartAccountAddress, hasCollected]);
+
+  return {
+    rule,
+    isGated: rule !== GatingRule.NONE,
+    isLocked: !isUnlocked,
+    isChecking,
+  };
+}
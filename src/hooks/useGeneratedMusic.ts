@@ -218,6 +218,7 @@ export const useGeneratedMusic = () => {
           originalAudioUrl: trackData.audioUrl,
           originalImageUrl: trackData.imageUrl,
           genre: trackData.tags.split(", "),
+          lyrics: generationParams.lyrics,
           ipfsHash: ipfsResult?.metadataHash,
           ipfsAudioHash: ipfsResult?.audioHash,
           ipfsImageHash: ipfsResult?.imageHash,
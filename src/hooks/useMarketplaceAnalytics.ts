@@ -0,0 +1,301 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@apollo/client/react';
+import { formatEther } from 'viem';
+import {
+  GET_SALE_HISTORY,
+  GET_LISTING_HISTORY,
+  GET_SONG_DAILY_STATS,
+  GET_SONG_HOLDERS,
+  GET_MARKETPLACE_STATS,
+} from '@/graphql/queries';
+import { getSOMIPrice } from '@/services/priceOracleService';
+
+interface UseMarketplaceAnalyticsOptions {
+  songId?: string;      // Song scope - omit for the whole collection
+  artistId?: string;    // Limits holder distribution to one artist's catalog
+  days?: number;
+}
+
+export interface SalePoint {
+  timestamp: number;
+  label: string;
+  price: number;        // STT
+  usd: number | null;
+  title: string;
+}
+
+export interface DailyPoint {
+  date: string;         // YYYY-MM-DD
+  label: string;
+  volume: number;       // STT
+  sales: number;
+  floor: number | null; // STT, null when nothing was listed
+  usdVolume: number | null;
+}
+
+export interface HolderSlice {
+  holder: string;
+  count: number;
+}
+
+export interface RoyaltyTotals {
+  volume: number;
+  royalties: number;
+  platformFees: number;
+  sellerProceeds: number;
+}
+
+interface UseMarketplaceAnalyticsResult {
+  sales: SalePoint[];
+  daily: DailyPoint[];
+  holders: HolderSlice[];
+  totals: RoyaltyTotals;
+  allTime: RoyaltyTotals & { sales: number } | null;
+  usdPrice: number | null;
+  loading: boolean;
+  error: Error | null;
+  refresh: () => void;
+}
+
+// Raw subgraph rows - BigInts arrive as strings
+interface SaleRow {
+  id: string;
+  price: string;
+  royaltyPaid: string;
+  platformFee: string;
+  sellerProceeds: string;
+  timestamp: string;
+  song: { id: string; title: string } | null;
+}
+
+interface ListingRow {
+  id: string;
+  price: string;
+  isActive: boolean;
+  listedAt: string;
+  soldAt: string | null;
+}
+
+interface DailyStatRow {
+  id: string;
+  date: string;
+  sales: string;
+  volume: string;
+}
+
+interface HolderRow {
+  id: string;
+  owner: { id: string; username: string; displayName: string } | null;
+}
+
+interface MarketplaceStatsRow {
+  totalSales: string;
+  totalVolume: string;
+  totalRoyalties: string;
+  totalPlatformFees: string;
+}
+
+const DAY_SECONDS = 86400;
+const MAX_RESULTS = 1000;
+const MAX_HOLDER_SLICES = 6;
+
+const toStt = (wei: string | null | undefined) => (wei ? parseFloat(formatEther(BigInt(wei))) : 0);
+
+const toDateKey = (timestamp: number) => new Date(timestamp * 1000).toISOString().slice(0, 10);
+
+const toDayLabel = (dateKey: string) =>
+  new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+/**
+ * Marketplace analytics - sale history, floor, volume, holders and royalties
+ * for a single song or the whole SongNFT collection
+ */
+export const useMarketplaceAnalytics = ({
+  songId,
+  artistId,
+  days = 30,
+}: UseMarketplaceAnalyticsOptions = {}): UseMarketplaceAnalyticsResult => {
+  const [usdPrice, setUsdPrice] = useState<number | null>(null);
+
+  // Day-aligned so the variables stay stable between renders
+  const since = useMemo(() => {
+    const today = Math.floor(Date.now() / 1000 / DAY_SECONDS) * DAY_SECONDS;
+    return today - (days - 1) * DAY_SECONDS;
+  }, [days]);
+
+  const songFilter = songId ? { song: songId } : {};
+
+  const salesQuery = useQuery<{ songSales: SaleRow[] }>(GET_SALE_HISTORY, {
+    variables: { where: { ...songFilter, timestamp_gte: since.toString() }, first: MAX_RESULTS },
+  });
+
+  // Listings still open or touched inside the range decide the floor
+  const listingsQuery = useQuery<{ songListings: ListingRow[] }>(GET_LISTING_HISTORY, {
+    variables: {
+      where: {
+        or: [
+          { ...songFilter, isActive: true },
+          { ...songFilter, listedAt_gte: since.toString() },
+          { ...songFilter, soldAt_gte: since.toString() },
+        ],
+      },
+      first: MAX_RESULTS,
+    },
+  });
+
+  const dailyStatsQuery = useQuery<{ songDailyStats: DailyStatRow[] }>(GET_SONG_DAILY_STATS, {
+    variables: { songId, first: days },
+    skip: !songId,
+  });
+
+  const holdersQuery = useQuery<{ songs: HolderRow[] }>(GET_SONG_HOLDERS, {
+    variables: { where: artistId ? { artist: artistId.toLowerCase() } : {}, first: MAX_RESULTS },
+  });
+
+  const statsQuery = useQuery<{ marketplaceStats: MarketplaceStatsRow | null }>(GET_MARKETPLACE_STATS, {
+    skip: !!songId,
+  });
+
+  // Oracle only has a spot price, so USD values use today's rate
+  useEffect(() => {
+    let cancelled = false;
+    getSOMIPrice()
+      .then(priceData => {
+        if (!cancelled) setUsdPrice(priceData?.price ?? null);
+      })
+      .catch(error => console.warn('⚠️ [Analytics] Failed to load SOMI price:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const rawSales = useMemo(() => salesQuery.data?.songSales || [], [salesQuery.data]);
+
+  const sales = useMemo<SalePoint[]>(() => rawSales.map(sale => {
+    const price = toStt(sale.price);
+    return {
+      timestamp: Number(sale.timestamp),
+      label: new Date(Number(sale.timestamp) * 1000).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      price,
+      usd: usdPrice !== null ? price * usdPrice : null,
+      title: sale.song?.title || `#${sale.song?.id}`,
+    };
+  }), [rawSales, usdPrice]);
+
+  const daily = useMemo<DailyPoint[]>(() => {
+    const listings = listingsQuery.data?.songListings || [];
+    const dailyStats = dailyStatsQuery.data?.songDailyStats || [];
+    const now = Math.floor(Date.now() / 1000);
+
+    // Song scope reads the indexed daily stats, collection scope buckets raw sales
+    const volumeByDay = new Map<string, { volume: number; sales: number }>();
+    if (songId) {
+      dailyStats.forEach(stat => {
+        volumeByDay.set(stat.date, { volume: toStt(stat.volume), sales: Number(stat.sales) });
+      });
+    } else {
+      rawSales.forEach(sale => {
+        const key = toDateKey(Number(sale.timestamp));
+        const bucket = volumeByDay.get(key) || { volume: 0, sales: 0 };
+        bucket.volume += toStt(sale.price);
+        bucket.sales += 1;
+        volumeByDay.set(key, bucket);
+      });
+    }
+
+    return Array.from({ length: days }, (_, index) => {
+      const dayStart = since + index * DAY_SECONDS;
+      const dayEnd = dayStart + DAY_SECONDS - 1;
+      const date = toDateKey(dayStart);
+
+      // Open during the day: listed before it ended and not closed before it began.
+      // Cancelled listings have no close time, so they only count on the day they were listed.
+      let floor: number | null = null;
+      listings.forEach(listing => {
+        const listedAt = Number(listing.listedAt);
+        if (listedAt > dayEnd) return;
+        const closedAt = listing.isActive
+          ? now
+          : listing.soldAt
+            ? Number(listing.soldAt)
+            : listedAt;
+        if (closedAt < dayStart) return;
+        const price = toStt(listing.price);
+        if (floor === null || price < floor) floor = price;
+      });
+
+      const bucket = volumeByDay.get(date) || { volume: 0, sales: 0 };
+      return {
+        date,
+        label: toDayLabel(date),
+        volume: bucket.volume,
+        sales: bucket.sales,
+        floor,
+        usdVolume: usdPrice !== null ? bucket.volume * usdPrice : null,
+      };
+    });
+  }, [listingsQuery.data, dailyStatsQuery.data, rawSales, songId, days, since, usdPrice]);
+
+  const holders = useMemo<HolderSlice[]>(() => {
+    const songs = holdersQuery.data?.songs || [];
+    const counts = new Map<string, HolderSlice>();
+    songs.forEach(song => {
+      const owner = song.owner;
+      if (!owner) return;
+      const name = owner.username && owner.username !== 'unknown'
+        ? `@${owner.username}`
+        : `${owner.id.slice(0, 6)}...${owner.id.slice(-4)}`;
+      const slice = counts.get(owner.id) || { holder: name, count: 0 };
+      slice.count += 1;
+      counts.set(owner.id, slice);
+    });
+
+    const sorted = Array.from(counts.values()).sort((a, b) => b.count - a.count);
+    if (sorted.length <= MAX_HOLDER_SLICES) return sorted;
+
+    const others = sorted.slice(MAX_HOLDER_SLICES - 1).reduce((sum, slice) => sum + slice.count, 0);
+    return [...sorted.slice(0, MAX_HOLDER_SLICES - 1), { holder: 'Others', count: others }];
+  }, [holdersQuery.data]);
+
+  const totals = useMemo<RoyaltyTotals>(() => rawSales.reduce((sum, sale) => ({
+    volume: sum.volume + toStt(sale.price),
+    royalties: sum.royalties + toStt(sale.royaltyPaid),
+    platformFees: sum.platformFees + toStt(sale.platformFee),
+    sellerProceeds: sum.sellerProceeds + toStt(sale.sellerProceeds),
+  }), { volume: 0, royalties: 0, platformFees: 0, sellerProceeds: 0 }), [rawSales]);
+
+  const allTime = useMemo(() => {
+    const stats = statsQuery.data?.marketplaceStats;
+    if (!stats) return null;
+    const volume = toStt(stats.totalVolume);
+    const royalties = toStt(stats.totalRoyalties);
+    const platformFees = toStt(stats.totalPlatformFees);
+    return {
+      sales: Number(stats.totalSales),
+      volume,
+      royalties,
+      platformFees,
+      sellerProceeds: volume - royalties - platformFees,
+    };
+  }, [statsQuery.data]);
+
+  const refresh = () => {
+    salesQuery.refetch();
+    listingsQuery.refetch();
+    holdersQuery.refetch();
+    if (songId) dailyStatsQuery.refetch();
+    else statsQuery.refetch();
+  };
+
+  return {
+    sales,
+    daily,
+    holders,
+    totals,
+    allTime,
+    usdPrice,
+    loading: salesQuery.loading || listingsQuery.loading || holdersQuery.loading,
+    error: (salesQuery.error || listingsQuery.error || holdersQuery.error || null) as Error | null,
+    refresh,
+  };
+};
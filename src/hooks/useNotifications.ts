@@ -156,6 +156,11 @@ export function useNotifications() {
     return notificationService.notifyNftOffer(smartAccountAddress, toUser, tokenId, offerAmount, undefined, walletClient);
   };
 
+  const sendNftOutbidNotification = async (toUser: string, tokenId: string, bidAmount: string) => {
+    if (!smartAccountAddress) return false;
+    return notificationService.notifyNftOutbid(smartAccountAddress, toUser, tokenId, bidAmount, undefined, walletClient);
+  };
+
   // Send notification helpers - Music (✅ MULTI-PUBLISHER SUPPORT)
   const sendMusicGeneratedNotification = async (taskId: string, title: string) => {
     if (!smartAccountAddress) return false;
@@ -218,6 +223,7 @@ export function useNotifications() {
     sendNftSoldNotification,
     sendNftBoughtNotification,
     sendNftOfferNotification,
+    sendNftOutbidNotification,
     
     // Music notifications
     sendMusicGeneratedNotification,
@@ -255,6 +261,8 @@ function getNotificationText(notif: Notification): string {
     // Financial
     case 'tip':
       return `${fromUser} sent you ${metadata.amount || 'a tip'}`;
+    case 'collect':
+      return `${fromUser} collected your post${metadata.amount ? ` for ${metadata.amount}` : ''}`;
     case 'received_somi':
       return `You received ${metadata.amount || ''} SOMI from ${fromUser}`;
     case 'sent_somi':
@@ -273,6 +281,8 @@ function getNotificationText(notif: Notification): string {
       return `Your NFT #${metadata.tokenId || ''} was unlisted`;
     case 'nft_offer':
       return `${fromUser} offered ${metadata.offerAmount || ''} SOMI for your NFT #${metadata.tokenId || ''}`;
+    case 'nft_outbid':
+      return `${fromUser} outbid you with ${metadata.bidAmount || ''} SOMI on NFT #${metadata.tokenId || ''}`;
     
     // Music
     case 'music_generated':
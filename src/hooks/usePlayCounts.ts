@@ -6,8 +6,9 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useAccount } from 'wagmi';
-import { createPlayEventData } from '@/config/somniaDataStreams.v3';
+import { PLAY_VALIDATION, createPlayEventData } from '@/config/somniaDataStreams.v3';
 import somniaService from '@/services/somniaDatastreamService.v3';
+import { listenTracker } from '@/services/listenTracker';
 import { useGlobalPlayCounts } from '@/contexts/PlayCountContext';
 
 export interface PlayCountData {
@@ -59,26 +60,35 @@ export function usePlayCounts(tokenIds: number[]) {
       return;
     }
 
-    try {
-      console.log('🎵 Recording play event:', { tokenId, duration, source });
-      
-      const playEvent = createPlayEventData(tokenId, address, duration, source);
-      await somniaService.recordPlayEvent(playEvent, false); // Use batch mode
-      
-      console.log('✅ Play event recorded');
-      
-      // Optimistic update in global context
-      globalPlayCounts.incrementPlayCount(tokenId);
-      
-      // Update best song if needed
-      const currentCount = globalPlayCounts.getPlayCount(tokenId);
-      if (!bestSong || currentCount > bestSong.playCount) {
-        setBestSong({ tokenId, playCount: currentCount });
-      }
-    } catch (err) {
-      console.error('❌ Failed to record play event:', err);
+    // Only record after real listen time of the current track (duration = listened seconds)
+    const tracked = listenTracker.trackPlay({
+      tokenId,
+      requiredSeconds: PLAY_VALIDATION.MIN_LISTEN_SECONDS,
+      onQualified: async (listenedSeconds) => {
+        try {
+          console.log('🎵 Recording play event:', { tokenId, listenedSeconds, trackDuration: duration, source });
+          
+          const playEvent = createPlayEventData(tokenId, address, listenedSeconds, source);
+          await somniaService.recordPlayEvent(playEvent, false); // Use batch mode
+          
+          console.log('✅ Play event recorded');
+          
+          // Optimistic update in global context
+          globalPlayCounts.incrementPlayCount(tokenId);
+          
+          // Update best song if needed
+          const currentCount = globalPlayCounts.getPlayCount(tokenId);
+          setBestSong(prev => (!prev || currentCount > prev.playCount ? { tokenId, playCount: currentCount } : prev));
+        } catch (err) {
+          console.error('❌ Failed to record play event:', err);
+        }
+      },
+    });
+
+    if (!tracked) {
+      console.warn('⚠️ Nothing is playing, skipping play event');
     }
-  }, [address, globalPlayCounts, bestSong]);
+  }, [address, globalPlayCounts]);
 
   // Get play count for specific token (from global context)
   const getPlayCount = useCallback((tokenId: number): number => {
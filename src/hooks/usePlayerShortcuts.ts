@@ -0,0 +1,174 @@
+/**
+ * usePlayerShortcuts Hook
+ *
+ * Global keyboard shortcuts untuk audio player
+ * - Ignored while typing (inputs, textareas, contenteditable)
+ * - Arrow keys are left to focused scroll containers
+ * - Held toggle keys (space, M, L) fire once
+ * - Only active while a track is loaded (the player is visible)
+ */
+
+import { useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { useAudio } from '@/contexts/AudioContext';
+
+export interface PlayerShortcut {
+  keys: string[];
+  description: string;
+}
+
+export const PLAYER_SHORTCUTS: PlayerShortcut[] = [
+  { keys: ['Space'], description: 'Play / pause' },
+  { keys: ['←'], description: 'Rewind 5 seconds' },
+  { keys: ['→'], description: 'Forward 5 seconds' },
+  { keys: ['Shift', '←'], description: 'Previous track' },
+  { keys: ['Shift', '→'], description: 'Next track' },
+  { keys: ['↑'], description: 'Volume up' },
+  { keys: ['↓'], description: 'Volume down' },
+  { keys: ['M'], description: 'Mute / unmute' },
+  { keys: ['L'], description: 'Like / unlike current track' },
+  { keys: ['?'], description: 'Show keyboard shortcuts' },
+];
+
+const SEEK_STEP = 5;
+const VOLUME_STEP = 0.1;
+
+// Keys typed into a field belong to the field
+const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+// Focused controls that already use these keys (buttons: space, sliders: arrows)
+const isControlTarget = (target: EventTarget | null, key: string): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (key === ' ') {
+    return target.tagName === 'BUTTON' || target.getAttribute('role') === 'button';
+  }
+  if (key.startsWith('Arrow')) {
+    return ['slider', 'menuitem', 'option', 'tab', 'radio'].includes(target.getAttribute('role') || '');
+  }
+  return false;
+};
+
+// Focus inside a scroll container keeps arrow keys for scrolling (the page itself is not a container)
+const isScrollableTarget = (target: EventTarget | null, key: string): boolean => {
+  if (!key.startsWith('Arrow')) return false;
+  const vertical = key === 'ArrowUp' || key === 'ArrowDown';
+
+  let element = target instanceof HTMLElement ? target : null;
+  while (element && element !== document.body && element !== document.documentElement) {
+    const style = window.getComputedStyle(element);
+    const overflow = vertical ? style.overflowY : style.overflowX;
+    const overflows = vertical
+      ? element.scrollHeight > element.clientHeight
+      : element.scrollWidth > element.clientWidth;
+    if (overflows && (overflow === 'auto' || overflow === 'scroll')) return true;
+    element = element.parentElement;
+  }
+  return false;
+};
+
+interface UsePlayerShortcutsOptions {
+  onShowHelp: () => void;
+}
+
+export function usePlayerShortcuts({ onShowHelp }: UsePlayerShortcutsOptions) {
+  const {
+    currentTrack,
+    isPlaying,
+    currentTime,
+    duration,
+    volume,
+    pauseTrack,
+    resumeTrack,
+    seekTo,
+    nextTrack,
+    previousTrack,
+    setVolume,
+    toggleMute,
+    isTrackLiked,
+    toggleLikeTrack,
+  } = useAudio();
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+    if (isTypingTarget(event.target) || isControlTarget(event.target, event.key)) return;
+    if (isScrollableTarget(event.target, event.key)) return;
+    // Shortcuts stay out of open dialogs and menus
+    if (document.querySelector('[role="dialog"], [role="menu"]')) return;
+
+    if (!currentTrack) return;
+
+    // Toggles would flip back and forth while the key is held
+    if (event.repeat && ['?', ' ', 'm', 'M', 'l', 'L'].includes(event.key)) {
+      if (event.key === ' ') event.preventDefault();
+      return;
+    }
+
+    if (event.key === '?') {
+      event.preventDefault();
+      onShowHelp();
+      return;
+    }
+
+    switch (event.key) {
+      case ' ':
+        event.preventDefault();
+        if (isPlaying) {
+          pauseTrack();
+        } else {
+          resumeTrack();
+        }
+        break;
+      case 'ArrowLeft':
+        event.preventDefault();
+        if (event.shiftKey) {
+          previousTrack();
+        } else {
+          seekTo(Math.max(0, currentTime - SEEK_STEP));
+        }
+        break;
+      case 'ArrowRight':
+        event.preventDefault();
+        if (event.shiftKey) {
+          nextTrack();
+        } else if (duration > 0) {
+          seekTo(Math.min(duration, currentTime + SEEK_STEP));
+        }
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setVolume(volume + VOLUME_STEP);
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        setVolume(volume - VOLUME_STEP);
+        break;
+      case 'm':
+      case 'M':
+        toggleMute();
+        break;
+      case 'l':
+      case 'L': {
+        const track = currentTrack;
+        const liked = isTrackLiked(track.id);
+        toggleLikeTrack(track).then(changed => {
+          if (changed) toast.success(liked ? `Removed "${track.title}" from liked songs` : `Liked "${track.title}"`);
+        });
+        break;
+      }
+    }
+  };
+
+  // Listener is registered once - always run the latest handler
+  const handlerRef = useRef(handleKeyDown);
+  handlerRef.current = handleKeyDown;
+
+  useEffect(() => {
+    const listener = (event: KeyboardEvent) => handlerRef.current(event);
+    window.addEventListener('keydown', listener);
+    return () => window.removeEventListener('keydown', listener);
+  }, []);
+}
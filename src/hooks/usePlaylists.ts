@@ -1,11 +1,15 @@
 // React Hook for Playlists
 // Manages playlist state with Somnia Data Streams
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { playlistService, type Playlist } from '@/services/playlistService';
+import type { SmartPlaylistRules } from '@/services/smartPlaylistService';
+import type { PlaylistHistoryEntry } from '@/services/playlistHistoryService';
 import { useWalletClient, useAccount } from 'wagmi';
 import { toast } from 'sonner';
 
+const SMART_PLAYLIST_REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
 export function usePlaylists() {
   const { address } = useAccount();
   const { data: walletClient } = useWalletClient();
@@ -13,6 +17,22 @@ export function usePlaylists() {
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isInitialized, setIsInitialized] = useState(false);
+  const playlistsRef = useRef<Playlist[]>([]);
+  playlistsRef.current = playlists;
+
+  // 🧠 Re-evaluate smart playlist rules and save changed tracks (skips playlists edited while evaluating)
+  const refreshSmartPlaylists = useCallback(async (list: Playlist[]) => {
+    const smartPlaylists = list.filter(p => p.rules);
+    if (smartPlaylists.length === 0) return;
+
+    const evaluatedAt = new Map(smartPlaylists.map(p => [p.id, p.timestamp]));
+    const refreshed = await Promise.all(smartPlaylists.map(p => playlistService.refreshSmartPlaylist(p, walletClient)));
+    const refreshedById = new Map(refreshed.map(p => [p.id, p]));
+    setPlaylists(prev => prev.map(p => {
+      const next = refreshedById.get(p.id);
+      return next && evaluatedAt.get(p.id) === p.timestamp ? next : p;
+    }));
+  }, [walletClient]);
 
   // Initialize service (auto-initializes, just update wallet if needed)
   useEffect(() => {
@@ -57,6 +77,7 @@ export function usePlaylists() {
         const userPlaylists = await playlistService.getUserPlaylists(address);
         setPlaylists(userPlaylists);
         console.log(`✅ [PLAYLISTS-HOOK] Loaded ${userPlaylists.length} playlists`);
+        refreshSmartPlaylists(userPlaylists);
       } catch (error) {
         console.error('❌ [PLAYLISTS-HOOK] Failed to load playlists:', error);
         toast.error('Failed to load playlists');
@@ -67,7 +88,18 @@ export function usePlaylists() {
     };
 
     loadPlaylists();
-  }, [address, isInitialized]);
+  }, [address, isInitialized, refreshSmartPlaylists]);
+
+  // Keep smart playlists fresh while mounted
+  useEffect(() => {
+    if (!address || !isInitialized) return;
+
+    const interval = setInterval(() => {
+      refreshSmartPlaylists(playlistsRef.current);
+    }, SMART_PLAYLIST_REFRESH_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [address, isInitialized, refreshSmartPlaylists]);
 
   // Create playlist (✅ MULTI-PUBLISHER SUPPORT)
   const createPlaylist = useCallback(async (
@@ -75,7 +107,8 @@ export function usePlaylists() {
     description: string,
     coverHash: string,
     trackIds: string[],
-    isPublic: boolean
+    isPublic: boolean,
+    rules?: SmartPlaylistRules
   ): Promise<Playlist | null> => {
     if (!address || !isInitialized) {
       toast.error('Please connect your wallet');
@@ -92,7 +125,8 @@ export function usePlaylists() {
         coverHash,
         trackIds,
         isPublic,
-        walletClient  // ✅ Pass wallet client for USER wallet
+        walletClient,  // ✅ Pass wallet client for USER wallet
+        rules
       );
 
       // ⚡ Optimistic update - add to local state immediately
@@ -234,6 +268,39 @@ export function usePlaylists() {
     }
   }, [address, isInitialized, walletClient]);
 
+  // Restore playlist version (⏪ CHANGE HISTORY)
+  const restorePlaylistVersion = useCallback(async (
+    playlistId: string,
+    entry: PlaylistHistoryEntry
+  ): Promise<boolean> => {
+    if (!address || !isInitialized) {
+      toast.error('Please connect your wallet');
+      return false;
+    }
+
+    try {
+      console.log(`⏪ [PLAYLISTS-HOOK] Restoring playlist version (USER wallet)`);
+
+      const restoredPlaylist = await playlistService.restorePlaylistVersion(playlistId, entry, walletClient);
+
+      if (restoredPlaylist) {
+        // ⚡ Optimistic update
+        setPlaylists(prev => prev.map(p =>
+          p.id === playlistId ? restoredPlaylist : p
+        ));
+
+        toast.success('Playlist restored');
+        return true;
+      }
+
+      return false;
+    } catch (error) {
+      console.error('❌ [PLAYLISTS-HOOK] Failed to restore playlist:', error);
+      toast.error('Failed to restore playlist');
+      return false;
+    }
+  }, [address, isInitialized, walletClient]);
+
   // Refresh playlists (✅ FORCE RELOAD FROM BLOCKCHAIN)
   const refreshPlaylists = useCallback(async () => {
     if (!address || !isInitialized) return;
@@ -245,12 +312,13 @@ export function usePlaylists() {
       const userPlaylists = await playlistService.getUserPlaylists(address, true);
       setPlaylists(userPlaylists);
       console.log(`✅ [PLAYLISTS-HOOK] Refreshed ${userPlaylists.length} playlists from blockchain`);
+      refreshSmartPlaylists(userPlaylists);
     } catch (error) {
       console.error('❌ [PLAYLISTS-HOOK] Failed to refresh:', error);
     } finally {
       setIsLoading(false);
     }
-  }, [address, isInitialized]);
+  }, [address, isInitialized, refreshSmartPlaylists]);
 
   // Follow playlist (✅ NEW: SOCIAL FEATURE)
   const followPlaylist = useCallback(async (playlistId: string): Promise<boolean> => {
@@ -411,6 +479,7 @@ export function usePlaylists() {
     deletePlaylist,
     addTrackToPlaylist,
     removeTrackFromPlaylist,
+    restorePlaylistVersion,
     refreshPlaylists,
     // ✅ NEW: Social features
     followPlaylist,
@@ -24,6 +24,13 @@ export interface Post {
   authorUsername?: string;
   authorDisplayName?: string;
   authorAvatarHash?: string;
+  collectModule?: string;
+  collectPrice?: string;
+  collectLimit?: number;
+  collectCount?: number;
+  isCollected?: boolean;
+  isGated?: boolean;
+  nftTokenId?: number;
   quotedPost?: Post;
 }
 
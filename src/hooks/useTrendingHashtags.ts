@@ -0,0 +1,52 @@
+// src/hooks/useTrendingHashtags.ts
+import { useState, useEffect } from 'react';
+import { somniaDatastreamServiceV3 } from '@/services/somniaDatastreamService.v3';
+
+export interface TrendingHashtag {
+  tag: string;
+  score: number;
+  posts: number;
+}
+
+export const useTrendingHashtags = (limit: number = 5) => {
+  const [trendingHashtags, setTrendingHashtags] = useState<TrendingHashtag[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTrendingHashtags = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        await somniaDatastreamServiceV3.connect();
+        const trending = await somniaDatastreamServiceV3.getTrendingHashtags(limit);
+        console.log(`#️⃣ [Trending] Got ${trending.length} trending hashtags`);
+
+        if (!cancelled) setTrendingHashtags(trending);
+      } catch (err) {
+        console.error('❌ [Trending] Error loading trending hashtags:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load trending hashtags');
+          setTrendingHashtags([]);
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadTrendingHashtags();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [limit]);
+
+  return {
+    trendingHashtags,
+    isLoading,
+    error,
+  };
+};
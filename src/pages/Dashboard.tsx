@@ -19,6 +19,7 @@ import {
 import { Link } from "react-router-dom";
 import Navbar from "@/components/Navbar";
 import { CurrentUserProfile } from "@/components/ProfileDisplay";
+import { ReferralEarningsCard } from "@/components/ReferralEarningsCard";
 import { useAuth } from "@/contexts/AuthContext";
 
 const Dashboard = () => {
@@ -181,7 +182,7 @@ const Dashboard = () => {
 
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* Recent Tracks */}
-            <div className="lg:col-span-2">
+            <div className="lg:col-span-2 space-y-8">
               <Card>
                 <CardHeader>
                   <CardTitle className="flex items-center gap-2">
@@ -232,6 +233,9 @@ const Dashboard = () => {
                   </div>
                 </CardContent>
               </Card>
+
+              {/* Referral Earnings */}
+              <ReferralEarningsCard />
             </div>
 
             {/* Profile & Achievements */}
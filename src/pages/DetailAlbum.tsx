@@ -32,7 +32,7 @@ import {
   Plus
 } from "lucide-react";
 import { Link, useParams, useNavigate } from "react-router-dom";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useAccount } from "wagmi";
 import Navbar from "@/components/Navbar";
 import { useAudio } from "@/contexts/AudioContext";
@@ -44,12 +44,13 @@ import { readContract } from "@wagmi/core";
 import { wagmiConfig, CONTRACT_ADDRESSES } from "@/lib/web3-config";
 import { SONG_NFT_ABI } from "@/lib/abis/SongNFT";
 import { usePlayCounts } from "@/hooks/usePlayCounts";
+import BundleCheckoutModal from "@/components/BundleCheckoutModal";
 
 const DetailAlbum = () => {
   const { albumId } = useParams();
   const navigate = useNavigate();
   const { address } = useAccount();
-  const { currentTrack, isPlaying, playTrack, pauseTrack } = useAudio();
+  const { currentTrack, isPlaying, playTrack, pauseTrack, playlist, setPlaylist } = useAudio();
   const { addSongToAlbum } = useSequence();
   
   const [album, setAlbum] = useState<any>(null);
@@ -62,9 +63,14 @@ const DetailAlbum = () => {
   const [selectedSongId, setSelectedSongId] = useState<string>('');
   const [isLoadingSongs, setIsLoadingSongs] = useState(false);
   const [isAddingSong, setIsAddingSong] = useState(false);
+  const [showBundleCheckout, setShowBundleCheckout] = useState(false);
   
   // Use play counts hook
   const tokenIds = albumTracks.map(t => t.tokenId);
+  const bundleTracks = useMemo(
+    () => albumTracks.map(t => ({ tokenId: t.tokenId, title: t.title, artist: t.artist })),
+    [albumTracks]
+  );
   const { playCounts, bestSong, recordPlay, getPlayCount, isBestSong: checkIsBestSong } = usePlayCounts(tokenIds);
 
   // Fetch album data from subgraph
@@ -353,29 +359,36 @@ const DetailAlbum = () => {
     }
   };
 
+  // Album track in player format
+  const toPlayerTrack = (track: any) => {
+    const coverUrl = getIPFSUrl(track.ipfsArtworkHash) || getIPFSUrl(album?.coverImageHash);
+    return {
+      id: track.tokenId,
+      title: track.title,
+      artist: track.artist,
+      avatar: coverUrl,
+      cover: coverUrl,
+      audioUrl: getIPFSUrl(track.ipfsAudioHash),
+      genre: track.genre,
+      duration: track.duration,
+      likes: track.likes
+    };
+  };
+
   const handleTogglePlay = async (track: any) => {
     if (!track.ipfsAudioHash) {
       toast.error('Audio file not available');
       return;
     }
-
-    const audioUrl = getIPFSUrl(track.ipfsAudioHash);
-    const coverUrl = getIPFSUrl(track.ipfsArtworkHash) || getIPFSUrl(album?.coverImageHash);
     
     if (currentTrack?.id === track.tokenId && isPlaying) {
       pauseTrack();
     } else {
-      playTrack({
-        id: track.tokenId,
-        title: track.title,
-        artist: track.artist,
-        avatar: coverUrl,
-        cover: coverUrl,
-        audioUrl,
-        genre: track.genre,
-        duration: track.duration,
-        likes: track.likes
-      });
+      // Queue the whole album so the next song is preloaded (gapless / crossfade)
+      if (!playlist.some(t => t.id === track.tokenId)) {
+        setPlaylist(albumTracks.filter(t => t.ipfsAudioHash).map(toPlayerTrack));
+      }
+      playTrack(toPlayerTrack(track));
 
       // Record play event using hook
       await recordPlay(track.tokenId, track.duration, 'album');
@@ -731,15 +744,20 @@ const DetailAlbum = () => {
               <CardContent className="p-6">
                 <div className="space-y-4">
                   <div className="text-center">
-                    <p className="text-2xl font-semibold text-primary mb-1">2.5 ETH</p>
-                    <p className="text-sm text-muted-foreground">Complete Album</p>
+                    <p className="text-2xl font-semibold text-primary mb-1">Complete Album</p>
+                    <p className="text-sm text-muted-foreground">{albumTracks.length} tracks</p>
                   </div>
-                  <Button className="w-full gap-2 bg-primary hover:bg-primary/90" size="lg">
+                  <Button
+                    className="w-full gap-2 bg-primary hover:bg-primary/90"
+                    size="lg"
+                    onClick={() => setShowBundleCheckout(true)}
+                    disabled={albumTracks.length === 0}
+                  >
                     <ShoppingCart className="w-4 h-4" />
                     Buy Album
                   </Button>
                   <div className="text-center text-xs text-muted-foreground">
-                    Includes all 8 tracks in high-quality WAV format
+                    Buys every listed track in one transaction
                   </div>
                 </div>
               </CardContent>
@@ -985,6 +1003,14 @@ const DetailAlbum = () => {
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* Bundle Checkout */}
+      <BundleCheckoutModal
+        isOpen={showBundleCheckout}
+        onClose={() => setShowBundleCheckout(false)}
+        bundleTitle={album.title}
+        tracks={bundleTracks}
+      />
     </div>
   );
 };
@@ -152,7 +152,8 @@ const formatPostForUI = (post: any) => {
     likes: post.likes,
     comments: post.comments,
     shares: post.shares,
-    isLiked: post.isLiked
+    isLiked: post.isLiked,
+    tokenId: metadata.tokenId ? Number(metadata.tokenId) : undefined
   };
 };
 
@@ -611,7 +612,7 @@ const Feed = () => {
       const quoteCounts = countQuotes(sortedAllPosts);
 
       // ⚡ Merge posts with stats (PENTING: ini yang menambahkan likes, comments, reposts dari blockchain)
-      const enrichedPosts = mergePostsWithStats(sortedAllPosts, statsMap, quoteCounts);
+      const enrichedPosts = mergePostsWithStats(sortedAllPosts, statsMap, quoteCounts, smartAccountAddress || undefined);
 
       console.log(`✅ [V3] Enriched posts with stats:`, enrichedPosts.slice(0, 3).map(p => ({
         id: String(p.id).substring(0, 20),
@@ -836,6 +837,13 @@ const Feed = () => {
           isReposted: post.isReposted || false,
           isDeleted: post.isDeleted || false,
           isPinned: post.isPinned || false,
+          collectModule: post.collectModule,
+          collectPrice: post.collectPrice || '0',
+          collectLimit: post.collectLimit || 0,
+          collectCount: post.collectCount || 0,
+          isCollected: post.isCollected || false,
+          isGated: post.isGated || false,
+          nftTokenId: post.nftTokenId || 0,
           quotedPost: post.quotedPost ? {
             id: post.quotedPost.id,
             author: post.quotedPost.author,
@@ -846,6 +854,8 @@ const Feed = () => {
             likes: post.quotedPost.likes || 0,
             comments: post.quotedPost.comments || 0,
             shares: post.quotedPost.reposts || 0,
+            isGated: post.quotedPost.isGated || false,
+            nftTokenId: post.quotedPost.nftTokenId || 0,
             isDeleted: false,
             isPinned: false,
             authorProfile: {
@@ -1512,7 +1522,7 @@ const Feed = () => {
         replyToId: 0,
         mentions: '', // TODO: Extract mentions from quoteText
         collectModule: '0x0000000000000000000000000000000000000000',
-        collectPrice: 0,
+        collectPrice: '0',
         collectLimit: 0,
         collectCount: 0,
         isGated: false,
@@ -1716,7 +1726,7 @@ const Feed = () => {
         replyToId: 0,
         mentions: '',
         collectModule: '0x0000000000000000000000000000000000000000',
-        collectPrice: 0,
+        collectPrice: '0',
         collectLimit: 0,
         collectCount: 0,
         isGated: false,
@@ -1794,7 +1804,7 @@ const Feed = () => {
 
               {/* Post Composer */}
               <PostComposer
-                onPost={async (content, attachments) => {
+                onPost={async (content, attachments, options) => {
                   if (!isAccountReady || !smartAccountAddress) {
                     console.warn('⚠️ Account not ready');
                     return;
@@ -1871,13 +1881,15 @@ const Feed = () => {
                       quotedPostId: 0,
                       replyToId: 0,
                       mentions: '',
-                      collectModule: '0x0000000000000000000000000000000000000000',
-                      collectPrice: 0,
-                      collectLimit: 0,
+                      // Collect payouts go straight to the author; zero address disables collecting
+                      collectModule: options?.collect ? smartAccountAddress : '0x0000000000000000000000000000000000000000',
+                      collectPrice: options?.collect?.collectPrice || '0',
+                      collectLimit: options?.collect?.collectLimit || 0,
                       collectCount: 0,
-                      isGated: false,
+                      isGated: !!options?.gating,
                       referrer: '0x0000000000000000000000000000000000000000',
-                      nftTokenId: 0,
+                      // Gated posts store the required SongNFT here (0 = any song by the author)
+                      nftTokenId: options?.gating?.gatedTokenId || 0,
                       isDeleted: false,
                       isPinned: false,
                       timestamp,
@@ -2046,6 +2058,13 @@ const Feed = () => {
                   isLiked: post.isLiked,
                   isReposted: post.isReposted || false,
                   isRepost: post.isRepost || false,
+                  collectModule: post.collectModule,
+                  collectPrice: post.collectPrice,
+                  collectLimit: post.collectLimit,
+                  collectCount: post.collectCount,
+                  isCollected: post.isCollected,
+                  isGated: post.isGated,
+                  nftTokenId: post.nftTokenId,
                   quoteText: post.quoteText,
                   quotedPost: post.quotedPost ? {
                     id: post.quotedPost.id.toString(),
@@ -2057,6 +2076,8 @@ const Feed = () => {
                     likes: post.quotedPost.likes,
                     comments: post.quotedPost.comments,
                     shares: post.quotedPost.shares,
+                    isGated: post.quotedPost.isGated,
+                    nftTokenId: post.quotedPost.nftTokenId,
                     authorProfile: post.quotedPost.authorProfile,
                     metadata: post.quotedPost.metadata
                   } : undefined,
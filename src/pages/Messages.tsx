@@ -16,136 +16,186 @@ import {
   Smile,
   Phone,
   Video,
-  Headphones
+  Headphones,
+  Check,
+  CheckCheck,
+  Lock,
+  KeyRound,
+  Loader2
 } from "lucide-react";
 import { useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { toast } from "sonner";
+import { useWalletClient } from "wagmi";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import NotificationDropdown from "@/components/NotificationDropdown";
 import Navbar from "@/components/Navbar";
+import { useSequence } from "@/contexts/SequenceContext";
 import { LiveChatMessage, realtimeChatService } from "@/services/realtimeChatService";
+import { profileService } from "@/services/profileService";
+import { dmEncryptionService } from "@/services/dmEncryptionService";
+import {
+  getConversationId,
+  getConversationPeer,
+  type ConversationSummary,
+} from "@/config/somniaDataStreams.v3";
+
+interface PeerProfile {
+  name: string;
+  username?: string;
+  avatar?: string;
+}
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const getAvatarUrl = (avatarHash?: string) => {
+  if (!avatarHash) return undefined;
+  if (avatarHash.startsWith("http")) return avatarHash;
+  return `https://ipfs.io/ipfs/${avatarHash.replace("ipfs://", "")}`;
+};
 
 const Messages = () => {
-  const [selectedConversation, setSelectedConversation] = useState<number | null>(1);
+  const { address: peerParam } = useParams<{ address?: string }>();
+  const { smartAccountAddress } = useSequence();
+  const { data: walletClient } = useWalletClient();
+  const [selectedConversation, setSelectedConversation] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [isLoadingInbox, setIsLoadingInbox] = useState(false);
+  const [peerProfiles, setPeerProfiles] = useState<Record<string, PeerProfile>>({});
+  const [searchQuery, setSearchQuery] = useState("");
   const [messageText, setMessageText] = useState("");
   const [latencyStats, setLatencyStats] = useState<{ average: number; latest: number } | null>(null);
-  const [messagesByConversation, setMessagesByConversation] = useState<Record<number, LiveChatMessage[]>>({
-    1: [
-      {
-        id: "seed-1",
-        conversationId: "1",
-        sender: "Jazz Fusion",
-        content: "Hey! I just listened to your latest track 'Midnight Groove'",
-        timestamp: Date.now() - 1000 * 60 * 15,
-        status: "sent"
-      },
-      {
-        id: "seed-2",
-        conversationId: "1",
-        sender: "You",
-        content: "Thanks! Glad you liked it 😊",
-        timestamp: Date.now() - 1000 * 60 * 14,
-        status: "sent"
-      },
-      {
-        id: "seed-3",
-        conversationId: "1",
-        sender: "Jazz Fusion",
-        content: "The jazz fusion elements are incredible. Have you thought about collaborating with other artists?",
-        timestamp: Date.now() - 1000 * 60 * 13,
-        status: "sent"
-      },
-      {
-        id: "seed-4",
-        conversationId: "1",
-        sender: "You",
-        content: "Definitely! I'm always open to collaborations. What kind of style are you thinking?",
-        timestamp: Date.now() - 1000 * 60 * 12,
-        status: "sent"
-      },
-      {
-        id: "seed-5",
-        conversationId: "1",
-        sender: "Jazz Fusion",
-        content: "Maybe something with electronic beats mixed with live instrumentation. I have some ideas for a track called 'Digital Dreams'",
-        timestamp: Date.now() - 1000 * 60 * 11,
-        status: "sent"
-      },
-      {
-        id: "seed-6",
-        conversationId: "1",
-        sender: "Jazz Fusion",
-        content: "Would love to hear your thoughts on this 🔥",
-        timestamp: Date.now() - 1000 * 60 * 10,
-        status: "sent"
-      }
-    ]
-  });
-
-  const conversations = [
-    {
-      id: 1,
-      user: "Jazz Fusion",
-      avatar: "JF",
-      lastMessage: "Hey, loved your latest track! 🔥",
-      time: "2m ago",
-      unread: true,
-      online: true
-    },
-    {
-      id: 2,
-      user: "Beat Masters",
-      avatar: "BM",
-      lastMessage: "Thanks for the collaboration offer",
-      time: "1h ago",
-      unread: false,
-      online: true
-    },
-    {
-      id: 3,
-      user: "Synthwave Collective",
-      avatar: "SC",
-      lastMessage: "When's the next release?",
-      time: "3h ago",
-      unread: true,
-      online: false
-    },
-    {
-      id: 4,
-      user: "Ambient Sounds",
-      avatar: "AS",
-      lastMessage: "Check out this new remix",
-      time: "1d ago",
-      unread: false,
-      online: false
-    },
-    {
-      id: 5,
-      user: "Urban Beats",
-      avatar: "UB",
-      lastMessage: "Great show last night!",
-      time: "2d ago",
-      unread: false,
-      online: true
+  const [messagesByConversation, setMessagesByConversation] = useState<Record<string, LiveChatMessage[]>>({});
+  const [isUnlocked, setIsUnlocked] = useState(false);
+  const [isKeyBusy, setIsKeyBusy] = useState(false);
+
+  const me = smartAccountAddress?.toLowerCase();
+
+  // Keys unlocked earlier in this session open the inbox without a new signature
+  useEffect(() => {
+    setIsUnlocked(!!me && dmEncryptionService.hasKey(me));
+  }, [me]);
+
+  const signKeyMessage = async (message: string) => {
+    if (!walletClient || !smartAccountAddress) {
+      throw new Error("Please connect your wallet first");
+    }
+    return walletClient.signMessage({ message, account: smartAccountAddress as `0x${string}` });
+  };
+
+  const runKeyAction = async (action: () => Promise<string>) => {
+    if (!me) return;
+    setIsKeyBusy(true);
+    try {
+      toast.success(await action());
+      setIsUnlocked(true);
+    } catch (error: any) {
+      console.error("❌ [Messages] Encryption key action failed:", error);
+      toast.error(error?.message || "Failed to update encryption key");
+    } finally {
+      setIsKeyBusy(false);
     }
-  ];
+  };
 
+  const handleUnlock = () =>
+    runKeyAction(async () => {
+      await dmEncryptionService.unlock(me!, signKeyMessage);
+      return "Encrypted messages unlocked";
+    });
+
+  const handleRotateKey = () =>
+    runKeyAction(async () => {
+      const keyPair = await dmEncryptionService.rotateKey(me!, signKeyMessage);
+      return `Rotated to encryption key v${keyPair.version}`;
+    });
+
+  const handleRestoreKey = (version: number) =>
+    runKeyAction(async () => {
+      await dmEncryptionService.restoreKey(me!, version, signKeyMessage);
+      return `Encryption key v${version} restored`;
+    });
+
+  // Inbox: history + unread counts, refreshed by polling the datastream
   useEffect(() => {
-    void realtimeChatService.initialize();
-    conversations.forEach((conversation) => {
-      realtimeChatService.bootstrapConversation(
-        conversation.id.toString(),
-        messagesByConversation[conversation.id] ?? []
-      );
+    if (!me) {
+      setConversations([]);
+      return;
+    }
+
+    setIsLoadingInbox(true);
+    const unsubscribe = realtimeChatService.watchInbox(me, (inbox) => {
+      setConversations(inbox);
+      setIsLoadingInbox(false);
     });
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
+
+    return () => {
+      unsubscribe();
+    };
+  }, [me]);
+
+  // Open the conversation from /messages/:address (e.g. the Message button on a profile)
+  useEffect(() => {
+    if (!me || !peerParam || !/^0x[a-fA-F0-9]{40}$/.test(peerParam)) return;
+    if (peerParam.toLowerCase() === me) return;
+    setSelectedConversation(getConversationId(me, peerParam));
+  }, [me, peerParam]);
+
+  // Conversation we navigated to but haven't messaged yet
+  const inbox = useMemo(() => {
+    if (!me || !selectedConversation || conversations.some((c) => c.conversationId === selectedConversation)) {
+      return conversations;
+    }
+
+    const draft: ConversationSummary = {
+      conversationId: selectedConversation,
+      peer: getConversationPeer(selectedConversation, me),
+      messages: [],
+      unreadCount: 0,
+      lastReadByMe: 0,
+      lastReadByPeer: 0,
+    };
+    return [draft, ...conversations];
+  }, [conversations, selectedConversation, me]);
+
+  // Resolve display names for peers we haven't looked up yet
+  useEffect(() => {
+    const missing = inbox.map((c) => c.peer).filter((peer) => !peerProfiles[peer]);
+    if (missing.length === 0) return;
+
+    let cancelled = false;
+    profileService.getMultipleProfiles(missing).then((profiles) => {
+      if (cancelled) return;
+      setPeerProfiles((prev) => {
+        const next = { ...prev };
+        missing.forEach((peer, index) => {
+          const profile = profiles[index];
+          next[peer] = {
+            name: profile?.displayName || profile?.username || shortenAddress(peer),
+            username: profile?.username,
+            avatar: getAvatarUrl(profile?.avatarHash),
+          };
+        });
+        return next;
+      });
+    }).catch((error) => console.warn("⚠️ [Messages] Failed to load peer profiles:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [inbox, peerProfiles]);
 
   useEffect(() => {
     if (!selectedConversation) return;
-    const conversationId = selectedConversation.toString();
+    const conversationId = selectedConversation;
 
     const handleMessage = (message: LiveChatMessage) => {
       setMessagesByConversation((prev) => {
-        const existing = prev[selectedConversation] ?? [];
+        const existing = prev[conversationId] ?? [];
         const updated = [...existing];
         const index = updated.findIndex(
           (item) => item.id === message.id || (item.tempId && item.tempId === message.tempId)
@@ -161,7 +211,7 @@ const Messages = () => {
 
         return {
           ...prev,
-          [selectedConversation]: updated
+          [conversationId]: updated
         };
       });
 
@@ -177,24 +227,63 @@ const Messages = () => {
     };
   }, [selectedConversation]);
 
+  const selectedSummary = inbox.find((conv) => conv.conversationId === selectedConversation);
+
+  // Read receipt once the open conversation has unread messages
+  useEffect(() => {
+    if (!me || !selectedSummary || selectedSummary.unreadCount === 0) return;
+    void realtimeChatService.markAsRead(selectedSummary, me);
+    setConversations((prev) =>
+      prev.map((c) => (c.conversationId === selectedSummary.conversationId ? { ...c, unreadCount: 0 } : c))
+    );
+  }, [me, selectedSummary]);
+
   const sendMessage = async () => {
-    if (!messageText.trim() || !selectedConversation) return;
+    if (!messageText.trim() || !selectedConversation || !me) return;
 
-    const conversationId = selectedConversation.toString();
-    await realtimeChatService.sendMessage(conversationId, "You", messageText.trim());
+    const conversationId = selectedConversation;
+    const content = messageText.trim();
     setMessageText("");
+
+    try {
+      await realtimeChatService.sendMessage(conversationId, me, content);
+    } catch (error: any) {
+      setMessagesByConversation((prev) => ({
+        ...prev,
+        [conversationId]: (prev[conversationId] ?? []).filter((item) => item.status !== "pending" || item.content !== content)
+      }));
+      setMessageText(content);
+      toast.error(error?.message || "Failed to send message");
+    }
   };
 
-  const selectedUser = conversations.find((conv) => conv.id === selectedConversation);
+  const selectedPeer = selectedSummary ? peerProfiles[selectedSummary.peer] : undefined;
 
   const conversationMessages = useMemo(
     () => (selectedConversation ? messagesByConversation[selectedConversation] ?? [] : []),
     [messagesByConversation, selectedConversation]
   );
 
+  const filteredInbox = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return inbox;
+    return inbox.filter((conversation) => {
+      const profile = peerProfiles[conversation.peer];
+      return (
+        conversation.peer.includes(query) ||
+        profile?.name.toLowerCase().includes(query) ||
+        profile?.username?.toLowerCase().includes(query)
+      );
+    });
+  }, [inbox, peerProfiles, searchQuery]);
+
+  const totalUnread = conversations.reduce((sum, conversation) => sum + conversation.unreadCount, 0);
+
   const formatTimestamp = (timestamp: number) =>
     new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
 
+  const getInitials = (name: string) => name.replace(/^0x/, "").slice(0, 2).toUpperCase();
+
   return (
     <div className="min-h-screen bg-background">
       <Navbar />
@@ -206,6 +295,9 @@ const Messages = () => {
             <div className="flex items-center gap-2">
               <Mail className="w-5 h-5 text-primary" />
               <h1 className="text-2xl font-bold">Messages</h1>
+              {totalUnread > 0 && (
+                <Badge className="text-xs">{totalUnread} unread</Badge>
+              )}
               {latencyStats ? (
                 <Badge variant="outline" className="text-xs">
                   Live · {latencyStats.latest}ms
@@ -217,7 +309,10 @@ const Messages = () => {
               )}
             </div>
             <div className="flex items-center gap-4 text-sm text-muted-foreground">
-              <span className="hidden sm:block">Low latency delivery with WebSocket + BroadcastChannel</span>
+              <span className="hidden sm:flex items-center gap-1">
+                <Lock className="w-3 h-3" />
+                End-to-end encrypted
+              </span>
               <NotificationDropdown />
             </div>
           </div>
@@ -231,51 +326,67 @@ const Messages = () => {
                   <div className="p-4 border-b border-border/20">
                     <div className="relative">
                       <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-                      <Input placeholder="Search messages..." className="pl-10" />
+                      <Input
+                        placeholder="Search conversations..."
+                        className="pl-10"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                      />
                     </div>
                   </div>
 
                   {/* Conversations List */}
                   <ScrollArea className="h-full">
                     <div className="divide-y divide-border/20">
-                      {conversations.map((conversation) => {
-                        const latestMessage = (messagesByConversation[conversation.id] ?? []).at(-1);
-                        const preview = latestMessage?.content ?? conversation.lastMessage;
-                        const previewTime = latestMessage
-                          ? formatTimestamp(latestMessage.timestamp)
-                          : conversation.time;
+                      {!me && (
+                        <p className="p-6 text-sm text-center text-muted-foreground">
+                          Connect your wallet to see your messages
+                        </p>
+                      )}
+                      {me && isLoadingInbox && inbox.length === 0 && (
+                        <p className="p-6 text-sm text-center text-muted-foreground">Loading conversations...</p>
+                      )}
+                      {me && !isLoadingInbox && inbox.length === 0 && (
+                        <p className="p-6 text-sm text-center text-muted-foreground">
+                          No conversations yet. Open a profile and tap Message to start one.
+                        </p>
+                      )}
+                      {filteredInbox.map((conversation) => {
+                        const profile = peerProfiles[conversation.peer];
+                        const name = profile?.name ?? shortenAddress(conversation.peer);
+                        const latestMessage =
+                          (messagesByConversation[conversation.conversationId] ?? []).at(-1) ?? conversation.lastMessage;
+                        const preview = latestMessage?.content ?? "Say hi 👋";
+                        const previewTime = latestMessage ? formatTimestamp(latestMessage.timestamp) : "";
 
                         return (
                           <div
-                            key={conversation.id}
-                            onClick={() => setSelectedConversation(conversation.id)}
+                            key={conversation.conversationId}
+                            onClick={() => setSelectedConversation(conversation.conversationId)}
                             className={`p-4 cursor-pointer hover:bg-muted/50 transition-colors ${
-                              selectedConversation === conversation.id ? "bg-primary/10 border-r-2 border-primary" : ""
+                              selectedConversation === conversation.conversationId ? "bg-primary/10 border-r-2 border-primary" : ""
                             }`}
                           >
                             <div className="flex items-center gap-3">
-                              <div className="relative">
-                                <Avatar className="w-10 h-10">
-                                  <AvatarImage src="" />
-                                  <AvatarFallback className="bg-primary/10 text-primary font-semibold text-sm">
-                                    {conversation.avatar}
-                                  </AvatarFallback>
-                                </Avatar>
-                                {conversation.online && (
-                                  <div className="absolute -bottom-1 -right-1 w-3 h-3 bg-green-500 border-2 border-background rounded-full"></div>
-                                )}
-                              </div>
+                              <Avatar className="w-10 h-10">
+                                <AvatarImage src={profile?.avatar} />
+                                <AvatarFallback className="bg-primary/10 text-primary font-semibold text-sm">
+                                  {getInitials(name)}
+                                </AvatarFallback>
+                              </Avatar>
 
                               <div className="flex-1 min-w-0">
                                 <div className="flex items-center justify-between mb-1">
-                                  <h3 className="font-semibold text-sm truncate">{conversation.user}</h3>
+                                  <h3 className="font-semibold text-sm truncate">{name}</h3>
                                   <span className="text-xs text-muted-foreground">{previewTime}</span>
                                 </div>
                                 <p className="text-xs text-muted-foreground truncate">{preview}</p>
                               </div>
 
-                              {conversation.unread && (
-                                <div className="w-2 h-2 bg-primary rounded-full flex-shrink-0"></div>
+                              {conversation.unreadCount > 0 && (
+                                <Badge className="h-5 min-w-5 px-1.5 text-[10px] flex-shrink-0">
+                                  {conversation.unreadCount}
+                                </Badge>
                               )}
                             </div>
                           </div>
@@ -295,13 +406,21 @@ const Messages = () => {
                   <div className="p-4 border-b border-border/20 flex items-center justify-between">
                     <div className="flex items-center gap-3">
                       <Avatar className="w-10 h-10">
-                        <AvatarImage src="" />
+                        <AvatarImage src={selectedPeer?.avatar} />
                         <AvatarFallback className="bg-primary/10 text-primary font-semibold text-sm">
-                          {selectedUser?.avatar}
+                          {selectedSummary ? getInitials(selectedPeer?.name ?? selectedSummary.peer) : ""}
                         </AvatarFallback>
                       </Avatar>
                       <div>
-                        <h2 className="font-semibold">{selectedUser?.user}</h2>
+                        <h2 className="font-semibold">
+                          {selectedPeer?.username ? (
+                            <Link to={`/profile/${selectedPeer.username}`} className="hover:underline">
+                              {selectedPeer.name}
+                            </Link>
+                          ) : (
+                            selectedPeer?.name ?? (selectedSummary ? shortenAddress(selectedSummary.peer) : "Select a conversation")
+                          )}
+                        </h2>
                         <div className="flex items-center gap-2 text-xs text-muted-foreground">
                           <span className="flex items-center gap-1">
                             <span className="w-2 h-2 bg-green-500 rounded-full"></span>
@@ -319,17 +438,42 @@ const Messages = () => {
                       <Button variant="outline" size="icon">
                         <Video className="w-4 h-4" />
                       </Button>
-                      <Button variant="outline" size="icon">
-                        <MoreHorizontal className="w-4 h-4" />
-                      </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="outline" size="icon">
+                            <MoreHorizontal className="w-4 h-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem disabled={isKeyBusy || !walletClient} onClick={handleRotateKey}>
+                            <KeyRound className="w-4 h-4 mr-2" />
+                            Rotate encryption key
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
                     </div>
                   </div>
 
                   {/* Messages */}
                   <ScrollArea className="h-[calc(100%-8rem)]">
                     <div className="p-4 space-y-4">
+                      {me && !isUnlocked && (
+                        <div className="flex flex-col items-center gap-3 p-6 text-center rounded-xl border border-border/50 bg-muted/30">
+                          <Lock className="w-6 h-6 text-primary" />
+                          <div>
+                            <p className="font-semibold text-sm">Messages are end-to-end encrypted</p>
+                            <p className="text-xs text-muted-foreground">
+                              Sign to unlock your encryption key for this session. No gas required.
+                            </p>
+                          </div>
+                          <Button size="sm" onClick={handleUnlock} disabled={isKeyBusy || !walletClient}>
+                            {isKeyBusy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <KeyRound className="w-4 h-4 mr-2" />}
+                            Unlock messages
+                          </Button>
+                        </div>
+                      )}
                       {conversationMessages.map((message) => {
-                        const isMe = message.sender === "You";
+                        const isMe = message.sender.toLowerCase() === me;
                         return (
                           <div key={message.id} className={`flex ${isMe ? "justify-end" : "justify-start"}`}>
                             <div
@@ -337,17 +481,27 @@ const Messages = () => {
                                 isMe ? "bg-primary text-primary-foreground" : "bg-muted"
                               }`}
                             >
-                              <div className="flex items-center gap-2 mb-1">
-                                <span className="text-xs opacity-80">{message.sender}</span>
-                                {message.status === "pending" && (
-                                  <Badge variant="secondary" className="text-[10px] h-5 px-2">
-                                    sending…
-                                  </Badge>
-                                )}
-                              </div>
+                              {message.status === "pending" && (
+                                <Badge variant="secondary" className="text-[10px] h-5 px-2 mb-1">
+                                  sending…
+                                </Badge>
+                              )}
                               <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                              <span className="text-[10px] opacity-70 block mt-2">
+                              {message.missingKeyVersion !== undefined && (
+                                <Button
+                                  variant="link"
+                                  size="sm"
+                                  className="h-auto p-0 text-xs"
+                                  disabled={isKeyBusy}
+                                  onClick={() => handleRestoreKey(message.missingKeyVersion!)}
+                                >
+                                  Restore key v{message.missingKeyVersion}
+                                </Button>
+                              )}
+                              <span className="text-[10px] opacity-70 flex items-center gap-1 mt-2">
                                 {formatTimestamp(message.timestamp)}
+                                {isMe && message.status === "sent" && <Check className="w-3 h-3" />}
+                                {isMe && message.status === "read" && <CheckCheck className="w-3 h-3" />}
                               </span>
                             </div>
                           </div>
@@ -385,6 +539,7 @@ const Messages = () => {
                         placeholder="Type your message..."
                         className="flex-1 min-h-[60px]"
                         value={messageText}
+                        disabled={!me || !selectedConversation || !isUnlocked}
                         onChange={(e) => setMessageText(e.target.value)}
                         onKeyDown={(e) => {
                           if (e.key === "Enter" && !e.shiftKey) {
@@ -395,7 +550,11 @@ const Messages = () => {
                       />
 
                       <div className="flex flex-col gap-2">
-                        <Button onClick={sendMessage} className="flex items-center gap-2">
+                        <Button
+                          onClick={sendMessage}
+                          disabled={!me || !selectedConversation || !isUnlocked || !messageText.trim()}
+                          className="flex items-center gap-2"
+                        >
                           <Send className="w-4 h-4" />
                           Send
                         </Button>
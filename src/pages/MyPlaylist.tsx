@@ -1,9 +1,10 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Dialog,
   DialogContent,
@@ -31,12 +32,19 @@ import {
   Music,
   Clock,
   User,
-  Loader2
+  Loader2,
+  ShoppingCart,
+  Filter,
+  Download,
+  FileUp
 } from "lucide-react";
 import { Link } from "react-router-dom";
 import Navbar from "@/components/Navbar";
 import CreatePlaylistModal from "@/components/CreatePlaylistModal";
 import EditPlaylistModal from "@/components/EditPlaylistModal";
+import ImportPlaylistModal from "@/components/ImportPlaylistModal";
+import PlaylistHistoryTimeline from "@/components/PlaylistHistoryTimeline";
+import BundleCheckoutModal from "@/components/BundleCheckoutModal";
 import { useAudio } from "@/contexts/AudioContext";
 import { useAccount } from "wagmi";
 import { recordMusicPlay } from "@/utils/playCountHelper";
@@ -46,6 +54,10 @@ import album3 from "@/assets/album-3.jpg";
 import album4 from "@/assets/album-4.jpg";
 import { useLocation } from "react-router-dom";
 import { usePlaylists } from "@/hooks/usePlaylists";
+import { playlistService } from "@/services/playlistService";
+import { playlistHistoryService, type PlaylistHistoryEntry, type PlaylistTrackAttribution } from "@/services/playlistHistoryService";
+import { describeSmartRules } from "@/services/smartPlaylistService";
+import { PLAYLIST_FORMAT_INFO, type PlaylistExportFormat } from "@/utils/playlistFormats";
 import { toast } from "sonner";
 
 const MyPlaylist = () => {
@@ -54,9 +66,20 @@ const MyPlaylist = () => {
   const location = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [selectedPlaylist, setSelectedPlaylist] = useState<any>(null);
   const [playlistToEdit, setPlaylistToEdit] = useState<any>(null);
+  const [isBundleCheckoutOpen, setIsBundleCheckoutOpen] = useState(false);
+  const [trackAttribution, setTrackAttribution] = useState<Map<string, PlaylistTrackAttribution>>(new Map());
+
+  // Playlist track IDs are SongNFT token IDs
+  const bundleTracks = useMemo(
+    () => (selectedPlaylist?.tracks || [])
+      .filter(track => Number(track.id) > 0)
+      .map(track => ({ tokenId: Number(track.id), title: track.title, artist: track.artist })),
+    [selectedPlaylist]
+  );
 
   // ✅ Use real playlist hook
   const {
@@ -67,9 +90,28 @@ const MyPlaylist = () => {
     deletePlaylist,
     addTrackToPlaylist,
     removeTrackFromPlaylist,
+    restorePlaylistVersion,
     refreshPlaylists
   } = usePlaylists();
 
+  // Who added each track - replayed from the playlist's edit log
+  useEffect(() => {
+    if (!selectedPlaylist?.id) {
+      setTrackAttribution(new Map());
+      return;
+    }
+
+    let cancelled = false;
+    playlistHistoryService.getTrackAttribution(selectedPlaylist.id, selectedPlaylist.owner)
+      .then(attribution => {
+        if (!cancelled) setTrackAttribution(attribution);
+      })
+      .catch(error => console.warn('⚠️ [MyPlaylist] Failed to load track attribution:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPlaylist?.id, selectedPlaylist?.owner]);
+
   useEffect(() => {
     const searchParams = new URLSearchParams(location.search);
     if (searchParams.get('create') === 'playlist') {
@@ -145,6 +187,7 @@ const MyPlaylist = () => {
       trackIds: p.trackIds,
       createdAt: new Date(p.timestamp).toLocaleDateString(),
       isPublic: p.isPublic,
+      smartRules: p.rules ? describeSmartRules(p.rules) : null,
       likes: p.likeCount || 0,
       plays: p.playCount || 0,
       trackCount: p.trackIds.length
@@ -221,7 +264,8 @@ const MyPlaylist = () => {
         playlistData.description,
         coverHash,
         playlistData.trackIds || [],
-        playlistData.isPublic
+        playlistData.isPublic,
+        playlistData.rules
       );
       
       if (result) {
@@ -254,6 +298,48 @@ const MyPlaylist = () => {
     }
   };
 
+  const handleImportPlaylist = async (playlistData: {
+    title: string;
+    description: string;
+    coverHash: string;
+    isPublic: boolean;
+    trackIds: string[];
+  }) => {
+    toast.info('Creating imported playlist on blockchain...');
+    const result = await createPlaylist(
+      playlistData.title,
+      playlistData.description,
+      playlistData.coverHash,
+      playlistData.trackIds,
+      playlistData.isPublic
+    );
+
+    if (result) {
+      setIsImportModalOpen(false);
+      await refreshPlaylists();
+      toast.success(`Imported ${playlistData.trackIds.length} tracks into "${playlistData.title}"`);
+    }
+  };
+
+  const handleExportPlaylist = async (playlistId: string, format: PlaylistExportFormat) => {
+    const playlist = realPlaylists.find(p => p.id === playlistId);
+    if (!playlist) return;
+
+    try {
+      const file = await playlistService.exportPlaylist(playlist, format);
+      const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+      toast.success(`Exported ${file.filename}`);
+    } catch (error) {
+      console.error('❌ [MyPlaylist] Failed to export playlist:', error);
+      toast.error('Failed to export playlist');
+    }
+  };
+
   const handleTogglePrivacy = async (playlistId: string, currentIsPublic: boolean) => {
     try {
       toast.info('Updating privacy on blockchain...');
@@ -346,6 +432,30 @@ const MyPlaylist = () => {
     }
   };
 
+  const handleRestoreVersion = async (playlistId: string, entry: PlaylistHistoryEntry) => {
+    if (!confirm(`Restore this playlist to the version from ${new Date(entry.timestamp).toLocaleString()}?`)) return false;
+
+    toast.info('Restoring playlist on blockchain...');
+    const success = await restorePlaylistVersion(playlistId, entry);
+    if (success) {
+      // ✅ Force refresh to load from blockchain
+      await refreshPlaylists();
+      // Close modal to show updated data
+      setSelectedPlaylist(null);
+    }
+    return success;
+  };
+
+  const canEditSelected = (() => {
+    const playlist = realPlaylists.find(p => p.id === selectedPlaylist?.id);
+    return !!(playlist && address && playlistService.canEdit(playlist, address));
+  })();
+
+  const formatContributor = (contributor: string) =>
+    address && contributor.toLowerCase() === address.toLowerCase()
+      ? 'you'
+      : `${contributor.slice(0, 6)}...${contributor.slice(-4)}`;
+
   // ✅ Calculate from real blockchain data
   const totalTracks = playlists.reduce((sum, playlist) => sum + (playlist.trackCount || 0), 0);
   const totalDuration = 0; // TODO: Calculate from actual track data when loaded
@@ -373,21 +483,33 @@ const MyPlaylist = () => {
                 {playlists.length} playlists • {totalTracks} tracks • {formatDuration(totalDuration)} total
               </p>
             </div>
-            <Dialog open={isCreateModalOpen} onOpenChange={setIsCreateModalOpen}>
-              <DialogTrigger asChild>
-                <Button className="gap-2">
-                  <Plus className="w-4 h-4" />
-                  Create Playlist
-                </Button>
-              </DialogTrigger>
-              <CreatePlaylistModal
-                isOpen={isCreateModalOpen}
-                onClose={() => setIsCreateModalOpen(false)}
-                onCreate={handleCreatePlaylist}
-              />
-            </Dialog>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" className="gap-2" onClick={() => setIsImportModalOpen(true)}>
+                <FileUp className="w-4 h-4" />
+                Import
+              </Button>
+              <Dialog open={isCreateModalOpen} onOpenChange={setIsCreateModalOpen}>
+                <DialogTrigger asChild>
+                  <Button className="gap-2">
+                    <Plus className="w-4 h-4" />
+                    Create Playlist
+                  </Button>
+                </DialogTrigger>
+                <CreatePlaylistModal
+                  isOpen={isCreateModalOpen}
+                  onClose={() => setIsCreateModalOpen(false)}
+                  onCreate={handleCreatePlaylist}
+                />
+              </Dialog>
+            </div>
           </div>
 
+          <ImportPlaylistModal
+            isOpen={isImportModalOpen}
+            onClose={() => setIsImportModalOpen(false)}
+            onImport={handleImportPlaylist}
+          />
+
           {/* Edit Playlist Modal */}
           {playlistToEdit && (
             <EditPlaylistModal
@@ -498,6 +620,19 @@ const MyPlaylist = () => {
                             )}
                           </DropdownMenuItem>
                           <DropdownMenuSeparator />
+                          {(Object.keys(PLAYLIST_FORMAT_INFO) as PlaylistExportFormat[]).map(format => (
+                            <DropdownMenuItem
+                              key={format}
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleExportPlaylist(playlist.id, format);
+                              }}
+                            >
+                              <Download className="w-4 h-4 mr-2" />
+                              Export {PLAYLIST_FORMAT_INFO[format].label}
+                            </DropdownMenuItem>
+                          ))}
+                          <DropdownMenuSeparator />
                           <DropdownMenuItem
                             onClick={(e) => {
                               e.stopPropagation();
@@ -533,9 +668,17 @@ const MyPlaylist = () => {
                           <span>{playlist.plays.toLocaleString()}</span>
                         </div>
                       </div>
-                      <Badge variant={playlist.isPublic ? "default" : "secondary"} className="text-xs">
-                        {playlist.isPublic ? "Public" : "Private"}
-                      </Badge>
+                      <div className="flex items-center gap-1">
+                        {playlist.smartRules && (
+                          <Badge variant="outline" className="text-xs gap-1" title={playlist.smartRules}>
+                            <Filter className="w-3 h-3" />
+                            Smart
+                          </Badge>
+                        )}
+                        <Badge variant={playlist.isPublic ? "default" : "secondary"} className="text-xs">
+                          {playlist.isPublic ? "Public" : "Private"}
+                        </Badge>
+                      </div>
                     </div>
                   </div>
                 </CardContent>
@@ -588,6 +731,12 @@ const MyPlaylist = () => {
                     {selectedPlaylist?.isPublic ? "Public" : "Private"}
                   </Badge>
                 </div>
+                {selectedPlaylist?.smartRules && (
+                  <p className="flex items-center gap-1 text-xs text-muted-foreground mt-2">
+                    <Filter className="w-3 h-3" />
+                    {selectedPlaylist.smartRules}
+                  </p>
+                )}
               </div>
               <div className="flex gap-2">
                 <Button size="sm" className="gap-2">
@@ -602,10 +751,27 @@ const MyPlaylist = () => {
                   <Share2 className="w-4 h-4" />
                   Share
                 </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => setIsBundleCheckoutOpen(true)}
+                  disabled={bundleTracks.length === 0}
+                >
+                  <ShoppingCart className="w-4 h-4" />
+                  Buy All
+                </Button>
               </div>
             </div>
           </DialogHeader>
 
+          <Tabs defaultValue="tracks">
+          <TabsList className="grid w-full grid-cols-2 max-w-xs">
+            <TabsTrigger value="tracks">Tracks</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="tracks">
           <div className="space-y-4 max-h-96 overflow-y-auto">
             {/* Add Track Button */}
             <div className="flex justify-end mb-2">
@@ -640,6 +806,12 @@ const MyPlaylist = () => {
                       <div className="flex-1 min-w-0">
                         <h4 className="font-medium truncate">{track.title}</h4>
                         <p className="text-sm text-muted-foreground truncate">{track.artist}</p>
+                        {trackAttribution.has(String(track.id)) && (
+                          <p className="text-xs text-muted-foreground truncate">
+                            Added by {formatContributor(trackAttribution.get(String(track.id))!.addedBy)} •{' '}
+                            {new Date(trackAttribution.get(String(track.id))!.addedAt).toLocaleDateString()}
+                          </p>
+                        )}
                       </div>
                     </div>
 
@@ -704,8 +876,33 @@ const MyPlaylist = () => {
               </div>
             )}
           </div>
+          </TabsContent>
+
+          {/* Change history */}
+          <TabsContent value="history">
+            <div className="max-h-96 overflow-y-auto pr-1">
+              {selectedPlaylist && (
+                <PlaylistHistoryTimeline
+                  playlistId={selectedPlaylist.id}
+                  owner={selectedPlaylist.owner}
+                  currentUser={address}
+                  canRestore={canEditSelected}
+                  onRestore={(entry) => handleRestoreVersion(selectedPlaylist.id, entry)}
+                />
+              )}
+            </div>
+          </TabsContent>
+          </Tabs>
         </DialogContent>
       </Dialog>
+
+      {/* Playlist Bundle Checkout */}
+      <BundleCheckoutModal
+        isOpen={isBundleCheckoutOpen}
+        onClose={() => setIsBundleCheckoutOpen(false)}
+        bundleTitle={selectedPlaylist?.title || 'Playlist'}
+        tracks={bundleTracks}
+      />
     </div>
   );
 };
@@ -223,6 +223,7 @@ const Notifications = () => {
       case "nft_minted": return "Your NFT was minted";
       case "nft_sold": return "Your NFT was sold";
       case "nft_bought": return "You bought an NFT";
+      case "nft_outbid": return "outbid you in an auction";
       case "music_generated": return "Your music is ready";
       case "music_milestone_plays": return "Your music reached a milestone";
       case "music_top_chart": return "Your music entered the charts";
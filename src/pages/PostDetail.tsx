@@ -26,11 +26,18 @@ import { somniaDatastreamServiceV3 } from "@/services/somniaDatastreamService.v3
 import { profileService } from "@/services/profileService";
 import { recordMusicPlay } from "@/utils/playCountHelper";
 import { SharePostModal } from "@/components/SharePostModal";
-import { SOMNIA_CONFIG_V3, InteractionType, TargetType, createCommentId, createInteractionId, ContentType } from "@/config/somniaDataStreams.v3";
+import CollectPostModal from "@/components/CollectPostModal";
+import { GatedPostPreview } from "@/components/feed/GatedPostPreview";
+import { useGatedAccess } from "@/hooks/useGatedAccess";
+import { captureReferral } from "@/utils/referral";
+import { formatEther } from "viem";
+import { SOMNIA_CONFIG_V3, InteractionType, TargetType, createCommentId, createInteractionId, ContentType, applyCollectLimit } from "@/config/somniaDataStreams.v3";
 import { privateKeyToAccount } from 'viem/accounts';
 import { toast } from "sonner";
 import { VerifiedBadge } from "@/components/VerifiedBadge";
 import { LiveIndicators } from "@/components/LiveIndicators";
+import SongAuctionPanel from "@/components/SongAuctionPanel";
+import MarketplaceAnalytics from "@/components/MarketplaceAnalytics";
 import {
   Heart,
   MessageCircle,
@@ -67,6 +74,13 @@ interface PostData {
   shares: number;
   isLiked?: boolean;
   isReposted?: boolean;
+  isGated?: boolean;
+  nftTokenId?: number;
+  collectModule?: string;
+  collectPrice?: string;
+  collectLimit?: number;
+  collectCount?: number;
+  isCollected?: boolean;
   quotedPost?: PostData;
   authorProfile?: {
     username: string;
@@ -105,6 +119,28 @@ const PostDetail = () => {
   const [isCommenting, setIsCommenting] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
   const likeButtonRef = React.useRef<HTMLButtonElement>(null);
+  const [showCollectModal, setShowCollectModal] = useState(false);
+
+  // Token-gated access (locked preview until ownership/collect is confirmed)
+  const gatedAccess = useGatedAccess(
+    post ? { author: post.author, isGated: post.isGated || false, nftTokenId: post.nftTokenId || 0 } : null,
+    post?.isCollected || false
+  );
+  const isContentLocked = gatedAccess.isGated && (gatedAccess.isChecking || gatedAccess.isLocked);
+  const collectablePost = React.useMemo(() => {
+    if (!post?.collectModule || post.collectModule === '0x0000000000000000000000000000000000000000') return null;
+    return {
+      id: Number(post.id),
+      author: post.author,
+      collectModule: post.collectModule,
+      collectPrice: post.collectPrice || '0',
+      collectLimit: post.collectLimit || 0,
+      collectCount: post.collectCount || 0,
+    };
+  }, [post?.id, post?.author, post?.collectModule, post?.collectPrice, post?.collectLimit, post?.collectCount]);
+  const isCollectable = Boolean(
+    collectablePost && !(collectablePost.collectLimit > 0 && collectablePost.collectCount >= collectablePost.collectLimit)
+  );
 
   // Helper to get IPFS URL
   const getIPFSUrl = (hash: string) => {
@@ -316,7 +352,7 @@ const PostDetail = () => {
           replyToId: 0,
           mentions: '',
           collectModule: '0x0000000000000000000000000000000000000000',
-          collectPrice: 0,
+          collectPrice: '0',
           collectLimit: 0,
           collectCount: 0,
           isGated: false,
@@ -444,7 +480,7 @@ const PostDetail = () => {
         replyToId: 0,
         mentions: '',
         collectModule: '0x0000000000000000000000000000000000000000',
-        collectPrice: 0,
+        collectPrice: '0',
         collectLimit: 0,
         collectCount: 0,
         isGated: false,
@@ -579,10 +615,14 @@ const PostDetail = () => {
         userLiked: false,
         userReposted: false,
         userBookmarked: false,
+        collects: 0,
+        userCollected: false,
         likedBy: [],
         repostedBy: [],
+        collectedBy: [],
         topComments: []
       };
+      const collectStats = applyCollectLimit(postStats, foundPost.collectLimit, smartAccountAddress);
 
       // Load author profile
       const authorProfile = await profileService.getProfile(foundPost.author);
@@ -614,6 +654,8 @@ const PostDetail = () => {
           likes: quotedStats.likes,
           comments: quotedStats.comments,
           shares: quotedStats.reposts,
+          isGated: enrichedPost.quotedPost.isGated || false,
+          nftTokenId: enrichedPost.quotedPost.nftTokenId || 0,
           authorProfile: {
             username: quotedAuthorProfile?.username || 'Unknown',
             displayName: quotedAuthorProfile?.displayName || 'Unknown User',
@@ -746,6 +788,13 @@ const PostDetail = () => {
         shares: postStats.reposts,
         isLiked: postStats.userLiked || false,
         isReposted: postStats.userReposted || false,
+        isGated: foundPost.isGated || false,
+        nftTokenId: foundPost.nftTokenId || 0,
+        collectModule: foundPost.collectModule,
+        collectPrice: foundPost.collectPrice || '0',
+        collectLimit: foundPost.collectLimit || 0,
+        collectCount: Math.max(foundPost.collectCount || 0, collectStats.collects),
+        isCollected: collectStats.userCollected,
         quotedPost: quotedPost,
         metadata: parsedMetadata,
         authorProfile: {
@@ -811,10 +860,14 @@ const PostDetail = () => {
         userLiked: false,
         userReposted: false,
         userBookmarked: false,
+        collects: 0,
+        userCollected: false,
         likedBy: [],
         repostedBy: [],
+        collectedBy: [],
         topComments: []
       };
+      const collectStats = applyCollectLimit(postStats, foundPost.collectLimit, smartAccountAddress);
 
       // Load author profile
       const authorProfile = await profileService.getProfile(foundPost.author);
@@ -846,6 +899,8 @@ const PostDetail = () => {
           likes: quotedStats.likes,
           comments: quotedStats.comments,
           shares: quotedStats.reposts,
+          isGated: enrichedPost.quotedPost.isGated || false,
+          nftTokenId: enrichedPost.quotedPost.nftTokenId || 0,
           authorProfile: {
             username: quotedAuthorProfile?.username || 'Unknown',
             displayName: quotedAuthorProfile?.displayName || 'Unknown User',
@@ -996,6 +1051,13 @@ const PostDetail = () => {
         shares: postStats.reposts,
         isLiked: postStats.userLiked || false,
         isReposted: postStats.userReposted || false,
+        isGated: foundPost.isGated || false,
+        nftTokenId: foundPost.nftTokenId || 0,
+        collectModule: foundPost.collectModule,
+        collectPrice: foundPost.collectPrice || '0',
+        collectLimit: foundPost.collectLimit || 0,
+        collectCount: Math.max(foundPost.collectCount || 0, collectStats.collects),
+        isCollected: collectStats.userCollected,
         quotedPost: quotedPost,
         metadata: parsedMetadata,
         authorProfile: {
@@ -1032,6 +1094,13 @@ const PostDetail = () => {
     }
   }, [postId, privateKeyAddress, smartAccountAddress, isAccountReady]);
 
+  // Remember who shared this post (?ref=) for referral rewards
+  useEffect(() => {
+    if (postId) {
+      captureReferral(postId);
+    }
+  }, [postId]);
+
   // Track view when post loads
   useEffect(() => {
     if (post && smartAccountAddress) {
@@ -1232,15 +1301,37 @@ const PostDetail = () => {
 
                   {/* Post Content */}
                   <div>
+                    {/* Locked preview for token-gated posts */}
+                    {isContentLocked && (
+                      <div className="mb-3">
+                        <GatedPostPreview
+                          rule={gatedAccess.rule}
+                          nftTokenId={post.nftTokenId}
+                          authorName={post.authorProfile?.displayName || post.author}
+                          isChecking={gatedAccess.isChecking}
+                          collectLabel={isCollectable
+                            ? (BigInt(post.collectPrice || 0) > 0n ? `${formatEther(BigInt(post.collectPrice))} STT` : 'free')
+                            : undefined}
+                          onCollect={() => {
+                            if (!smartAccountAddress) {
+                              toast.error("Please connect your wallet first");
+                              return;
+                            }
+                            setShowCollectModal(true);
+                          }}
+                        />
+                      </div>
+                    )}
+
                     {/* Show text content if available and not empty */}
-                    {post.content && post.content.trim() && (
+                    {!isContentLocked && post.content && post.content.trim() && (
                       <p className="whitespace-pre-wrap text-lg leading-relaxed mb-3">
                         {parseContentWithMentionsAndTags(post.content, navigate)}
                       </p>
                     )}
 
                     {/* Music Content - Same design as Marketplace */}
-                    {post.contentType === 'music' && post.metadata && (
+                    {!isContentLocked && post.contentType === 'music' && post.metadata && (
                       <Card className="mb-3 border-border/30 bg-muted/30">
                         <CardContent className="p-3">
                           <div className="flex items-center gap-3">
@@ -1469,8 +1560,26 @@ const PostDetail = () => {
                       </Card>
                     )}
 
+                    {/* Auction (minted songs only) */}
+                    {!isContentLocked && post.contentType === 'music' && Number(post.metadata?.tokenId) > 0 && (
+                      <SongAuctionPanel
+                        tokenId={Number(post.metadata.tokenId)}
+                        title={post.metadata.title || 'Untitled'}
+                      />
+                    )}
+
+                    {/* Trading analytics (minted songs only) */}
+                    {!isContentLocked && post.contentType === 'music' && Number(post.metadata?.tokenId) > 0 && (
+                      <div className="mb-3">
+                        <MarketplaceAnalytics
+                          songId={String(Number(post.metadata.tokenId))}
+                          artistId={post.author}
+                        />
+                      </div>
+                    )}
+
                     {/* Quoted Post (if this is a quote repost) */}
-                    {post.quotedPost && (
+                    {!isContentLocked && post.quotedPost && (
                       <div 
                         className="mt-4 border border-border/50 rounded-lg p-4 hover:bg-muted/30 transition-colors cursor-pointer"
                         onClick={(e) => {
@@ -1652,7 +1761,7 @@ const PostDetail = () => {
                     )}
 
                     {/* Image/Video Attachments - Only show here if NOT a quote post */}
-                    {!post.quotedPost && post.metadata?.attachments && post.metadata.attachments.length > 0 && (
+                    {!isContentLocked && !post.quotedPost && post.metadata?.attachments && post.metadata.attachments.length > 0 && (
                       <div className="space-y-3 mt-3">
                         {post.metadata.attachments.map((attachment: any, index: number) => {
                           let imageUrl = attachment.url || '';
@@ -1714,7 +1823,7 @@ const PostDetail = () => {
                     )}
                     
                     {/* Single Image/Video - Show if ipfsHash exists but no attachments array (exclude music posts) */}
-                    {!post.quotedPost && post.contentType !== 'music' && post.ipfsHash && (!post.metadata?.attachments || post.metadata.attachments.length === 0) && (
+                    {!isContentLocked && !post.quotedPost && post.contentType !== 'music' && post.ipfsHash && (!post.metadata?.attachments || post.metadata.attachments.length === 0) && (
                       <div className="mt-3">
                         {post.contentType === 'image' && (
                           <div className="relative rounded-2xl overflow-hidden border border-border/50">
@@ -1842,6 +1951,24 @@ const PostDetail = () => {
                         postAuthor={post.authorProfile?.displayName || post.author}
                       />
                     )}
+
+                    {/* Collect Modal */}
+                    {collectablePost && (
+                      <CollectPostModal
+                        isOpen={showCollectModal}
+                        onClose={() => setShowCollectModal(false)}
+                        post={collectablePost}
+                        authorName={post.authorProfile?.displayName || post.author}
+                        authorAvatar={post.authorProfile?.avatarHash ? getIPFSUrl(post.authorProfile.avatarHash) : undefined}
+                        onCollected={() => {
+                          setPost({
+                            ...post,
+                            isCollected: true,
+                            collectCount: (post.collectCount || 0) + 1
+                          });
+                        }}
+                      />
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -0,0 +1,349 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Input } from "@/components/ui/input";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Search as SearchIcon, Hash, User, Music, ListMusic, MessageSquare } from "lucide-react";
+import { toast } from "sonner";
+import Navbar from "@/components/Navbar";
+import { VerifiedBadge } from "@/components/VerifiedBadge";
+import { useAudio } from "@/contexts/AudioContext";
+import { profileService, type UserProfile } from "@/services/profileService";
+import { subgraphService, type SubgraphSong } from "@/services/subgraphService";
+import { playlistService, type Playlist } from "@/services/playlistService";
+import { somniaDatastreamServiceV3 } from "@/services/somniaDatastreamService.v3";
+import type { PostDataV3 } from "@/config/somniaDataStreams.v3";
+
+type SearchResult =
+  | { type: "hashtag"; key: string; tag: string; count: number }
+  | { type: "profile"; key: string; profile: UserProfile }
+  | { type: "song"; key: string; song: SubgraphSong }
+  | { type: "playlist"; key: string; playlist: Playlist }
+  | { type: "post"; key: string; post: PostDataV3 };
+
+type SearchResultType = SearchResult["type"];
+
+const GROUPS: Array<{ type: SearchResultType; label: string; icon: typeof Hash }> = [
+  { type: "hashtag", label: "Hashtags", icon: Hash },
+  { type: "profile", label: "People", icon: User },
+  { type: "song", label: "Songs", icon: Music },
+  { type: "playlist", label: "Playlists", icon: ListMusic },
+  { type: "post", label: "Posts", icon: MessageSquare },
+];
+
+const SEARCH_DEBOUNCE = 300; // ms
+
+const ipfsUrl = (hash?: string) => {
+  if (!hash) return undefined;
+  if (hash.startsWith("http")) return hash;
+  return `https://ipfs.io/ipfs/${hash.replace("ipfs://", "")}`;
+};
+
+const shortenAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const Search = () => {
+  const navigate = useNavigate();
+  const { playTrack } = useAudio();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") ?? "";
+  const [inputValue, setInputValue] = useState(query);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const itemRefs = useRef<Array<HTMLDivElement | null>>([]);
+
+  // Keep the input in sync when the query changes from outside (navbar, hashtag links)
+  useEffect(() => {
+    setInputValue(query);
+  }, [query]);
+
+  // Debounce typing into the URL so results are shareable
+  useEffect(() => {
+    if (inputValue === query) return;
+    const timeout = setTimeout(() => {
+      setSearchParams(inputValue.trim() ? { q: inputValue } : {}, { replace: true });
+    }, SEARCH_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [inputValue, query, setSearchParams]);
+
+  useEffect(() => {
+    const term = query.trim();
+    if (!term) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsSearching(true);
+
+    // #tag queries only search posts, everything else fans out to every source
+    const isTagQuery = term.startsWith("#");
+    const skip = <T,>() => Promise.resolve([] as T[]);
+
+    Promise.allSettled([
+      somniaDatastreamServiceV3.searchHashtags(term, 5),
+      isTagQuery ? skip<UserProfile>() : profileService.searchProfiles(term, 8),
+      isTagQuery ? skip<SubgraphSong>() : subgraphService.searchSongs(term, 8),
+      isTagQuery ? skip<Playlist>() : playlistService.searchPlaylists(term, 8),
+      somniaDatastreamServiceV3.searchPosts(term, 20),
+    ]).then(([hashtags, profiles, songs, playlists, posts]) => {
+      if (cancelled) return;
+
+      const valueOf = <T,>(result: PromiseSettledResult<T[]>, source: string): T[] => {
+        if (result.status === "fulfilled") return result.value;
+        console.warn(`⚠️ [Search] ${source} search failed:`, result.reason);
+        return [];
+      };
+
+      setResults([
+        ...valueOf(hashtags, "hashtag")
+          // Skip the tag we're already looking at
+          .filter(({ tag }) => `#${tag}` !== term.toLowerCase())
+          .map(({ tag, count }): SearchResult => ({ type: "hashtag", key: `tag-${tag}`, tag, count })),
+        ...valueOf(profiles, "profile").map((profile): SearchResult => ({
+          type: "profile",
+          key: `profile-${profile.userAddress}`,
+          profile,
+        })),
+        ...valueOf(songs, "song").map((song): SearchResult => ({ type: "song", key: `song-${song.id}`, song })),
+        ...valueOf(playlists, "playlist").map((playlist): SearchResult => ({
+          type: "playlist",
+          key: `playlist-${playlist.id}`,
+          playlist,
+        })),
+        ...valueOf(posts, "post").map((post): SearchResult => ({ type: "post", key: `post-${post.id}`, post })),
+      ]);
+      setActiveIndex(-1);
+      setIsSearching(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  useEffect(() => {
+    if (activeIndex >= 0) {
+      itemRefs.current[activeIndex]?.scrollIntoView({ block: "nearest" });
+    }
+  }, [activeIndex]);
+
+  const groupedResults = useMemo(
+    () =>
+      GROUPS.map((group) => ({
+        ...group,
+        items: results
+          .map((result, index) => ({ result, index }))
+          .filter(({ result }) => result.type === group.type),
+      })).filter((group) => group.items.length > 0),
+    [results]
+  );
+
+  const openResult = async (result: SearchResult) => {
+    switch (result.type) {
+      case "hashtag":
+        setSearchParams({ q: `#${result.tag}` });
+        break;
+      case "profile":
+        navigate(`/profile/${result.profile.username}`);
+        break;
+      case "song":
+        playTrack({
+          id: Number(result.song.tokenId),
+          title: result.song.title,
+          artist: result.song.artist?.displayName || result.song.artist?.username || "Unknown Artist",
+          avatar: ipfsUrl(result.song.artist?.avatarHash) || "",
+          cover: ipfsUrl(result.song.coverHash) || "",
+          genre: result.song.genre,
+          duration: result.song.duration,
+          audioUrl: ipfsUrl(result.song.audioHash),
+          likes: Number(result.song.likeCount) || 0,
+          plays: Number(result.song.playCount) || 0,
+        });
+        break;
+      case "playlist": {
+        // Playlists live on their owner's profile
+        const owner = await profileService.getProfile(result.playlist.owner);
+        if (owner?.username) {
+          navigate(`/profile/${owner.username}`);
+        } else {
+          toast.error("Playlist owner not found");
+        }
+        break;
+      }
+      case "post":
+        navigate(`/post/${result.post.id}`);
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (results.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % results.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? results.length - 1 : index - 1));
+    } else if (e.key === "Enter" && activeIndex >= 0) {
+      e.preventDefault();
+      void openResult(results[activeIndex]);
+    } else if (e.key === "Escape") {
+      setActiveIndex(-1);
+    }
+  };
+
+  const renderResult = (result: SearchResult) => {
+    switch (result.type) {
+      case "hashtag":
+        return (
+          <>
+            <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+              <Hash className="w-4 h-4 text-primary" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm">#{result.tag}</p>
+              <p className="text-xs text-muted-foreground">
+                {result.count} {result.count === 1 ? "post" : "posts"}
+              </p>
+            </div>
+          </>
+        );
+      case "profile":
+        return (
+          <>
+            <Avatar className="w-10 h-10">
+              <AvatarImage src={ipfsUrl(result.profile.avatarHash)} />
+              <AvatarFallback>{result.profile.displayName?.charAt(0)?.toUpperCase() || "U"}</AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm flex items-center gap-1 truncate">
+                {result.profile.displayName || result.profile.username}
+                {result.profile.isVerified && <VerifiedBadge size="sm" />}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">@{result.profile.username}</p>
+            </div>
+            {result.profile.isArtist && <Badge variant="secondary" className="text-xs">Artist</Badge>}
+          </>
+        );
+      case "song":
+        return (
+          <>
+            <img
+              src={ipfsUrl(result.song.coverHash)}
+              alt={result.song.title}
+              className="w-10 h-10 rounded-md object-cover bg-muted"
+            />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm truncate">{result.song.title}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {result.song.artist?.displayName || result.song.artist?.username} · {result.song.genre}
+              </p>
+            </div>
+            <span className="text-xs text-muted-foreground">{Number(result.song.playCount) || 0} plays</span>
+          </>
+        );
+      case "playlist":
+        return (
+          <>
+            <img
+              src={ipfsUrl(result.playlist.coverHash)}
+              alt={result.playlist.title}
+              className="w-10 h-10 rounded-md object-cover bg-muted"
+            />
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm truncate">{result.playlist.title}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {result.playlist.trackIds.length} tracks · by {shortenAddress(result.playlist.owner)}
+              </p>
+            </div>
+          </>
+        );
+      case "post":
+        return (
+          <>
+            <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center">
+              <MessageSquare className="w-4 h-4 text-muted-foreground" />
+            </div>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm line-clamp-2">{result.post.content}</p>
+              <p className="text-xs text-muted-foreground">
+                {shortenAddress(result.post.author)} · {new Date(result.post.timestamp).toLocaleDateString()}
+              </p>
+            </div>
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      {/* Main Content */}
+      <main className="page-main">
+        <div className="page-shell py-6 max-w-3xl">
+          <div className="relative mb-6">
+            <SearchIcon className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+            <Input
+              autoFocus
+              value={inputValue}
+              onChange={(e) => setInputValue(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Search people, songs, playlists, posts or #hashtags"
+              className="pl-10 h-12 rounded-full"
+              aria-label="Search"
+            />
+          </div>
+
+          {!query.trim() ? (
+            <p className="text-center text-muted-foreground py-12">
+              Search across people, songs, playlists and posts. Use ↑ ↓ and Enter to navigate results.
+            </p>
+          ) : isSearching ? (
+            <div className="space-y-3">
+              {Array.from({ length: 5 }).map((_, index) => (
+                <Skeleton key={index} className="h-14 w-full" />
+              ))}
+            </div>
+          ) : results.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">No results for "{query}"</p>
+          ) : (
+            <div className="space-y-6" role="listbox">
+              {groupedResults.map((group) => (
+                <section key={group.type}>
+                  <h2 className="flex items-center gap-2 text-sm font-semibold text-muted-foreground mb-2">
+                    <group.icon className="w-4 h-4" />
+                    {group.label}
+                    <span className="text-xs font-normal">({group.items.length})</span>
+                  </h2>
+                  <div className="space-y-1">
+                    {group.items.map(({ result, index }) => (
+                      <div
+                        key={result.key}
+                        ref={(el) => (itemRefs.current[index] = el)}
+                        role="option"
+                        aria-selected={index === activeIndex}
+                        onClick={() => void openResult(result)}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        className={`flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-colors ${
+                          index === activeIndex ? "bg-primary/10" : "hover:bg-muted/50"
+                        }`}
+                      >
+                        {renderResult(result)}
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Search;
@@ -33,6 +33,7 @@ import { CONTRACT_ADDRESSES } from "@/lib/web3-config";
 import { subgraphService } from "@/services/subgraphService";
 import ArtistUpgradeModal from "@/components/ArtistUpgradeModal";
 import VerificationRenewalCard from "@/components/VerificationRenewalCard";
+import PlaybackSettingsCard from "@/components/PlaybackSettingsCard";
 
 const Settings = () => {
   const { updateProfile, updateSocialLinks, updateMusicPreferences, profileExists, isAccountReady, smartAccountAddress, getProfile } = useSequence();
@@ -851,6 +852,9 @@ const Settings = () => {
                   </div>
                 </div>
 
+                {/* Playback */}
+                <PlaybackSettingsCard />
+
                 {/* Account Information */}
                 <div className="bg-card border rounded-2xl p-6 shadow-sm">
                   <div className="flex items-center gap-3 mb-6">
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft, Hash } from "lucide-react";
+import { toast } from "sonner";
+import Navbar from "@/components/Navbar";
+import PostCard from "@/components/feed/PostCard";
+import { useSequence } from "@/contexts/SequenceContext";
+import { somniaDatastreamServiceV3 } from "@/services/somniaDatastreamService.v3";
+import { profileService } from "@/services/profileService";
+import {
+  InteractionType,
+  TargetType,
+  aggregateInteractions,
+  countQuotes,
+  createInteractionId,
+  mergePostsWithStats,
+} from "@/config/somniaDataStreams.v3";
+
+const Tag = () => {
+  const { name = "" } = useParams<{ name: string }>();
+  const navigate = useNavigate();
+  const { smartAccountAddress } = useSequence();
+  const tag = decodeURIComponent(name).replace(/^#/, "").toLowerCase();
+
+  const [posts, setPosts] = useState<any[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchTaggedPosts = async () => {
+      setIsLoading(true);
+      try {
+        console.log('#️⃣ [Tag] Fetching posts for tag:', tag);
+
+        const [taggedPosts, allPosts, allInteractions] = await Promise.all([
+          somniaDatastreamServiceV3.getPostsByHashtag(tag),
+          somniaDatastreamServiceV3.getAllPosts(),
+          somniaDatastreamServiceV3.getAllInteractions(),
+        ]);
+
+        // Merge with stats
+        const statsMap = aggregateInteractions(allInteractions, smartAccountAddress || undefined);
+        const postsWithStats = mergePostsWithStats(taggedPosts, statsMap, countQuotes(allPosts), smartAccountAddress || undefined);
+
+        // Load author profiles for all posts
+        const authorAddresses = [...new Set(postsWithStats.map(p => p.author))];
+        const profiles = await profileService.getMultipleProfiles(authorAddresses);
+        const profilesMap = new Map(
+          profiles.filter(p => p !== null).map(p => [p!.userAddress.toLowerCase(), p])
+        );
+
+        // Transform to PostCard format
+        const transformedPosts = postsWithStats.map(post => {
+          const authorProfile = profilesMap.get(post.author.toLowerCase());
+
+          let musicMetadata = null;
+          if (post.contentType === 3 && post.mediaHashes) {
+            try {
+              musicMetadata = JSON.parse(post.mediaHashes);
+            } catch (e) {
+              console.error('❌ [Tag] Failed to parse music metadata:', e);
+            }
+          }
+
+          const mediaHashes = post.contentType !== 3 && post.mediaHashes
+            ? post.mediaHashes.split(',').filter((h: string) => h.trim())
+            : [];
+          const attachments = mediaHashes.map((hash: string) => {
+            const isVideo = post.contentType === 2 || hash.toLowerCase().includes('.mp4') || hash.toLowerCase().includes('.webm');
+            return {
+              type: isVideo ? 'video' : 'image',
+              ipfsHash: hash.trim()
+            };
+          });
+
+          return {
+            id: post.id.toString(),
+            author: post.author,
+            content: post.content,
+            contentType: post.contentType === 3 ? 'music' as const : 'text' as const,
+            timestamp: post.timestamp,
+            likes: post.likes || 0,
+            comments: post.comments || 0,
+            shares: post.reposts || 0,
+            isLiked: post.isLiked || false,
+            isReposted: post.isReposted || false,
+            isGated: post.isGated || false,
+            nftTokenId: post.nftTokenId || 0,
+            ...(musicMetadata && {
+              metadata: musicMetadata
+            }),
+            attachments,
+            authorProfile: {
+              username: authorProfile?.username || post.author.slice(0, 8),
+              displayName: authorProfile?.displayName || post.author.slice(0, 8),
+              avatarHash: authorProfile?.avatarHash || '',
+              isVerified: authorProfile?.isVerified || false,
+              isArtist: authorProfile?.isArtist || false
+            }
+          };
+        });
+
+        if (!cancelled) setPosts(transformedPosts);
+      } catch (error) {
+        console.error('❌ [Tag] Error fetching tagged posts:', error);
+        if (!cancelled) toast.error('Failed to load posts');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    if (tag) {
+      fetchTaggedPosts();
+    } else {
+      setPosts([]);
+      setIsLoading(false);
+    }
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tag, smartAccountAddress]);
+
+  const toggleLiked = (postId: string) => {
+    setPosts(prev => prev.map(p =>
+      p.id === postId
+        ? { ...p, isLiked: !p.isLiked, likes: p.isLiked ? Math.max(0, p.likes - 1) : p.likes + 1 }
+        : p
+    ));
+  };
+
+  const handleLike = async (post: any) => {
+    if (!smartAccountAddress) {
+      toast.error('Please connect your wallet to like posts');
+      return;
+    }
+
+    // Optimistic update
+    const wasLiked = post.isLiked;
+    toggleLiked(post.id);
+
+    try {
+      const postIdNum = Number(post.id);
+      const interactionType = wasLiked ? InteractionType.UNLIKE : InteractionType.LIKE;
+      const timestamp = Date.now();
+
+      await somniaDatastreamServiceV3.createInteraction({
+        id: createInteractionId(interactionType, smartAccountAddress, timestamp, postIdNum),
+        interactionType,
+        targetId: postIdNum,
+        targetType: TargetType.POST,
+        fromUser: smartAccountAddress,
+        content: '',
+        parentId: 0,
+        timestamp,
+        tipAmount: 0,
+      }, true);
+
+      toast.success(!wasLiked ? 'Post liked! ❤️' : 'Like removed');
+    } catch (error) {
+      console.error('Failed to toggle like:', error);
+      toggleLiked(post.id);
+      toast.error('Failed to update like');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar />
+
+      {/* Main Content */}
+      <main className="page-main">
+        <div className="page-shell py-6 max-w-3xl">
+          <div className="flex items-center gap-3 mb-6">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)} aria-label="Back">
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div>
+              <h1 className="font-clash font-semibold text-2xl flex items-center gap-1">
+                <Hash className="w-6 h-6 text-primary" />
+                {tag}
+              </h1>
+              {!isLoading && (
+                <p className="text-sm text-muted-foreground">
+                  {posts.length} {posts.length === 1 ? 'post' : 'posts'}
+                </p>
+              )}
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="divide-y divide-border">
+              {[1, 2, 3].map((i) => (
+                <div key={i} className="p-4 space-y-3">
+                  <div className="flex gap-3">
+                    <Skeleton className="w-12 h-12 rounded-full" />
+                    <div className="flex-1 space-y-2">
+                      <Skeleton className="h-4 w-32" />
+                      <Skeleton className="h-4 w-full" />
+                      <Skeleton className="h-4 w-3/4" />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : posts.length > 0 ? (
+            <div className="space-y-4">
+              {posts.map((post) => (
+                <PostCard
+                  key={post.id}
+                  post={post}
+                  currentUserAddress={smartAccountAddress || undefined}
+                  onLike={() => handleLike(post)}
+                  onViewDetails={(postId) => navigate(`/post/${postId}`)}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-16 text-muted-foreground">
+              <Hash className="w-16 h-16 mx-auto mb-4 opacity-20" />
+              <p className="text-xl font-semibold mb-2">No posts yet</p>
+              <p className="text-sm">Be the first to post with #{tag}</p>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Tag;
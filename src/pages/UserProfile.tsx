@@ -71,6 +71,7 @@ const UserProfile = () => {
   const [profileData, setProfileData] = useState<UserProfileData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isFollowing, setIsFollowing] = useState(false);
+  const [followedBy, setFollowedBy] = useState<{ names: string[]; total: number }>({ names: [], total: 0 });
   const [activeTab, setActiveTab] = useState("posts");
   const [userPosts, setUserPosts] = useState<any[]>([]);
   const [userMedia, setUserMedia] = useState<any[]>([]);
@@ -268,6 +269,7 @@ const UserProfile = () => {
         setNftCount(totalNFTs);
 
         // ✅ Check if current user follows this profile (DataStream V3)
+        setFollowedBy({ names: [], total: 0 });
         if (smartAccountAddress && userAddress) {
           try {
             const { somniaDatastreamServiceV3 } = await import('@/services/somniaDatastreamService.v3');
@@ -275,6 +277,19 @@ const UserProfile = () => {
             
             setIsFollowing(isUserFollowing);
             console.log('✅ [V3] Follow status:', isUserFollowing);
+
+            // "Followed by people you follow"
+            const followedByAddresses = smartAccountAddress.toLowerCase() === userAddress.toLowerCase()
+              ? []
+              : await somniaDatastreamServiceV3.getFollowedByFollowing(smartAccountAddress, userAddress);
+            const { profileService } = await import('@/services/profileService');
+            const followedByProfiles = await profileService.getMultipleProfiles(followedByAddresses.slice(0, 2));
+            setFollowedBy({
+              names: followedByProfiles.map((profile, index) =>
+                profile?.displayName || profile?.username || `${followedByAddresses[index].slice(0, 6)}...${followedByAddresses[index].slice(-4)}`
+              ),
+              total: followedByAddresses.length,
+            });
           } catch (error) {
             console.error('Error checking follow status from DataStream:', error);
           }
@@ -291,6 +306,34 @@ const UserProfile = () => {
     fetchProfile();
   }, [username, publicClient, smartAccountAddress, navigate]);
 
+  // Keep follower/following counts and follow state live while the profile is open
+  const profileAddress = profileData?.userAddress?.toLowerCase();
+  useEffect(() => {
+    if (!profileAddress) return;
+
+    const viewer = smartAccountAddress?.toLowerCase();
+    const unsubscribe = somniaDatastreamServiceV3.subscribeToFollowGraph((change) => {
+      if (change.follower !== profileAddress && change.target !== profileAddress) return;
+
+      Promise.all([
+        somniaDatastreamServiceV3.getFollowerCount(profileAddress),
+        somniaDatastreamServiceV3.getFollowingCount(profileAddress),
+      ])
+        .then(([followerCount, followingCount]) => {
+          setProfileData(prev => prev && prev.userAddress.toLowerCase() === profileAddress
+            ? { ...prev, followerCount, followingCount }
+            : prev);
+        })
+        .catch(error => console.warn('⚠️ Failed to refresh follow counts:', error));
+
+      if (viewer && change.follower === viewer && change.target === profileAddress) {
+        setIsFollowing(change.following);
+      }
+    });
+
+    return unsubscribe;
+  }, [profileAddress, smartAccountAddress]);
+
   // Fetch user posts from DataStream V3
   useEffect(() => {
     const fetchPosts = async () => {
@@ -360,7 +403,7 @@ const UserProfile = () => {
         console.log(`📊 [V3] Found ${userOwnPosts.length} own posts (including quotes) + ${userRepostedPosts.length} simple reposts = ${combinedPosts.length} total`);
         
         // Merge with stats
-        const postsWithStats = mergePostsWithStats(combinedPosts, statsMap, quoteCounts);
+        const postsWithStats = mergePostsWithStats(combinedPosts, statsMap, quoteCounts, smartAccountAddress || undefined);
         
         // Load author profiles for all posts
         const authorAddresses = [...new Set(postsWithStats.map((p: any) => p.author))];
@@ -551,7 +594,7 @@ const UserProfile = () => {
         const quoteCounts = countQuotes(allPosts);
         
         // Merge with stats
-        const postsWithStats = mergePostsWithStats(likedPostsData, statsMap, quoteCounts);
+        const postsWithStats = mergePostsWithStats(likedPostsData, statsMap, quoteCounts, smartAccountAddress || undefined);
         
         // Load author profiles
         const authorAddresses = [...new Set(postsWithStats.map(p => p.author))];
@@ -655,7 +698,7 @@ const UserProfile = () => {
         const quoteCounts = countQuotes(allPosts);
         
         // Merge with stats
-        const postsWithStats = mergePostsWithStats(repostedPostsData, statsMap, quoteCounts);
+        const postsWithStats = mergePostsWithStats(repostedPostsData, statsMap, quoteCounts, smartAccountAddress || undefined);
         
         // Load author profiles
         const authorAddresses = [...new Set(postsWithStats.map(p => p.author))];
@@ -852,7 +895,7 @@ const UserProfile = () => {
         const quoteCounts = countQuotes(allPosts);
         
         // Merge with stats
-        const postsWithStats = mergePostsWithStats(userRepliesData, statsMap, quoteCounts);
+        const postsWithStats = mergePostsWithStats(userRepliesData, statsMap, quoteCounts, smartAccountAddress || undefined);
         
         // Load author profiles
         const authorAddresses = [...new Set(postsWithStats.map(p => p.author))];
@@ -1133,7 +1176,7 @@ const UserProfile = () => {
           replyToId: 0,
           mentions: '',
           collectModule: '0x0000000000000000000000000000000000000000',
-          collectPrice: 0,
+          collectPrice: '0',
           collectLimit: 0,
           collectCount: 0,
           isGated: false,
@@ -1332,6 +1375,12 @@ const UserProfile = () => {
                   <p className="text-muted-foreground">Posts</p>
                 </div>
               </div>
+              {followedBy.total > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Followed by {followedBy.names.join(', ')}
+                  {followedBy.total > followedBy.names.length && ` and ${followedBy.total - followedBy.names.length} others you follow`}
+                </p>
+              )}
 
               {/* Bio */}
               <div className="space-y-2">
@@ -1395,7 +1444,18 @@ const UserProfile = () => {
                         isFollowing ? 'Following' : 'Follow'
                       )}
                     </Button>
-                    <Button variant="outline" size="sm" className="gap-2 border-border/50 hover:bg-muted/50">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="gap-2 border-border/50 hover:bg-muted/50"
+                      onClick={() => {
+                        if (!smartAccountAddress) {
+                          toast.error('Please connect your wallet first');
+                          return;
+                        }
+                        navigate(`/messages/${profileData.userAddress}`);
+                      }}
+                    >
                       <MessageCircle className="w-4 h-4" />
                       Message
                     </Button>
@@ -2,17 +2,18 @@
 // Handles all BXP transactions, rewards, and profile management
 
 import { somniaDatastreamServiceV3 } from './somniaDatastreamService.v3';
+import { xpRulesService } from './xpRulesService';
+import { subgraphService } from './subgraphService';
 import {
-  BXP_REWARDS,
-  BXP_MULTIPLIERS,
-  DAILY_XP_CAP,
-  WEEKLY_XP_CAP,
   calculateLevel,
   calculateFinalXP,
+  calculateMultiplier,
+  getMatchingConditions,
   type BXPRewardType,
   type BXPMultiplierType,
   type BXPTransaction,
   type UserBXPProfile,
+  type XPRuleSet,
 } from '@/config/bxpRewards';
 import { BXP_SCHEMA_IDS } from '@/config/somniaDataStreams.bxp';
 
@@ -28,8 +29,28 @@ class BXPService {
   private readonly BATCH_DELAY = 2000; // 2 seconds
   private readonly MAX_BATCH_SIZE = 10;
 
+  // Rule set version -> rule set, for pricing base amounts when a batch is written
+  private ruleSetsByVersion: Map<number, XPRuleSet> = new Map();
+
+  /**
+   * Genre for genre-conditioned rules - from metadata, else looked up by songId
+   */
+  private async resolveGenre(ruleSet: XPRuleSet, metadata?: Record<string, any>): Promise<string | undefined> {
+    if (metadata?.genre) return String(metadata.genre);
+    if (!metadata?.songId || !ruleSet.conditions.some(condition => condition.genre)) return undefined;
+
+    try {
+      const song = await subgraphService.getSongById(String(metadata.songId));
+      return song?.genre || undefined;
+    } catch (error) {
+      console.warn('[BXP] Could not resolve song genre:', error);
+      return undefined;
+    }
+  }
+
   /**
    * Award XP to a user
+   * ✅ Priced with the XP rule set in effect now (falls back to the BXP_REWARDS defaults)
    */
   async awardXP(
     userAddress: string,
@@ -42,37 +63,49 @@ class BXPService {
         return { success: false, xpAwarded: 0, newTotal: 0 };
       }
 
+      const now = Date.now();
+      const ruleSet = await xpRulesService.getActiveRuleSet(now);
+      this.ruleSetsByVersion.set(ruleSet.version, ruleSet);
+
       // Get base XP amount
-      const baseXP = BXP_REWARDS[rewardType];
+      const baseXP = ruleSet.rewards[rewardType] ?? 0;
       
       // Get user profile to check multipliers and caps
       const profile = await this.getUserProfile(userAddress);
       
       // Check daily cap
-      if (profile.dailyXP >= DAILY_XP_CAP) {
+      if (profile.dailyXP >= ruleSet.dailyCap) {
         console.warn('[BXP] Daily XP cap reached');
         return { success: false, xpAwarded: 0, newTotal: profile.totalXP };
       }
 
       // Check weekly cap
-      if (profile.weeklyXP >= WEEKLY_XP_CAP) {
+      if (profile.weeklyXP >= ruleSet.weeklyCap) {
         console.warn('[BXP] Weekly XP cap reached');
         return { success: false, xpAwarded: 0, newTotal: profile.totalXP };
       }
 
+      // Conditional rules (e.g. double XP on a genre this weekend)
+      const genre = await this.resolveGenre(ruleSet, metadata);
+      const conditions = getMatchingConditions(ruleSet, rewardType, { genre, timestamp: now });
+      const conditionMultiplier = conditions.reduce((acc, condition) => acc * (condition.multiplier ?? 1), 1);
+      const bonusXP = conditions.reduce((acc, condition) => acc + (condition.bonusXP ?? 0), 0);
+
       // Calculate final XP with multipliers
-      const finalXP = calculateFinalXP(baseXP, profile.multipliers);
+      const finalXP = Math.floor(calculateFinalXP(baseXP, profile.multipliers, ruleSet) * conditionMultiplier) + bonusXP;
       
       // Create transaction
       const transaction: BXPTransaction = {
-        id: `${userAddress}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        id: `${userAddress}-${now}-${Math.random().toString(36).substr(2, 9)}`,
         userAddress,
         amount: finalXP,
         type: rewardType,
-        multiplier: profile.multipliers.length > 0 ? 
-          profile.multipliers.reduce((acc, m) => acc * BXP_MULTIPLIERS[m], 1) : 1,
-        timestamp: Date.now(),
-        metadata,
+        multiplier: calculateMultiplier(profile.multipliers, ruleSet) * conditionMultiplier,
+        ruleSetVersion: ruleSet.version,
+        timestamp: now,
+        metadata: conditions.length > 0
+          ? { ...metadata, ...(genre && { genre }), appliedRules: conditions.map(condition => condition.id) }
+          : metadata,
       };
 
       // Add to batch queue
@@ -93,7 +126,7 @@ class BXPService {
         weeklyXP: profile.weeklyXP + finalXP,
       });
 
-      console.log(`✅ [BXP] Awarded ${finalXP} XP to ${userAddress.slice(0, 6)}... for ${rewardType}`);
+      console.log(`✅ [BXP] Awarded ${finalXP} XP to ${userAddress.slice(0, 6)}... for ${rewardType} (rules v${ruleSet.version})`);
 
       // Update quest progress (if quest service is available)
       if (questServiceInstance) {
@@ -134,22 +167,19 @@ class BXPService {
     this.batchQueue = [];
 
     try {
-      // Write to Somnia DataStream
+      // Write to Somnia DataStream - ruleSetVersion is stored with every transaction
       for (const transaction of batch) {
-        const data = {
+        await somniaDatastreamServiceV3.saveBXPTransaction({
           id: transaction.id,
           userAddress: transaction.userAddress,
           amount: transaction.amount,
-          baseAmount: BXP_REWARDS[transaction.type],
+          baseAmount: this.ruleSetsByVersion.get(transaction.ruleSetVersion)?.rewards[transaction.type] ?? 0,
           type: transaction.type,
           multiplier: transaction.multiplier,
+          ruleSetVersion: transaction.ruleSetVersion,
           timestamp: transaction.timestamp,
           metadata: JSON.stringify(transaction.metadata || {}),
-          dailyTotal: 0, // Will be calculated
-          weeklyTotal: 0, // Will be calculated
-        };
-
-        await somniaDatastreamServiceV3.writeData(BXP_SCHEMA_IDS.BXP_TRANSACTIONS, data);
+        });
       }
 
       console.log(`✅ [BXP] Processed batch of ${batch.length} transactions`);
@@ -267,18 +297,15 @@ class BXPService {
     limit: number = 50
   ): Promise<BXPTransaction[]> {
     try {
-      const transactions = await somniaDatastreamServiceV3.queryData(
-        BXP_SCHEMA_IDS.BXP_TRANSACTIONS,
-        { userAddress },
-        limit
-      );
+      const transactions = await somniaDatastreamServiceV3.getBXPTransactions(userAddress, limit);
 
-      return transactions.map((tx: any) => ({
+      return transactions.map(tx => ({
         id: tx.id,
         userAddress: tx.userAddress,
         amount: tx.amount,
         type: tx.type as BXPRewardType,
         multiplier: tx.multiplier,
+        ruleSetVersion: tx.ruleSetVersion,
         timestamp: tx.timestamp,
         metadata: JSON.parse(tx.metadata || '{}'),
       }));
@@ -0,0 +1,302 @@
+/**
+ * DM Encryption Service
+ *
+ * Kelola keypair enkripsi DM per wallet
+ * - Keypair diturunkan dari satu signature (versi N), private key hanya disimpan di memori (per sesi)
+ * - Public key + versi dipublish ke profiles datastream, ditandatangani wallet pemiliknya
+ * - Key yang signature-nya tidak valid untuk address pemilik diabaikan (dicek on-chain, smart wallet ERC-1271/6492 ikut didukung)
+ *
+ * Key rotation:
+ * 1. rotateKey() sign pesan versi N+1, simpan key baru, publish public key baru
+ * 2. Pesan baru dienkripsi ke key terbaru, pesan lama tetap menyimpan versi key-nya (kv)
+ * 3. Pesan lama dibuka dengan key versi lama - dari memori sesi ini,
+ *    atau restoreKey(version) (sign ulang pesan versi tersebut)
+ * 4. Kalau key hasil sign ulang tidak cocok dengan yang dipublish (signature wallet tidak deterministik),
+ *    unlock() gagal dan user sendiri yang memilih rotateKey()
+ *
+ * Record DM ditulis server wallet, jadi sender dibuktikan lewat proof:
+ * signature DM key pengirim + signature wallet yang mempublish key itu (signRecord / verifyRecord)
+ */
+
+import { createPublicClient, http } from 'viem';
+import { somniaTestnet } from '@/lib/web3-config';
+import { somniaDatastreamServiceV3 } from '@/services/somniaDatastreamService.v3';
+import { profileService } from '@/services/profileService';
+import type { DirectMessageData, UnsignedDirectMessage } from '@/config/somniaDataStreams.v3';
+import {
+  decryptForParticipant,
+  deriveKeyPair,
+  encryptForParticipants,
+  getEnvelopeKeyVersion,
+  getKeyDerivationMessage,
+  getKeyPublicationMessage,
+  isEncryptedContent,
+  recoverDirectMessageKey,
+  signDirectMessage,
+  verifyKeyPublication,
+  type DmKeyPair,
+} from '@/utils/dmCrypto';
+
+export type DmSigner = (message: string) => Promise<string>;
+
+interface PublishedKey {
+  publicKey: string;
+  version: number;
+  signature: string; // wallet signature that published the key
+}
+
+const PUBLISHED_KEY_TTL = 60000; // 1 minute
+const LEGACY_STORAGE_KEY = 'hibeats_dm_keys'; // plaintext keys from older builds
+
+class DmEncryptionService {
+  private publicClient = createPublicClient({
+    chain: somniaTestnet,
+    transport: http(import.meta.env.VITE_SOMNIA_RPC_URL || 'https://dream-rpc.somnia.network'),
+  });
+  private publishedKeys: Map<string, { key: PublishedKey | null; timestamp: number }> = new Map();
+  // Key publications checked on-chain - valid ones never change, rejected ones are re-checked after the TTL
+  private keyAuthorizations: Map<string, { verified: boolean; timestamp: number }> = new Map();
+  // Private keys never touch storage - a reload needs one signature to unlock again
+  private keyPairs: Map<string, Record<number, DmKeyPair>> = new Map();
+
+  constructor() {
+    try {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } catch {
+      // Storage unavailable - nothing to clean up
+    }
+  }
+
+  // ===== SESSION KEY STORAGE =====
+
+  private saveKeyPair(address: string, keyPair: DmKeyPair): void {
+    const owner = address.toLowerCase();
+    this.keyPairs.set(owner, { ...(this.keyPairs.get(owner) || {}), [keyPair.version]: keyPair });
+  }
+
+  private getLocalKeyPair(address: string, version?: number): DmKeyPair | null {
+    const keys = this.keyPairs.get(address.toLowerCase());
+    if (!keys) return null;
+
+    if (version !== undefined) {
+      return keys[version] || null;
+    }
+
+    const versions = Object.keys(keys).map(Number);
+    return versions.length > 0 ? keys[Math.max(...versions)] : null;
+  }
+
+  /**
+   * Whether this session can send encrypted messages for the wallet
+   */
+  hasKey(address: string): boolean {
+    return this.getLocalKeyPair(address) !== null;
+  }
+
+  // ===== PUBLISHED KEYS =====
+
+  /**
+   * Public key the wallet has signed for itself (unsigned or forged keys count as not set up)
+   */
+  async getPublishedKey(address: string, skipCache: boolean = false): Promise<PublishedKey | null> {
+    const owner = address.toLowerCase();
+    const cached = this.publishedKeys.get(owner);
+    if (!skipCache && cached && Date.now() - cached.timestamp < PUBLISHED_KEY_TTL) {
+      return cached.key;
+    }
+
+    const profile = await somniaDatastreamServiceV3.getProfileData(owner, skipCache);
+    let key: PublishedKey | null = null;
+
+    if (profile?.encryptionKey) {
+      const { encryptionKey, encryptionKeyVersion, encryptionKeySignature } = profile;
+      if (await this.isKeyAuthorized(owner, encryptionKey, encryptionKeyVersion, encryptionKeySignature)) {
+        key = { publicKey: encryptionKey, version: encryptionKeyVersion, signature: encryptionKeySignature };
+      } else {
+        console.warn('⚠️ [DM-KEYS] Ignoring encryption key with invalid signature for', owner);
+      }
+    }
+
+    this.publishedKeys.set(owner, { key, timestamp: Date.now() });
+    return key;
+  }
+
+  /**
+   * Whether the wallet signed the publication of a key (cached - each check is an eth_call)
+   */
+  private async isKeyAuthorized(address: string, publicKey: string, version: number, signature: string): Promise<boolean> {
+    const cacheKey = `${address.toLowerCase()}:${publicKey}:${version}:${signature}`;
+    const cached = this.keyAuthorizations.get(cacheKey);
+    if (cached && (cached.verified || Date.now() - cached.timestamp < PUBLISHED_KEY_TTL)) {
+      return cached.verified;
+    }
+
+    const verified = await verifyKeyPublication(this.publicClient, address, publicKey, version, signature);
+    this.keyAuthorizations.set(cacheKey, { verified, timestamp: Date.now() });
+    return verified;
+  }
+
+  private async publishKey(address: string, keyPair: DmKeyPair, sign: DmSigner): Promise<void> {
+    const signature = await sign(getKeyPublicationMessage(address, keyPair.publicKey, keyPair.version));
+
+    const [existing, profile] = await Promise.all([
+      somniaDatastreamServiceV3.getProfileData(address, true),
+      profileService.getProfile(address),
+    ]);
+
+    await somniaDatastreamServiceV3.saveProfileData({
+      ...existing,
+      userAddress: address,
+      username: profile?.username ?? existing?.username,
+      displayName: profile?.displayName ?? existing?.displayName,
+      bio: profile?.bio ?? existing?.bio,
+      avatarHash: profile?.avatarHash ?? existing?.avatarHash,
+      isVerified: profile?.isVerified ?? existing?.isVerified,
+      isArtist: profile?.isArtist ?? existing?.isArtist,
+      encryptionKey: keyPair.publicKey,
+      encryptionKeyVersion: keyPair.version,
+      encryptionKeySignature: signature,
+    });
+
+    this.publishedKeys.set(address.toLowerCase(), {
+      key: { publicKey: keyPair.publicKey, version: keyPair.version, signature },
+      timestamp: Date.now(),
+    });
+    console.log('🔐 [DM-KEYS] Published encryption key v' + keyPair.version);
+  }
+
+  private async deriveVersion(address: string, version: number, sign: DmSigner): Promise<DmKeyPair> {
+    const signature = await sign(getKeyDerivationMessage(address, version));
+    return deriveKeyPair(signature, version);
+  }
+
+  // ===== UNLOCK & ROTATION =====
+
+  /**
+   * Make sure this session has the wallet's current key (one signature, then kept in memory)
+   */
+  async unlock(address: string, sign: DmSigner): Promise<DmKeyPair> {
+    const published = await this.getPublishedKey(address, true);
+
+    if (!published) {
+      const keyPair = await this.deriveVersion(address, 1, sign);
+      this.saveKeyPair(address, keyPair);
+      await this.publishKey(address, keyPair, sign);
+      return keyPair;
+    }
+
+    const local = this.getLocalKeyPair(address, published.version);
+    if (local && local.publicKey === published.publicKey) {
+      return local;
+    }
+
+    const keyPair = await this.deriveVersion(address, published.version, sign);
+    if (keyPair.publicKey === published.publicKey) {
+      this.saveKeyPair(address, keyPair);
+      return keyPair;
+    }
+
+    // Rotating would cut off messages sent to the published key - leave that choice to the user
+    console.warn('⚠️ [DM-KEYS] Re-derived key does not match published key v' + published.version);
+    throw new Error(
+      `This wallet can't reproduce encryption key v${published.version}. Rotate your encryption key to keep messaging.`
+    );
+  }
+
+  /**
+   * Rotate to a new key version. Old messages keep using their own key version.
+   */
+  async rotateKey(address: string, sign: DmSigner): Promise<DmKeyPair> {
+    const published = await this.getPublishedKey(address, true);
+    const local = this.getLocalKeyPair(address);
+    const nextVersion = Math.max(published?.version || 0, local?.version || 0) + 1;
+
+    const keyPair = await this.deriveVersion(address, nextVersion, sign);
+    this.saveKeyPair(address, keyPair);
+    await this.publishKey(address, keyPair, sign);
+    return keyPair;
+  }
+
+  /**
+   * Restore an older key version in this session to read messages sent before a rotation
+   */
+  async restoreKey(address: string, version: number, sign: DmSigner): Promise<DmKeyPair> {
+    const keyPair = await this.deriveVersion(address, version, sign);
+    this.saveKeyPair(address, keyPair);
+    return keyPair;
+  }
+
+  // ===== ENCRYPT / DECRYPT =====
+
+  /**
+   * Encrypt a message for both sender and recipient
+   */
+  async encryptMessage(sender: string, recipient: string, content: string): Promise<string> {
+    const senderKey = this.getLocalKeyPair(sender);
+    if (!senderKey) {
+      throw new Error('Unlock encrypted messages first');
+    }
+
+    const recipientKey = await this.getPublishedKey(recipient);
+    if (!recipientKey) {
+      throw new Error("This user hasn't set up encrypted messages yet");
+    }
+
+    return encryptForParticipants(content, [
+      { address: sender, publicKey: senderKey.publicKey, version: senderKey.version },
+      { address: recipient, publicKey: recipientKey.publicKey, version: recipientKey.version },
+    ]);
+  }
+
+  // ===== RECORD PROOFS =====
+
+  /**
+   * Sign a direct message record (message or read receipt) as its sender
+   */
+  async signRecord(message: UnsignedDirectMessage): Promise<string> {
+    const published = await this.getPublishedKey(message.sender);
+    const keyPair = published && this.getLocalKeyPair(message.sender, published.version);
+    if (!keyPair || keyPair.publicKey !== published.publicKey) {
+      throw new Error('Unlock encrypted messages first');
+    }
+
+    return signDirectMessage(message, keyPair, published.signature);
+  }
+
+  /**
+   * Whether a record really comes from its sender (records with a missing or forged proof are dropped)
+   */
+  async verifyRecord(record: DirectMessageData): Promise<boolean> {
+    // Signature recovery is local - only the key publication check goes on-chain (and is cached)
+    const key = record.proof ? recoverDirectMessageKey(record, record.proof) : null;
+    return !!key && this.isKeyAuthorized(record.sender, key.publicKey, key.version, key.authorization);
+  }
+
+  /**
+   * Decrypt a message for the reader
+   * Returns null when the needed key version isn't unlocked in this session (see restoreKey)
+   */
+  async decryptMessage(reader: string, content: string): Promise<string | null> {
+    if (!isEncryptedContent(content)) return content;
+
+    const version = getEnvelopeKeyVersion(content, reader);
+    if (version === null) {
+      throw new Error('Message is not encrypted for this wallet');
+    }
+
+    const keyPair = this.getLocalKeyPair(reader, version);
+    if (!keyPair) return null;
+
+    return decryptForParticipant(content, reader, keyPair);
+  }
+
+  /**
+   * Key version needed to read a message (null for plaintext)
+   */
+  getRequiredKeyVersion(reader: string, content: string): number | null {
+    return isEncryptedContent(content) ? getEnvelopeKeyVersion(content, reader) : null;
+  }
+}
+
+export const dmEncryptionService = new DmEncryptionService();
+export default dmEncryptionService;
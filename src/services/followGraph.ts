@@ -0,0 +1,201 @@
+// Follow Graph
+// In-memory follow graph keyed by full lowercase addresses
+// Built incrementally from FOLLOW/UNFOLLOW interactions:
+// - membership & counts: O(1)
+// - paginated lists: O(limit) reads (lists are kept sorted, newest follow first)
+// - follow / unfollow: O(log n) binary search + O(n) array shift
+// - "followed by people you follow": O(min(a, b))
+
+export interface FollowPage {
+  addresses: string[];
+  total: number;
+  nextOffset: number | null;
+}
+
+export interface FollowChange {
+  follower: string;
+  target: string;
+  following: boolean;
+  timestamp: number;
+}
+
+interface FollowEdge {
+  following: boolean;
+  timestamp: number;
+}
+
+interface FollowEntry {
+  address: string;
+  timestamp: number;
+}
+
+// Newest first, address as tie-breaker so positions are deterministic
+const compareEntries = (a: FollowEntry, b: FollowEntry): number =>
+  b.timestamp - a.timestamp || (a.address < b.address ? -1 : a.address > b.address ? 1 : 0);
+
+/**
+ * Address list sorted by follow time - binary search finds the position,
+ * the array splice that follows is linear in the list size
+ */
+class SortedFollowList {
+  private entries: FollowEntry[] = [];
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  private position(entry: FollowEntry): number {
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (compareEntries(this.entries[mid], entry) < 0) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
+
+  insert(entry: FollowEntry): void {
+    this.entries.splice(this.position(entry), 0, entry);
+  }
+
+  remove(entry: FollowEntry): void {
+    const index = this.position(entry);
+    if (this.entries[index]?.address === entry.address) {
+      this.entries.splice(index, 1);
+    }
+  }
+
+  slice(offset: number, limit: number): string[] {
+    return this.entries.slice(offset, offset + limit).map(entry => entry.address);
+  }
+
+  addresses(): string[] {
+    return this.entries.map(entry => entry.address);
+  }
+}
+
+const edgeKey = (follower: string, target: string) => `${follower}:${target}`;
+
+class FollowGraph {
+  private edges: Map<string, FollowEdge> = new Map();
+  private following: Map<string, SortedFollowList> = new Map();
+  private followers: Map<string, SortedFollowList> = new Map();
+  private listeners: Set<(change: FollowChange) => void> = new Set();
+
+  private getList(lists: Map<string, SortedFollowList>, address: string): SortedFollowList {
+    let list = lists.get(address);
+    if (!list) {
+      list = new SortedFollowList();
+      lists.set(address, list);
+    }
+    return list;
+  }
+
+  /**
+   * Apply a FOLLOW (following = true) or UNFOLLOW event
+   * Events can arrive in any order - the newest event per edge wins
+   * Returns true when the graph changed
+   */
+  applyEvent(followerAddress: string, targetAddress: string, following: boolean, timestamp: number): boolean {
+    const follower = followerAddress.toLowerCase();
+    const target = targetAddress.toLowerCase();
+    if (follower === target) return false;
+
+    const key = edgeKey(follower, target);
+    const existing = this.edges.get(key);
+    if (existing && existing.timestamp >= timestamp) return false;
+
+    // Unfollow of an edge that isn't followed - only the edge time moves forward
+    if (!following && !existing?.following) {
+      this.edges.set(key, { following, timestamp });
+      return false;
+    }
+
+    // A repeated FOLLOW keeps the state but moves the edge to its newer time
+    const changed = existing?.following !== following;
+
+    if (existing?.following) {
+      this.getList(this.following, follower).remove({ address: target, timestamp: existing.timestamp });
+      this.getList(this.followers, target).remove({ address: follower, timestamp: existing.timestamp });
+    }
+
+    this.edges.set(key, { following, timestamp });
+
+    if (following) {
+      this.getList(this.following, follower).insert({ address: target, timestamp });
+      this.getList(this.followers, target).insert({ address: follower, timestamp });
+    }
+
+    if (changed) {
+      const change: FollowChange = { follower, target, following, timestamp };
+      this.listeners.forEach(listener => listener(change));
+    }
+    return changed;
+  }
+
+  isFollowing(followerAddress: string, targetAddress: string): boolean {
+    return this.edges.get(edgeKey(followerAddress.toLowerCase(), targetAddress.toLowerCase()))?.following === true;
+  }
+
+  getFollowerCount(address: string): number {
+    return this.followers.get(address.toLowerCase())?.size || 0;
+  }
+
+  getFollowingCount(address: string): number {
+    return this.following.get(address.toLowerCase())?.size || 0;
+  }
+
+  getFollowers(address: string, offset: number = 0, limit: number = Infinity): FollowPage {
+    return this.page(this.followers.get(address.toLowerCase()), offset, limit);
+  }
+
+  getFollowing(address: string, offset: number = 0, limit: number = Infinity): FollowPage {
+    return this.page(this.following.get(address.toLowerCase()), offset, limit);
+  }
+
+  /**
+   * Followers of target that the viewer follows ("Followed by ...")
+   */
+  getFollowedByFollowing(viewerAddress: string, targetAddress: string): string[] {
+    const viewer = viewerAddress.toLowerCase();
+    const target = targetAddress.toLowerCase();
+    const viewerFollowing = this.following.get(viewer);
+    const targetFollowers = this.followers.get(target);
+    if (!viewerFollowing || !targetFollowers) return [];
+
+    if (targetFollowers.size <= viewerFollowing.size) {
+      return targetFollowers.addresses().filter(follower => follower !== viewer && this.isFollowing(viewer, follower));
+    }
+    return viewerFollowing.addresses().filter(followed => followed !== target && this.isFollowing(followed, target));
+  }
+
+  /**
+   * Listen to graph changes, returns an unsubscribe function
+   */
+  subscribe(listener: (change: FollowChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private page(list: SortedFollowList | undefined, offset: number, limit: number): FollowPage {
+    const total = list?.size || 0;
+    const start = Math.max(0, offset);
+    const addresses = list ? list.slice(start, Number.isFinite(limit) ? limit : total) : [];
+    const end = start + addresses.length;
+
+    return {
+      addresses,
+      total,
+      nextOffset: end < total ? end : null,
+    };
+  }
+}
+
+export const followGraph = new FollowGraph();
+export default followGraph;
@@ -275,6 +275,7 @@ class IPFSService {
         genre: trackData.tags.split(', '),
         artist: 'HiBeats AI',
         title: trackData.title,
+        lyrics: trackData.lyrics || generationParams?.lyrics || '', // plain text or LRC (synced)
         
         // AI generation info
         created_by: userAddress,
@@ -0,0 +1,120 @@
+// Listen Tracker
+// Measures real listen time of the current track with the audio playback clock
+// AudioContext feeds it (session start/end, clock ticks); play recording waits for it
+// so a play only counts after enough real listening - seeking, pausing or
+// speeding up never adds listen time
+
+export interface TrackedPlay {
+  tokenId: number;
+  requiredSeconds: number;                         // listen time before the play counts
+  onQualified: (listenedSeconds: number) => void;  // called when the session ends
+}
+
+interface PendingPlay extends TrackedPlay {
+  startListened: number;  // session listen time when the play was attached
+}
+
+interface ListenSession {
+  trackId: number;
+  listenedSeconds: number;
+  lastMediaTime: number | null;
+  lastClockTime: number | null;
+  plays: PendingPlay[];
+}
+
+class ListenTracker {
+  private session: ListenSession | null = null;
+
+  /**
+   * Start listening to a new track (ends the previous session)
+   */
+  startSession(trackId: number): void {
+    this.endSession();
+    this.session = {
+      trackId,
+      listenedSeconds: 0,
+      lastMediaTime: null,
+      lastClockTime: null,
+      plays: [],
+    };
+  }
+
+  /**
+   * End the current session - plays with enough listen time are reported
+   */
+  endSession(): void {
+    const session = this.session;
+    if (!session) return;
+    this.session = null;
+
+    for (const play of session.plays) {
+      const listened = session.listenedSeconds - play.startListened;
+      if (listened >= play.requiredSeconds) {
+        play.onQualified(Math.floor(listened));
+      } else {
+        console.log(`⏭️ [LISTEN] Play of token ${play.tokenId} not counted (${Math.floor(listened)}s < ${play.requiredSeconds}s)`);
+      }
+    }
+  }
+
+  /**
+   * Attach a play to the current session
+   * Call right after playTrack - returns false when nothing is playing
+   */
+  trackPlay(play: TrackedPlay): boolean {
+    if (!this.session) return false;
+
+    this.session.plays.push({
+      ...play,
+      startListened: this.session.listenedSeconds,
+    });
+    return true;
+  }
+
+  /**
+   * Forget the last clock reading (after seeking or resuming)
+   */
+  resetClock(): void {
+    if (!this.session) return;
+    this.session.lastMediaTime = null;
+    this.session.lastClockTime = null;
+  }
+
+  /**
+   * Advance listen time while playing
+   * mediaTime = position in the track, clockTime = audio playback clock (both in seconds)
+   * Only time that passed on both clocks counts
+   */
+  tick(mediaTime: number, clockTime: number): void {
+    const session = this.session;
+    if (!session) return;
+
+    if (session.lastMediaTime !== null && session.lastClockTime !== null) {
+      const mediaDelta = mediaTime - session.lastMediaTime;
+      const clockDelta = clockTime - session.lastClockTime;
+      if (mediaDelta > 0 && clockDelta > 0) {
+        session.listenedSeconds += Math.min(mediaDelta, clockDelta);
+      }
+    }
+
+    session.lastMediaTime = mediaTime;
+    session.lastClockTime = clockTime;
+  }
+
+  /**
+   * Track id of the current session (null when nothing is tracked)
+   */
+  getTrackId(): number | null {
+    return this.session?.trackId ?? null;
+  }
+
+  /**
+   * Real listen time of the current session
+   */
+  getListenedSeconds(): number {
+    return this.session?.listenedSeconds || 0;
+  }
+}
+
+export const listenTracker = new ListenTracker();
+export default listenTracker;
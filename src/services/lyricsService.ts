@@ -0,0 +1,79 @@
+// Lyrics Service
+// Finds lyrics for the track in the player: lyrics already on the track, otherwise
+// the `lyrics` field of the minted song's IPFS metadata (tokenURI)
+
+import { getPublicClient } from '@wagmi/core';
+import { getIpfsUrl } from '@/lib/ipfs';
+import { CONTRACT_ADDRESSES, wagmiConfig } from '@/lib/web3-config';
+import type { Track } from '@/contexts/AudioContext';
+
+const TOKEN_URI_ABI = [
+  {
+    name: 'tokenURI',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'string' }]
+  }
+] as const;
+
+class LyricsService {
+  private cache: Map<string, string> = new Map();
+  private pendingRequests: Map<string, Promise<string>> = new Map();
+
+  /**
+   * Lyrics for a track ('' when the song has none)
+   */
+  async getLyrics(track: Track): Promise<string> {
+    if (track.lyrics) return track.lyrics;
+
+    // Minted songs are played with their token id as the track id
+    const tokenId = Number(track.tokenId ?? track.id);
+    if (!Number.isInteger(tokenId) || tokenId <= 0) return '';
+
+    const key = `token:${tokenId}`;
+    if (this.cache.has(key)) return this.cache.get(key)!;
+    if (this.pendingRequests.has(key)) return this.pendingRequests.get(key)!;
+
+    const request = this.fetchTokenLyrics(tokenId)
+      .then(lyrics => {
+        this.cache.set(key, lyrics);
+        return lyrics;
+      })
+      .catch(error => {
+        console.warn(`⚠️ [LYRICS] Failed to load lyrics for token ${tokenId}:`, error);
+        return '';
+      })
+      .finally(() => {
+        this.pendingRequests.delete(key);
+      });
+
+    this.pendingRequests.set(key, request);
+    return request;
+  }
+
+  private async fetchTokenLyrics(tokenId: number): Promise<string> {
+    const publicClient = getPublicClient(wagmiConfig);
+    if (!publicClient) return '';
+
+    const uri = await publicClient.readContract({
+      address: CONTRACT_ADDRESSES.songNFT as `0x${string}`,
+      abi: TOKEN_URI_ABI,
+      functionName: 'tokenURI',
+      args: [BigInt(tokenId)]
+    } as any) as string;
+    if (!uri) return '';
+
+    const metadataUrl = uri.startsWith('http') ? uri : getIpfsUrl(uri);
+    const response = await fetch(metadataUrl);
+    if (!response.ok) {
+      throw new Error(`Metadata request failed: ${response.status}`);
+    }
+
+    const metadata = await response.json();
+    return typeof metadata.lyrics === 'string' ? metadata.lyrics : '';
+  }
+}
+
+export const lyricsService = new LyricsService();
+export default lyricsService;
@@ -136,18 +136,18 @@ class MusicMilestoneBackgroundJob {
    * Get track statistics
    */
   private async getTrackStats(music: any): Promise<TrackStats> {
-    // TODO: Implement based on your play events schema
-    // This is a placeholder - you need to aggregate from your datastream
+    // Play stats come from validated play events (flagged plays excluded)
+    const playStats = await somniaDatastreamServiceV3.getPlayStats(Number(music.tokenId || music.id));
     
     return {
       tokenId: music.tokenId || music.id,
       artist: music.owner,
-      playCount: 0, // Get from play events
-      uniqueListeners: 0, // Count unique listeners
+      playCount: playStats.plays,
+      uniqueListeners: playStats.uniqueListeners,
       likes: 0, // Get from interactions
       shares: 0, // Get from interactions
       comments: 0, // Get from interactions
-      plays24h: 0, // Get plays in last 24h
+      plays24h: playStats.plays24h,
       likes24h: 0, // Get likes in last 24h
       shares24h: 0, // Get shares in last 24h
       comments24h: 0, // Get comments in last 24h
@@ -167,9 +167,10 @@ class MusicMilestoneBackgroundJob {
    * Get trending rank for a track
    */
   private async getTrendingRank(tokenId: string): Promise<number | undefined> {
-    // TODO: Implement trending logic
-    // This would sort tracks by recent engagement and return rank
-    return undefined;
+    // Trending scores only count validated plays
+    const trending = await somniaDatastreamServiceV3.getTrendingSongs(100);
+    const index = trending.findIndex(song => song.tokenId === Number(tokenId) && song.score > 0);
+    return index >= 0 ? index + 1 : undefined;
   }
 
   /**
@@ -8,7 +8,7 @@ import { somniaDatastreamService } from '@/services/somniaDatastreamService';
 export type NotificationType = 
   | 'like' | 'comment' | 'repost' | 'follow' | 'mention' | 'reply'
   | 'tip' | 'received_somi' | 'sent_somi'
-  | 'nft_minted' | 'nft_sold' | 'nft_bought' | 'nft_listed' | 'nft_unlisted' | 'nft_offer'
+  | 'nft_minted' | 'nft_sold' | 'nft_bought' | 'nft_listed' | 'nft_unlisted' | 'nft_offer' | 'nft_outbid'
   | 'music_generated' | 'music_played' | 'music_added_playlist'
   | 'music_milestone_plays' | 'music_milestone_listeners' | 'music_trending' | 'music_top_chart' | 'music_viral'
   | 'achievement' | 'reward' | 'announcement';
@@ -313,6 +313,7 @@ class RealtimeNotificationService {
       'nft_minted': 'nft',
       'nft_sold': 'nft',
       'nft_bought': 'nft',
+      'nft_outbid': 'nft',
       'music_generated': 'music',
       'music_played': 'music',
       'music_milestone_plays': 'milestones',
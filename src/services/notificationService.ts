@@ -9,9 +9,9 @@ export type NotificationType =
   // Social interactions
   | 'like' | 'comment' | 'repost' | 'follow' | 'mention' | 'reply'
   // Financial transactions
-  | 'tip' | 'received_somi' | 'sent_somi'
+  | 'tip' | 'received_somi' | 'sent_somi' | 'collect'
   // NFT activities
-  | 'nft_minted' | 'nft_sold' | 'nft_bought' | 'nft_listed' | 'nft_unlisted' | 'nft_offer'
+  | 'nft_minted' | 'nft_sold' | 'nft_bought' | 'nft_listed' | 'nft_unlisted' | 'nft_offer' | 'nft_outbid'
   // Music activities
   | 'music_generated' | 'music_played' | 'music_added_playlist'
   // Music milestones
@@ -741,6 +741,11 @@ class NotificationService {
     return this.sendNotification('tip', fromUser, toUser, { postId, metadata: meta, walletClient });
   }
 
+  async notifyCollect(fromUser: string, toUser: string, postId: string, amount: string, metadata?: NotificationMetadata, walletClient?: any): Promise<boolean> {
+    const meta = { ...metadata, amount };
+    return this.sendNotification('collect', fromUser, toUser, { postId, metadata: meta, walletClient });
+  }
+
   async notifyReceivedSomi(fromUser: string, toUser: string, amount: string, txHash?: string, metadata?: NotificationMetadata, walletClient?: any): Promise<boolean> {
     const meta = { ...metadata, amount, txHash };
     return this.sendNotification('received_somi', fromUser, toUser, { metadata: meta, walletClient });
@@ -751,6 +756,16 @@ class NotificationService {
     return this.sendNotification('nft_minted', owner, owner, { metadata: meta, walletClient });
   }
 
+  async notifyNftOffer(fromUser: string, toUser: string, tokenId: string, offerAmount: string, metadata?: NotificationMetadata, walletClient?: any): Promise<boolean> {
+    const meta = { ...metadata, tokenId, offerAmount };
+    return this.sendNotification('nft_offer', fromUser, toUser, { metadata: meta, walletClient });
+  }
+
+  async notifyNftOutbid(fromUser: string, toUser: string, tokenId: string, bidAmount: string, metadata?: NotificationMetadata, walletClient?: any): Promise<boolean> {
+    const meta = { ...metadata, tokenId, bidAmount };
+    return this.sendNotification('nft_outbid', fromUser, toUser, { metadata: meta, walletClient });
+  }
+
   async notifyMusicGenerated(owner: string, taskId: string, title: string, metadata?: NotificationMetadata, walletClient?: any): Promise<boolean> {
     const meta = { ...metadata, taskId, title };
     return this.sendNotification('music_generated', owner, owner, { metadata: meta, walletClient });
@@ -0,0 +1,268 @@
+// Play Event Index
+// Persistent play-event aggregate stored in IndexedDB
+// Updated incrementally from the last seen stream index, so play queries stay O(tokens) instead of O(events)
+
+import {
+  PLAY_BUCKET_SIZE,
+  PlayEventData,
+  PlayEventFlag,
+  PlayTokenAggregate,
+  applyPlayEventToAggregate,
+  getPlayEventFlags,
+  prunePlayHistory,
+} from '@/config/somniaDataStreams.v3';
+
+export interface PlayIndexCursor {
+  version: number;       // INDEX_VERSION the index was built with
+  source: string;        // `${schemaId}:${publisher}` - a new schema version starts a fresh index
+  lastIndex: number;     // stream index of the next event to read
+  lastTimestamp: number; // newest event timestamp seen
+}
+
+const DB_NAME = 'hibeats_play_index';
+const DB_VERSION = 1;
+const TOKENS_STORE = 'tokens';
+const META_STORE = 'meta';
+const CURSOR_KEY = 'cursor';
+const HISTORY_KEY = 'history';
+
+// Bump when the aggregation rules change (e.g. play validation) to rebuild persisted indexes
+const INDEX_VERSION = 2;
+
+// Hourly buckets older than this are dropped (trending windows are much shorter)
+const BUCKET_RETENTION = 90 * 24 * 60 * 60 * 1000; // 90 days
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+class PlayEventIndex {
+  private tokens: Map<number, PlayTokenAggregate> = new Map();
+  // Accepted plays per listener within PLAY_VALIDATION.HISTORY_WINDOW (oldest first) - needed to flag new events
+  private history: Record<string, PlayEventData[]> = {};
+  private cursor: PlayIndexCursor | null = null;
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+  private loadPromise: Promise<void> | null = null;
+
+  /**
+   * Open the database (null when IndexedDB is unavailable - the index then lives in memory only)
+   */
+  private openDb(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TOKENS_STORE)) {
+          db.createObjectStore(TOKENS_STORE, { keyPath: 'tokenId' });
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('⚠️ [PLAY-INDEX] IndexedDB unavailable, using in-memory index:', request.error);
+        resolve(null);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  /**
+   * Load the persisted index into memory (once)
+   */
+  private load(): Promise<void> {
+    if (this.loadPromise) return this.loadPromise;
+
+    this.loadPromise = (async () => {
+      const db = await this.openDb();
+      if (!db) return;
+
+      try {
+        const tx = db.transaction([TOKENS_STORE, META_STORE], 'readonly');
+        const [aggregates, cursor, history] = await Promise.all([
+          requestToPromise(tx.objectStore(TOKENS_STORE).getAll() as IDBRequest<PlayTokenAggregate[]>),
+          requestToPromise(tx.objectStore(META_STORE).get(CURSOR_KEY) as IDBRequest<PlayIndexCursor | undefined>),
+          requestToPromise(tx.objectStore(META_STORE).get(HISTORY_KEY) as IDBRequest<Record<string, PlayEventData[]> | undefined>),
+        ]);
+
+        aggregates.forEach(aggregate => this.tokens.set(aggregate.tokenId, aggregate));
+        this.cursor = cursor || null;
+        this.history = history || {};
+        console.log(`📦 [PLAY-INDEX] Loaded ${aggregates.length} tokens, next index ${this.cursor?.lastIndex ?? 0}`);
+      } catch (error) {
+        console.warn('⚠️ [PLAY-INDEX] Failed to load persisted index, rebuilding:', error);
+        this.tokens.clear();
+        this.history = {};
+        this.cursor = null;
+      }
+    })();
+
+    return this.loadPromise;
+  }
+
+  /**
+   * Get the sync cursor for a stream source
+   * A different source (new schema or publisher) or index version resets the index
+   */
+  async getCursor(source: string): Promise<PlayIndexCursor> {
+    await this.load();
+
+    if (!this.cursor || this.cursor.source !== source || this.cursor.version !== INDEX_VERSION) {
+      await this.reset(source);
+    }
+
+    return { ...this.cursor! };
+  }
+
+  /**
+   * Apply newly read events and move the cursor to nextIndex
+   * Flagged events (bursts, loops, rate-limited & short plays) are counted as flaggedPlays only
+   */
+  async apply(source: string, events: PlayEventData[], nextIndex: number): Promise<void> {
+    await this.load();
+
+    const changed = new Map<number, PlayTokenAggregate>();
+    let lastTimestamp = this.cursor?.source === source ? this.cursor.lastTimestamp : 0;
+    let flaggedCount = 0;
+
+    // Validation compares each play with the listener's earlier plays
+    const sorted = [...events].sort((a, b) => a.timestamp - b.timestamp);
+
+    for (const event of sorted) {
+      if (!event.tokenId || !event.listener) continue;
+
+      const aggregate = this.tokens.get(event.tokenId) || {
+        tokenId: event.tokenId,
+        plays: 0,
+        listeners: {},
+        hourly: {},
+        lastPlayedAt: 0,
+        flaggedPlays: 0,
+      };
+
+      if (this.checkEvent(event).length > 0) {
+        aggregate.flaggedPlays += 1;
+        flaggedCount++;
+      } else {
+        applyPlayEventToAggregate(aggregate, event);
+      }
+      this.tokens.set(event.tokenId, aggregate);
+      changed.set(event.tokenId, aggregate);
+      lastTimestamp = Math.max(lastTimestamp, event.timestamp);
+    }
+
+    // Drop expired hourly buckets of the tokens we touched
+    const minBucket = Math.floor((Date.now() - BUCKET_RETENTION) / PLAY_BUCKET_SIZE);
+    changed.forEach(aggregate => {
+      Object.keys(aggregate.hourly).forEach(bucket => {
+        if (Number(bucket) < minBucket) delete aggregate.hourly[Number(bucket)];
+      });
+    });
+
+    // Forget listeners without plays in the history window
+    Object.keys(this.history).forEach(listener => {
+      prunePlayHistory(this.history[listener], lastTimestamp);
+      if (this.history[listener].length === 0) delete this.history[listener];
+    });
+
+    if (flaggedCount > 0) {
+      console.log(`🚩 [PLAY-INDEX] Excluded ${flaggedCount} flagged play events`);
+    }
+
+    this.cursor = { version: INDEX_VERSION, source, lastIndex: nextIndex, lastTimestamp };
+    await this.persist(Array.from(changed.values()));
+  }
+
+  /**
+   * Flag an event against the listener history, accepted events join the history
+   */
+  private checkEvent(event: PlayEventData): PlayEventFlag[] {
+    const listener = event.listener.toLowerCase();
+    const history = this.history[listener] || [];
+    prunePlayHistory(history, event.timestamp);
+
+    const flags = getPlayEventFlags(event, history);
+    if (flags.length === 0) {
+      history.push(event);
+    }
+    this.history[listener] = history;
+    return flags;
+  }
+
+  /**
+   * Clear the index and start over for a stream source
+   */
+  async reset(source: string): Promise<void> {
+    this.tokens.clear();
+    this.history = {};
+    this.cursor = { version: INDEX_VERSION, source, lastIndex: 0, lastTimestamp: 0 };
+
+    const db = await this.openDb();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction([TOKENS_STORE, META_STORE], 'readwrite');
+      tx.objectStore(TOKENS_STORE).clear();
+      tx.objectStore(META_STORE).put(this.cursor, CURSOR_KEY);
+      tx.objectStore(META_STORE).delete(HISTORY_KEY);
+      await transactionDone(tx);
+    } catch (error) {
+      console.warn('⚠️ [PLAY-INDEX] Failed to reset persisted index:', error);
+    }
+  }
+
+  private async persist(aggregates: PlayTokenAggregate[]): Promise<void> {
+    const db = await this.openDb();
+    if (!db) return;
+
+    try {
+      const tx = db.transaction([TOKENS_STORE, META_STORE], 'readwrite');
+      const tokenStore = tx.objectStore(TOKENS_STORE);
+      aggregates.forEach(aggregate => tokenStore.put(aggregate));
+      tx.objectStore(META_STORE).put(this.cursor, CURSOR_KEY);
+      tx.objectStore(META_STORE).put(this.history, HISTORY_KEY);
+      await transactionDone(tx);
+    } catch (error) {
+      // Memory stays correct; the next session re-reads from the last persisted cursor
+      console.warn('⚠️ [PLAY-INDEX] Failed to persist index:', error);
+    }
+  }
+
+  // ===== QUERIES (O(tokens)) =====
+
+  getToken(tokenId: number): PlayTokenAggregate | null {
+    return this.tokens.get(tokenId) || null;
+  }
+
+  getAllTokens(): PlayTokenAggregate[] {
+    return Array.from(this.tokens.values());
+  }
+
+  /**
+   * Accepted plays of a listener within the validation history window (oldest first)
+   */
+  getRecentPlays(listener: string): PlayEventData[] {
+    return [...(this.history[listener.toLowerCase()] || [])];
+  }
+}
+
+export const playEventIndex = new PlayEventIndex();
+export default playEventIndex;
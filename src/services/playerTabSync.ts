@@ -0,0 +1,86 @@
+// Player Tab Sync
+// Coordinates the audio player between tabs of the same browser (BroadcastChannel)
+// Only one tab plays: a tab that starts playback claims it, the others pause and
+// follow its state as a remote control
+
+import type { Track } from '@/contexts/AudioContext';
+
+export type RemotePlayerCommand = 'play' | 'pause' | 'next' | 'previous' | 'seek';
+
+// State published by the tab that owns playback
+export interface RemotePlayerState {
+  tabId: string;
+  track: Track;
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  canGoNext: boolean;
+  canGoPrevious: boolean;
+}
+
+export type PlayerTabMessage =
+  | { type: 'claim'; tabId: string }                       // tabId starts playing, everyone else pauses
+  | { type: 'state'; state: RemotePlayerState }
+  | { type: 'release'; tabId: string }                     // tabId stopped or closed
+  | { type: 'hello'; tabId: string }                       // new tab asks the owner for its state
+  | { type: 'command'; targetTabId: string; command: RemotePlayerCommand; value?: number };
+
+class PlayerTabSync {
+  readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  private channel?: BroadcastChannel;
+  private listeners: Set<(message: PlayerTabMessage) => void> = new Set();
+
+  private ensureChannel(): BroadcastChannel | undefined {
+    if (!this.channel && typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel('hibeats-player');
+      this.channel.addEventListener('message', (event) => {
+        const message = event.data as PlayerTabMessage;
+        this.listeners.forEach((callback) => callback(message));
+      });
+    }
+    return this.channel;
+  }
+
+  isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined';
+  }
+
+  subscribe(callback: (message: PlayerTabMessage) => void): () => void {
+    this.ensureChannel();
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  private post(message: PlayerTabMessage): void {
+    try {
+      this.ensureChannel()?.postMessage(message);
+    } catch (error) {
+      console.warn('⚠️ [PLAYER-SYNC] Failed to post message:', error);
+    }
+  }
+
+  claim(): void {
+    this.post({ type: 'claim', tabId: this.tabId });
+  }
+
+  publishState(state: Omit<RemotePlayerState, 'tabId'>): void {
+    this.post({ type: 'state', state: { ...state, tabId: this.tabId } });
+  }
+
+  release(): void {
+    this.post({ type: 'release', tabId: this.tabId });
+  }
+
+  hello(): void {
+    this.post({ type: 'hello', tabId: this.tabId });
+  }
+
+  sendCommand(targetTabId: string, command: RemotePlayerCommand, value?: number): void {
+    this.post({ type: 'command', targetTabId, command, value });
+  }
+}
+
+export const playerTabSync = new PlayerTabSync();
+export default playerTabSync;
@@ -0,0 +1,373 @@
+// Playlist History Service
+// Append-only edit log per playlist - every change is a new stream entry with a full track snapshot,
+// so any version can be restored and every track attributed to the collaborator who added it
+
+import { SDK, SchemaEncoder } from '@somnia-chain/streams';
+import { createPublicClient, http, keccak256, toBytes, type Hex, type PublicClient, type WalletClient } from 'viem';
+import { somniaTestnet } from '@/lib/web3-config';
+import { getFieldValue, isDecodedRecord, type DecodedField } from '@/utils/streamFields';
+import { publisherIndexer } from './publisherIndexer';
+
+// ===== TYPES =====
+
+export type PlaylistHistoryAction =
+  | 'create'
+  | 'add'
+  | 'remove'
+  | 'reorder'
+  | 'update'
+  | 'collaborators'
+  | 'restore'
+  | 'delete';
+
+export interface PlaylistHistoryDetails {
+  added?: string[];              // Track IDs added
+  removed?: string[];            // Track IDs removed
+  fields?: string[];             // Metadata fields changed (title, description, ...)
+  collaboratorsAdded?: string[];
+  collaboratorsRemoved?: string[];
+  restoredFrom?: number;         // Timestamp of the restored version
+}
+
+export interface PlaylistHistoryEntry {
+  id: string;
+  playlistId: string;
+  editor: string;                // Address that made the change
+  action: PlaylistHistoryAction;
+  timestamp: number;
+  trackIds: string[];            // Full track list after the change
+  title: string;                 // Title/description after the change
+  description: string;
+  details: PlaylistHistoryDetails;
+}
+
+export interface PlaylistTrackAttribution {
+  trackId: string;
+  addedAt: number;
+  addedBy: string;
+  position: number;
+}
+
+// Snapshot shape shared with playlistService.Playlist (kept structural to avoid a circular import)
+interface PlaylistSnapshot {
+  id: string;
+  title: string;
+  description: string;
+  coverHash: string;
+  trackIds: string[];
+  isPublic: boolean;
+  isDeleted: boolean;
+  collaborators?: string[];
+}
+
+const HISTORY_SCHEMA = 'uint64 timestamp, string playlistId, address editor, string action, string trackIds, string details';
+
+// ===== CHANGE DETECTION =====
+
+/**
+ * Describe what changed between two versions of a playlist (null when nothing did)
+ */
+export const describePlaylistChange = (
+  before: PlaylistSnapshot,
+  after: PlaylistSnapshot
+): { action: PlaylistHistoryAction; details: PlaylistHistoryDetails } | null => {
+  if (!before.isDeleted && after.isDeleted) {
+    return { action: 'delete', details: {} };
+  }
+
+  const beforeTracks = new Set(before.trackIds);
+  const afterTracks = new Set(after.trackIds);
+  const added = after.trackIds.filter(id => !beforeTracks.has(id));
+  const removed = before.trackIds.filter(id => !afterTracks.has(id));
+  const reordered = added.length === 0 && removed.length === 0 &&
+    before.trackIds.some((id, index) => after.trackIds[index] !== id);
+
+  const fields = (['title', 'description', 'coverHash', 'isPublic'] as const)
+    .filter(field => before[field] !== after[field]);
+
+  const beforeCollaborators = new Set((before.collaborators || []).map(c => c.toLowerCase()));
+  const afterCollaborators = new Set((after.collaborators || []).map(c => c.toLowerCase()));
+  const collaboratorsAdded = Array.from(afterCollaborators).filter(c => !beforeCollaborators.has(c));
+  const collaboratorsRemoved = Array.from(beforeCollaborators).filter(c => !afterCollaborators.has(c));
+
+  const details: PlaylistHistoryDetails = {
+    ...(added.length > 0 && { added }),
+    ...(removed.length > 0 && { removed }),
+    ...(fields.length > 0 && { fields: [...fields] }),
+    ...(collaboratorsAdded.length > 0 && { collaboratorsAdded }),
+    ...(collaboratorsRemoved.length > 0 && { collaboratorsRemoved }),
+  };
+
+  // Track changes win when one save touches several things
+  if (added.length > 0) return { action: 'add', details };
+  if (removed.length > 0) return { action: 'remove', details };
+  if (reordered) return { action: 'reorder', details };
+  if (fields.length > 0) return { action: 'update', details };
+  if (collaboratorsAdded.length > 0 || collaboratorsRemoved.length > 0) return { action: 'collaborators', details };
+  return null;
+};
+
+/**
+ * Keep entries made by someone allowed to edit at that point - the owner, or a collaborator
+ * added by an earlier allowed entry (entries newest first, like getHistory)
+ */
+export const filterAuthorizedEntries = (entries: PlaylistHistoryEntry[], owner: string): PlaylistHistoryEntry[] => {
+  const ownerAddress = owner.toLowerCase();
+  const editors = new Set([ownerAddress]);
+  const authorized: PlaylistHistoryEntry[] = [];
+
+  [...entries].reverse().forEach(entry => {
+    if (!editors.has(entry.editor.toLowerCase())) return;
+    authorized.push(entry);
+
+    (entry.details.collaboratorsAdded || []).forEach(c => editors.add(c.toLowerCase()));
+    (entry.details.collaboratorsRemoved || [])
+      .filter(c => c.toLowerCase() !== ownerAddress)
+      .forEach(c => editors.delete(c.toLowerCase()));
+  });
+
+  return authorized.reverse();
+};
+
+// ===== SERVICE =====
+
+class PlaylistHistoryService {
+  private sdk: SDK | null = null;
+  // Without strictNullChecks viem infers a json-rpc account for the client, which the SDK's PublicClient type rejects
+  private publicClient = createPublicClient({
+    chain: somniaTestnet,
+    transport: http(import.meta.env.VITE_SOMNIA_RPC_URL || 'https://dream-rpc.somnia.network'),
+  }) as unknown as PublicClient;
+  private schemaId: Hex | null = null;
+
+  // Cache
+  private historyCache: Map<string, { entries: PlaylistHistoryEntry[]; timestamp: number }> = new Map();
+  private readonly CACHE_TTL = 30000; // 30 seconds
+
+  private initPromise: Promise<void> | null = null;
+
+  constructor() {
+    this.initPromise = this.initialize();
+  }
+
+  // ===== INITIALIZATION =====
+
+  private async initialize(): Promise<void> {
+    try {
+      this.sdk = new SDK({ public: this.publicClient });
+
+      const envSchemaId = import.meta.env.VITE_PLAYLIST_HISTORY_SCHEMA_ID;
+      this.schemaId = envSchemaId
+        ? envSchemaId as `0x${string}`
+        : await this.sdk.streams.computeSchemaId(HISTORY_SCHEMA);
+
+      console.log(`🔑 [PLAYLIST-HISTORY] Schema ID: ${this.schemaId}`);
+    } catch (error) {
+      console.error('❌ [PLAYLIST-HISTORY] Failed to initialize:', error);
+      throw error;
+    }
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (this.initPromise) {
+      await this.initPromise;
+    }
+    if (!this.sdk || !this.schemaId) {
+      throw new Error('SDK not initialized');
+    }
+  }
+
+  // ===== RECORD =====
+
+  /**
+   * Append an entry to a playlist's edit log (USER wallet only - the editor is the wallet that signs)
+   */
+  async recordEntry(
+    change: Omit<PlaylistHistoryEntry, 'id' | 'timestamp' | 'editor'>,
+    walletClient: WalletClient
+  ): Promise<PlaylistHistoryEntry> {
+    await this.ensureInitialized();
+
+    const editor = walletClient?.account?.address;
+    if (!editor) {
+      throw new Error('Wallet not connected');
+    }
+
+    const entry = { ...change, editor };
+    const timestamp = Date.now();
+    const sdk = new SDK({ public: this.publicClient, wallet: walletClient });
+
+    const encoder = new SchemaEncoder(HISTORY_SCHEMA);
+    const encodedData = encoder.encodeData([
+      { name: 'timestamp', value: timestamp.toString(), type: 'uint64' },
+      { name: 'playlistId', value: entry.playlistId, type: 'string' },
+      { name: 'editor', value: entry.editor, type: 'address' },
+      { name: 'action', value: entry.action, type: 'string' },
+      { name: 'trackIds', value: entry.trackIds.join(','), type: 'string' },
+      {
+        name: 'details',
+        value: JSON.stringify({ title: entry.title, description: entry.description, ...entry.details }),
+        type: 'string'
+      }
+    ]);
+
+    // ✅ Unique stream ID per entry - the log is never overwritten
+    const streamId = keccak256(toBytes(`playlist_history_${entry.playlistId}_${entry.editor}_${timestamp}`));
+
+    await sdk.streams.set([{
+      id: streamId,
+      schemaId: this.schemaId!,
+      data: encodedData as Hex
+    }]);
+
+    publisherIndexer.addPublisher(editor);
+
+    const recorded: PlaylistHistoryEntry = { ...entry, id: `${entry.playlistId}_${entry.editor}_${timestamp}`, timestamp };
+
+    // Append to cache so the timeline updates without a refetch
+    const cached = this.historyCache.get(entry.playlistId);
+    if (cached) {
+      cached.entries = [recorded, ...cached.entries];
+    }
+
+    console.log(`📜 [PLAYLIST-HISTORY] ${entry.action} recorded for ${entry.playlistId.slice(0, 10)}...`);
+    return recorded;
+  }
+
+  // ===== READ =====
+
+  /**
+   * Edit log for a playlist, newest first (read from every known publisher - collaborators write with their own wallets)
+   * Only entries signed by their editor, while that editor could edit the playlist, are returned
+   */
+  async getHistory(playlistId: string, owner: string, forceRefresh: boolean = false): Promise<PlaylistHistoryEntry[]> {
+    await this.ensureInitialized();
+
+    const cached = this.historyCache.get(playlistId);
+    if (!forceRefresh && cached && Date.now() - cached.timestamp < this.CACHE_TTL) {
+      return filterAuthorizedEntries(cached.entries, owner);
+    }
+
+    try {
+      const publishers = new Set(publisherIndexer.getAllPublishers().map(p => p.toLowerCase()));
+
+      const decoder = new SchemaEncoder(HISTORY_SCHEMA);
+      const perPublisher = await Promise.all(
+        Array.from(publishers).map(async (publisher) => {
+          try {
+            const rawData = await this.sdk!.streams.getAllPublisherDataForSchema(
+              this.schemaId!,
+              publisher as `0x${string}`
+            );
+            if (!rawData || !Array.isArray(rawData)) return [];
+
+            return (rawData as unknown[]).map(item => {
+              try {
+                const decoded: unknown = typeof item === 'string' && item.startsWith('0x')
+                  ? decoder.decodeData(item as Hex)
+                  : item;
+                const entry = isDecodedRecord(decoded) ? this.parseEntry(decoded) : null;
+                // Editor must be the wallet that published the entry
+                return entry && entry.editor.toLowerCase() === publisher ? entry : null;
+              } catch {
+                return null;
+              }
+            });
+          } catch (error) {
+            console.warn(`⚠️ [PLAYLIST-HISTORY] Failed to load from publisher ${publisher.slice(0, 10)}:`, error);
+            return [];
+          }
+        })
+      );
+
+      const entries = perPublisher
+        .flat()
+        .filter((entry): entry is PlaylistHistoryEntry => !!entry && entry.playlistId === playlistId)
+        .sort((a, b) => b.timestamp - a.timestamp);
+
+      this.historyCache.set(playlistId, { entries, timestamp: Date.now() });
+      console.log(`📜 [PLAYLIST-HISTORY] Loaded ${entries.length} entries for ${playlistId.slice(0, 10)}...`);
+      return filterAuthorizedEntries(entries, owner);
+    } catch (error) {
+      console.error('❌ [PLAYLIST-HISTORY] Failed to load history:', error);
+      return filterAuthorizedEntries(cached?.entries || [], owner);
+    }
+  }
+
+  /**
+   * Who added each current track and when - replays the log oldest first
+   */
+  async getTrackAttribution(playlistId: string, owner: string): Promise<Map<string, PlaylistTrackAttribution>> {
+    const entries = await this.getHistory(playlistId, owner);
+    const attribution = new Map<string, PlaylistTrackAttribution>();
+
+    [...entries].reverse().forEach(entry => {
+      // Creates and restores bring in whole lists - only tracks without an earlier credit go to this editor
+      const added = entry.action === 'add'
+        ? entry.details.added || []
+        : entry.action === 'create' || entry.action === 'restore'
+          ? entry.trackIds.filter(trackId => !attribution.has(trackId))
+          : [];
+      added.forEach(trackId => {
+        attribution.set(trackId, { trackId, addedAt: entry.timestamp, addedBy: entry.editor, position: 0 });
+      });
+
+      // Every entry carries the full list, so it decides what is still in the playlist and where
+      const current = new Set(entry.trackIds);
+      Array.from(attribution.keys()).forEach(trackId => {
+        if (!current.has(trackId)) attribution.delete(trackId);
+      });
+      entry.trackIds.forEach((trackId, index) => {
+        const item = attribution.get(trackId);
+        if (item) item.position = index;
+      });
+    });
+
+    return attribution;
+  }
+
+  // ===== PARSE HELPER =====
+
+  private parseEntry(item: DecodedField[]): PlaylistHistoryEntry | null {
+    const field = (name: string) => getFieldValue(item, name);
+
+    const playlistId = field('playlistId');
+    const editor = field('editor');
+    const action = field('action');
+    if (!playlistId || !editor || !action) return null;
+
+    let details: PlaylistHistoryDetails & { title?: string; description?: string } = {};
+    try {
+      details = JSON.parse(String(field('details') || '{}'));
+    } catch {
+      // Keep entry without details
+    }
+
+    const { title = '', description = '', ...changeDetails } = details;
+    const timestamp = Number(field('timestamp')) || 0;
+    const trackIds = String(field('trackIds') || '');
+
+    return {
+      id: `${playlistId}_${editor}_${timestamp}`,
+      playlistId: String(playlistId),
+      editor: String(editor),
+      action: String(action) as PlaylistHistoryAction,
+      timestamp,
+      trackIds: trackIds ? trackIds.split(',').filter(id => id.trim()) : [],
+      title,
+      description,
+      details: changeDetails,
+    };
+  }
+
+  // ===== CLEAR CACHE =====
+
+  clearCache(): void {
+    this.historyCache.clear();
+    console.log('🗑️ [PLAYLIST-HISTORY] Cache cleared');
+  }
+}
+
+// Export singleton
+export const playlistHistoryService = new PlaylistHistoryService();
+export default playlistHistoryService;
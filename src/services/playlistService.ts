@@ -7,6 +7,24 @@ import { privateKeyToAccount } from 'viem/accounts';
 import { somniaTestnet } from '@/lib/web3-config';
 import { playlistInteractionService } from './playlistInteractionService';
 import { publisherIndexer } from './publisherIndexer';
+import { smartPlaylistService, type SmartPlaylistRules } from './smartPlaylistService';
+import { subgraphService, type SubgraphPlaylist, type SubgraphSong } from './subgraphService';
+import {
+  playlistHistoryService,
+  describePlaylistChange,
+  type PlaylistHistoryAction,
+  type PlaylistHistoryDetails,
+  type PlaylistHistoryEntry,
+} from './playlistHistoryService';
+import {
+  PLAYLIST_FORMAT_INFO,
+  parsePlaylistFile,
+  scoreTrackMatch,
+  serializePlaylist,
+  type PlaylistExportFormat,
+  type PortablePlaylist,
+  type PortableTrack,
+} from '@/utils/playlistFormats';
 
 // ===== TYPES =====
 
@@ -31,6 +49,9 @@ export interface Playlist {
   isCollaborative?: boolean;     // Allow multiple editors
   collaborators?: string[];      // Array of collaborator addresses
   
+  // ===== SMART PLAYLISTS =====
+  rules?: SmartPlaylistRules;    // Tracks are resolved from these rules instead of curated by hand
+  
   // ===== COMPUTED FIELDS =====
   trackCount?: number;
   totalDuration?: number;        // Total playlist duration in seconds
@@ -82,6 +103,30 @@ export interface PlaylistWithScore extends Playlist {
   velocity?: number;
 }
 
+// ===== IMPORT / EXPORT =====
+export type PlaylistImportMatchMethod = 'tokenId' | 'ipfs' | 'fuzzy';
+
+export interface PlaylistImportCandidate {
+  tokenId: string;
+  title: string;
+  artist: string;
+  score: number;                 // 0-1 title/artist similarity
+}
+
+export interface PlaylistImportMatch {
+  track: PortableTrack;
+  tokenId: string | null;        // Matched SongNFT, null = needs review
+  method: PlaylistImportMatchMethod | null;
+  confidence: number;            // 1 for exact token/IPFS matches
+  candidates: PlaylistImportCandidate[];
+}
+
+export interface PlaylistExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
 // ===== PLAYLIST SERVICE =====
 
 class PlaylistService {
@@ -96,6 +141,11 @@ class PlaylistService {
   private cacheTimestamp: number = 0;
   private readonly CACHE_TTL = 30000; // 30 seconds
 
+  // Import matching
+  private readonly IMPORT_CATALOG_SIZE = 1000;
+  private readonly FUZZY_MATCH_THRESHOLD = 0.8;      // Auto-match above this score
+  private readonly FUZZY_CANDIDATE_THRESHOLD = 0.4;  // Offer as a suggestion in review above this score
+
   // ✅ Initialization promise (like V3 service)
   private initPromise: Promise<void> | null = null;
 
@@ -233,7 +283,8 @@ class PlaylistService {
     coverHash: string,
     trackIds: string[],
     isPublic: boolean,
-    walletClient?: any  // ✅ NEW: Optional wallet client for USER wallet
+    walletClient?: any,  // ✅ NEW: Optional wallet client for USER wallet
+    rules?: SmartPlaylistRules
   ): Promise<Playlist> {
     // ✅ Ensure initialized before operation
     await this.ensureInitialized();
@@ -245,6 +296,11 @@ class PlaylistService {
       const walletType = walletClient ? 'USER' : 'SERVER';
       console.log(`📝 [PLAYLIST] Creating playlist: ${title} (${walletType} wallet)`);
 
+      // 🧠 Smart playlists start with their first evaluation
+      const resolvedTrackIds = rules
+        ? await smartPlaylistService.evaluate(rules, owner)
+        : trackIds;
+
       // ⚡ OPTIMISTIC UPDATE - Create playlist object immediately
       const playlist: Playlist = {
         id: playlistId,
@@ -252,11 +308,12 @@ class PlaylistService {
         title,
         description,
         coverHash,
-        trackIds,
+        trackIds: resolvedTrackIds,
         isPublic,
         isDeleted: false,
         timestamp,
-        trackCount: trackIds.length,
+        rules,
+        trackCount: resolvedTrackIds.length,
         likeCount: 0,
         playCount: 0
       };
@@ -277,6 +334,10 @@ class PlaylistService {
       }
       
       await this.writePlaylistToBlockchain(playlist, walletClient);
+      if (rules) {
+        await this.saveSmartRules(playlist, walletClient);
+      }
+      await this.recordHistory(null, playlist, walletClient);
 
       return playlist;
     } catch (error) {
@@ -341,6 +402,97 @@ class PlaylistService {
     }
   }
 
+  // ===== LOAD ALL PLAYLISTS (MULTI-PUBLISHER) =====
+
+  /**
+   * Every playlist record from all known publishers (deleted ones included)
+   */
+  private async loadAllPlaylists(): Promise<Playlist[]> {
+    await this.ensureInitialized();
+
+    // ✅ MULTI-PUBLISHER: Get all known publishers
+    const publishers = publisherIndexer.getAllPublishers();
+    
+    if (publishers.length === 0) {
+      console.warn('⚠️ [PLAYLIST] No publishers indexed, adding server publisher');
+      const serverPublisher = await this.getPublisherAddress();
+      publisherIndexer.addPublisher(serverPublisher);
+      publishers.push(serverPublisher);
+    }
+
+    console.log(`📚 [PLAYLIST] Loading from ${publishers.length} publishers...`);
+
+    // ✅ Prepare decoder
+    const playlistSchema = 'uint64 timestamp, uint256 playlistId, address owner, string title, string description, string coverHash, string trackIds, bool isPublic, bool isDeleted';
+    const decoder = new SchemaEncoder(playlistSchema);
+
+    // ✅ Load playlists from all publishers
+    const allPlaylistsArrays = await Promise.all(
+      publishers.map(async (publisher) => {
+        try {
+          const rawData = await this.sdk!.streams.getAllPublisherDataForSchema(
+            this.schemaId!,
+            publisher as `0x${string}`
+          );
+          
+          if (!rawData || !Array.isArray(rawData)) {
+            return [];
+          }
+
+          // ✅ Decode each item
+          const decodedData = rawData.map((item: any) => {
+            try {
+              // If item is hex string, decode it
+              if (typeof item === 'string' && item.startsWith('0x')) {
+                return decoder.decodeData(item as Hex);
+              }
+              // If already decoded, return as is
+              return item;
+            } catch (error) {
+              console.warn('⚠️ [PLAYLIST] Failed to decode item:', error);
+              return null;
+            }
+          }).filter(item => item !== null);
+
+          return decodedData;
+        } catch (error) {
+          console.warn(`⚠️ [PLAYLIST] Failed to load from publisher ${publisher.slice(0, 10)}:`, error);
+          return [];
+        }
+      })
+    );
+
+    // Merge all playlists from all publishers
+    const allData = allPlaylistsArrays.flat();
+    console.log(`✅ [PLAYLIST] Got ${allData.length} total playlists from all publishers`);
+
+    const playlists: Playlist[] = [];
+
+    if (allData && Array.isArray(allData)) {
+      for (const item of allData) {
+        try {
+          const playlist = this.parsePlaylistData(item);
+          if (playlist) {
+            // ✅ Debug logging
+            console.log(`📋 [PLAYLIST] Parsed:`, {
+              id: playlist.id.slice(0, 10) + '...',
+              owner: playlist.owner.slice(0, 10) + '...',
+              title: playlist.title,
+              tracks: playlist.trackIds.length,
+              isDeleted: playlist.isDeleted
+            });
+            
+            playlists.push(playlist);
+          }
+        } catch (error) {
+          console.warn('⚠️ [PLAYLIST] Failed to parse record:', error);
+        }
+      }
+    }
+
+    return playlists;
+  }
+
   // ===== GET USER PLAYLISTS (MULTI-PUBLISHER SUPPORT) =====
 
   async getUserPlaylists(userAddress: string, forceRefresh: boolean = false): Promise<Playlist[]> {
@@ -358,90 +510,12 @@ class PlaylistService {
     try {
       console.log(`🔍 [PLAYLIST] Loading playlists for user ${userLower.slice(0, 10)}...`);
 
-      // ✅ MULTI-PUBLISHER: Get all known publishers
-      const publishers = publisherIndexer.getAllPublishers();
-      
-      if (publishers.length === 0) {
-        console.warn('⚠️ [PLAYLIST] No publishers indexed, adding server publisher');
-        const serverPublisher = await this.getPublisherAddress();
-        publisherIndexer.addPublisher(serverPublisher);
-        publishers.push(serverPublisher);
-      }
-
-      console.log(`📚 [PLAYLIST] Loading from ${publishers.length} publishers...`);
-
-      // ✅ Prepare decoder
-      const playlistSchema = 'uint64 timestamp, uint256 playlistId, address owner, string title, string description, string coverHash, string trackIds, bool isPublic, bool isDeleted';
-      const decoder = new SchemaEncoder(playlistSchema);
-
-      // ✅ Load playlists from all publishers
-      const allPlaylistsArrays = await Promise.all(
-        publishers.map(async (publisher) => {
-          try {
-            const rawData = await this.sdk!.streams.getAllPublisherDataForSchema(
-              this.schemaId!,
-              publisher as `0x${string}`
-            );
-            
-            if (!rawData || !Array.isArray(rawData)) {
-              return [];
-            }
-
-            // ✅ Decode each item
-            const decodedData = rawData.map((item: any) => {
-              try {
-                // If item is hex string, decode it
-                if (typeof item === 'string' && item.startsWith('0x')) {
-                  return decoder.decodeData(item as Hex);
-                }
-                // If already decoded, return as is
-                return item;
-              } catch (error) {
-                console.warn('⚠️ [PLAYLIST] Failed to decode item:', error);
-                return null;
-              }
-            }).filter(item => item !== null);
-
-            return decodedData;
-          } catch (error) {
-            console.warn(`⚠️ [PLAYLIST] Failed to load from publisher ${publisher.slice(0, 10)}:`, error);
-            return [];
-          }
-        })
-      );
-
-      // Merge all playlists from all publishers
-      const allData = allPlaylistsArrays.flat();
-      console.log(`✅ [PLAYLIST] Got ${allData.length} total playlists from all publishers`);
-
-      const playlists: Playlist[] = [];
-
-      if (allData && Array.isArray(allData)) {
-        for (const item of allData) {
-          try {
-            const playlist = this.parsePlaylistData(item);
-            if (playlist) {
-              // ✅ Debug logging
-              console.log(`📋 [PLAYLIST] Parsed:`, {
-                id: playlist.id.slice(0, 10) + '...',
-                owner: playlist.owner.slice(0, 10) + '...',
-                title: playlist.title,
-                tracks: playlist.trackIds.length,
-                isDeleted: playlist.isDeleted
-              });
-              
-              if (playlist.owner.toLowerCase() === userLower && !playlist.isDeleted) {
-                playlists.push(playlist);
-              }
-            }
-          } catch (error) {
-            console.warn('⚠️ [PLAYLIST] Failed to parse record:', error);
-          }
-        }
-      }
+      const playlists = (await this.loadAllPlaylists())
+        .filter(playlist => playlist.owner.toLowerCase() === userLower && !playlist.isDeleted);
 
       // Sort by timestamp (newest first)
       playlists.sort((a, b) => b.timestamp - a.timestamp);
+      await this.attachSmartRules(playlists);
 
       // Update cache
       this.userPlaylistsCache.set(userLower, playlists);
@@ -477,6 +551,7 @@ class PlaylistService {
           try {
             const playlist = this.parsePlaylistData(item);
             if (playlist && playlist.id === playlistId && !playlist.isDeleted) {
+              await this.attachSmartRules([playlist]);
               this.playlistCache.set(playlistId, playlist);
               return playlist;
             }
@@ -498,7 +573,8 @@ class PlaylistService {
   async updatePlaylist(
     playlistId: string,
     updates: Partial<Omit<Playlist, 'id' | 'owner' | 'timestamp'>>,
-    walletClient?: any  // ✅ NEW: Optional wallet client
+    walletClient?: any,  // ✅ NEW: Optional wallet client
+    historyOverride?: { action: PlaylistHistoryAction; details?: PlaylistHistoryDetails }
   ): Promise<Playlist | null> {
     await this.ensureInitialized();
 
@@ -538,7 +614,11 @@ class PlaylistService {
     // 📤 IMMEDIATE WRITE with specified wallet
     try {
       await this.writePlaylistToBlockchain(updatedPlaylist, walletClient);
+      if (updates.rules) {
+        await this.saveSmartRules(updatedPlaylist, walletClient);
+      }
       console.log(`✅ [PLAYLIST] Playlist updated successfully`);
+      await this.recordHistory(existingPlaylist, updatedPlaylist, walletClient, historyOverride);
     } catch (error) {
       console.error(`❌ [PLAYLIST] Failed to write update to blockchain:`, error);
       // Revert cache on error
@@ -591,6 +671,7 @@ class PlaylistService {
     try {
       await this.writePlaylistToBlockchain(deletedPlaylist, walletClient);
       console.log(`✅ [PLAYLIST] Playlist deleted successfully`);
+      await this.recordHistory(playlist, deletedPlaylist, walletClient);
     } catch (error) {
       console.error(`❌ [PLAYLIST] Failed to write delete to blockchain:`, error);
       throw error;
@@ -652,6 +733,153 @@ class PlaylistService {
     }, walletClient);
   }
 
+  // ===== CHANGE HISTORY =====
+
+  /**
+   * Append the change to the playlist's edit log - a failed log write never fails the edit itself
+   */
+  private async recordHistory(
+    before: Playlist | null,
+    after: Playlist,
+    walletClient?: any,
+    override?: { action: PlaylistHistoryAction; details?: PlaylistHistoryDetails }
+  ): Promise<void> {
+    const change = override
+      ? { action: override.action, details: override.details || {} }
+      : before
+        ? describePlaylistChange(before, after)
+        : { action: 'create' as const, details: {} };
+    if (!change) return;
+
+    // Editor is the connected wallet, and it must be allowed to edit the version it changed
+    const editor = walletClient?.account?.address;
+    if (!editor) {
+      console.warn('⚠️ [PLAYLIST] No connected wallet - history entry skipped');
+      return;
+    }
+    if (!this.canEdit(before || after, editor)) {
+      console.warn('⚠️ [PLAYLIST] Editor is not the owner or a collaborator - history entry skipped');
+      return;
+    }
+
+    try {
+      await playlistHistoryService.recordEntry({
+        playlistId: after.id,
+        action: change.action,
+        trackIds: after.trackIds,
+        title: after.title,
+        description: after.description,
+        details: change.details
+      }, walletClient);
+    } catch (error) {
+      console.warn('⚠️ [PLAYLIST] Failed to record history entry:', error);
+    }
+  }
+
+  /**
+   * Edit log for a playlist, newest first
+   */
+  async getPlaylistHistory(playlistId: string, owner: string, forceRefresh: boolean = false): Promise<PlaylistHistoryEntry[]> {
+    return playlistHistoryService.getHistory(playlistId, owner, forceRefresh);
+  }
+
+  /**
+   * Restore tracks, title and description from an earlier version (logged as a new 'restore' entry)
+   */
+  async restorePlaylistVersion(
+    playlistId: string,
+    entry: PlaylistHistoryEntry,
+    walletClient?: any
+  ): Promise<Playlist | null> {
+    console.log(`⏪ [PLAYLIST] Restoring ${playlistId.slice(0, 10)}... to version from ${new Date(entry.timestamp).toISOString()}`);
+
+    return this.updatePlaylist(playlistId, {
+      trackIds: entry.trackIds,
+      trackCount: entry.trackIds.length,
+      // Older entries may lack a metadata snapshot - keep the current title then
+      ...(entry.title && { title: entry.title, description: entry.description })
+    }, walletClient, {
+      action: 'restore',
+      details: { restoredFrom: entry.timestamp }
+    });
+  }
+
+  // ===== SMART PLAYLISTS =====
+
+  /**
+   * Re-evaluate a smart playlist's rules - the owner's wallet writes the new tracks back,
+   * anyone else only refreshes their cache
+   */
+  async refreshSmartPlaylist(playlist: Playlist, walletClient?: any): Promise<Playlist> {
+    if (!playlist.rules) return playlist;
+
+    try {
+      const trackIds = await smartPlaylistService.evaluate(playlist.rules, playlist.owner);
+      const unchanged = trackIds.length === playlist.trackIds.length &&
+        trackIds.every((id, index) => id === playlist.trackIds[index]);
+      if (unchanged) return playlist;
+
+      const isOwner = walletClient?.account?.address?.toLowerCase() === playlist.owner.toLowerCase();
+      if (isOwner) {
+        const persisted = await this.updatePlaylist(playlist.id, { trackIds, trackCount: trackIds.length }, walletClient);
+        console.log(`🧠 [PLAYLIST] Smart playlist refreshed and saved: ${playlist.title} (${trackIds.length} tracks)`);
+        return persisted || playlist;
+      }
+
+      const refreshed: Playlist = {
+        ...playlist,
+        trackIds,
+        trackCount: trackIds.length,
+        updatedAt: Date.now()
+      };
+
+      this.playlistCache.set(playlist.id, refreshed);
+      const ownerKey = playlist.owner.toLowerCase();
+      const userPlaylists = this.userPlaylistsCache.get(ownerKey);
+      if (userPlaylists) {
+        this.userPlaylistsCache.set(ownerKey, userPlaylists.map(p => p.id === playlist.id ? refreshed : p));
+      }
+
+      console.log(`🧠 [PLAYLIST] Smart playlist refreshed: ${playlist.title} (${trackIds.length} tracks)`);
+      return refreshed;
+    } catch (error) {
+      console.error('❌ [PLAYLIST] Failed to refresh smart playlist:', error);
+      return playlist;
+    }
+  }
+
+  /**
+   * Store rules in their own record, with the wallet that wrote the playlist
+   */
+  private async saveSmartRules(playlist: Playlist, walletClient?: any): Promise<void> {
+    const wallet = walletClient || this.walletClient;
+    if (!playlist.rules || !wallet) {
+      console.warn('⚠️ [PLAYLIST] No wallet to save smart playlist rules');
+      return;
+    }
+
+    await smartPlaylistService.saveRules(playlist.id, playlist.owner, playlist.rules, wallet);
+  }
+
+  /**
+   * Attach saved rules to loaded playlists (only rules saved for the playlist's owner count)
+   */
+  private async attachSmartRules(playlists: Playlist[]): Promise<void> {
+    if (playlists.length === 0) return;
+
+    try {
+      const allRules = await smartPlaylistService.getAllRules();
+      playlists.forEach(playlist => {
+        const stored = allRules.get(playlist.id);
+        if (stored && stored.owner === playlist.owner.toLowerCase()) {
+          playlist.rules = stored.rules;
+        }
+      });
+    } catch (error) {
+      console.warn('⚠️ [PLAYLIST] Smart playlist rules unavailable:', error);
+    }
+  }
+
   // ===== PARSE HELPER (V3 PATTERN) =====
 
   private parsePlaylistData(item: any): Playlist | null {
@@ -1162,13 +1390,77 @@ class PlaylistService {
     return velocity;
   }
 
+  /**
+   * Key linking an indexed on-chain playlist to its datastream record (same owner, same title)
+   */
+  private playlistMatchKey(owner: string, title: string): string {
+    return `${owner.toLowerCase()}:${title.trim().toLowerCase()}`;
+  }
+
+  /**
+   * Datastream playlist with the likes and collaborators indexed for its on-chain twin
+   */
+  private withIndexedStats(playlist: Playlist, indexed: SubgraphPlaylist): Playlist {
+    const collaborators = (indexed.collaborators || [])
+      .filter(entry => entry.isActive)
+      .map(entry => entry.collaborator.id);
+
+    return {
+      ...playlist,
+      likeCount: Number(indexed.likeCount || 0),
+      isCollaborative: playlist.isCollaborative || collaborators.length > 0,
+      collaborators: Array.from(new Set([...(playlist.collaborators || []), ...collaborators]))
+    };
+  }
+
   /**
    * Get trending playlists
+   * ✅ Ranked from indexed on-chain likes and collaborators (falls back to datastream stats)
    */
   async getTrendingPlaylists(limit: number = 20): Promise<PlaylistWithScore[]> {
     try {
       console.log(`🔥 [PLAYLIST] Getting trending playlists (limit: ${limit})`);
 
+      const weekAgo = Math.floor((Date.now() - 7 * 24 * 60 * 60 * 1000) / 1000);
+      const indexed = await subgraphService.getTrendingPlaylists(Math.max(limit * 5, 100), weekAgo);
+
+      // Indexed ids are PlaylistManager ids - rank the datastream playlists they belong to, so results open like any other playlist
+      const datastreamPlaylists = indexed.length > 0
+        ? (await this.loadAllPlaylists()).filter(playlist => playlist.isPublic && !playlist.isDeleted)
+        : [];
+      const byOwnerAndTitle = new Map(
+        datastreamPlaylists.map(playlist => [this.playlistMatchKey(playlist.owner, playlist.title), playlist])
+      );
+
+      const indexedWithScores: PlaylistWithScore[] = indexed.flatMap(entry => {
+        const match = byOwnerAndTitle.get(this.playlistMatchKey(entry.owner.id, entry.name));
+        if (!match) return [];
+
+        const playlist = this.withIndexedStats(match, entry);
+        return [{
+          ...playlist,
+          trendingScore: this.calculateTrendingScore(playlist),
+          velocity: (entry.recentLikes?.length || 0) / 7  // Likes per day over the last week
+        }];
+      });
+
+      if (indexedWithScores.length > 0) {
+        // Sort by trending score, recent likes break ties
+        indexedWithScores.sort((a, b) =>
+          (b.trendingScore || 0) - (a.trendingScore || 0) || (b.velocity || 0) - (a.velocity || 0)
+        );
+
+        const trending = indexedWithScores.slice(0, limit);
+        trending.forEach((playlist, index) => {
+          playlist.trendingRank = index + 1;
+        });
+
+        console.log(`✅ [PLAYLIST] Found ${trending.length} trending playlists (indexed)`);
+        return trending;
+      }
+
+      console.log('⚠️ [PLAYLIST] No indexed playlists matched, falling back to datastream stats');
+
       // ✅ Ensure initialized
       await this.ensureInitialized();
 
@@ -1406,6 +1698,111 @@ class PlaylistService {
       return [];
     }
   }
+
+  // ===== IMPORT / EXPORT =====
+
+  private getSongArtistNames(song: SubgraphSong): string[] {
+    return [song.artist?.displayName, song.artist?.username].filter(Boolean) as string[];
+  }
+
+  /**
+   * Export a playlist (own, followed or collaborative) to M3U8, XSPF or HiBeats JSON
+   */
+  async exportPlaylist(playlist: Playlist, format: PlaylistExportFormat): Promise<PlaylistExportFile> {
+    console.log(`📤 [PLAYLIST] Exporting ${playlist.title} as ${format}`);
+
+    const songs = await Promise.all(
+      playlist.trackIds.map(trackId => subgraphService.getSongById(trackId).catch(() => null))
+    );
+
+    const tracks: PortableTrack[] = playlist.trackIds.map((trackId, index) => {
+      const song = songs[index];
+      if (!song) {
+        return { tokenId: Number(trackId) || undefined, title: `Track #${trackId}`, artist: '', duration: 0 };
+      }
+      return {
+        tokenId: Number(song.tokenId),
+        title: song.title,
+        artist: this.getSongArtistNames(song)[0] || song.artist?.id || '',
+        duration: Number(song.duration) || 0,
+        audioHash: song.audioHash?.replace('ipfs://', ''),
+        coverHash: song.coverHash?.replace('ipfs://', ''),
+      };
+    });
+
+    const portable: PortablePlaylist = {
+      title: playlist.title,
+      description: playlist.description,
+      coverHash: playlist.coverHash || undefined,
+      isPublic: playlist.isPublic,
+      owner: playlist.owner,
+      isCollaborative: playlist.isCollaborative || false,
+      collaborators: playlist.collaborators || [],
+      tracks,
+    };
+
+    const info = PLAYLIST_FORMAT_INFO[format];
+    const safeName = playlist.title.replace(/[^a-z0-9-_ ]+/gi, '').trim().replace(/\s+/g, '-') || 'playlist';
+
+    return {
+      filename: `${safeName}.${info.extension}`,
+      mimeType: info.mimeType,
+      content: serializePlaylist(portable, format),
+    };
+  }
+
+  /**
+   * Parse an M3U/M3U8, XSPF or HiBeats JSON file
+   */
+  parseImportFile(content: string, filename: string): PortablePlaylist {
+    return parsePlaylistFile(content, filename);
+  }
+
+  /**
+   * Match imported tracks to minted SongNFTs - token ID, then IPFS audio hash, then fuzzy title/artist
+   */
+  async matchImportedTracks(tracks: PortableTrack[]): Promise<PlaylistImportMatch[]> {
+    const catalog = await subgraphService.getAllSongs(this.IMPORT_CATALOG_SIZE, 0);
+    const byTokenId = new Map(catalog.map(song => [String(song.tokenId), song]));
+    const byAudioHash = new Map(
+      catalog
+        .filter(song => song.audioHash)
+        .map(song => [song.audioHash.replace('ipfs://', ''), song])
+    );
+
+    const matches = tracks.map((track): PlaylistImportMatch => {
+      if (track.tokenId && byTokenId.has(String(track.tokenId))) {
+        return { track, tokenId: String(track.tokenId), method: 'tokenId', confidence: 1, candidates: [] };
+      }
+
+      const hashMatch = track.audioHash ? byAudioHash.get(track.audioHash) : undefined;
+      if (hashMatch) {
+        return { track, tokenId: String(hashMatch.tokenId), method: 'ipfs', confidence: 1, candidates: [] };
+      }
+
+      const candidates = catalog
+        .map(song => ({
+          tokenId: String(song.tokenId),
+          title: song.title,
+          artist: this.getSongArtistNames(song)[0] || '',
+          score: scoreTrackMatch(track, { title: song.title, artists: this.getSongArtistNames(song) }),
+        }))
+        .filter(candidate => candidate.score >= this.FUZZY_CANDIDATE_THRESHOLD)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 5);
+
+      const best = candidates[0];
+      if (best && best.score >= this.FUZZY_MATCH_THRESHOLD) {
+        return { track, tokenId: best.tokenId, method: 'fuzzy', confidence: best.score, candidates };
+      }
+
+      return { track, tokenId: null, method: null, confidence: best?.score || 0, candidates };
+    });
+
+    const matched = matches.filter(match => match.tokenId).length;
+    console.log(`📥 [PLAYLIST] Import matched ${matched}/${tracks.length} tracks`);
+    return matches;
+  }
 }
 
 // Export singleton
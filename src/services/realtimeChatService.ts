@@ -1,38 +1,63 @@
-import { advancedDatastreamService } from '@/services/somniaDatastreamService.advanced';
-
-export type ChatDeliveryStatus = 'pending' | 'sent' | 'received';
+import { somniaDatastreamServiceV3 } from '@/services/somniaDatastreamService.v3';
+import { dmEncryptionService } from '@/services/dmEncryptionService';
+import {
+  buildConversations,
+  getConversationPeer,
+  DirectMessageType,
+  type ConversationSummary,
+  type DirectMessageData,
+} from '@/config/somniaDataStreams.v3';
+
+// pending -> sent (written to datastream) -> read (peer read receipt)
+// received = incoming message from the peer
+export type ChatDeliveryStatus = 'pending' | 'sent' | 'received' | 'read';
 
 export interface LiveChatMessage {
   id: string;
   tempId?: string;
   conversationId: string;
   sender: string;
+  recipient?: string;
   content: string;
   timestamp: number;
   status: ChatDeliveryStatus;
+  missingKeyVersion?: number; // encrypted with a key version that isn't on this device
 }
 
+// Record after decryption - content is plaintext (or a placeholder when the key is missing)
+type DecryptedMessage = DirectMessageData & { missingKeyVersion?: number };
+
+const INBOX_POLL_INTERVAL = 4000; // 4 seconds
+const INBOX_POLL_MAX_INTERVAL = 30000; // idle inboxes back off up to 30 seconds
+
 class RealtimeChatService {
   private initialized = false;
   private listeners: Map<string, Set<(message: LiveChatMessage) => void>> = new Map();
   private cache: Map<string, LiveChatMessage[]> = new Map();
   private broadcast?: BroadcastChannel;
   private latencySamples: number[] = [];
-
-  async initialize(walletClient?: any): Promise<void> {
+  // Read receipts written locally but not yet visible in the datastream
+  private localReads: Map<string, number> = new Map();
+  // Decrypted content by message id - envelopes never change once written
+  private plaintextCache: Map<number, string> = new Map();
+  // Pending inbox polls to run right away (after sending, or when the tab becomes visible)
+  private inboxWakers: Set<() => void> = new Set();
+
+  async initialize(): Promise<void> {
     if (this.initialized) return;
 
     try {
-      await advancedDatastreamService.connect(walletClient);
+      await somniaDatastreamServiceV3.connect();
     } catch (error) {
       console.error('❌ [CHAT-REALTIME] Failed to initialize datastream, continuing with local realtime only', error);
     }
 
+    // Fan out to other tabs of the same browser so they don't wait for the next poll
     if (typeof BroadcastChannel !== 'undefined') {
       this.broadcast = new BroadcastChannel('hibeats-chat');
       this.broadcast.addEventListener('message', (event) => {
         const incoming = event.data as LiveChatMessage;
-        this.emit(incoming.conversationId, { ...incoming, status: 'sent' });
+        this.emit(incoming.conversationId, incoming);
       });
     }
 
@@ -81,12 +106,14 @@ class RealtimeChatService {
   async sendMessage(conversationId: string, sender: string, content: string): Promise<LiveChatMessage> {
     await this.initialize();
 
+    const recipient = getConversationPeer(conversationId, sender);
     const tempId = `temp-${Date.now()}-${Math.random().toString(16).slice(2)}`;
     const pendingMessage: LiveChatMessage = {
       id: tempId,
       tempId,
       conversationId,
       sender,
+      recipient,
       content,
       timestamp: Date.now(),
       status: 'pending'
@@ -96,30 +123,168 @@ class RealtimeChatService {
 
     const startTime = typeof performance !== 'undefined' ? performance.now() : Date.now();
 
-    const confirmDelivery = () => {
+    try {
+      // Only the encrypted envelope leaves this device
+      const encryptedContent = await dmEncryptionService.encryptMessage(sender, recipient, content);
+      const written = await somniaDatastreamServiceV3.sendDirectMessage({
+        conversationId,
+        sender,
+        recipient,
+        content: encryptedContent,
+        timestamp: pendingMessage.timestamp,
+      }, (record) => dmEncryptionService.signRecord(record));
+      this.plaintextCache.set(written.id, content);
+
       const now = typeof performance !== 'undefined' ? performance.now() : Date.now();
       this.latencySamples.push(now - startTime);
 
       const delivered: LiveChatMessage = {
         ...pendingMessage,
-        id: `msg-${Date.now()}`,
+        id: written.id.toString(),
         status: 'sent'
       };
 
       this.emit(conversationId, delivered);
       this.broadcast?.postMessage(delivered);
+      this.inboxWakers.forEach((wake) => wake());
+      return delivered;
+    } catch (error) {
+      console.error('❌ [CHAT-REALTIME] Failed to send message', error);
+      this.discard(conversationId, tempId);
+      throw error;
+    }
+  }
+
+  /**
+   * Load the inbox of a user from the datastream and sync every conversation cache
+   */
+  async loadConversations(userAddress: string): Promise<ConversationSummary[]> {
+    await this.initialize();
+
+    const allRecords = await somniaDatastreamServiceV3.getDirectMessagesForUser(userAddress);
+    // Records without a valid proof from their sender are forged - never show or count them
+    const verified = await Promise.all(allRecords.map((record) => dmEncryptionService.verifyRecord(record)));
+    const encryptedRecords = allRecords.filter((_, index) => verified[index]);
+    const records = await Promise.all(encryptedRecords.map((record) => this.decryptRecord(record, userAddress)));
+    const conversations = buildConversations(records, userAddress).map((summary) => {
+      const localRead = this.localReads.get(summary.conversationId) ?? 0;
+      if (localRead <= summary.lastReadByMe) return summary;
+
+      const me = userAddress.toLowerCase();
+      return {
+        ...summary,
+        lastReadByMe: localRead,
+        unreadCount: summary.messages.filter(
+          (message) => message.sender.toLowerCase() !== me && message.timestamp > localRead
+        ).length,
+      };
+    });
+
+    conversations.forEach((summary) => {
+      summary.messages.forEach((message) => {
+        const liveMessage = this.toLiveMessage(message, summary, userAddress);
+        const cachedMessages = this.cache.get(summary.conversationId) ?? [];
+        const cached = cachedMessages.find((item) => item.id === liveMessage.id);
+        // Our own message still being confirmed - sendMessage will swap it in
+        const isPending = cachedMessages.some(
+          (item) => item.status === 'pending' && item.timestamp === liveMessage.timestamp && item.sender === liveMessage.sender
+        );
+        // Only notify listeners about new messages and status changes (e.g. read receipts)
+        if (!isPending && (!cached || cached.status !== liveMessage.status || cached.content !== liveMessage.content)) {
+          this.emit(summary.conversationId, liveMessage);
+        }
+      });
+    });
+
+    return conversations;
+  }
+
+  /**
+   * Poll the inbox of a user, returns an unsubscribe function
+   * Polls back off while nothing changes and pause while the tab is hidden
+   */
+  watchInbox(userAddress: string, callback: (conversations: ConversationSummary[]) => void): () => void {
+    let active = true;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let delay = INBOX_POLL_INTERVAL;
+    let lastSnapshot = '';
+
+    const schedule = () => {
+      if (!active) return;
+      if (timer) clearTimeout(timer);
+      timer = typeof document !== 'undefined' && document.hidden ? null : setTimeout(poll, delay);
+    };
+
+    const poll = async () => {
+      timer = null;
+      try {
+        const conversations = await this.loadConversations(userAddress);
+        if (!active) return;
+
+        const snapshot = conversations
+          .map((summary) => `${summary.conversationId}:${summary.messages.length}:${summary.lastReadByMe}:${summary.lastReadByPeer}`)
+          .join('|');
+        delay = snapshot === lastSnapshot ? Math.min(delay * 2, INBOX_POLL_MAX_INTERVAL) : INBOX_POLL_INTERVAL;
+        lastSnapshot = snapshot;
+        callback(conversations);
+      } catch (error) {
+        console.warn('⚠️ [CHAT-REALTIME] Failed to load conversations', error);
+      }
+      schedule();
     };
 
+    const wake = () => {
+      delay = INBOX_POLL_INTERVAL;
+      schedule();
+    };
+    const handleVisibility = () => {
+      if (!document.hidden) wake();
+    };
+
+    this.inboxWakers.add(wake);
+    if (typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', handleVisibility);
+    }
+    void poll();
+
+    return () => {
+      active = false;
+      if (timer) clearTimeout(timer);
+      this.inboxWakers.delete(wake);
+      if (typeof document !== 'undefined') {
+        document.removeEventListener('visibilitychange', handleVisibility);
+      }
+    };
+  }
+
+  /**
+   * Send a read receipt for the latest message of the peer, if it isn't read yet
+   */
+  async markAsRead(summary: ConversationSummary, reader: string): Promise<void> {
+    const latestIncoming = [...summary.messages]
+      .reverse()
+      .find((message) => message.sender.toLowerCase() !== reader.toLowerCase());
+
+    if (!latestIncoming) return;
+    // Receipts are signed with the reader's DM key - nothing to send before it's unlocked
+    if (!dmEncryptionService.hasKey(reader)) return;
+
+    const alreadyRead = Math.max(summary.lastReadByMe, this.localReads.get(summary.conversationId) ?? 0);
+    if (latestIncoming.timestamp <= alreadyRead) return;
+
+    this.localReads.set(summary.conversationId, latestIncoming.timestamp);
+
     try {
-      await advancedDatastreamService.connect();
-      // In a real deployment we would publish the message to the chain or a websocket server here.
+      await somniaDatastreamServiceV3.markConversationRead(
+        reader,
+        summary.peer,
+        latestIncoming.timestamp,
+        (record) => dmEncryptionService.signRecord(record)
+      );
     } catch (error) {
-      console.warn('⚠️ [CHAT-REALTIME] Falling back to local realtime delivery', error);
-    } finally {
-      setTimeout(confirmDelivery, 10);
+      console.warn('⚠️ [CHAT-REALTIME] Failed to send read receipt', error);
+      this.localReads.set(summary.conversationId, alreadyRead);
     }
-
-    return pendingMessage;
   }
 
   getLatencyStats(): { average: number; latest: number } | null {
@@ -135,6 +300,64 @@ class RealtimeChatService {
     };
   }
 
+  private async decryptRecord(
+    record: DirectMessageData,
+    userAddress: string
+  ): Promise<DecryptedMessage> {
+    if (record.messageType !== DirectMessageType.TEXT) return record;
+
+    const cached = this.plaintextCache.get(record.id);
+    if (cached !== undefined) return { ...record, content: cached };
+
+    try {
+      const plaintext = await dmEncryptionService.decryptMessage(userAddress, record.content);
+      if (plaintext === null) {
+        return {
+          ...record,
+          content: '🔒 Encrypted with a key that is not on this device',
+          missingKeyVersion: dmEncryptionService.getRequiredKeyVersion(userAddress, record.content) ?? undefined,
+        };
+      }
+
+      this.plaintextCache.set(record.id, plaintext);
+      return { ...record, content: plaintext };
+    } catch (error) {
+      console.warn('⚠️ [CHAT-REALTIME] Failed to decrypt message', record.id, error);
+      return { ...record, content: '🔒 Unable to decrypt this message' };
+    }
+  }
+
+  private toLiveMessage(
+    message: DirectMessageData,
+    summary: ConversationSummary,
+    userAddress: string
+  ): LiveChatMessage {
+    const isMine = message.sender.toLowerCase() === userAddress.toLowerCase();
+    let status: ChatDeliveryStatus = 'received';
+    if (isMine) {
+      status = message.timestamp <= summary.lastReadByPeer ? 'read' : 'sent';
+    }
+
+    return {
+      id: message.id.toString(),
+      conversationId: summary.conversationId,
+      sender: message.sender,
+      recipient: message.recipient,
+      content: message.content,
+      timestamp: message.timestamp,
+      status,
+      missingKeyVersion: (message as DecryptedMessage).missingKeyVersion
+    };
+  }
+
+  private discard(conversationId: string, tempId: string): void {
+    const existing = this.cache.get(conversationId) ?? [];
+    this.cache.set(
+      conversationId,
+      existing.filter((item) => item.tempId !== tempId)
+    );
+  }
+
   private emit(conversationId: string, message: LiveChatMessage): void {
     const existing = this.cache.get(conversationId) ?? [];
     const updated = [...existing];
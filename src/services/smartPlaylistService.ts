@@ -0,0 +1,433 @@
+// Smart Playlist Service
+// Rule-based playlists resolved from subgraph songs plus datastream play/like aggregates
+
+import { SDK, SchemaEncoder } from '@somnia-chain/streams';
+import { createPublicClient, formatEther, http, keccak256, toBytes, type Hex, type WalletClient } from 'viem';
+import { somniaTestnet } from '@/lib/web3-config';
+import { subgraphService, type SubgraphSong } from './subgraphService';
+import { somniaDatastreamServiceV3 } from './somniaDatastreamService.v3';
+import { publisherIndexer } from './publisherIndexer';
+import { ContentType, aggregateInteractions } from '@/config/somniaDataStreams.v3';
+
+// ===== TYPES =====
+
+export type SmartRuleField =
+  | 'genre'
+  | 'artist'
+  | 'title'
+  | 'mintedAt'
+  | 'plays'
+  | 'likes'
+  | 'price'
+  | 'likedByMe'
+  | 'ownedByMe';
+
+export type SmartRuleOperator =
+  | 'is'
+  | 'isNot'
+  | 'contains'
+  | 'gt'
+  | 'lt'
+  | 'inLastDays'
+  | 'notInLastDays';
+
+export interface SmartRuleCondition {
+  field: SmartRuleField;
+  operator: SmartRuleOperator;
+  value: string | number | boolean;
+}
+
+export interface SmartPlaylistRules {
+  match: 'all' | 'any';
+  conditions: SmartRuleCondition[];
+  sortBy?: 'newest' | 'plays' | 'likes' | 'price';
+  limit?: number;
+}
+
+interface SongSnapshot {
+  song: SubgraphSong;
+  tokenId: number;
+  plays: number;
+  likes: number;
+  likedByOwner: boolean;
+}
+
+interface CatalogSnapshot {
+  owner: string;
+  timestamp: number;
+  songs: SongSnapshot[];
+}
+
+type DecodedField = { name?: string; value?: unknown };
+
+interface StoredRules {
+  playlistId: string;
+  owner: string;
+  rules: SmartPlaylistRules;
+  timestamp: number;
+}
+
+// ===== CONSTANTS =====
+
+export const SMART_RULE_FIELDS: Record<SmartRuleField, {
+  label: string;
+  type: 'text' | 'number' | 'days' | 'boolean';
+  operators: SmartRuleOperator[];
+}> = {
+  genre: { label: 'Genre', type: 'text', operators: ['is', 'isNot', 'contains'] },
+  artist: { label: 'Artist', type: 'text', operators: ['is', 'isNot', 'contains'] },
+  title: { label: 'Title', type: 'text', operators: ['contains', 'is'] },
+  mintedAt: { label: 'Minted', type: 'days', operators: ['inLastDays', 'notInLastDays'] },
+  plays: { label: 'Plays', type: 'number', operators: ['gt', 'lt'] },
+  likes: { label: 'Likes', type: 'number', operators: ['gt', 'lt'] },
+  price: { label: 'Price (STT)', type: 'number', operators: ['gt', 'lt'] },
+  likedByMe: { label: 'Liked by me', type: 'boolean', operators: ['is'] },
+  ownedByMe: { label: 'Owned by me', type: 'boolean', operators: ['is'] },
+};
+
+export const SMART_RULE_OPERATOR_LABELS: Record<SmartRuleOperator, string> = {
+  is: 'is',
+  isNot: 'is not',
+  contains: 'contains',
+  gt: 'more than',
+  lt: 'less than',
+  inLastDays: 'in the last (days)',
+  notInLastDays: 'before the last (days)',
+};
+
+// Rules are their own record (one stream entry per playlist) - the playlist keeps only its resolved trackIds
+const RULES_SCHEMA = 'uint64 timestamp, string playlistId, address owner, string rules';
+
+const MAX_CATALOG_SONGS = 1000;
+const DEFAULT_LIMIT = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Human readable summary, e.g. "Genre is lo-fi AND Plays more than 100"
+ */
+export const describeSmartRules = (rules: SmartPlaylistRules): string => {
+  const parts = rules.conditions.map(condition => {
+    const field = SMART_RULE_FIELDS[condition.field];
+    if (field.type === 'boolean') {
+      return condition.value ? field.label : `Not ${field.label.toLowerCase()}`;
+    }
+    return `${field.label} ${SMART_RULE_OPERATOR_LABELS[condition.operator]} ${condition.value}`;
+  });
+  return parts.join(rules.match === 'all' ? ' AND ' : ' OR ');
+};
+
+// ===== EVALUATION =====
+
+const matchesText = (actual: string, operator: SmartRuleOperator, expected: string): boolean => {
+  const a = actual.toLowerCase().trim();
+  const e = expected.toLowerCase().trim();
+  switch (operator) {
+    case 'is': return a === e;
+    case 'isNot': return a !== e;
+    case 'contains': return a.includes(e);
+    default: return false;
+  }
+};
+
+const matchesNumber = (actual: number, operator: SmartRuleOperator, expected: number): boolean => {
+  switch (operator) {
+    case 'gt': return actual > expected;
+    case 'lt': return actual < expected;
+    default: return false;
+  }
+};
+
+class SmartPlaylistService {
+  private sdk: SDK | null = null;
+  private publicClient: any = null;
+  private rulesSchemaId: Hex | null = null;
+
+  private snapshot: CatalogSnapshot | null = null;
+  private readonly CACHE_TTL = 60000; // 1 minute - several playlists refresh against one snapshot
+  private rulesCache: { rules: Map<string, StoredRules>; timestamp: number } | null = null;
+  private readonly RULES_CACHE_TTL = 30000; // 30 seconds (same as playlists)
+
+  private initPromise: Promise<void> | null = null;
+
+  constructor() {
+    this.initPromise = this.initialize();
+  }
+
+  // ===== INITIALIZATION =====
+
+  private async initialize(): Promise<void> {
+    try {
+      const RPC_URL = import.meta.env.VITE_SOMNIA_RPC_URL || 'https://dream-rpc.somnia.network';
+
+      this.publicClient = createPublicClient({
+        chain: somniaTestnet,
+        transport: http(RPC_URL),
+      });
+
+      this.sdk = new SDK({ public: this.publicClient });
+
+      const envSchemaId = import.meta.env.VITE_SMART_PLAYLIST_RULES_SCHEMA_ID;
+      this.rulesSchemaId = envSchemaId
+        ? envSchemaId as `0x${string}`
+        : await this.sdk.streams.computeSchemaId(RULES_SCHEMA);
+
+      console.log(`🔑 [SMART-PLAYLIST] Rules schema ID: ${this.rulesSchemaId}`);
+    } catch (error) {
+      console.error('❌ [SMART-PLAYLIST] Failed to initialize:', error);
+      throw error;
+    }
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (this.initPromise) {
+      await this.initPromise;
+    }
+    if (!this.sdk || !this.rulesSchemaId) {
+      throw new Error('SDK not initialized');
+    }
+  }
+
+  // ===== RULES STORAGE =====
+
+  /**
+   * Save a playlist's rules - written with the same wallet as the playlist record
+   */
+  async saveRules(playlistId: string, owner: string, rules: SmartPlaylistRules, walletClient: WalletClient): Promise<void> {
+    await this.ensureInitialized();
+
+    const timestamp = Date.now();
+    const encoder = new SchemaEncoder(RULES_SCHEMA);
+    const encodedData = encoder.encodeData([
+      { name: 'timestamp', value: timestamp.toString(), type: 'uint64' },
+      { name: 'playlistId', value: playlistId, type: 'string' },
+      { name: 'owner', value: owner, type: 'address' },
+      { name: 'rules', value: JSON.stringify(rules), type: 'string' }
+    ]);
+
+    // ✅ One stream ID per playlist - saving again replaces the rules
+    const streamId = keccak256(toBytes(`smart_playlist_rules_${playlistId}`));
+
+    const sdk = new SDK({ public: this.publicClient, wallet: walletClient });
+    await sdk.streams.set([{
+      id: streamId,
+      schemaId: this.rulesSchemaId!,
+      data: encodedData as Hex
+    }]);
+
+    this.rulesCache?.rules.set(playlistId, { playlistId, owner: owner.toLowerCase(), rules, timestamp });
+    console.log(`🧠 [SMART-PLAYLIST] Rules saved for ${playlistId.slice(0, 10)}...`);
+  }
+
+  /**
+   * Latest rules of every smart playlist, keyed by playlist ID
+   */
+  async getAllRules(forceRefresh: boolean = false): Promise<Map<string, StoredRules>> {
+    if (!forceRefresh && this.rulesCache && Date.now() - this.rulesCache.timestamp < this.RULES_CACHE_TTL) {
+      return this.rulesCache.rules;
+    }
+
+    await this.ensureInitialized();
+
+    try {
+      const decoder = new SchemaEncoder(RULES_SCHEMA);
+      const publishers = publisherIndexer.getAllPublishers();
+      const results = await Promise.all(
+        publishers.map(publisher =>
+          this.sdk!.streams.getAllPublisherDataForSchema(this.rulesSchemaId!, publisher as `0x${string}`).catch(() => [])
+        )
+      );
+
+      const rules = new Map<string, StoredRules>();
+      results
+        .flatMap(result => (Array.isArray(result) ? result : []))
+        .forEach(item => {
+          try {
+            const decoded: unknown = typeof item === 'string' && item.startsWith('0x')
+              ? decoder.decodeData(item as Hex)
+              : item;
+            const stored = this.parseRules(decoded);
+            const existing = stored && rules.get(stored.playlistId);
+            if (stored && (!existing || stored.timestamp > existing.timestamp)) {
+              rules.set(stored.playlistId, stored);
+            }
+          } catch {
+            // Skip invalid records
+          }
+        });
+
+      this.rulesCache = { rules, timestamp: Date.now() };
+      console.log(`🧠 [SMART-PLAYLIST] Loaded rules for ${rules.size} playlists`);
+      return rules;
+    } catch (error) {
+      console.error('❌ [SMART-PLAYLIST] Failed to load rules:', error);
+      return this.rulesCache?.rules || new Map();
+    }
+  }
+
+  private parseRules(item: unknown): StoredRules | null {
+    const extractValue = (val: unknown): unknown => {
+      if (val && typeof val === 'object' && 'value' in val) {
+        return extractValue(val.value);
+      }
+      return val;
+    };
+
+    if (!Array.isArray(item)) return null;
+    const fields = item as DecodedField[];
+    const field = (name: string) => extractValue(fields.find(entry => entry?.name === name)?.value);
+
+    const playlistId = String(field('playlistId') || '');
+    const owner = String(field('owner') || '').toLowerCase();
+    if (!playlistId || !owner) return null;
+
+    const rules = JSON.parse(String(field('rules') || '{}'));
+    if (!Array.isArray(rules.conditions)) return null;
+
+    return { playlistId, owner, rules, timestamp: Number(field('timestamp')) || 0 };
+  }
+
+  // ===== CATALOG =====
+
+  /**
+   * Load songs with play/like aggregates, as seen by `owner` (for liked/owned rules)
+   */
+  private async getCatalog(owner: string): Promise<SongSnapshot[]> {
+    const ownerLower = owner.toLowerCase();
+    if (
+      this.snapshot &&
+      this.snapshot.owner === ownerLower &&
+      Date.now() - this.snapshot.timestamp < this.CACHE_TTL
+    ) {
+      return this.snapshot.songs;
+    }
+
+    const songs = await subgraphService.getAllSongs(MAX_CATALOG_SONGS, 0);
+    const tokenIds = songs.map(song => Number(song.tokenId));
+
+    const [playCounts, likeStats] = await Promise.all([
+      somniaDatastreamServiceV3.getPlayCountsForTokens(tokenIds).catch(error => {
+        console.warn('⚠️ [SMART-PLAYLIST] Play counts unavailable:', error);
+        return new Map<number, number>();
+      }),
+      this.getSongLikeStats(ownerLower).catch(error => {
+        console.warn('⚠️ [SMART-PLAYLIST] Like stats unavailable:', error);
+        return new Map<number, { likes: number; likedByOwner: boolean }>();
+      }),
+    ]);
+
+    const snapshotSongs = songs.map(song => {
+      const tokenId = Number(song.tokenId);
+      const likes = likeStats.get(tokenId);
+      return {
+        song,
+        tokenId,
+        plays: playCounts.get(tokenId) || 0,
+        likes: likes?.likes || 0,
+        likedByOwner: likes?.likedByOwner || false,
+      };
+    });
+
+    this.snapshot = { owner: ownerLower, timestamp: Date.now(), songs: snapshotSongs };
+    return snapshotSongs;
+  }
+
+  /**
+   * Songs are liked through their music posts - aggregate post likes per SongNFT token
+   */
+  private async getSongLikeStats(owner: string): Promise<Map<number, { likes: number; likedByOwner: boolean }>> {
+    const posts = await somniaDatastreamServiceV3.getAllPosts();
+    const musicPosts = posts.filter(post =>
+      post.contentType === ContentType.MUSIC && post.nftTokenId > 0 && !post.isDeleted
+    );
+    if (musicPosts.length === 0) return new Map();
+
+    const interactions = await somniaDatastreamServiceV3.getAllInteractions();
+    const statsMap = aggregateInteractions(interactions, owner);
+
+    const likeStats = new Map<number, { likes: number; likedByOwner: boolean }>();
+    musicPosts.forEach(post => {
+      const stats = statsMap.get(post.id);
+      if (!stats) return;
+      const entry = likeStats.get(post.nftTokenId) || { likes: 0, likedByOwner: false };
+      entry.likes += stats.likes;
+      entry.likedByOwner = entry.likedByOwner || stats.userLiked;
+      likeStats.set(post.nftTokenId, entry);
+    });
+
+    return likeStats;
+  }
+
+  private matchesCondition(item: SongSnapshot, condition: SmartRuleCondition, owner: string): boolean {
+    const { song } = item;
+
+    switch (condition.field) {
+      case 'genre':
+        return matchesText(song.genre || '', condition.operator, String(condition.value));
+      case 'title':
+        return matchesText(song.title || '', condition.operator, String(condition.value));
+      case 'artist': {
+        const expected = String(condition.value).replace(/^@/, '');
+        const candidates = [song.artist?.username, song.artist?.displayName, song.artist?.id].filter(Boolean) as string[];
+        return condition.operator === 'isNot'
+          ? candidates.every(candidate => matchesText(candidate, 'isNot', expected))
+          : candidates.some(candidate => matchesText(candidate, condition.operator, expected));
+      }
+      case 'mintedAt': {
+        const ageDays = (Date.now() - Number(song.createdAt) * 1000) / DAY_MS;
+        const days = Number(condition.value);
+        return condition.operator === 'inLastDays' ? ageDays <= days : ageDays > days;
+      }
+      case 'plays':
+        return matchesNumber(item.plays, condition.operator, Number(condition.value));
+      case 'likes':
+        return matchesNumber(item.likes, condition.operator, Number(condition.value));
+      case 'price':
+        return matchesNumber(parseFloat(formatEther(BigInt(song.price || '0'))), condition.operator, Number(condition.value));
+      case 'likedByMe':
+        return item.likedByOwner === Boolean(condition.value);
+      case 'ownedByMe':
+        return (song.owner?.id?.toLowerCase() === owner) === Boolean(condition.value);
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Resolve rules to SongNFT token IDs ("me" is the playlist owner, so every viewer sees the same tracks)
+   */
+  async evaluate(rules: SmartPlaylistRules, owner: string): Promise<string[]> {
+    const ownerLower = owner.toLowerCase();
+    const catalog = await this.getCatalog(ownerLower);
+
+    const matched = catalog.filter(item => {
+      if (rules.conditions.length === 0) return true;
+      const results = rules.conditions.map(condition => this.matchesCondition(item, condition, ownerLower));
+      return rules.match === 'all' ? results.every(Boolean) : results.some(Boolean);
+    });
+
+    const sortBy = rules.sortBy || 'newest';
+    matched.sort((a, b) => {
+      switch (sortBy) {
+        case 'plays': return b.plays - a.plays;
+        case 'likes': return b.likes - a.likes;
+        case 'price': return Number(BigInt(b.song.price || '0') - BigInt(a.song.price || '0'));
+        default: return Number(b.song.createdAt) - Number(a.song.createdAt);
+      }
+    });
+
+    const trackIds = matched
+      .slice(0, rules.limit || DEFAULT_LIMIT)
+      .map(item => String(item.tokenId));
+
+    console.log(`🧠 [SMART-PLAYLIST] ${describeSmartRules(rules)} → ${trackIds.length} tracks`);
+    return trackIds;
+  }
+
+  clearCache(): void {
+    this.snapshot = null;
+    this.rulesCache = null;
+  }
+}
+
+export const smartPlaylistService = new SmartPlaylistService();
+export default smartPlaylistService;
@@ -16,10 +16,15 @@ import {
   type Hex,
   numberToHex,
   pad,
+  keccak256,
+  toHex,
+  isAddress,
 } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { somniaTestnet } from '@/lib/web3-config';
 import { publisherIndexer } from './publisherIndexer';
+import { playEventIndex } from './playEventIndex';
+import { followGraph, type FollowChange } from './followGraph';
 import {
   SOMNIA_CONFIG_V3,
   PostDataV3,
@@ -38,17 +43,44 @@ import {
   GeneratedMusicData,
   GeneratedMusicStatus,
   PlayEventData,
+  PLAY_BUCKET_SIZE,
   ActivityHistoryData,
   ActivityHistoryType,
+  CollectablePost,
+  PaymentAttribution,
+  ReferralReward,
+  ReferralSource,
+  applyCollectLimit,
+  toWeiString,
+  canCollect,
+  createCollectInteraction,
+  createTipInteraction,
+  DirectMessageData,
+  DirectMessageSigner,
+  DirectMessageType,
+  UnsignedDirectMessage,
+  createDirectMessageId,
+  getConversationId,
+  validateDirectMessageData,
+  parseHashtags,
+  HashtagIndexEntry,
 } from '@/config/somniaDataStreams.v3';
+import { BXP_SCHEMAS, BXP_SCHEMA_STRINGS, type BXPTransactionRecord } from '@/config/somniaDataStreams.bxp';
 import { transactionQueue } from './nonceManager';
 import { interactionLogger } from '@/utils/interactionLogger';
+import { payWithReferral } from '@/utils/referral';
+import { safeExtractValue, safeNumber, safeString } from '@/utils/streamFields';
 
 // Helper function to convert number to bytes32 (Hex)
 function numberToBytes32(num: number): Hex {
   return pad(numberToHex(num), { size: 32 });
 }
 
+// Hashtag index record ID - one record per tag per post
+function hashtagIndexId(tag: string, postId: number): Hex {
+  return keccak256(toHex(`tag:${tag}:${postId}`));
+}
+
 class SomniaDatastreamServiceV3 {
   private sdk: SDK | null = null;
   private publicClient: any = null;
@@ -62,6 +94,19 @@ class SomniaDatastreamServiceV3 {
   private dataCache: Map<string, { data: any[]; timestamp: number }> = new Map();
   private cacheExpiry = 30000; // 30 seconds
   
+  // Incremental index sync (play events, follow graph) - records read per getBetweenRange call
+  private RANGE_PAGE_SIZE = 500;
+
+  // Follow graph - next interaction index to read per publisher
+  private followGraphCursors: Map<string, number> = new Map();
+
+  // Direct messages - next record index to read and the records read so far, by participant
+  private directMessageCursor = 0;
+  private directMessagesByUser: Map<string, DirectMessageData[]> = new Map();
+  // Live sync runs only while someone subscribes to the follow graph
+  private unwatchFollowGraph: (() => void) | null = null;
+  private followGraphSubscribers = 0;
+  
   // Request deduplication
   private pendingRequests: Map<string, Promise<any>> = new Map();
 
@@ -335,7 +380,7 @@ class SomniaDatastreamServiceV3 {
           const replyToId = safeNumber(safeExtractValue(item[7]), 0); // V6
           const mentions = safeString(safeExtractValue(item[8])); // V6
           const collectModule = safeString(safeExtractValue(item[9]), '0x0000000000000000000000000000000000000000'); // V6
-          const collectPrice = safeNumber(safeExtractValue(item[10]), 0); // V6
+          const collectPrice = toWeiString(safeExtractValue(item[10])); // V6
           const collectLimit = safeNumber(safeExtractValue(item[11]), 0); // V6
           const collectCount = safeNumber(safeExtractValue(item[12]), 0); // V6
           const isGated = Boolean(safeExtractValue(item[13])); // V6
@@ -451,7 +496,7 @@ class SomniaDatastreamServiceV3 {
             const replyToId = safeNumber(safeExtractValue(item[7]), 0);
             const mentions = safeString(safeExtractValue(item[8]));
             const collectModule = safeString(safeExtractValue(item[9]), '0x0000000000000000000000000000000000000000');
-            const collectPrice = safeNumber(safeExtractValue(item[10]), 0);
+            const collectPrice = toWeiString(safeExtractValue(item[10]));
             const collectLimit = safeNumber(safeExtractValue(item[11]), 0);
             const collectCount = safeNumber(safeExtractValue(item[12]), 0);
             const isGated = Boolean(safeExtractValue(item[13]));
@@ -595,7 +640,7 @@ class SomniaDatastreamServiceV3 {
         const replyToId = safeNumber(safeExtractValue(item[7]), 0);
         const mentions = safeString(safeExtractValue(item[8]));
         const collectModule = safeString(safeExtractValue(item[9]), '0x0000000000000000000000000000000000000000');
-        const collectPrice = safeNumber(safeExtractValue(item[10]), 0);
+        const collectPrice = toWeiString(safeExtractValue(item[10]));
         const collectLimit = safeNumber(safeExtractValue(item[11]), 0);
         const collectCount = safeNumber(safeExtractValue(item[12]), 0);
         const isGated = Boolean(safeExtractValue(item[13]));
@@ -828,6 +873,9 @@ class SomniaDatastreamServiceV3 {
         }
       }
 
+      // Song likes share the stream but their targetIds are token ids - keep them out of post stats
+      interactions = interactions.filter(i => i.targetType !== TargetType.SONG);
+
       // Filter by targetIds if provided (convert to number for comparison)
       if (targetIds && targetIds.length > 0) {
         const targetIdsNum = targetIds.map(id => typeof id === 'string' ? parseInt(id) : id);
@@ -977,7 +1025,7 @@ class SomniaDatastreamServiceV3 {
         { name: 'replyToId', value: (postData.replyToId || 0).toString(), type: 'uint256' }, // V6: Threading
         { name: 'mentions', value: postData.mentions || '', type: 'string' }, // V6: Mentions
         { name: 'collectModule', value: postData.collectModule || '0x0000000000000000000000000000000000000000', type: 'address' }, // V6: Monetization
-        { name: 'collectPrice', value: (postData.collectPrice || 0).toString(), type: 'uint256' }, // V6: Monetization
+        { name: 'collectPrice', value: postData.collectPrice || '0', type: 'uint256' }, // V6: Monetization
         { name: 'collectLimit', value: (postData.collectLimit || 0).toString(), type: 'uint32' }, // V6: Monetization
         { name: 'collectCount', value: (postData.collectCount || 0).toString(), type: 'uint32' }, // V6: Monetization
         { name: 'isGated', value: postData.isGated || false, type: 'bool' }, // V6: Gated content
@@ -998,6 +1046,27 @@ class SomniaDatastreamServiceV3 {
         postIdHex
       );
 
+      // #️⃣ Hashtag index records (written together with the post)
+      const hashtags = parseHashtags(postData.content || '');
+      const hashtagRecords: Array<{ schemaId: Hex; id: Hex; data: Hex }> = [];
+      if (hashtags.length > 0) {
+        const hashtagSchemaId = await this.getSchemaIdCached('hashtagIndex');
+        const hashtagEncoder = new SchemaEncoder(SOMNIA_CONFIG_V3.schemaStrings.hashtagIndex);
+        hashtags.forEach(tag => {
+          hashtagRecords.push({
+            schemaId: hashtagSchemaId,
+            id: hashtagIndexId(tag, postId),
+            data: hashtagEncoder.encodeData([
+              { name: 'timestamp', value: timestamp.toString(), type: 'uint256' },
+              { name: 'tag', value: tag, type: 'string' },
+              { name: 'postId', value: postId.toString(), type: 'uint256' },
+              { name: 'author', value: author, type: 'address' },
+            ]),
+          });
+        });
+        console.log(`#️⃣ [V3] Indexing ${hashtags.length} hashtags:`, hashtags);
+      }
+
       if (immediate) {
         // ✅ HYBRID: Use user wallet if provided, fallback to server wallet
         const sdk = userWalletClient
@@ -1021,6 +1090,7 @@ class SomniaDatastreamServiceV3 {
               id: postIdHex,
               data: encodedData,
             },
+            ...hashtagRecords,
           ]);
 
           console.log('✅ [V3] Post written to blockchain!', {
@@ -1051,6 +1121,9 @@ class SomniaDatastreamServiceV3 {
           );
 
           this.dataCache.delete('all_posts');
+          if (hashtagRecords.length > 0) {
+            this.dataCache.delete('hashtag_index');
+          }
           return txHash;
         });
 
@@ -1058,6 +1131,7 @@ class SomniaDatastreamServiceV3 {
       } else {
         // Add to batch (faster, but delayed)
         this.addToBatch(schemaId, postIdHex, encodedData);
+        hashtagRecords.forEach(record => this.addToBatch(record.schemaId, record.id, record.data));
         console.log('✅ [V3] Post added to batch (not yet written to blockchain)');
         console.log('💡 [V3] Click "Flush Batch" to write to blockchain');
         return postId;
@@ -1100,7 +1174,7 @@ class SomniaDatastreamServiceV3 {
         { name: 'replyToId', value: (postData.replyToId || 0).toString(), type: 'uint256' },
         { name: 'mentions', value: postData.mentions || '', type: 'string' },
         { name: 'collectModule', value: postData.collectModule || '0x0000000000000000000000000000000000000000', type: 'address' },
-        { name: 'collectPrice', value: (postData.collectPrice || 0).toString(), type: 'uint256' },
+        { name: 'collectPrice', value: postData.collectPrice || '0', type: 'uint256' },
         { name: 'collectLimit', value: (postData.collectLimit || 0).toString(), type: 'uint32' },
         { name: 'collectCount', value: (postData.collectCount || 0).toString(), type: 'uint32' },
         { name: 'isGated', value: postData.isGated || false, type: 'bool' },
@@ -1614,7 +1688,7 @@ class SomniaDatastreamServiceV3 {
           const replyToId = safeNumber(safeExtractValue(item[7]), 0);
           const mentions = safeString(safeExtractValue(item[8]));
           const collectModule = safeString(safeExtractValue(item[9]), '0x0000000000000000000000000000000000000000');
-          const collectPrice = safeNumber(safeExtractValue(item[10]), 0);
+          const collectPrice = toWeiString(safeExtractValue(item[10]));
           const collectLimit = safeNumber(safeExtractValue(item[11]), 0);
           const collectCount = safeNumber(safeExtractValue(item[12]), 0);
           const isGated = Boolean(safeExtractValue(item[13]));
@@ -1687,6 +1761,186 @@ class SomniaDatastreamServiceV3 {
     return buildCommentTree(postId, interactions);
   }
 
+  /**
+   * Search post content (#tag queries match hashtags exactly)
+   * Gated posts are skipped so their content never leaks through search
+   */
+  async searchPosts(query: string, limit: number = 20): Promise<PostDataV3[]> {
+    const term = query.trim().toLowerCase();
+    if (!term) return [];
+
+    const isTagQuery = term.startsWith('#');
+    const tag = term.slice(1);
+    const posts = await this.getAllPosts();
+
+    return posts
+      .filter(post => !post.isDeleted && !post.isGated && post.content)
+      .filter(post => isTagQuery
+        ? parseHashtags(post.content).includes(tag)
+        : post.content.toLowerCase().includes(term)
+      )
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit);
+  }
+
+  /**
+   * Search hashtags used in posts, most used first
+   */
+  async searchHashtags(query: string, limit: number = 5): Promise<Array<{ tag: string; count: number }>> {
+    const term = query.trim().toLowerCase().replace(/^#/, '');
+    if (!term) return [];
+
+    const counts = new Map<string, number>();
+    const posts = await this.getAllPosts();
+    posts
+      // Gated content must not leak through tag suggestions
+      .filter(post => !post.isDeleted && !post.isGated && post.content)
+      .forEach(post => {
+        parseHashtags(post.content)
+          .filter(tag => tag.includes(term))
+          .forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+      });
+
+    return Array.from(counts.entries())
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+      .slice(0, limit);
+  }
+
+  // ===== HASHTAG INDEX OPERATIONS =====
+
+  /**
+   * Get all hashtag index entries (hashtag -> postId)
+   * ✅ MULTI-PUBLISHER: posts written with a user wallet carry their index records in that user's stream
+   */
+  async getHashtagIndex(): Promise<HashtagIndexEntry[]> {
+    await this.ensureInitialized();
+
+    const cacheKey = 'hashtag_index';
+    const cached = this.dataCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
+      return cached.data as HashtagIndexEntry[];
+    }
+
+    const pending = this.pendingRequests.get(cacheKey);
+    if (pending) return pending;
+
+    const request = (async () => {
+      try {
+        const serverPublisher = (await this.getServerPublisherAddress()).toLowerCase();
+        const publishers = new Set(publisherIndexer.getAllPublishers().map(p => p.toLowerCase()));
+        publishers.add(serverPublisher);
+
+        const schemaId = await this.getSchemaIdCached('hashtagIndex');
+        const perPublisher = await Promise.all(
+          Array.from(publishers).map(async (publisher) => {
+            try {
+              const data = await this.sdk.streams.getAllPublisherDataForSchema(schemaId, publisher as `0x${string}`);
+              return { publisher, data: (data || []) as unknown[] };
+            } catch (error: any) {
+              if (!error?.message?.includes('NoData()')) {
+                console.warn(`⚠️ [V3] Failed to load hashtag index from publisher ${publisher.slice(0, 10)}:`, error);
+              }
+              return { publisher, data: [] as unknown[] };
+            }
+          })
+        );
+
+        // Decode data (4 fields), one entry per tag + post
+        const entries: HashtagIndexEntry[] = [];
+        const seen = new Set<string>();
+        for (const { publisher, data } of perPublisher) {
+          for (const item of data) {
+            if (!item || !Array.isArray(item) || item.length === 0) continue;
+
+            try {
+              const entry: HashtagIndexEntry = {
+                timestamp: safeNumber(safeExtractValue(item[0])),
+                tag: safeString(safeExtractValue(item[1])).toLowerCase(),
+                postId: safeNumber(safeExtractValue(item[2])),
+                author: safeString(safeExtractValue(item[3])),
+              };
+              // Users may only index their own posts - the server indexes on behalf of anyone
+              if (publisher !== serverPublisher && entry.author.toLowerCase() !== publisher) continue;
+
+              const key = `${entry.tag}:${entry.postId}`;
+              if (entry.tag && entry.postId > 0 && !seen.has(key)) {
+                seen.add(key);
+                entries.push(entry);
+              }
+            } catch (decodeError: any) {
+              console.warn('⚠️ [V3] Failed to decode hashtag index entry, skipping:', decodeError.message);
+            }
+          }
+        }
+
+        this.dataCache.set(cacheKey, { data: entries, timestamp: Date.now() });
+        return entries;
+      } catch (error: any) {
+        if (error?.message?.includes('NoData()')) {
+          return [];
+        }
+        console.error('❌ [V3] Failed to load hashtag index:', error);
+        throw error;
+      } finally {
+        this.pendingRequests.delete(cacheKey);
+      }
+    })();
+
+    this.pendingRequests.set(cacheKey, request);
+    return request;
+  }
+
+  /**
+   * Get post IDs for a hashtag (newest first)
+   */
+  async getPostIdsForHashtag(tag: string): Promise<number[]> {
+    const normalized = tag.trim().toLowerCase().replace(/^#/, '');
+    if (!normalized) return [];
+
+    const entries = await this.getHashtagIndex();
+    return entries
+      .filter(entry => entry.tag === normalized)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map(entry => entry.postId);
+  }
+
+  /**
+   * Get posts for a hashtag (newest first)
+   * Posts created before the index existed are matched by parsing their content
+   */
+  async getPostsByHashtag(tag: string): Promise<PostDataV3[]> {
+    const normalized = tag.trim().toLowerCase().replace(/^#/, '');
+    if (!normalized) return [];
+
+    const [postIds, posts] = await Promise.all([
+      this.getPostIdsForHashtag(normalized),
+      this.getAllPosts(),
+    ]);
+    const indexedIds = new Set(postIds);
+
+    return posts
+      .filter(post => !post.isDeleted)
+      .filter(post => indexedIds.has(post.id) || parseHashtags(post.content).includes(normalized))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Get trending hashtags scored by recent usage (gated posts don't count)
+   */
+  async getTrendingHashtags(
+    limit: number = 5,
+    timeWindow?: number
+  ): Promise<Array<{ tag: string; score: number; posts: number }>> {
+    const [entries, posts] = await Promise.all([
+      this.getHashtagIndex(),
+      this.getAllPosts(),
+    ]);
+    const gatedIds = new Set(posts.filter(post => post.isGated).map(post => post.id));
+    const { getTrendingHashtags } = await import('@/config/somniaDataStreams.v3');
+    return getTrendingHashtags(entries.filter(entry => !gatedIds.has(entry.postId)), limit, timeWindow);
+  }
+
   /**
    * Get performance stats
    */
@@ -2032,16 +2286,32 @@ class SomniaDatastreamServiceV3 {
 
   /**
    * Record a play event
+   * Plays that would be flagged (short listen, rate limit, burst, loop) are rejected
    */
   async recordPlayEvent(eventData: Partial<PlayEventData>, immediate: boolean = true): Promise<number> {
     await this.ensureInitialized();
     
-    const { validatePlayEventData, createPlayEventId } = await import('@/config/somniaDataStreams.v3');
+    const { validatePlayEventData, createPlayEventId, getPlayEventFlags } = await import('@/config/somniaDataStreams.v3');
     
     if (!validatePlayEventData(eventData)) {
       throw new Error('Invalid play event data');
     }
 
+    // Check against the listener's recent accepted plays
+    await this.syncPlayEventIndex();
+    const flags = getPlayEventFlags(
+      {
+        timestamp: eventData.timestamp || Date.now(),
+        tokenId: eventData.tokenId!,
+        duration: eventData.duration!,
+      },
+      playEventIndex.getRecentPlays(eventData.listener!)
+    );
+    if (flags.length > 0) {
+      console.warn('🚩 [V3] Play event rejected:', { tokenId: eventData.tokenId, flags });
+      throw new Error(`Play event rejected: ${flags.join(', ')}`);
+    }
+
     try {
       console.log('🎵 [V3] Recording play event...', {
         tokenId: eventData.tokenId,
@@ -2080,6 +2350,7 @@ class SomniaDatastreamServiceV3 {
           
           console.log('✅ [V3] Play event recorded!', { txHash, eventId });
           this.dataCache.delete('all_play_events');
+          this.dataCache.delete('play_event_index_sync');
           return txHash;
         });
         
@@ -2130,66 +2401,8 @@ class SomniaDatastreamServiceV3 {
         return [];
       }
 
-      // Helper functions
-      const safeExtractValue = (item: any, defaultValue: any = '') => {
-        if (!item) return defaultValue;
-        if (item.value !== undefined) {
-          if (typeof item.value === 'object' && item.value.value !== undefined) {
-            return item.value.value;
-          }
-          return item.value;
-        }
-        return item;
-      };
-
-      const safeString = (value: any, defaultValue: string = ''): string => {
-        if (value === null || value === undefined) return defaultValue;
-        if (typeof value === 'string') return value;
-        if (typeof value === 'object') return defaultValue;
-        return String(value);
-      };
-
-      const safeNumber = (value: any, defaultValue: number = 0): number => {
-        if (value === null || value === undefined) return defaultValue;
-        if (typeof value === 'number') return value;
-        if (typeof value === 'bigint') return Number(value);
-        if (typeof value === 'object') return defaultValue;
-        const num = Number(value);
-        return isNaN(num) ? defaultValue : num;
-      };
-
       // Decode data (6 fields)
-      const events: PlayEventData[] = [];
-      
-      for (let idx = 0; idx < rawData.length; idx++) {
-        try {
-          const item = rawData[idx];
-          
-          if (!item || !Array.isArray(item) || item.length === 0) {
-            console.warn('⚠️ [V3] Skipping invalid play event (empty data)');
-            continue;
-          }
-          
-          const id = safeNumber(safeExtractValue(item[0]));
-          const timestamp = safeNumber(safeExtractValue(item[1]));
-          const tokenId = safeNumber(safeExtractValue(item[2]));
-          const listener = safeString(safeExtractValue(item[3]));
-          const duration = safeNumber(safeExtractValue(item[4]));
-          const source = safeString(safeExtractValue(item[5]), 'app');
-          
-          events.push({
-            id,
-            timestamp,
-            tokenId,
-            listener,
-            duration,
-            source,
-          });
-        } catch (decodeError: any) {
-          console.warn('⚠️ [V3] Failed to decode play event, skipping:', decodeError.message);
-          continue;
-        }
-      }
+      const events = this.decodePlayEvents(rawData as any[]);
 
       // Sort by timestamp (newest first)
       events.sort((a, b) => b.timestamp - a.timestamp);
@@ -2211,38 +2424,194 @@ class SomniaDatastreamServiceV3 {
     }
   }
 
+  /**
+   * Decode raw play event records (6 fields)
+   */
+  private decodePlayEvents(rawData: any[]): PlayEventData[] {
+    // Helper functions
+    const safeExtractValue = (item: any, defaultValue: any = '') => {
+      if (!item) return defaultValue;
+      if (item.value !== undefined) {
+        if (typeof item.value === 'object' && item.value.value !== undefined) {
+          return item.value.value;
+        }
+        return item.value;
+      }
+      return item;
+    };
+
+    const safeString = (value: any, defaultValue: string = ''): string => {
+      if (value === null || value === undefined) return defaultValue;
+      if (typeof value === 'string') return value;
+      if (typeof value === 'object') return defaultValue;
+      return String(value);
+    };
+
+    const safeNumber = (value: any, defaultValue: number = 0): number => {
+      if (value === null || value === undefined) return defaultValue;
+      if (typeof value === 'number') return value;
+      if (typeof value === 'bigint') return Number(value);
+      if (typeof value === 'object') return defaultValue;
+      const num = Number(value);
+      return isNaN(num) ? defaultValue : num;
+    };
+
+    const events: PlayEventData[] = [];
+    
+    for (let idx = 0; idx < rawData.length; idx++) {
+      try {
+        const item = rawData[idx];
+        
+        if (!item || !Array.isArray(item) || item.length === 0) {
+          console.warn('⚠️ [V3] Skipping invalid play event (empty data)');
+          continue;
+        }
+        
+        const id = safeNumber(safeExtractValue(item[0]));
+        const timestamp = safeNumber(safeExtractValue(item[1]));
+        const tokenId = safeNumber(safeExtractValue(item[2]));
+        const listener = safeString(safeExtractValue(item[3]));
+        const duration = safeNumber(safeExtractValue(item[4]));
+        const source = safeString(safeExtractValue(item[5]), 'app');
+        
+        events.push({
+          id,
+          timestamp,
+          tokenId,
+          listener,
+          duration,
+          source,
+        });
+      } catch (decodeError: any) {
+        console.warn('⚠️ [V3] Failed to decode play event, skipping:', decodeError.message);
+        continue;
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Sync the persistent play-event index with events written since the last seen stream index
+   * Stale index data is still served when the sync fails
+   */
+  private async syncPlayEventIndex(): Promise<void> {
+    const cacheKey = 'play_event_index_sync';
+    const cached = this.dataCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
+      return;
+    }
+
+    const pending = this.pendingRequests.get(cacheKey);
+    if (pending) return pending;
+
+    const request = (async () => {
+      try {
+        await this.ensureInitialized();
+
+        const publisher = (await this.getServerPublisherAddress()) as `0x${string}`;
+        const schemaId = await this.getSchemaIdCached('playEvents');
+        const source = `${schemaId}:${publisher.toLowerCase()}`;
+
+        let { lastIndex } = await playEventIndex.getCursor(source);
+        const total = Number((await this.sdk.streams.totalPublisherDataForSchema(schemaId, publisher)) ?? 0);
+
+        // Stream shrank (e.g. redeployed) - rebuild from scratch
+        if (total < lastIndex) {
+          console.warn('⚠️ [V3] Play event stream shrank, rebuilding index');
+          await playEventIndex.reset(source);
+          lastIndex = 0;
+        }
+
+        const startIndex = lastIndex;
+        while (lastIndex < total) {
+          const endIndex = Math.min(lastIndex + this.RANGE_PAGE_SIZE, total);
+          const rawData = await this.sdk.streams.getBetweenRange(schemaId, publisher, BigInt(lastIndex), BigInt(endIndex));
+          if (rawData instanceof Error) {
+            throw rawData;
+          }
+
+          const events = this.decodePlayEvents((rawData || []) as any[]);
+          await playEventIndex.apply(source, events, endIndex);
+          lastIndex = endIndex;
+        }
+
+        if (total > startIndex) {
+          console.log(`✅ [V3] Play event index synced: ${total - startIndex} new events (total ${total})`);
+        }
+        this.dataCache.set(cacheKey, { data: [], timestamp: Date.now() });
+      } catch (error: any) {
+        if (error?.message?.includes('NoData()')) {
+          this.dataCache.set(cacheKey, { data: [], timestamp: Date.now() });
+          return;
+        }
+        console.warn('⚠️ [V3] Failed to sync play event index, using last synced data:', error);
+      } finally {
+        this.pendingRequests.delete(cacheKey);
+      }
+    })();
+
+    this.pendingRequests.set(cacheKey, request);
+    return request;
+  }
+
   /**
    * Get play count for a song
    */
   async getPlayCount(tokenId: number): Promise<number> {
-    const events = await this.getAllPlayEvents();
-    return events.filter(e => e.tokenId === tokenId).length;
+    await this.syncPlayEventIndex();
+    return playEventIndex.getToken(tokenId)?.plays || 0;
+  }
+
+  /**
+   * Get validated play stats for a song (flagged plays excluded)
+   */
+  async getPlayStats(tokenId: number): Promise<{ plays: number; uniqueListeners: number; plays24h: number; flaggedPlays: number }> {
+    await this.syncPlayEventIndex();
+
+    const aggregate = playEventIndex.getToken(tokenId);
+    if (!aggregate) {
+      return { plays: 0, uniqueListeners: 0, plays24h: 0, flaggedPlays: 0 };
+    }
+
+    const cutoffBucket = Math.floor((Date.now() - 24 * 60 * 60 * 1000) / PLAY_BUCKET_SIZE);
+    const plays24h = Object.entries(aggregate.hourly)
+      .filter(([bucket]) => Number(bucket) >= cutoffBucket)
+      .reduce((sum, [, plays]) => sum + plays, 0);
+
+    return {
+      plays: aggregate.plays,
+      uniqueListeners: Object.keys(aggregate.listeners).length,
+      plays24h,
+      flaggedPlays: aggregate.flaggedPlays,
+    };
   }
 
   /**
    * Get trending songs
    */
   async getTrendingSongs(limit: number = 10, timeWindow?: number): Promise<Array<{ tokenId: number; score: number; plays: number; uniqueListeners: number }>> {
-    const events = await this.getAllPlayEvents();
-    
-    // Get all unique token IDs
-    const tokenIds = [...new Set(events.map(e => e.tokenId))];
+    await this.syncPlayEventIndex();
     
-    const { getTrendingSongs } = await import('@/config/somniaDataStreams.v3');
-    return getTrendingSongs(events, tokenIds, limit, timeWindow);
+    const { getTrendingSongsFromAggregates } = await import('@/config/somniaDataStreams.v3');
+    return getTrendingSongsFromAggregates(playEventIndex.getAllTokens(), limit, timeWindow);
   }
 
   /**
    * Get play counts for specific token IDs
    */
   async getPlayCountsForTokens(tokenIds: number[]): Promise<Map<number, number>> {
-    const allEvents = await this.getAllPlayEvents();
-    const { aggregatePlayCounts } = await import('@/config/somniaDataStreams.v3');
+    await this.syncPlayEventIndex();
     
-    // Filter events for requested tokens
-    const relevantEvents = allEvents.filter(e => tokenIds.includes(e.tokenId));
+    const counts = new Map<number, number>();
+    for (const tokenId of tokenIds) {
+      const aggregate = playEventIndex.getToken(tokenId);
+      if (aggregate) {
+        counts.set(tokenId, aggregate.plays);
+      }
+    }
     
-    return aggregatePlayCounts(relevantEvents);
+    return counts;
   }
 
   /**
@@ -2265,6 +2634,215 @@ class SomniaDatastreamServiceV3 {
     return bestSong;
   }
 
+  // ===== COLLECT OPERATIONS =====
+
+  /**
+   * Get collect status for a post (live count from interactions)
+   */
+  async getCollectStatus(post: CollectablePost, userAddress?: string): Promise<{
+    collects: number;
+    collectors: string[];
+    remaining: number | null;
+    soldOut: boolean;
+    hasCollected: boolean;
+  }> {
+    // Always read fresh interactions so the limit check sees the latest collects
+    this.clearCacheFor('all_interactions');
+    const interactions = await this.getAllInteractions();
+    const postInteractions = interactions.filter(i => i.targetId === post.id);
+    const stats = aggregateInteractions(postInteractions, userAddress).get(post.id);
+
+    const counted = stats
+      ? applyCollectLimit(stats, post.collectLimit, userAddress)
+      : { collects: 0, collectedBy: [], userCollected: false };
+
+    const collects = Math.max(post.collectCount || 0, counted.collects);
+    const remaining = post.collectLimit > 0 ? Math.max(post.collectLimit - collects, 0) : null;
+
+    return {
+      collects,
+      collectors: counted.collectedBy,
+      remaining,
+      soldOut: remaining !== null && remaining <= 0,
+      hasCollected: counted.userCollected,
+    };
+  }
+
+  /**
+   * Collect a post
+   *
+   * Checks availability, runs the payment callback (if the post has a price),
+   * then records a COLLECT interaction with the paid amount.
+   * @param pay Callback that transfers an amount to a recipient and returns the tx hash
+   * @param userWalletClient Optional user wallet for multi-publisher pattern
+   * @param referrer Optional referrer that receives the configured cut of the price
+   */
+  async collectPost(
+    post: CollectablePost,
+    collectorAddress: string,
+    pay?: (amountWei: bigint, recipient: string) => Promise<string>,
+    userWalletClient?: any,
+    referrer?: string
+  ): Promise<string> {
+    console.log('💎 [V3] Collecting post:', post.id, 'by:', collectorAddress);
+
+    await this.ensureInitialized();
+
+    if (!canCollect(post)) {
+      throw new Error('This post cannot be collected');
+    }
+
+    if (post.author.toLowerCase() === collectorAddress.toLowerCase()) {
+      throw new Error('You cannot collect your own post');
+    }
+
+    const status = await this.getCollectStatus(post, collectorAddress);
+    if (status.hasCollected) {
+      throw new Error('You have already collected this post');
+    }
+    if (status.soldOut) {
+      throw new Error('This post is sold out');
+    }
+
+    const priceWei = BigInt(post.collectPrice || 0);
+    let payment: PaymentAttribution = { txHash: '' };
+    if (priceWei > 0n) {
+      if (!pay) {
+        throw new Error('Payment is required to collect this post');
+      }
+      payment = await payWithReferral(priceWei, post.collectModule, referrer, pay);
+    }
+
+    const interactionData = createCollectInteraction(
+      post.id,
+      collectorAddress,
+      priceWei,
+      payment
+    );
+
+    try {
+      const result = await this.createInteraction(interactionData, true, userWalletClient); // Immediate write
+      console.log('✅ [V3] Collect recorded:', result);
+      await this.recordReferralPayment('collect', post.id, collectorAddress, priceWei, payment);
+      return result;
+    } catch (error) {
+      // Payment already went through - keep the tx hash in logs for manual recovery
+      console.error('❌ [V3] Failed to record collect:', { postId: post.id, payment, error });
+      throw error;
+    }
+  }
+
+  // ===== TIP OPERATIONS =====
+
+  /**
+   * Tip a post
+   *
+   * Pays the author (minus referral cut, if any) and records a TIP interaction
+   * so the tip and its referrer attribution stay on the post.
+   * @param pay Callback that transfers an amount to a recipient and returns the tx hash
+   */
+  async tipPost(
+    postId: number,
+    author: string,
+    fromUser: string,
+    amountWei: bigint,
+    pay: (amountWei: bigint, recipient: string) => Promise<string>,
+    userWalletClient?: any,
+    referrer?: string
+  ): Promise<PaymentAttribution> {
+    console.log('💰 [V3] Tipping post:', postId, 'amount:', amountWei.toString());
+
+    await this.ensureInitialized();
+
+    const payment = await payWithReferral(amountWei, author, referrer, pay);
+
+    try {
+      await this.createInteraction(
+        createTipInteraction(postId, fromUser, Number(amountWei), payment),
+        true,
+        userWalletClient
+      );
+      await this.recordReferralPayment('tip', postId, fromUser, amountWei, payment);
+    } catch (error) {
+      // Tip already paid - recording is best effort
+      console.error('❌ [V3] Failed to record tip:', { postId, payment, error });
+    }
+
+    return payment;
+  }
+
+  // ===== REFERRAL OPERATIONS =====
+
+  /**
+   * Record a referral reward in the referrer's activity history
+   * No-op when the payment had no referrer cut.
+   */
+  async recordReferralPayment(
+    source: ReferralSource,
+    targetId: number,
+    payer: string,
+    amountWei: bigint,
+    payment: PaymentAttribution
+  ): Promise<void> {
+    if (!payment.referrer || !payment.referrerCut || !payment.referrerTxHash) return;
+
+    const labels: Record<ReferralSource, string> = {
+      collect: 'Post collected',
+      tip: 'Post tipped',
+      purchase: 'Song purchased',
+    };
+
+    try {
+      await this.recordActivity({
+        timestamp: Date.now(),
+        user: payment.referrer,
+        activityType: ActivityHistoryType.REFERRAL_REWARD,
+        title: 'Referral reward',
+        description: `${labels[source]} via your link`,
+        targetId,
+        targetAddress: payer,
+        txHash: payment.referrerTxHash,
+        metadata: JSON.stringify({
+          source,
+          amount: amountWei.toString(),
+          cut: payment.referrerCut,
+          paymentTxHash: payment.txHash,
+        }),
+      });
+    } catch (error) {
+      console.warn('⚠️ [V3] Failed to record referral reward:', error);
+    }
+  }
+
+  /**
+   * Get referral rewards earned by a user
+   */
+  async getReferralEarnings(referrer: string, limit: number = 200): Promise<ReferralReward[]> {
+    // Filter by type before the limit so other activity can't crowd rewards out
+    const activities = await this.getActivityHistory(referrer, limit, ActivityHistoryType.REFERRAL_REWARD);
+
+    return activities
+      .map(activity => {
+        let metadata: { source?: ReferralSource; amount?: string; cut?: string } = {};
+        try {
+          metadata = JSON.parse(activity.metadata || '{}');
+        } catch {
+          metadata = {};
+        }
+
+        return {
+          id: activity.id,
+          timestamp: activity.timestamp,
+          source: (metadata.source || 'tip') as ReferralSource,
+          targetId: activity.targetId,
+          payer: activity.targetAddress,
+          amount: metadata.amount || '0',
+          cut: metadata.cut || '0',
+          txHash: activity.txHash,
+        };
+      });
+  }
+
   // ===== BOOKMARK FUNCTIONS =====
 
   /**
@@ -2418,20 +2996,51 @@ class SomniaDatastreamServiceV3 {
     }
   }
 
-  // ===== FOLLOW/UNFOLLOW OPERATIONS (NEW) =====
+  // ===== SONG LIKES =====
 
   /**
-   * Follow a user
+   * Record a like / unlike of a minted song (the SongNFT contract holds the like state)
    */
-  async followUser(targetUserAddress: string, fromUserAddress: string): Promise<string> {
-    console.log('👥 [V3] Following user:', targetUserAddress, 'by:', fromUserAddress);
-    
+  async recordSongLike(tokenId: number, fromUserAddress: string, liked: boolean): Promise<string> {
+    console.log(`❤️ [V3] Recording song ${liked ? 'like' : 'unlike'}:`, tokenId, 'by:', fromUserAddress);
+
     await this.ensureInitialized();
-    
-    // Convert address to number for targetId (use first 16 hex chars)
-    const targetId = parseInt(targetUserAddress.slice(2, 18), 16);
-    
+
+    const interactionData: Partial<InteractionDataV3> = {
+      timestamp: Date.now(),
+      interactionType: liked ? InteractionType.LIKE : InteractionType.UNLIKE,
+      targetId: tokenId,
+      targetType: TargetType.SONG,
+      fromUser: fromUserAddress,
+      content: '',
+      parentId: 0,
+      tipAmount: 0,
+    };
+
+    try {
+      return await this.createInteraction(interactionData);
+    } catch (error) {
+      console.error('❌ [V3] Failed to record song like:', error);
+      throw error;
+    }
+  }
+
+  // ===== FOLLOW/UNFOLLOW OPERATIONS (NEW) =====
+
+  /**
+   * Follow a user
+   */
+  async followUser(targetUserAddress: string, fromUserAddress: string): Promise<string> {
+    console.log('👥 [V3] Following user:', targetUserAddress, 'by:', fromUserAddress);
+    
+    await this.ensureInitialized();
+    
+    // Legacy targetId (first 16 hex chars, can collide) - the follow graph keys on the full address in content
+    const targetId = parseInt(targetUserAddress.slice(2, 18), 16);
+    const timestamp = Date.now();
+    
     const interactionData: Partial<InteractionDataV3> = {
+      timestamp,
       interactionType: InteractionType.FOLLOW,
       targetId,
       targetType: TargetType.USER,
@@ -2447,6 +3056,7 @@ class SomniaDatastreamServiceV3 {
       
       // Clear cache to force refresh
       this.clearCacheFor('all_interactions');
+      followGraph.applyEvent(fromUserAddress, targetUserAddress, true, timestamp);
       
       return result;
     } catch (error) {
@@ -2463,10 +3073,12 @@ class SomniaDatastreamServiceV3 {
     
     await this.ensureInitialized();
     
-    // Convert address to number for targetId (use first 16 hex chars)
+    // Legacy targetId (first 16 hex chars, can collide) - the follow graph keys on the full address in content
     const targetId = parseInt(targetUserAddress.slice(2, 18), 16);
+    const timestamp = Date.now();
     
     const interactionData: Partial<InteractionDataV3> = {
+      timestamp,
       interactionType: InteractionType.UNFOLLOW,
       targetId,
       targetType: TargetType.USER,
@@ -2482,6 +3094,7 @@ class SomniaDatastreamServiceV3 {
       
       // Clear cache to force refresh
       this.clearCacheFor('all_interactions');
+      followGraph.applyEvent(fromUserAddress, targetUserAddress, false, timestamp);
       
       return result;
     } catch (error) {
@@ -2490,32 +3103,195 @@ class SomniaDatastreamServiceV3 {
     }
   }
 
+  /**
+   * Decode raw interaction records (9 fields)
+   */
+  private decodeInteractions(rawData: unknown[]): InteractionDataV3[] {
+    const interactions: InteractionDataV3[] = [];
+    for (const item of rawData) {
+      if (!item || !Array.isArray(item) || item.length === 0) continue;
+
+      try {
+        interactions.push({
+          id: safeNumber(safeExtractValue(item[0])),
+          timestamp: safeNumber(safeExtractValue(item[1])),
+          interactionType: safeNumber(safeExtractValue(item[2]), 0) as InteractionType,
+          targetId: safeNumber(safeExtractValue(item[3]), 0),
+          targetType: safeNumber(safeExtractValue(item[4]), 0) as TargetType,
+          fromUser: safeString(safeExtractValue(item[5])),
+          content: safeString(safeExtractValue(item[6])),
+          parentId: safeNumber(safeExtractValue(item[7]), 0),
+          tipAmount: safeNumber(safeExtractValue(item[8]), 0),
+        });
+      } catch (decodeError: any) {
+        console.warn('⚠️ [V3] Failed to decode interaction record, skipping:', decodeError.message);
+      }
+    }
+
+    return interactions;
+  }
+
+  /**
+   * Apply FOLLOW/UNFOLLOW interactions to the follow graph
+   */
+  private applyFollowInteractions(interactions: InteractionDataV3[]): void {
+    for (const interaction of interactions) {
+      if (interaction.targetType !== TargetType.USER) continue;
+      if (interaction.interactionType !== InteractionType.FOLLOW &&
+          interaction.interactionType !== InteractionType.UNFOLLOW) continue;
+
+      // Full target address lives in content - records without it can't be keyed safely
+      if (!isAddress(interaction.content, { strict: false })) continue;
+
+      followGraph.applyEvent(
+        interaction.fromUser,
+        interaction.content,
+        interaction.interactionType === InteractionType.FOLLOW,
+        interaction.timestamp
+      );
+    }
+  }
+
+  /**
+   * Read interactions written since the last seen index of a publisher into the follow graph
+   */
+  private async syncFollowGraphFromPublisher(schemaId: Hex, publisher: string): Promise<void> {
+    try {
+      const publisherAddress = publisher as `0x${string}`;
+      const total = Number((await this.sdk.streams.totalPublisherDataForSchema(schemaId, publisherAddress)) ?? 0);
+
+      let lastIndex = this.followGraphCursors.get(publisher) || 0;
+      while (lastIndex < total) {
+        const endIndex = Math.min(lastIndex + this.RANGE_PAGE_SIZE, total);
+        const rawData = await this.sdk.streams.getBetweenRange(schemaId, publisherAddress, BigInt(lastIndex), BigInt(endIndex));
+        if (rawData instanceof Error) {
+          throw rawData;
+        }
+
+        this.applyFollowInteractions(this.decodeInteractions((rawData || []) as any[]));
+        lastIndex = endIndex;
+        this.followGraphCursors.set(publisher, lastIndex);
+      }
+    } catch (error: any) {
+      if (error?.message?.includes('NoData()')) return;
+      console.warn(`⚠️ [V3] Failed to sync follow graph from publisher ${publisher.slice(0, 10)}:`, error);
+    }
+  }
+
+  /**
+   * Build / update the follow graph incrementally from all known publishers
+   */
+  private async syncFollowGraph(): Promise<void> {
+    const cacheKey = 'follow_graph_sync';
+    const cached = this.dataCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
+      return;
+    }
+
+    const pending = this.pendingRequests.get(cacheKey);
+    if (pending) return pending;
+
+    const request = (async () => {
+      try {
+        await this.ensureInitialized();
+
+        const schemaId = await this.getSchemaIdCached('interactions');
+        const publishers = new Set(publisherIndexer.getAllPublishers().map(p => p.toLowerCase()));
+        try {
+          publishers.add((await this.getServerPublisherAddress()).toLowerCase());
+        } catch (error) {
+          // No server key - user publishers only
+        }
+
+        await Promise.all(
+          Array.from(publishers).map(publisher => this.syncFollowGraphFromPublisher(schemaId, publisher))
+        );
+
+        this.dataCache.set(cacheKey, { data: [], timestamp: Date.now() });
+      } finally {
+        this.pendingRequests.delete(cacheKey);
+      }
+    })();
+
+    this.pendingRequests.set(cacheKey, request);
+    return request;
+  }
+
+  /**
+   * Keep the follow graph live - watch store events on the interactions stream and
+   * read only the publisher that wrote
+   */
+  private async startFollowGraphLiveSync(): Promise<void> {
+    if (this.unwatchFollowGraph || !this.publicClient) return;
+
+    await this.ensureInitialized();
+    const protocol = await this.sdk.streams.getSomniaDataStreamsProtocolInfo();
+    if (!protocol || protocol instanceof Error) {
+      console.warn('⚠️ [V3] Streams protocol not found - follow graph live sync disabled');
+      return;
+    }
+
+    const schemaId = await this.getSchemaIdCached('interactions');
+    // Last subscriber may have left while this was starting
+    if (this.unwatchFollowGraph || this.followGraphSubscribers === 0) return;
+
+    this.unwatchFollowGraph = this.publicClient.watchContractEvent({
+      address: protocol.address,
+      abi: protocol.abi,
+      eventName: 'ESStoreEvent',
+      args: { schemaId },
+      onLogs: (logs: { args?: { publisher?: string } }[]) => {
+        const publishers = new Set(
+          logs.map(log => log.args?.publisher?.toLowerCase()).filter((publisher): publisher is string => !!publisher)
+        );
+        publishers.forEach(publisher => {
+          publisherIndexer.addPublisher(publisher);
+          this.syncFollowGraphFromPublisher(schemaId, publisher);
+        });
+      },
+      onError: (error: Error) => {
+        console.warn('⚠️ [V3] Follow graph stream subscription error:', error);
+      },
+    });
+  }
+
+  private stopFollowGraphLiveSync(): void {
+    this.unwatchFollowGraph?.();
+    this.unwatchFollowGraph = null;
+  }
+
+  /**
+   * Listen to follow graph changes (local writes + live sync), returns an unsubscribe function
+   * The stream subscription is torn down when the last listener unsubscribes
+   */
+  subscribeToFollowGraph(callback: (change: FollowChange) => void): () => void {
+    this.followGraphSubscribers++;
+    this.syncFollowGraph()
+      .then(() => this.startFollowGraphLiveSync())
+      .catch(error => {
+        console.warn('⚠️ [V3] Failed to sync follow graph:', error);
+      });
+
+    const unsubscribe = followGraph.subscribe(callback);
+    let active = true;
+    return () => {
+      if (!active) return;
+      active = false;
+      unsubscribe();
+      this.followGraphSubscribers--;
+      if (this.followGraphSubscribers === 0) {
+        this.stopFollowGraphLiveSync();
+      }
+    };
+  }
+
   /**
    * Check if user is following another user
    */
   async isFollowing(followerAddress: string, targetAddress: string): Promise<boolean> {
     try {
-      const interactions = await this.getAllInteractions();
-      
-      // Convert target address to targetId
-      const targetId = parseInt(targetAddress.slice(2, 18), 16);
-      
-      // Filter follow interactions for this user and target
-      const followInteractions = interactions.filter(
-        i => i.fromUser.toLowerCase() === followerAddress.toLowerCase() &&
-             i.targetId === targetId &&
-             i.targetType === TargetType.USER &&
-             (i.interactionType === InteractionType.FOLLOW || 
-              i.interactionType === InteractionType.UNFOLLOW)
-      );
-      
-      // Sort by timestamp (oldest first)
-      followInteractions.sort((a, b) => a.timestamp - b.timestamp);
-      
-      // Get last interaction
-      const lastInteraction = followInteractions[followInteractions.length - 1];
-      
-      return lastInteraction?.interactionType === InteractionType.FOLLOW;
+      await this.syncFollowGraph();
+      return followGraph.isFollowing(followerAddress, targetAddress);
     } catch (error) {
       console.error('❌ [V3] Failed to check follow status:', error);
       return false;
@@ -2527,39 +3303,8 @@ class SomniaDatastreamServiceV3 {
    */
   async getFollowerCount(userAddress: string): Promise<number> {
     try {
-      const interactions = await this.getAllInteractions();
-      
-      // Convert address to targetId
-      const targetId = parseInt(userAddress.slice(2, 18), 16);
-      
-      // Filter follow/unfollow interactions for this user
-      const followInteractions = interactions.filter(
-        i => i.targetId === targetId &&
-             i.targetType === TargetType.USER &&
-             (i.interactionType === InteractionType.FOLLOW || 
-              i.interactionType === InteractionType.UNFOLLOW)
-      );
-      
-      // Track follow state per follower
-      const followState = new Map<string, boolean>();
-      
-      // Sort by timestamp (oldest first)
-      followInteractions.sort((a, b) => a.timestamp - b.timestamp);
-      
-      for (const interaction of followInteractions) {
-        const follower = interaction.fromUser.toLowerCase();
-        if (interaction.interactionType === InteractionType.FOLLOW) {
-          followState.set(follower, true);
-        } else if (interaction.interactionType === InteractionType.UNFOLLOW) {
-          followState.set(follower, false);
-        }
-      }
-      
-      // Count active followers
-      const count = Array.from(followState.values()).filter(isFollowing => isFollowing).length;
-      
-      // Removed verbose logging - use debug tools if needed
-      return count;
+      await this.syncFollowGraph();
+      return followGraph.getFollowerCount(userAddress);
     } catch (error) {
       console.error('❌ [V3] Failed to get follower count:', error);
       return 0;
@@ -2571,35 +3316,8 @@ class SomniaDatastreamServiceV3 {
    */
   async getFollowingCount(userAddress: string): Promise<number> {
     try {
-      const interactions = await this.getAllInteractions();
-      
-      // Filter follow/unfollow interactions by this user
-      const followInteractions = interactions.filter(
-        i => i.fromUser.toLowerCase() === userAddress.toLowerCase() &&
-             i.targetType === TargetType.USER &&
-             (i.interactionType === InteractionType.FOLLOW || 
-              i.interactionType === InteractionType.UNFOLLOW)
-      );
-      
-      // Track follow state per target
-      const followState = new Map<number, boolean>();
-      
-      // Sort by timestamp (oldest first)
-      followInteractions.sort((a, b) => a.timestamp - b.timestamp);
-      
-      for (const interaction of followInteractions) {
-        if (interaction.interactionType === InteractionType.FOLLOW) {
-          followState.set(interaction.targetId, true);
-        } else if (interaction.interactionType === InteractionType.UNFOLLOW) {
-          followState.set(interaction.targetId, false);
-        }
-      }
-      
-      // Count active follows
-      const count = Array.from(followState.values()).filter(isFollowing => isFollowing).length;
-      
-      // Removed verbose logging - use debug tools if needed
-      return count;
+      await this.syncFollowGraph();
+      return followGraph.getFollowingCount(userAddress);
     } catch (error) {
       console.error('❌ [V3] Failed to get following count:', error);
       return 0;
@@ -2607,45 +3325,12 @@ class SomniaDatastreamServiceV3 {
   }
 
   /**
-   * Get list of followers for a user
+   * Get list of followers for a user (newest first)
    */
-  async getFollowers(userAddress: string): Promise<string[]> {
+  async getFollowers(userAddress: string, offset: number = 0, limit?: number): Promise<string[]> {
     try {
-      const interactions = await this.getAllInteractions();
-      
-      // Convert address to targetId
-      const targetId = parseInt(userAddress.slice(2, 18), 16);
-      
-      // Filter follow/unfollow interactions for this user
-      const followInteractions = interactions.filter(
-        i => i.targetId === targetId &&
-             i.targetType === TargetType.USER &&
-             (i.interactionType === InteractionType.FOLLOW || 
-              i.interactionType === InteractionType.UNFOLLOW)
-      );
-      
-      // Track follow state per follower
-      const followState = new Map<string, boolean>();
-      
-      // Sort by timestamp (oldest first)
-      followInteractions.sort((a, b) => a.timestamp - b.timestamp);
-      
-      for (const interaction of followInteractions) {
-        const follower = interaction.fromUser.toLowerCase();
-        if (interaction.interactionType === InteractionType.FOLLOW) {
-          followState.set(follower, true);
-        } else if (interaction.interactionType === InteractionType.UNFOLLOW) {
-          followState.set(follower, false);
-        }
-      }
-      
-      // Get active followers
-      const followers = Array.from(followState.entries())
-        .filter(([_, isFollowing]) => isFollowing)
-        .map(([follower, _]) => follower);
-      
-      console.log('👥 [V3] Followers for', userAddress, ':', followers.length);
-      return followers;
+      await this.syncFollowGraph();
+      return followGraph.getFollowers(userAddress, offset, limit).addresses;
     } catch (error) {
       console.error('❌ [V3] Failed to get followers:', error);
       return [];
@@ -2653,48 +3338,31 @@ class SomniaDatastreamServiceV3 {
   }
 
   /**
-   * Get list of users that a user is following
+   * Get list of users that a user is following (newest first)
    */
-  async getFollowing(userAddress: string): Promise<string[]> {
+  async getFollowing(userAddress: string, offset: number = 0, limit?: number): Promise<string[]> {
     try {
-      const interactions = await this.getAllInteractions();
-      
-      // Filter follow/unfollow interactions by this user
-      const followInteractions = interactions.filter(
-        i => i.fromUser.toLowerCase() === userAddress.toLowerCase() &&
-             i.targetType === TargetType.USER &&
-             (i.interactionType === InteractionType.FOLLOW || 
-              i.interactionType === InteractionType.UNFOLLOW)
-      );
-      
-      // Track follow state per target (use content field which stores full address)
-      const followState = new Map<string, boolean>();
-      
-      // Sort by timestamp (oldest first)
-      followInteractions.sort((a, b) => a.timestamp - b.timestamp);
-      
-      for (const interaction of followInteractions) {
-        const targetAddress = interaction.content.toLowerCase(); // Full address stored in content
-        if (interaction.interactionType === InteractionType.FOLLOW) {
-          followState.set(targetAddress, true);
-        } else if (interaction.interactionType === InteractionType.UNFOLLOW) {
-          followState.set(targetAddress, false);
-        }
-      }
-      
-      // Get active follows
-      const following = Array.from(followState.entries())
-        .filter(([_, isFollowing]) => isFollowing)
-        .map(([target, _]) => target);
-      
-      console.log('👥 [V3] Following for', userAddress, ':', following.length);
-      return following;
+      await this.syncFollowGraph();
+      return followGraph.getFollowing(userAddress, offset, limit).addresses;
     } catch (error) {
       console.error('❌ [V3] Failed to get following:', error);
       return [];
     }
   }
 
+  /**
+   * Get followers of a user that the viewer follows ("Followed by ...")
+   */
+  async getFollowedByFollowing(viewerAddress: string, targetAddress: string): Promise<string[]> {
+    try {
+      await this.syncFollowGraph();
+      return followGraph.getFollowedByFollowing(viewerAddress, targetAddress);
+    } catch (error) {
+      console.error('❌ [V3] Failed to get followers you follow:', error);
+      return [];
+    }
+  }
+
   // ===== ACTIVITY HISTORY OPERATIONS (NEW) =====
 
   /**
@@ -2746,9 +3414,13 @@ class SomniaDatastreamServiceV3 {
   }
 
   /**
-   * Get activity history for a user
+   * Get activity history for a user (optionally only one activity type)
    */
-  async getActivityHistory(userAddress: string, limit: number = 50): Promise<ActivityHistoryData[]> {
+  async getActivityHistory(
+    userAddress: string,
+    limit: number = 50,
+    activityType?: ActivityHistoryType
+  ): Promise<ActivityHistoryData[]> {
     await this.ensureInitialized();
 
     try {
@@ -2823,7 +3495,8 @@ class SomniaDatastreamServiceV3 {
           };
         })
         .filter((activity: ActivityHistoryData) => 
-          activity.user.toLowerCase() === userAddress.toLowerCase()
+          activity.user.toLowerCase() === userAddress.toLowerCase() &&
+          (activityType === undefined || activity.activityType === activityType)
         )
         .sort((a: ActivityHistoryData, b: ActivityHistoryData) => b.timestamp - a.timestamp)
         .slice(0, limit);
@@ -2840,6 +3513,379 @@ class SomniaDatastreamServiceV3 {
     }
   }
 
+  // ===== PROFILES (cached profile data + DM encryption keys) =====
+
+  /**
+   * Write a user's cached profile record (one record per user, overwritten)
+   */
+  async saveProfileData(profile: Partial<ProfileDataV3> & { userAddress: string }): Promise<void> {
+    await this.ensureInitialized();
+
+    try {
+      const schemaId = await this.getSchemaIdCached('profiles');
+      const schemaEncoder = new SchemaEncoder(SOMNIA_CONFIG_V3.schemaStrings.profiles);
+
+      // Encode data (12 fields)
+      const encodedData = schemaEncoder.encodeData([
+        { name: 'userAddress', value: profile.userAddress, type: 'address' },
+        { name: 'username', value: profile.username || '', type: 'string' },
+        { name: 'displayName', value: profile.displayName || '', type: 'string' },
+        { name: 'bio', value: profile.bio || '', type: 'string' },
+        { name: 'avatarHash', value: profile.avatarHash || '', type: 'string' },
+        { name: 'followerCount', value: (profile.followerCount || 0).toString(), type: 'uint32' },
+        { name: 'followingCount', value: (profile.followingCount || 0).toString(), type: 'uint32' },
+        { name: 'isVerified', value: profile.isVerified || false, type: 'bool' },
+        { name: 'isArtist', value: profile.isArtist || false, type: 'bool' },
+        { name: 'encryptionKey', value: profile.encryptionKey || '', type: 'string' },
+        { name: 'encryptionKeyVersion', value: (profile.encryptionKeyVersion || 0).toString(), type: 'uint32' },
+        { name: 'encryptionKeySignature', value: profile.encryptionKeySignature || '0x', type: 'bytes' },
+      ]);
+
+      await transactionQueue.enqueue(async () => {
+        const txHash = await this.sdk.streams.set([{
+          schemaId,
+          id: pad(profile.userAddress.toLowerCase() as Hex, { size: 32 }),
+          data: encodedData,
+        }]);
+
+        console.log('✅ [V3] Profile data saved:', { txHash, user: profile.userAddress });
+        return txHash;
+      });
+
+      this.dataCache.delete('all_profile_data');
+    } catch (error) {
+      console.error('❌ [V3] Failed to save profile data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get all cached profile records
+   */
+  async getAllProfileData(): Promise<ProfileDataV3[]> {
+    await this.ensureInitialized();
+
+    const cacheKey = 'all_profile_data';
+    const cached = this.dataCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < this.cacheExpiry) {
+      return cached.data as ProfileDataV3[];
+    }
+
+    try {
+      const publisher = await this.getServerPublisherAddress();
+      const schemaId = await this.getSchemaIdCached('profiles');
+      const rawData = await this.sdk.streams.getAllPublisherDataForSchema(schemaId, publisher as `0x${string}`);
+
+      if (!rawData || rawData.length === 0) {
+        return [];
+      }
+
+      // Decode data (12 fields)
+      const profiles: ProfileDataV3[] = (rawData as any[])
+        .filter(item => Array.isArray(item) && item.length > 0)
+        .map(item => ({
+          userAddress: safeString(safeExtractValue(item[0])),
+          username: safeString(safeExtractValue(item[1])),
+          displayName: safeString(safeExtractValue(item[2])),
+          bio: safeString(safeExtractValue(item[3])),
+          avatarHash: safeString(safeExtractValue(item[4])),
+          followerCount: safeNumber(safeExtractValue(item[5])),
+          followingCount: safeNumber(safeExtractValue(item[6])),
+          isVerified: Boolean(safeExtractValue(item[7], false)),
+          isArtist: Boolean(safeExtractValue(item[8], false)),
+          encryptionKey: safeString(safeExtractValue(item[9])),
+          encryptionKeyVersion: safeNumber(safeExtractValue(item[10])),
+          encryptionKeySignature: safeString(safeExtractValue(item[11])),
+        }));
+
+      this.dataCache.set(cacheKey, { data: profiles, timestamp: Date.now() });
+      return profiles;
+    } catch (error: any) {
+      if (error?.message?.includes('NoData()')) {
+        return [];
+      }
+      console.error('❌ [V3] Failed to load profile data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the cached profile record of a user
+   */
+  async getProfileData(userAddress: string, skipCache: boolean = false): Promise<ProfileDataV3 | null> {
+    if (skipCache) {
+      this.dataCache.delete('all_profile_data');
+    }
+    const profiles = await this.getAllProfileData();
+    return profiles.find(profile => profile.userAddress.toLowerCase() === userAddress.toLowerCase()) || null;
+  }
+
+  // ===== DIRECT MESSAGES =====
+
+  /**
+   * Write a direct message (or read receipt) to the datastream
+   * The server wallet writes every record, so signRecord must prove the sender (see dmEncryptionService)
+   */
+  async sendDirectMessage(
+    messageData: Partial<DirectMessageData>,
+    signRecord: DirectMessageSigner
+  ): Promise<DirectMessageData> {
+    await this.ensureInitialized();
+
+    if (!validateDirectMessageData(messageData)) {
+      throw new Error('Invalid direct message data');
+    }
+
+    try {
+      const unsigned: UnsignedDirectMessage = {
+        id: messageData.id || createDirectMessageId(),
+        timestamp: messageData.timestamp || Date.now(),
+        conversationId: messageData.conversationId || getConversationId(messageData.sender!, messageData.recipient!),
+        sender: messageData.sender!,
+        recipient: messageData.recipient!,
+        messageType: messageData.messageType ?? DirectMessageType.TEXT,
+        content: messageData.content || '',
+      };
+      const message: DirectMessageData = { ...unsigned, proof: await signRecord(unsigned) };
+
+      const schemaId = await this.getSchemaIdCached('directMessages');
+      const schemaEncoder = new SchemaEncoder(SOMNIA_CONFIG_V3.schemaStrings.directMessages);
+
+      // Encode data (8 fields)
+      const encodedData = schemaEncoder.encodeData([
+        { name: 'id', value: message.id.toString(), type: 'uint256' },
+        { name: 'timestamp', value: message.timestamp.toString(), type: 'uint256' },
+        { name: 'conversationId', value: message.conversationId, type: 'string' },
+        { name: 'sender', value: message.sender, type: 'address' },
+        { name: 'recipient', value: message.recipient, type: 'address' },
+        { name: 'messageType', value: message.messageType.toString(), type: 'uint8' },
+        { name: 'content', value: message.content, type: 'string' },
+        { name: 'proof', value: message.proof, type: 'string' },
+      ]);
+
+      await transactionQueue.enqueue(async () => {
+        const txHash = await this.sdk.streams.set([{
+          schemaId,
+          id: numberToBytes32(message.id),
+          data: encodedData,
+        }]);
+
+        console.log('✅ [V3] Direct message written:', { txHash, id: message.id, type: message.messageType });
+        return txHash;
+      });
+
+      this.dataCache.delete('direct_messages_sync');
+      return message;
+    } catch (error) {
+      console.error('❌ [V3] Failed to send direct message:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Decode raw direct message records (8 fields)
+   */
+  private decodeDirectMessages(rawData: unknown[]): DirectMessageData[] {
+    const messages: DirectMessageData[] = [];
+    for (const item of rawData) {
+      if (!item || !Array.isArray(item) || item.length === 0) continue;
+
+      try {
+        messages.push({
+          id: safeNumber(safeExtractValue(item[0])),
+          timestamp: safeNumber(safeExtractValue(item[1])),
+          conversationId: safeString(safeExtractValue(item[2])),
+          sender: safeString(safeExtractValue(item[3])),
+          recipient: safeString(safeExtractValue(item[4])),
+          messageType: safeNumber(safeExtractValue(item[5])) as DirectMessageType,
+          content: safeString(safeExtractValue(item[6])),
+          proof: safeString(safeExtractValue(item[7])),
+        });
+      } catch (decodeError: any) {
+        console.warn('⚠️ [V3] Failed to decode direct message, skipping:', decodeError.message);
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * Read direct message records written since the last sync
+   * Each poll costs one count call plus the new records, not the whole stream
+   */
+  private async syncDirectMessages(): Promise<void> {
+    const cacheKey = 'direct_messages_sync';
+    const cached = this.dataCache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < 2000) {
+      return;
+    }
+
+    const pending = this.pendingRequests.get(cacheKey);
+    if (pending) return pending;
+
+    const request = (async () => {
+      try {
+        await this.ensureInitialized();
+
+        const publisher = (await this.getServerPublisherAddress()) as `0x${string}`;
+        const schemaId = await this.getSchemaIdCached('directMessages');
+        const total = Number((await this.sdk.streams.totalPublisherDataForSchema(schemaId, publisher)) ?? 0);
+
+        while (this.directMessageCursor < total) {
+          const endIndex = Math.min(this.directMessageCursor + this.RANGE_PAGE_SIZE, total);
+          const rawData = await this.sdk.streams.getBetweenRange(
+            schemaId,
+            publisher,
+            BigInt(this.directMessageCursor),
+            BigInt(endIndex)
+          );
+          if (rawData instanceof Error) {
+            throw rawData;
+          }
+
+          for (const message of this.decodeDirectMessages((rawData || []) as unknown[])) {
+            for (const participant of [message.sender, message.recipient]) {
+              const key = participant.toLowerCase();
+              const records = this.directMessagesByUser.get(key) || [];
+              records.push(message);
+              this.directMessagesByUser.set(key, records);
+            }
+          }
+          this.directMessageCursor = endIndex;
+        }
+
+        this.dataCache.set(cacheKey, { data: [], timestamp: Date.now() });
+      } catch (error: any) {
+        if (error?.message?.includes('NoData()')) return;
+        console.error('❌ [V3] Failed to sync direct messages:', error);
+        throw error;
+      } finally {
+        this.pendingRequests.delete(cacheKey);
+      }
+    })();
+
+    this.pendingRequests.set(cacheKey, request);
+    return request;
+  }
+
+  /**
+   * Get all direct message records sent or received by a user (unverified - see dmEncryptionService.verifyRecord)
+   */
+  async getDirectMessagesForUser(userAddress: string): Promise<DirectMessageData[]> {
+    await this.syncDirectMessages();
+    const records = this.directMessagesByUser.get(userAddress.toLowerCase()) || [];
+    return [...records].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Write a read receipt - marks everything up to readUntil as read by reader
+   */
+  async markConversationRead(
+    reader: string,
+    peer: string,
+    readUntil: number,
+    signRecord: DirectMessageSigner
+  ): Promise<DirectMessageData> {
+    return this.sendDirectMessage({
+      sender: reader,
+      recipient: peer,
+      messageType: DirectMessageType.READ_RECEIPT,
+      content: readUntil.toString(),
+    }, signRecord);
+  }
+
+  // ===== BXP TRANSACTIONS =====
+
+  private async getBXPTransactionSchemaId(): Promise<Hex> {
+    const cached = this.schemaIdCache.get(BXP_SCHEMAS.BXP_TRANSACTIONS.name);
+    if (cached) return cached;
+
+    const envSchemaId = import.meta.env.VITE_BXP_TRANSACTIONS_SCHEMA_ID;
+    const schemaId = envSchemaId
+      ? envSchemaId as Hex
+      : await this.sdk.streams.computeSchemaId(BXP_SCHEMA_STRINGS.BXP_TRANSACTIONS!);
+    this.schemaIdCache.set(BXP_SCHEMAS.BXP_TRANSACTIONS.name, schemaId);
+    return schemaId;
+  }
+
+  /**
+   * Save a BXP transaction, including the rule set version that priced it
+   */
+  async saveBXPTransaction(transaction: BXPTransactionRecord): Promise<string> {
+    await this.ensureInitialized();
+
+    const schemaId = await this.getBXPTransactionSchemaId();
+    const schemaEncoder = new SchemaEncoder(BXP_SCHEMA_STRINGS.BXP_TRANSACTIONS!);
+
+    const encodedData = schemaEncoder.encodeData([
+      { name: 'timestamp', value: transaction.timestamp.toString(), type: 'uint64' },
+      { name: 'id', value: transaction.id, type: 'string' },
+      { name: 'userAddress', value: transaction.userAddress, type: 'address' },
+      { name: 'amount', value: Math.floor(transaction.amount).toString(), type: 'uint64' },
+      { name: 'baseAmount', value: Math.floor(transaction.baseAmount).toString(), type: 'uint64' },
+      { name: 'rewardType', value: transaction.type, type: 'string' },
+      { name: 'multiplierBps', value: Math.round(transaction.multiplier * 10000).toString(), type: 'uint32' },
+      { name: 'ruleSetVersion', value: transaction.ruleSetVersion.toString(), type: 'uint64' },
+      { name: 'metadata', value: transaction.metadata, type: 'string' },
+    ]);
+
+    const txHash = await transactionQueue.enqueue(async () => {
+      return this.sdk.streams.set([{
+        schemaId,
+        id: keccak256(toHex(transaction.id)),
+        data: encodedData,
+      }]);
+    });
+
+    console.log('✅ [V3] BXP transaction saved:', { txHash, id: transaction.id, ruleSetVersion: transaction.ruleSetVersion });
+    return txHash;
+  }
+
+  /**
+   * Get a user's BXP transactions, newest first
+   */
+  async getBXPTransactions(userAddress: string, limit: number = 50): Promise<BXPTransactionRecord[]> {
+    await this.ensureInitialized();
+
+    const privateKey = import.meta.env.VITE_PRIVATE_KEY;
+    const publisher = privateKey ? privateKeyToAccount(privateKey as `0x${string}`).address : null;
+    if (!publisher) return [];
+
+    try {
+      const schemaId = await this.getBXPTransactionSchemaId();
+      const rawData = await this.sdk.streams.getAllPublisherDataForSchema(schemaId, publisher);
+
+      type DecodedField = { name?: string; value?: { value?: unknown } | unknown };
+      const field = (item: DecodedField[], name: string): unknown => {
+        const raw = item.find(entry => entry?.name === name)?.value;
+        const value = raw && typeof raw === 'object' && 'value' in raw ? raw.value : raw;
+        return value ?? '';
+      };
+
+      return ((rawData || []) as unknown[])
+        .filter((item): item is DecodedField[] => Array.isArray(item) && item.length > 0)
+        .map(item => ({
+          id: String(field(item, 'id')),
+          userAddress: String(field(item, 'userAddress')),
+          amount: Number(field(item, 'amount')) || 0,
+          baseAmount: Number(field(item, 'baseAmount')) || 0,
+          type: String(field(item, 'rewardType')),
+          multiplier: (Number(field(item, 'multiplierBps')) || 0) / 10000,
+          ruleSetVersion: Number(field(item, 'ruleSetVersion')) || 0,
+          timestamp: Number(field(item, 'timestamp')) || 0,
+          metadata: String(field(item, 'metadata') || '{}'),
+        }))
+        .filter(transaction => transaction.userAddress.toLowerCase() === userAddress.toLowerCase())
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, limit);
+    } catch (error: any) {
+      if (error?.message?.includes('NoData()')) {
+        return [];
+      }
+      console.error('❌ [V3] Failed to load BXP transactions:', error);
+      return [];
+    }
+  }
+
   // ===== GENERIC DATA METHODS (for BXP and Quest systems) =====
 
   /**
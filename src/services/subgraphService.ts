@@ -1579,7 +1579,7 @@ const GET_ALL_PLAYLISTS = gql`
       skip: $skip
       orderBy: updatedAt
       orderDirection: desc
-      where: { isPublic: true }
+      where: { isPublic: true, isDeleted: false }
     ) {
       id
       name
@@ -1587,6 +1587,8 @@ const GET_ALL_PLAYLISTS = gql`
       coverHash
       isPublic
       songCount
+      likeCount
+      collaboratorCount
       createdAt
       updatedAt
       owner {
@@ -1617,7 +1619,10 @@ const GET_PLAYLIST_BY_ID = gql`
       description
       coverHash
       isPublic
+      isDeleted
       songCount
+      likeCount
+      collaboratorCount
       createdAt
       updatedAt
       owner {
@@ -1627,6 +1632,15 @@ const GET_PLAYLIST_BY_ID = gql`
         avatarHash
         isVerified
       }
+      collaborators(where: { isActive: true }) {
+        id
+        isActive
+        addedAt
+        collaborator {
+          id
+          username
+        }
+      }
       songs(orderBy: position, orderDirection: asc) {
         id
         position
@@ -1658,6 +1672,53 @@ const GET_PLAYLIST_BY_ID = gql`
   }
 `;
 
+// Trending candidates - ranked client-side from indexed likes, recent likes and collaborators
+const GET_TRENDING_PLAYLISTS = gql`
+  query GetTrendingPlaylists($first: Int!, $since: BigInt!) {
+    playlists(
+      first: $first
+      orderBy: likeCount
+      orderDirection: desc
+      where: { isPublic: true, isDeleted: false }
+    ) {
+      id
+      name
+      description
+      coverHash
+      isPublic
+      songCount
+      likeCount
+      collaboratorCount
+      createdAt
+      updatedAt
+      owner {
+        id
+        username
+        displayName
+        avatarHash
+      }
+      songs(orderBy: position, orderDirection: asc) {
+        song {
+          id
+          tokenId
+        }
+      }
+      collaborators(where: { isActive: true }) {
+        id
+        isActive
+        addedAt
+        collaborator {
+          id
+          username
+        }
+      }
+      recentLikes: likes(first: 1000, where: { isActive: true, likedAt_gte: $since }) {
+        id
+      }
+    }
+  }
+`;
+
 const GET_USER_PLAYLISTS = gql`
   query GetUserPlaylists($userId: ID!, $first: Int!, $skip: Int!) {
     playlists(
@@ -1672,7 +1733,10 @@ const GET_USER_PLAYLISTS = gql`
       description
       coverHash
       isPublic
+      isDeleted
       songCount
+      likeCount
+      collaboratorCount
       createdAt
       updatedAt
       songs(first: 4) {
@@ -1950,6 +2014,161 @@ const GET_RECENT_SALES = gql`
   }
 `;
 
+const GET_SONG_OFFERS = gql`
+  query GetSongOffers($songId: String!, $first: Int!) {
+    songOffers(
+      where: { song: $songId, isActive: true }
+      first: $first
+      orderBy: price
+      orderDirection: desc
+    ) {
+      id
+      price
+      status
+      isActive
+      createdAt
+      expiresAt
+      acceptedAt
+      cancelledAt
+      transactionHash
+      buyer {
+        id
+        username
+        displayName
+        avatarHash
+      }
+      song {
+        id
+        tokenId
+        title
+        genre
+        coverHash
+        owner {
+          id
+          username
+          displayName
+        }
+        artist {
+          id
+          username
+          displayName
+        }
+      }
+    }
+  }
+`;
+
+// Active offers on songs the user currently owns
+const GET_SONG_OFFERS_RECEIVED = gql`
+  query GetSongOffersReceived($owner: String!, $first: Int!) {
+    songOffers(
+      where: { song_: { owner: $owner }, isActive: true }
+      first: $first
+      orderBy: createdAt
+      orderDirection: desc
+    ) {
+      id
+      price
+      status
+      isActive
+      createdAt
+      expiresAt
+      acceptedAt
+      cancelledAt
+      transactionHash
+      buyer {
+        id
+        username
+        displayName
+        avatarHash
+      }
+      song {
+        id
+        tokenId
+        title
+        genre
+        coverHash
+        owner {
+          id
+          username
+          displayName
+        }
+        artist {
+          id
+          username
+          displayName
+        }
+      }
+    }
+  }
+`;
+
+const GET_SONG_OFFERS_MADE = gql`
+  query GetSongOffersMade($buyer: String!, $first: Int!) {
+    songOffers(
+      where: { buyer: $buyer }
+      first: $first
+      orderBy: createdAt
+      orderDirection: desc
+    ) {
+      id
+      price
+      status
+      isActive
+      createdAt
+      expiresAt
+      acceptedAt
+      cancelledAt
+      transactionHash
+      buyer {
+        id
+        username
+        displayName
+        avatarHash
+      }
+      song {
+        id
+        tokenId
+        title
+        genre
+        coverHash
+        owner {
+          id
+          username
+          displayName
+        }
+        artist {
+          id
+          username
+          displayName
+        }
+      }
+    }
+  }
+`;
+
+const GET_AUCTION_BIDS = gql`
+  query GetAuctionBids($auctionId: String!, $first: Int!) {
+    auctionBids(
+      where: { auction: $auctionId }
+      first: $first
+      orderBy: amount
+      orderDirection: desc
+    ) {
+      id
+      amount
+      timestamp
+      transactionHash
+      bidder {
+        id
+        username
+        displayName
+        avatarHash
+      }
+    }
+  }
+`;
+
 // ============================================================
 // PROFILE QUERIES
 // ============================================================
@@ -2400,13 +2619,26 @@ export interface SubgraphPlaylistSong {
   song: SubgraphSong;
 }
 
+export interface SubgraphPlaylistCollaborator {
+  id: string;                      // playlist_id + collaborator
+  isActive: boolean;
+  addedAt: string;
+  collaborator: {
+    id: string;
+    username: string;
+  };
+}
+
 export interface SubgraphPlaylist {
   id: string;
   name: string;
   description?: string;
   coverHash: string;
   isPublic: boolean;
+  isDeleted?: boolean;
   songCount: string;
+  likeCount?: string;
+  collaboratorCount?: string;
   createdAt: string;
   updatedAt: string;
   owner: {
@@ -2417,6 +2649,8 @@ export interface SubgraphPlaylist {
     isVerified?: boolean;
   };
   songs?: SubgraphPlaylistSong[];
+  collaborators?: SubgraphPlaylistCollaborator[];
+  recentLikes?: Array<{ id: string }>;
   blockNumber?: string;
   transactionHash?: string;
 }
@@ -2481,6 +2715,54 @@ export interface SubgraphSongSale {
   song: SubgraphSong;
 }
 
+export interface SubgraphSongOffer {
+  id: string;
+  price: string;
+  status: 'active' | 'accepted' | 'cancelled' | 'refunded';
+  isActive: boolean;
+  createdAt: string;
+  expiresAt?: string;
+  acceptedAt?: string;
+  cancelledAt?: string;
+  transactionHash: string;
+  buyer: {
+    id: string;
+    username: string;
+    displayName: string;
+    avatarHash: string;
+  };
+  song: {
+    id: string;
+    tokenId: string;
+    title: string;
+    genre?: string;
+    coverHash?: string;
+    owner: {
+      id: string;
+      username: string;
+      displayName: string;
+    };
+    artist: {
+      id: string;
+      username: string;
+      displayName: string;
+    };
+  };
+}
+
+export interface SubgraphAuctionBid {
+  id: string;
+  amount: string;
+  timestamp: string;
+  transactionHash: string;
+  bidder: {
+    id: string;
+    username: string;
+    displayName: string;
+    avatarHash: string;
+  };
+}
+
 export interface SubgraphGlobalStats {
   id: string;
   totalUsers: string;
@@ -2946,6 +3228,35 @@ const playlistService = {
       return [];
     }
   },
+
+  /**
+   * Get trending playlist candidates with indexed like and collaborator counts
+   * @param sinceTimestamp - Unix seconds; likes after this are returned as recentLikes
+   */
+  async getTrendingPlaylists(first: number = 100, sinceTimestamp: number = 0): Promise<SubgraphPlaylist[]> {
+    try {
+      console.log('[Subgraph] Fetching trending playlists:', { first, sinceTimestamp });
+
+      const result = await apolloClient.query({
+        query: GET_TRENDING_PLAYLISTS,
+        variables: { first, since: sinceTimestamp.toString() },
+        fetchPolicy: 'network-only',
+      });
+
+      if (result.error) {
+        console.error('[Subgraph] Query error:', result.error);
+        return [];
+      }
+
+      const playlists = (result.data as any)?.playlists || [];
+      console.log(`[Subgraph] Fetched ${playlists.length} trending playlist candidates`);
+
+      return playlists;
+    } catch (error) {
+      console.error('[Subgraph] Error fetching trending playlists:', error);
+      return [];
+    }
+  },
 };
 
 // ============================================================
@@ -3152,6 +3463,90 @@ const exploreService = {
       return [];
     }
   },
+
+  /**
+   * Get active offers on a song, highest first
+   */
+  async getSongOffers(tokenId: string | number, first: number = 20): Promise<SubgraphSongOffer[]> {
+    try {
+      const result = await apolloClient.query({
+        query: GET_SONG_OFFERS,
+        variables: { songId: tokenId.toString(), first },
+        fetchPolicy: 'network-only',
+      });
+
+      const offers = (result.data as any)?.songOffers || [];
+      console.log(`[Subgraph] Fetched ${offers.length} offers for song ${tokenId}`);
+
+      return offers;
+    } catch (error) {
+      console.error('[Subgraph] Error fetching song offers:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Get active offers on songs owned by a user
+   */
+  async getSongOffersReceived(ownerAddress: string, first: number = 50): Promise<SubgraphSongOffer[]> {
+    try {
+      const result = await apolloClient.query({
+        query: GET_SONG_OFFERS_RECEIVED,
+        variables: { owner: ownerAddress.toLowerCase(), first },
+        fetchPolicy: 'network-only',
+      });
+
+      const offers = (result.data as any)?.songOffers || [];
+      console.log(`[Subgraph] Fetched ${offers.length} offers received by ${ownerAddress}`);
+
+      return offers;
+    } catch (error) {
+      console.error('[Subgraph] Error fetching offers received:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Get offers made by a user (all statuses)
+   */
+  async getSongOffersMade(buyerAddress: string, first: number = 50): Promise<SubgraphSongOffer[]> {
+    try {
+      const result = await apolloClient.query({
+        query: GET_SONG_OFFERS_MADE,
+        variables: { buyer: buyerAddress.toLowerCase(), first },
+        fetchPolicy: 'network-only',
+      });
+
+      const offers = (result.data as any)?.songOffers || [];
+      console.log(`[Subgraph] Fetched ${offers.length} offers made by ${buyerAddress}`);
+
+      return offers;
+    } catch (error) {
+      console.error('[Subgraph] Error fetching offers made:', error);
+      return [];
+    }
+  },
+
+  /**
+   * Get bids on an auction, highest first
+   */
+  async getAuctionBids(auctionId: string | number, first: number = 20): Promise<SubgraphAuctionBid[]> {
+    try {
+      const result = await apolloClient.query({
+        query: GET_AUCTION_BIDS,
+        variables: { auctionId: auctionId.toString(), first },
+        fetchPolicy: 'network-only',
+      });
+
+      const bids = (result.data as any)?.auctionBids || [];
+      console.log(`[Subgraph] Fetched ${bids.length} bids for auction ${auctionId}`);
+
+      return bids;
+    } catch (error) {
+      console.error('[Subgraph] Error fetching auction bids:', error);
+      return [];
+    }
+  },
 };
 
 // ============================================================
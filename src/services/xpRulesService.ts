@@ -0,0 +1,257 @@
+// XP Rules Service
+// Versioned BXP reward rule sets - each version is its own stream entry, so published sets are never
+// overwritten and every transaction can point back at the rules that priced it
+
+import { SDK, SchemaEncoder } from '@somnia-chain/streams';
+import { createPublicClient, http, keccak256, toBytes, type Hex, type PublicClient, type WalletClient } from 'viem';
+import { somniaTestnet } from '@/lib/web3-config';
+import {
+  BXP_REWARDS,
+  BXP_MULTIPLIERS,
+  DEFAULT_XP_RULE_SET,
+  compareRuleSets,
+  resolveActiveRuleSet,
+  type XPRuleSet,
+} from '@/config/bxpRewards';
+import { XP_RULES_SCHEMA } from '@/config/somniaDataStreams.bxp';
+import { getFieldValue, isDecodedRecord, type DecodedField } from '@/utils/streamFields';
+
+// ===== TYPES =====
+
+export type XPRuleSetDraft = Omit<XPRuleSet, 'version' | 'author' | 'createdAt'>;
+
+// Wallets allowed to publish rule sets - only their streams are read back
+const XP_RULES_ADMINS: string[] = (import.meta.env.VITE_XP_RULES_ADMINS || '')
+  .split(',')
+  .map((address: string) => address.trim().toLowerCase())
+  .filter(Boolean);
+
+// ===== SERVICE =====
+
+class XPRulesService {
+  private sdk: SDK | null = null;
+  // Without strictNullChecks viem infers a json-rpc account for the client, which the SDK's PublicClient type rejects
+  private publicClient = createPublicClient({
+    chain: somniaTestnet,
+    transport: http(import.meta.env.VITE_SOMNIA_RPC_URL || 'https://dream-rpc.somnia.network'),
+  }) as unknown as PublicClient;
+  private schemaId: Hex | null = null;
+
+  // Cache
+  private ruleSetsCache: { ruleSets: XPRuleSet[]; timestamp: number } | null = null;
+  private readonly CACHE_TTL = 300000; // 5 minutes - rule sets change rarely
+
+  private initPromise: Promise<void> | null = null;
+
+  constructor() {
+    this.initPromise = this.initialize();
+  }
+
+  // ===== INITIALIZATION =====
+
+  private async initialize(): Promise<void> {
+    try {
+      this.sdk = new SDK({ public: this.publicClient });
+
+      const envSchemaId = import.meta.env.VITE_XP_RULES_SCHEMA_ID;
+      this.schemaId = envSchemaId
+        ? envSchemaId as `0x${string}`
+        : await this.sdk.streams.computeSchemaId(XP_RULES_SCHEMA);
+
+      console.log(`🔑 [XP-RULES] Schema ID: ${this.schemaId}`);
+    } catch (error) {
+      console.error('❌ [XP-RULES] Failed to initialize:', error);
+      throw error;
+    }
+  }
+
+  private async ensureInitialized(): Promise<void> {
+    if (this.initPromise) {
+      await this.initPromise;
+    }
+    if (!this.sdk || !this.schemaId) {
+      throw new Error('SDK not initialized');
+    }
+  }
+
+  // ===== HELPER METHODS =====
+
+  /**
+   * Whether a wallet may publish XP rule sets
+   */
+  isAdmin(address?: string | null): boolean {
+    return !!address && XP_RULES_ADMINS.includes(address.toLowerCase());
+  }
+
+  // ===== READ =====
+
+  /**
+   * All published rule sets, newest version first (only admin publishers are trusted)
+   */
+  async getRuleSets(forceRefresh: boolean = false): Promise<XPRuleSet[]> {
+    if (!forceRefresh && this.ruleSetsCache && Date.now() - this.ruleSetsCache.timestamp < this.CACHE_TTL) {
+      return this.ruleSetsCache.ruleSets;
+    }
+
+    await this.ensureInitialized();
+
+    if (XP_RULES_ADMINS.length === 0) {
+      console.warn('⚠️ [XP-RULES] No XP rules admins configured - using default rewards');
+      return [];
+    }
+
+    try {
+      const decoder = new SchemaEncoder(XP_RULES_SCHEMA);
+      const results = await Promise.all(
+        XP_RULES_ADMINS.map(admin =>
+          this.sdk!.streams.getAllPublisherDataForSchema(this.schemaId!, admin as `0x${string}`).catch(() => [])
+        )
+      );
+      const rawData: unknown[] = results.flatMap(result => (Array.isArray(result) ? result : []));
+
+      const published = rawData
+        .map(item => {
+          try {
+            const decoded: unknown = typeof item === 'string' && item.startsWith('0x')
+              ? decoder.decodeData(item as Hex)
+              : item;
+            return isDecodedRecord(decoded) ? this.parseRuleSet(decoded) : null;
+          } catch {
+            return null;
+          }
+        })
+        .filter((ruleSet): ruleSet is XPRuleSet => !!ruleSet && this.isAdmin(ruleSet.author))
+        .sort(compareRuleSets);
+
+      // Keep one rule set per version - transactions only record the version that priced them
+      const ruleSets = published.filter((ruleSet, index) => {
+        const winner = published[index - 1];
+        if (winner && winner.version === ruleSet.version) {
+          console.warn(`⚠️ [XP-RULES] Rule set v${ruleSet.version} by ${ruleSet.author} lost to ${winner.author} - publish it again as a new version`);
+          return false;
+        }
+        return true;
+      });
+
+      this.ruleSetsCache = { ruleSets, timestamp: Date.now() };
+      console.log(`📐 [XP-RULES] Loaded ${ruleSets.length} rule sets`);
+      return ruleSets;
+    } catch (error) {
+      console.error('❌ [XP-RULES] Failed to load rule sets:', error);
+      // Keep pricing awards with the last known rules
+      return this.ruleSetsCache?.ruleSets || [];
+    }
+  }
+
+  /**
+   * Rule set in effect at a given time (defaults when none is published)
+   */
+  async getActiveRuleSet(at: number = Date.now()): Promise<XPRuleSet> {
+    const ruleSets = await this.getRuleSets();
+    return resolveActiveRuleSet(ruleSets, at);
+  }
+
+  // ===== PUBLISH =====
+
+  /**
+   * Publish a new rule set version, signed by the admin's own wallet
+   */
+  async publishRuleSet(draft: XPRuleSetDraft, walletClient: WalletClient): Promise<XPRuleSet> {
+    await this.ensureInitialized();
+
+    const author = walletClient?.account?.address;
+    if (!this.isAdmin(author)) {
+      throw new Error('Only XP rules admins can publish rule sets');
+    }
+
+    const existing = await this.getRuleSets(true);
+    const version = Math.max(0, ...existing.map(ruleSet => ruleSet.version)) + 1;
+    const timestamp = Date.now();
+
+    const ruleSet: XPRuleSet = { ...draft, version, author, createdAt: timestamp };
+
+    const encoder = new SchemaEncoder(XP_RULES_SCHEMA);
+    const encodedData = encoder.encodeData([
+      { name: 'timestamp', value: timestamp.toString(), type: 'uint64' },
+      { name: 'version', value: version.toString(), type: 'uint64' },
+      { name: 'effectiveFrom', value: Math.floor(ruleSet.effectiveFrom).toString(), type: 'uint64' },
+      { name: 'effectiveUntil', value: Math.floor(ruleSet.effectiveUntil || 0).toString(), type: 'uint64' },
+      { name: 'name', value: ruleSet.name, type: 'string' },
+      {
+        name: 'rules',
+        value: JSON.stringify({
+          rewards: ruleSet.rewards,
+          multipliers: ruleSet.multipliers,
+          dailyCap: ruleSet.dailyCap,
+          weeklyCap: ruleSet.weeklyCap,
+          conditions: ruleSet.conditions
+        }),
+        type: 'string'
+      },
+      { name: 'author', value: author, type: 'address' }
+    ]);
+
+    // ✅ One stream ID per version and author - publishing never overwrites an earlier set,
+    // and two admins claiming the same version at once are told apart by compareRuleSets
+    const streamId = keccak256(toBytes(`xp_rule_set_v${version}_${author.toLowerCase()}`));
+
+    const sdk = new SDK({ public: this.publicClient, wallet: walletClient });
+    await sdk.streams.set([{
+      id: streamId,
+      schemaId: this.schemaId!,
+      data: encodedData as Hex
+    }]);
+
+    this.ruleSetsCache = {
+      ruleSets: [ruleSet, ...existing],
+      timestamp: Date.now()
+    };
+
+    console.log(`✅ [XP-RULES] Published rule set v${version} "${ruleSet.name}"`);
+    return ruleSet;
+  }
+
+  // ===== PARSE HELPER =====
+
+  private parseRuleSet(item: DecodedField[]): XPRuleSet | null {
+    const field = (name: string) => getFieldValue(item, name);
+
+    const version = Number(field('version'));
+    if (!version) return null;
+
+    let rules: Partial<Pick<XPRuleSet, 'rewards' | 'multipliers' | 'dailyCap' | 'weeklyCap' | 'conditions'>> = {};
+    try {
+      rules = JSON.parse(String(field('rules') || '{}'));
+    } catch {
+      return null;
+    }
+
+    const effectiveUntil = Number(field('effectiveUntil')) || 0;
+
+    return {
+      version,
+      name: String(field('name') || `Rule set v${version}`),
+      effectiveFrom: Number(field('effectiveFrom')) || 0,
+      ...(effectiveUntil > 0 && { effectiveUntil }),
+      // Reward types added after a set was published keep their default values
+      rewards: { ...BXP_REWARDS, ...rules.rewards },
+      multipliers: { ...BXP_MULTIPLIERS, ...rules.multipliers },
+      dailyCap: Number(rules.dailyCap) || DEFAULT_XP_RULE_SET.dailyCap,
+      weeklyCap: Number(rules.weeklyCap) || DEFAULT_XP_RULE_SET.weeklyCap,
+      conditions: Array.isArray(rules.conditions) ? rules.conditions : [],
+      author: field('author') ? String(field('author')) : undefined,
+      createdAt: Number(field('timestamp')) || 0,
+    };
+  }
+
+  // ===== CLEAR CACHE =====
+
+  clearCache(): void {
+    this.ruleSetsCache = null;
+    console.log('🗑️ [XP-RULES] Cache cleared');
+  }
+}
+
+// Export singleton
+export const xpRulesService = new XPRulesService();
+export default xpRulesService;
@@ -0,0 +1,183 @@
+/**
+ * Audio effects settings untuk Web Audio graph di AudioContext
+ * - 10-band equalizer dengan genre presets
+ * - Loudness normalization (measured per track, cached on this device)
+ * - Playback speed
+ * Settings are stored per user (wallet address) in localStorage
+ */
+
+export const EQ_FREQUENCIES = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_MAX_GAIN = 12; // dB, both directions
+
+export type EqPresetId =
+  | 'flat'
+  | 'pop'
+  | 'rock'
+  | 'hiphop'
+  | 'electronic'
+  | 'jazz'
+  | 'classical'
+  | 'acoustic'
+  | 'bass_boost'
+  | 'vocal'
+  | 'custom';
+
+export const EQ_PRESETS: Record<Exclude<EqPresetId, 'custom'>, { label: string; gains: number[] }> = {
+  flat: { label: 'Flat', gains: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  pop: { label: 'Pop', gains: [-1, 1, 3, 4, 3, 0, -1, -1, 1, 2] },
+  rock: { label: 'Rock', gains: [5, 4, 2, -1, -2, -1, 2, 3, 4, 4] },
+  hiphop: { label: 'Hip-Hop', gains: [6, 5, 2, 1, -1, -1, 1, 0, 2, 3] },
+  electronic: { label: 'Electronic', gains: [5, 4, 1, 0, -2, 1, 0, 2, 4, 5] },
+  jazz: { label: 'Jazz', gains: [3, 2, 1, 2, -1, -1, 0, 1, 2, 3] },
+  classical: { label: 'Classical', gains: [4, 3, 2, 1, -1, -1, 0, 2, 3, 4] },
+  acoustic: { label: 'Acoustic', gains: [3, 3, 2, 1, 1, 1, 2, 2, 2, 1] },
+  bass_boost: { label: 'Bass Boost', gains: [7, 6, 5, 3, 1, 0, 0, 0, 0, 0] },
+  vocal: { label: 'Vocal', gains: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1] },
+};
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+export const MIN_PLAYBACK_RATE = 0.5;
+export const MAX_PLAYBACK_RATE = 2;
+
+export interface AudioEffectsSettings {
+  eqEnabled: boolean;
+  eqPreset: EqPresetId;
+  eqGains: number[];          // dB per EQ_FREQUENCIES band
+  normalizeLoudness: boolean;
+  playbackRate: number;
+}
+
+export const DEFAULT_AUDIO_EFFECTS: AudioEffectsSettings = {
+  eqEnabled: false,
+  eqPreset: 'flat',
+  eqGains: EQ_PRESETS.flat.gains,
+  normalizeLoudness: true,
+  playbackRate: 1,
+};
+
+const EFFECTS_STORAGE_PREFIX = 'hibeats_audio_effects_';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const getEffectsKey = (userAddress?: string | null) => {
+  return `${EFFECTS_STORAGE_PREFIX}${userAddress ? userAddress.toLowerCase() : 'guest'}`;
+};
+
+export const loadAudioEffects = (userAddress?: string | null): AudioEffectsSettings => {
+  try {
+    const saved = localStorage.getItem(getEffectsKey(userAddress));
+    if (!saved) return DEFAULT_AUDIO_EFFECTS;
+
+    const parsed = JSON.parse(saved) as Partial<AudioEffectsSettings>;
+    const gains = Array.isArray(parsed.eqGains) && parsed.eqGains.length === EQ_FREQUENCIES.length
+      ? parsed.eqGains.map(gain => clamp(Number(gain) || 0, -EQ_MAX_GAIN, EQ_MAX_GAIN))
+      : DEFAULT_AUDIO_EFFECTS.eqGains;
+
+    return {
+      eqEnabled: parsed.eqEnabled ?? DEFAULT_AUDIO_EFFECTS.eqEnabled,
+      eqPreset: parsed.eqPreset ?? DEFAULT_AUDIO_EFFECTS.eqPreset,
+      eqGains: gains,
+      normalizeLoudness: parsed.normalizeLoudness ?? DEFAULT_AUDIO_EFFECTS.normalizeLoudness,
+      playbackRate: clamp(Number(parsed.playbackRate) || 1, MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE),
+    };
+  } catch (error) {
+    console.warn('⚠️ [AudioEffects] Failed to load settings:', error);
+    return DEFAULT_AUDIO_EFFECTS;
+  }
+};
+
+export const saveAudioEffects = (userAddress: string | null | undefined, settings: AudioEffectsSettings): void => {
+  try {
+    localStorage.setItem(getEffectsKey(userAddress), JSON.stringify(settings));
+  } catch (error) {
+    console.warn('⚠️ [AudioEffects] Failed to save settings:', error);
+  }
+};
+
+/**
+ * Apply a partial update - moving a band switches the preset to custom
+ */
+export const updateAudioEffects = (
+  settings: AudioEffectsSettings,
+  update: Partial<AudioEffectsSettings>
+): AudioEffectsSettings => {
+  const next = { ...settings, ...update };
+
+  if (update.eqPreset && update.eqPreset !== 'custom') {
+    next.eqGains = EQ_PRESETS[update.eqPreset].gains;
+  } else if (update.eqGains) {
+    next.eqGains = update.eqGains.map(gain => clamp(gain, -EQ_MAX_GAIN, EQ_MAX_GAIN));
+    next.eqPreset = 'custom';
+  }
+  next.playbackRate = clamp(next.playbackRate, MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE);
+
+  return next;
+};
+
+// ===== Loudness Normalization =====
+
+const LOUDNESS_STORAGE_KEY = 'hibeats_track_loudness';
+const LOUDNESS_CACHE_LIMIT = 500;
+// Target level in dBFS RMS - leaves headroom for loud masters, lifts quiet ones
+export const LOUDNESS_TARGET_DB = -18;
+const MAX_BOOST_DB = 9;
+const MAX_CUT_DB = 12;
+// Blocks below this are silence/fades and don't count (gating, like LUFS)
+export const LOUDNESS_GATE_DB = -50;
+// Measured blocks (one per timeupdate, ~4 per second) of non-silent audio:
+// a first estimate is applied after MIN, the result is cached after FINAL
+export const LOUDNESS_MIN_BLOCKS = 12;
+export const LOUDNESS_FINAL_BLOCKS = 80;
+
+// Track ids are prefixed so the cache keeps insertion order (integer keys are sorted)
+const getLoudnessKey = (trackId: number) => `t${trackId}`;
+
+/**
+ * Cached loudness (dBFS RMS) of a track, null when it was never measured
+ */
+export const getCachedLoudness = (trackId: number): number | null => {
+  try {
+    const cache = JSON.parse(localStorage.getItem(LOUDNESS_STORAGE_KEY) || '{}') as Record<string, number>;
+    const loudness = cache[getLoudnessKey(trackId)];
+    return typeof loudness === 'number' ? loudness : null;
+  } catch {
+    return null;
+  }
+};
+
+export const cacheLoudness = (trackId: number, loudnessDb: number): void => {
+  try {
+    const cache = JSON.parse(localStorage.getItem(LOUDNESS_STORAGE_KEY) || '{}') as Record<string, number>;
+    const key = getLoudnessKey(trackId);
+    delete cache[key];
+    cache[key] = Math.round(loudnessDb * 10) / 10;
+
+    // Oldest entries go first (insertion order)
+    const ids = Object.keys(cache);
+    ids.slice(0, Math.max(0, ids.length - LOUDNESS_CACHE_LIMIT)).forEach(id => delete cache[id]);
+
+    localStorage.setItem(LOUDNESS_STORAGE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.warn('⚠️ [AudioEffects] Failed to cache loudness:', error);
+  }
+};
+
+/**
+ * Linear gain that brings a track of the given loudness to the target level
+ */
+export const getNormalizationGain = (loudnessDb: number): number => {
+  const gainDb = clamp(LOUDNESS_TARGET_DB - loudnessDb, -MAX_CUT_DB, MAX_BOOST_DB);
+  return Math.pow(10, gainDb / 20);
+};
+
+/**
+ * RMS level (dBFS) of a block of samples
+ */
+export const getBlockLoudness = (samples: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  const rms = Math.sqrt(sum / Math.max(1, samples.length));
+  return rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+};
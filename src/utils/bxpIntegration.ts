@@ -28,19 +28,28 @@ export async function awardBXP(
   }
 }
 
+// COMPLETE_SONG_PLAY needs >80% of the song listened
+const COMPLETE_PLAY_RATIO = 0.8;
+
 /**
  * Integration with play count tracking
- * Call this after recordMusicPlay
+ * Call this after a validated play is recorded (see recordMusicPlay)
+ * listenedSeconds must come from the playback clock (listenTracker)
  */
 export async function awardPlayXP(
   userAddress: string | undefined,
   songId: string,
+  listen: { listenedSeconds: number; trackDuration: number },
   isFirstPlayToday: boolean = false
 ): Promise<void> {
   if (!userAddress) return;
 
+  if (listen.trackDuration <= 0 || listen.listenedSeconds < listen.trackDuration * COMPLETE_PLAY_RATIO) {
+    return;
+  }
+
   // Award base play XP
-  await awardBXP(userAddress, 'COMPLETE_SONG_PLAY', { songId });
+  await awardBXP(userAddress, 'COMPLETE_SONG_PLAY', { songId, listenedSeconds: listen.listenedSeconds });
 
   // Award bonus for first play of the day
   if (isFirstPlayToday) {
@@ -0,0 +1,237 @@
+/**
+ * Direct message crypto helpers
+ *
+ * - Keypair secp256k1 diturunkan dari signature wallet: privateKey = keccak256(signature)
+ * - Isi pesan dienkripsi dengan content key acak (AES-GCM)
+ * - Content key dibungkus untuk tiap peserta (sender & recipient) via ECDH dengan ephemeral key
+ * - Tiap record ditandatangani DM key pengirim, plus signature wallet yang mempublish key tersebut (proof)
+ */
+
+import { ethers } from 'ethers';
+import type { Hex, PublicClient } from 'viem';
+import type { UnsignedDirectMessage } from '@/config/somniaDataStreams.v3';
+
+export const ENCRYPTED_PREFIX = 'e2e:';
+
+export interface DmKeyPair {
+  privateKey: string;
+  publicKey: string; // compressed secp256k1 public key
+  version: number;
+}
+
+export interface DmRecipientKey {
+  address: string;
+  publicKey: string;
+  version: number;
+}
+
+interface WrappedKey {
+  kv: number;  // key version of the participant
+  iv: string;
+  key: string; // wrapped content key
+}
+
+// Record proof: DM key signature over the record + the wallet's publication signature for that key
+interface MessageProof {
+  k: string;  // sender's DM public key
+  kv: number; // key version
+  ka: string; // wallet signature from getKeyPublicationMessage
+  sig: string;
+}
+
+interface EncryptedEnvelope {
+  v: 1;
+  epk: string; // ephemeral public key
+  iv: string;
+  ct: string;
+  keys: Record<string, WrappedKey>;
+}
+
+/**
+ * Message the wallet signs to derive the DM keypair of a given version
+ * Must never change - old keys are restored by signing it again
+ */
+export const getKeyDerivationMessage = (address: string, version: number): string =>
+  `HiBeats encrypted messages\n\n` +
+  `Sign this message to unlock your direct messages. It does not send a transaction or cost gas.\n\n` +
+  `Address: ${address.toLowerCase()}\n` +
+  `Key version: ${version}`;
+
+/**
+ * Message the wallet signs when publishing a public key, binding the key and its version to the address
+ */
+export const getKeyPublicationMessage = (address: string, publicKey: string, version: number): string =>
+  `HiBeats encrypted messages\n\n` +
+  `I publish this key to receive encrypted direct messages.\n\n` +
+  `Address: ${address.toLowerCase()}\n` +
+  `Public key: ${publicKey}\n` +
+  `Key version: ${version}`;
+
+/**
+ * Whether a published key was signed by the wallet it belongs to
+ * Verified on-chain so smart-contract wallets (ERC-1271 / ERC-6492 signatures) pass, not only EOAs
+ */
+export const verifyKeyPublication = async (
+  publicClient: Pick<PublicClient, 'verifyMessage'>,
+  address: string,
+  publicKey: string,
+  version: number,
+  signature: string
+): Promise<boolean> => {
+  if (!signature) return false;
+  try {
+    return await publicClient.verifyMessage({
+      address: address as Hex,
+      message: getKeyPublicationMessage(address, publicKey, version),
+      signature: signature as Hex,
+    });
+  } catch {
+    return false;
+  }
+};
+
+// Every field the server wallet writes - nothing in the record can change without breaking the proof
+const getMessageDigest = (message: UnsignedDirectMessage): string =>
+  ethers.id([
+    message.id,
+    message.timestamp,
+    message.conversationId,
+    message.sender.toLowerCase(),
+    message.recipient.toLowerCase(),
+    message.messageType,
+    message.content,
+  ].join('\n'));
+
+/**
+ * Sign a direct message record with the sender's DM key
+ * keyAuthorization = the wallet signature that published this key (see getKeyPublicationMessage)
+ */
+export const signDirectMessage = (
+  message: UnsignedDirectMessage,
+  keyPair: DmKeyPair,
+  keyAuthorization: string
+): string => {
+  const signature = new ethers.SigningKey(keyPair.privateKey).sign(getMessageDigest(message));
+  const proof: MessageProof = {
+    k: keyPair.publicKey,
+    kv: keyPair.version,
+    ka: keyAuthorization,
+    sig: signature.serialized,
+  };
+  return JSON.stringify(proof);
+};
+
+/**
+ * DM key that signed a record, with the wallet signature that published it
+ * null when the proof is malformed or wasn't signed over this record
+ * Callers still check the authorization with verifyKeyPublication against message.sender
+ */
+export const recoverDirectMessageKey = (
+  message: UnsignedDirectMessage,
+  proof: string
+): { publicKey: string; version: number; authorization: string } | null => {
+  try {
+    const parsed: MessageProof = JSON.parse(proof);
+    if (!parsed?.k || !parsed.sig || typeof parsed.kv !== 'number') return null;
+
+    const signer = ethers.SigningKey.recoverPublicKey(getMessageDigest(message), parsed.sig);
+    if (ethers.SigningKey.computePublicKey(signer, true) !== parsed.k) return null;
+
+    return { publicKey: parsed.k, version: parsed.kv, authorization: parsed.ka };
+  } catch {
+    return null;
+  }
+};
+
+export const deriveKeyPair = (signature: string, version: number): DmKeyPair => {
+  const privateKey = ethers.keccak256(signature);
+  const signingKey = new ethers.SigningKey(privateKey);
+  return { privateKey, publicKey: signingKey.compressedPublicKey, version };
+};
+
+export const isEncryptedContent = (content: string): boolean => content.startsWith(ENCRYPTED_PREFIX);
+
+const aesEncrypt = async (keyBytes: Uint8Array, plaintext: Uint8Array) => {
+  const key = await crypto.subtle.importKey('raw', keyBytes, 'AES-GCM', false, ['encrypt']);
+  const iv = ethers.randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { iv: ethers.encodeBase64(iv), ct: ethers.encodeBase64(new Uint8Array(ciphertext)) };
+};
+
+const aesDecrypt = async (keyBytes: Uint8Array, iv: string, ciphertext: string): Promise<Uint8Array> => {
+  const key = await crypto.subtle.importKey('raw', keyBytes, 'AES-GCM', false, ['decrypt']);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: ethers.decodeBase64(iv) },
+    key,
+    ethers.decodeBase64(ciphertext)
+  );
+  return new Uint8Array(plaintext);
+};
+
+// ECDH shared point -> 32 byte AES key
+const deriveWrappingKey = (privateKey: string, publicKey: string): Uint8Array => {
+  const sharedSecret = new ethers.SigningKey(privateKey).computeSharedSecret(publicKey);
+  return ethers.getBytes(ethers.sha256(sharedSecret));
+};
+
+const parseEnvelope = (content: string): EncryptedEnvelope | null => {
+  if (!isEncryptedContent(content)) return null;
+  try {
+    const envelope = JSON.parse(content.slice(ENCRYPTED_PREFIX.length));
+    return envelope?.v === 1 && envelope.keys ? envelope : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Encrypt a message so every participant can decrypt it with their own key
+ */
+export const encryptForParticipants = async (
+  plaintext: string,
+  participants: DmRecipientKey[]
+): Promise<string> => {
+  const contentKey = ethers.randomBytes(32);
+  const body = await aesEncrypt(contentKey, ethers.toUtf8Bytes(plaintext));
+  const ephemeral = new ethers.SigningKey(ethers.randomBytes(32));
+
+  const keys: Record<string, WrappedKey> = {};
+  for (const participant of participants) {
+    const wrapped = await aesEncrypt(deriveWrappingKey(ephemeral.privateKey, participant.publicKey), contentKey);
+    keys[participant.address.toLowerCase()] = { kv: participant.version, iv: wrapped.iv, key: wrapped.ct };
+  }
+
+  const envelope: EncryptedEnvelope = {
+    v: 1,
+    epk: ephemeral.compressedPublicKey,
+    iv: body.iv,
+    ct: body.ct,
+    keys,
+  };
+
+  return `${ENCRYPTED_PREFIX}${JSON.stringify(envelope)}`;
+};
+
+/**
+ * Key version a participant needs to open the message (null if not a participant)
+ */
+export const getEnvelopeKeyVersion = (content: string, address: string): number | null => {
+  const envelope = parseEnvelope(content);
+  return envelope?.keys[address.toLowerCase()]?.kv ?? null;
+};
+
+export const decryptForParticipant = async (
+  content: string,
+  address: string,
+  keyPair: DmKeyPair
+): Promise<string> => {
+  const envelope = parseEnvelope(content);
+  const wrapped = envelope?.keys[address.toLowerCase()];
+  if (!envelope || !wrapped) {
+    throw new Error('Message is not encrypted for this wallet');
+  }
+
+  const contentKey = await aesDecrypt(deriveWrappingKey(keyPair.privateKey, envelope.epk), wrapped.iv, wrapped.key);
+  const plaintext = await aesDecrypt(contentKey, envelope.iv, envelope.ct);
+  return ethers.toUtf8String(plaintext);
+};
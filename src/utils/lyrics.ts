@@ -0,0 +1,130 @@
+/**
+ * Lyrics helpers untuk lyrics panel & editor
+ * Supports LRC timestamped lyrics ([mm:ss.xx] line) with plain-text fallback
+ */
+
+export interface LyricLine {
+  time: number | null;  // seconds, null = not synced
+  text: string;
+}
+
+export interface ParsedLyrics {
+  synced: boolean;
+  lines: LyricLine[];
+}
+
+// [mm:ss], [mm:ss.xx] or [mm:ss:xx] at the start of a line
+const TIMESTAMP_REGEX = /^\[(\d{1,3}):(\d{1,2})(?:[.:](\d{1,3}))?\]/;
+// LRC header tags - [ar:Artist], [offset:+500], ...
+const TAG_REGEX = /^\[([a-z#]+):(.*)\]$/i;
+
+const parseTimestamp = (minutes: string, seconds: string, fraction?: string): number => {
+  const fractionSeconds = fraction ? Number(fraction) / Math.pow(10, fraction.length) : 0;
+  return Number(minutes) * 60 + Number(seconds) + fractionSeconds;
+};
+
+/**
+ * Parse lyrics text - LRC when at least one line has a timestamp, plain text otherwise
+ */
+export const parseLyrics = (raw: string): ParsedLyrics => {
+  if (!raw || raw.trim() === '') {
+    return { synced: false, lines: [] };
+  }
+
+  const timed: LyricLine[] = [];
+  const plain: LyricLine[] = [];
+  let offset = 0;
+
+  for (const rawLine of raw.replace(/\r\n?/g, '\n').split('\n')) {
+    let line = rawLine.trim();
+    const times: number[] = [];
+
+    // A line can repeat under several timestamps: [00:12.00][01:30.00]chorus
+    let match = line.match(TIMESTAMP_REGEX);
+    while (match) {
+      times.push(parseTimestamp(match[1], match[2], match[3]));
+      line = line.slice(match[0].length);
+      match = line.match(TIMESTAMP_REGEX);
+    }
+
+    if (times.length > 0) {
+      times.forEach(time => timed.push({ time, text: line.trim() }));
+      continue;
+    }
+
+    const tag = line.match(TAG_REGEX);
+    if (tag) {
+      if (tag[1].toLowerCase() === 'offset') {
+        offset = Number(tag[2]) || 0;
+      }
+      continue;
+    }
+
+    plain.push({ time: null, text: line });
+  }
+
+  if (timed.length === 0) {
+    // Drop leading/trailing blank lines, keep blank lines between verses
+    while (plain.length > 0 && plain[0].text === '') plain.shift();
+    while (plain.length > 0 && plain[plain.length - 1].text === '') plain.pop();
+    return { synced: false, lines: plain };
+  }
+
+  // Positive offset (ms) shows lyrics earlier
+  return {
+    synced: true,
+    lines: timed
+      .map(line => ({ ...line, time: Math.max(0, (line.time as number) - offset / 1000) }))
+      .sort((a, b) => (a.time as number) - (b.time as number)),
+  };
+};
+
+export const isSyncedLyrics = (raw: string): boolean => parseLyrics(raw).synced;
+
+/**
+ * Index of the line being sung at currentTime (-1 before the first line)
+ */
+export const getActiveLyricIndex = (lines: LyricLine[], currentTime: number): number => {
+  let low = 0;
+  let high = lines.length - 1;
+  let active = -1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const time = lines[mid].time;
+    if (time !== null && time <= currentTime) {
+      active = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return active;
+};
+
+/**
+ * 75.5 -> "[01:15.50]"
+ */
+export const formatLrcTimestamp = (seconds: number): string => {
+  const safe = Math.round(Math.max(0, seconds) * 100) / 100;
+  const minutes = Math.floor(safe / 60);
+  const rest = safe - minutes * 60;
+  return `[${String(minutes).padStart(2, '0')}:${rest.toFixed(2).padStart(5, '0')}]`;
+};
+
+/**
+ * Lines back to LRC text (lines without a time keep their text only)
+ */
+export const serializeLrc = (lines: LyricLine[]): string => {
+  return lines
+    .map(line => (line.time !== null ? `${formatLrcTimestamp(line.time)}${line.text}` : line.text))
+    .join('\n');
+};
+
+/**
+ * Lyrics text without timestamps and tags
+ */
+export const toPlainLyrics = (raw: string): string => {
+  return parseLyrics(raw).lines.map(line => line.text).join('\n');
+};
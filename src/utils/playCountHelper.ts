@@ -4,7 +4,9 @@
  */
 
 import somniaService from '@/services/somniaDatastreamService.v3';
-import { createPlayEventData } from '@/config/somniaDataStreams.v3';
+import { listenTracker } from '@/services/listenTracker';
+import { awardPlayXP } from '@/utils/bxpIntegration';
+import { PLAY_VALIDATION, createPlayEventData } from '@/config/somniaDataStreams.v3';
 
 /**
  * Extract NFT tokenId from track object
@@ -35,6 +37,8 @@ function extractTokenId(track: any): number {
 
 /**
  * Record play event untuk NFT music
+ * Panggil setelah playTrack - play baru dicatat setelah user benar-benar mendengar
+ * minimal PLAY_VALIDATION.MIN_LISTEN_SECONDS (diukur oleh listenTracker)
  * 
  * @param trackOrTokenId - Track object or NFT token ID
  * @param listener - User address yang play
@@ -65,15 +69,60 @@ export async function recordMusicPlay(
     return;
   }
 
+  // Wait for real listen time of the current track
+  const tracked = listenTracker.trackPlay({
+    tokenId,
+    requiredSeconds: PLAY_VALIDATION.MIN_LISTEN_SECONDS,
+    onQualified: (listenedSeconds) => {
+      void writeMusicPlay(tokenId, listener, listenedSeconds, duration, source);
+    },
+  });
+
+  if (!tracked) {
+    console.log('⚠️ [PlayCount] Skipping play event - nothing is playing');
+  }
+}
+
+/**
+ * Record play event langsung, tanpa menunggu listen time
+ * Hanya untuk debug tooling (TrendingDebugPanel) - error dilempar supaya caller bisa menampilkannya
+ *
+ * @param tokenId - NFT token ID
+ * @param listener - User address yang play
+ * @param listenedSeconds - Listen time yang dicatat
+ * @param source - Source play
+ */
+export async function recordMusicPlayNow(
+  tokenId: number,
+  listener: string,
+  listenedSeconds: number,
+  source: string
+): Promise<void> {
+  console.log('🧪 [PlayCount] Recording play event immediately:', { tokenId, listenedSeconds, source });
+
+  const playEvent = createPlayEventData(tokenId, listener, listenedSeconds, source);
+  await somniaService.recordPlayEvent(playEvent, true);
+}
+
+/**
+ * Write a qualified play (duration = real listen time) and award play XP
+ */
+async function writeMusicPlay(
+  tokenId: number,
+  listener: string,
+  listenedSeconds: number,
+  trackDuration: number,
+  source: string
+): Promise<void> {
   try {
     console.log('🎵 [PlayCount] Recording play event:', {
       tokenId,
       listener: listener.substring(0, 10) + '...',
-      duration,
+      listenedSeconds,
       source
     });
 
-    const playEvent = createPlayEventData(tokenId, listener, duration, source);
+    const playEvent = createPlayEventData(tokenId, listener, listenedSeconds, source);
     
     // 🔥 Use immediate mode (true) to write to blockchain immediately
     // This ensures play events are recorded for trending calculation
@@ -81,9 +130,13 @@ export async function recordMusicPlay(
     
     console.log('✅ [PlayCount] Play event recorded to blockchain');
   } catch (error) {
+    // Rejected plays (rate limit, burst, loop) end up here too
     console.error('❌ [PlayCount] Failed to record play event:', error);
     // Don't throw - play count tracking shouldn't break the app
+    return;
   }
+
+  await awardPlayXP(listener, tokenId.toString(), { listenedSeconds, trackDuration });
 }
 
 /**
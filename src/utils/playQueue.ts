@@ -0,0 +1,281 @@
+/**
+ * Play queue model untuk AudioContext
+ * Pure functions - setiap operasi mengembalikan state baru
+ */
+
+import type { Track } from '@/contexts/AudioContext';
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface PlayQueueState {
+  tracks: Track[];              // play order (unique by id)
+  currentIndex: number;         // -1 = nothing selected
+  shuffle: boolean;
+  originalOrder: number[];      // track ids before shuffle - restored when shuffle is turned off
+  repeat: RepeatMode;
+  history: Track[];             // recently played, newest first
+}
+
+export const QUEUE_STORAGE_KEY = 'hibeats_play_queue';
+const HISTORY_LIMIT = 50;
+
+export const createEmptyQueue = (): PlayQueueState => ({
+  tracks: [],
+  currentIndex: -1,
+  shuffle: false,
+  originalOrder: [],
+  repeat: 'off',
+  history: [],
+});
+
+/**
+ * Load the queue saved in localStorage (empty queue when missing or corrupt)
+ */
+export const loadQueue = (): PlayQueueState => {
+  try {
+    const saved = localStorage.getItem(QUEUE_STORAGE_KEY);
+    if (!saved) return createEmptyQueue();
+
+    const parsed = JSON.parse(saved) as Partial<PlayQueueState>;
+    const tracks = Array.isArray(parsed.tracks) ? parsed.tracks : [];
+    return {
+      ...createEmptyQueue(),
+      ...parsed,
+      tracks,
+      currentIndex: Math.min(parsed.currentIndex ?? -1, tracks.length - 1),
+      history: Array.isArray(parsed.history) ? parsed.history : [],
+      originalOrder: Array.isArray(parsed.originalOrder) ? parsed.originalOrder : [],
+    };
+  } catch (error) {
+    console.warn('⚠️ [Queue] Failed to load saved queue:', error);
+    return createEmptyQueue();
+  }
+};
+
+export const saveQueue = (state: PlayQueueState): void => {
+  try {
+    localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(state));
+  } catch (error) {
+    console.warn('⚠️ [Queue] Failed to save queue:', error);
+  }
+};
+
+export const getCurrentQueueTrack = (state: PlayQueueState): Track | null => {
+  return state.tracks[state.currentIndex] || null;
+};
+
+/**
+ * Tracks after the current one
+ */
+export const getUpcomingTracks = (state: PlayQueueState): Track[] => {
+  return state.tracks.slice(state.currentIndex + 1);
+};
+
+const shuffleTracks = (tracks: Track[]): Track[] => {
+  const result = [...tracks];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Remove a track (by id) and keep currentIndex on the same track
+const withoutTrack = (state: PlayQueueState, trackId: number): PlayQueueState => {
+  const index = state.tracks.findIndex(t => t.id === trackId);
+  if (index === -1) return state;
+
+  const tracks = state.tracks.filter((_, i) => i !== index);
+  let currentIndex = state.currentIndex;
+  if (index < currentIndex) {
+    currentIndex -= 1;
+  } else if (index === currentIndex) {
+    currentIndex = Math.min(currentIndex, tracks.length - 1);
+  }
+
+  return {
+    ...state,
+    tracks,
+    currentIndex,
+    originalOrder: state.originalOrder.filter(id => id !== trackId),
+  };
+};
+
+// Original (unshuffled) order keeps newly queued tracks too
+const rememberOrder = (state: PlayQueueState, trackId: number, afterTrackId?: number): number[] => {
+  if (!state.shuffle) return state.originalOrder;
+  const order = state.originalOrder.filter(id => id !== trackId);
+  const afterIndex = afterTrackId !== undefined ? order.indexOf(afterTrackId) : -1;
+  if (afterIndex === -1) return [...order, trackId];
+  return [...order.slice(0, afterIndex + 1), trackId, ...order.slice(afterIndex + 1)];
+};
+
+/**
+ * Replace the queue with a list of tracks and start at startIndex
+ */
+export const setQueueTracks = (state: PlayQueueState, tracks: Track[], startIndex: number = 0): PlayQueueState => {
+  const unique = tracks.filter((track, i) => tracks.findIndex(t => t.id === track.id) === i);
+  const start = unique[startIndex] ? startIndex : 0;
+
+  if (!state.shuffle || unique.length === 0) {
+    return { ...state, tracks: unique, currentIndex: unique.length > 0 ? start : -1, originalOrder: [] };
+  }
+
+  // Shuffle stays on: the selected track plays first, the rest is shuffled
+  const [first] = unique.splice(start, 1);
+  return {
+    ...state,
+    tracks: [first, ...shuffleTracks(unique)],
+    currentIndex: 0,
+    originalOrder: tracks.map(t => t.id),
+  };
+};
+
+/**
+ * Play a track now - jumps to it when queued, otherwise inserts it after the current track
+ */
+export const playTrackInQueue = (state: PlayQueueState, track: Track): PlayQueueState => {
+  const index = state.tracks.findIndex(t => t.id === track.id);
+  if (index !== -1) {
+    return { ...state, currentIndex: index };
+  }
+
+  const current = getCurrentQueueTrack(state);
+  const insertAt = state.currentIndex + 1;
+  return {
+    ...state,
+    tracks: [...state.tracks.slice(0, insertAt), track, ...state.tracks.slice(insertAt)],
+    currentIndex: insertAt,
+    originalOrder: rememberOrder(state, track.id, current?.id),
+  };
+};
+
+/**
+ * Queue a track right after the current one (moves it when already queued)
+ */
+export const playNextInQueue = (state: PlayQueueState, track: Track): PlayQueueState => {
+  const current = getCurrentQueueTrack(state);
+  if (current?.id === track.id) return state;
+
+  const base = withoutTrack(state, track.id);
+  const insertAt = base.currentIndex + 1;
+  return {
+    ...base,
+    tracks: [...base.tracks.slice(0, insertAt), track, ...base.tracks.slice(insertAt)],
+    originalOrder: rememberOrder(base, track.id, current?.id),
+  };
+};
+
+/**
+ * Add a track to the end of the queue (no-op when already queued)
+ */
+export const addToQueue = (state: PlayQueueState, track: Track): PlayQueueState => {
+  if (state.tracks.some(t => t.id === track.id)) return state;
+  return {
+    ...state,
+    tracks: [...state.tracks, track],
+    originalOrder: rememberOrder(state, track.id),
+  };
+};
+
+export const removeFromQueue = (state: PlayQueueState, trackId: number): PlayQueueState => {
+  return withoutTrack(state, trackId);
+};
+
+/**
+ * Move a queued track (drag & drop), currentIndex follows the current track
+ */
+export const moveInQueue = (state: PlayQueueState, fromIndex: number, toIndex: number): PlayQueueState => {
+  if (fromIndex === toIndex || !state.tracks[fromIndex] || toIndex < 0 || toIndex >= state.tracks.length) {
+    return state;
+  }
+
+  const currentId = getCurrentQueueTrack(state)?.id;
+  const tracks = [...state.tracks];
+  const [moved] = tracks.splice(fromIndex, 1);
+  tracks.splice(toIndex, 0, moved);
+
+  return {
+    ...state,
+    tracks,
+    currentIndex: currentId !== undefined ? tracks.findIndex(t => t.id === currentId) : state.currentIndex,
+  };
+};
+
+/**
+ * Turn shuffle on (upcoming tracks are shuffled) or off (original order comes back)
+ */
+export const toggleQueueShuffle = (state: PlayQueueState): PlayQueueState => {
+  const current = getCurrentQueueTrack(state);
+
+  if (!state.shuffle) {
+    const played = state.tracks.slice(0, state.currentIndex + 1);
+    return {
+      ...state,
+      shuffle: true,
+      originalOrder: state.tracks.map(t => t.id),
+      tracks: [...played, ...shuffleTracks(getUpcomingTracks(state))],
+    };
+  }
+
+  // Undo: original order first, tracks the order doesn't know about keep their relative order at the end
+  const byId = new Map(state.tracks.map(t => [t.id, t]));
+  const restored = state.originalOrder.filter(id => byId.has(id)).map(id => byId.get(id)!);
+  const known = new Set(restored.map(t => t.id));
+  const tracks = [...restored, ...state.tracks.filter(t => !known.has(t.id))];
+
+  return {
+    ...state,
+    shuffle: false,
+    originalOrder: [],
+    tracks,
+    currentIndex: current ? tracks.findIndex(t => t.id === current.id) : state.currentIndex,
+  };
+};
+
+/**
+ * off -> all -> one -> off
+ */
+export const cycleQueueRepeat = (state: PlayQueueState): PlayQueueState => {
+  const next: Record<RepeatMode, RepeatMode> = { off: 'all', all: 'one', one: 'off' };
+  return { ...state, repeat: next[state.repeat] };
+};
+
+/**
+ * Index of the next track, null when playback should stop
+ * auto = the current track ended by itself (repeat-one only applies then)
+ */
+export const getNextQueueIndex = (state: PlayQueueState, auto: boolean): number | null => {
+  if (state.tracks.length === 0) return null;
+  if (auto && state.repeat === 'one' && state.currentIndex >= 0) return state.currentIndex;
+  if (state.currentIndex < state.tracks.length - 1) return state.currentIndex + 1;
+  if (state.repeat === 'all') return 0;
+  return null;
+};
+
+/**
+ * Index of the previous track, null when there is none
+ */
+export const getPreviousQueueIndex = (state: PlayQueueState): number | null => {
+  if (state.currentIndex > 0) return state.currentIndex - 1;
+  if (state.repeat === 'all' && state.tracks.length > 1) return state.tracks.length - 1;
+  return null;
+};
+
+/**
+ * Add a track to the play history (newest first, no duplicates)
+ */
+export const pushQueueHistory = (state: PlayQueueState, track: Track): PlayQueueState => {
+  const history = [track, ...state.history.filter(t => t.id !== track.id)].slice(0, HISTORY_LIMIT);
+  return { ...state, history };
+};
+
+export const clearQueue = (state: PlayQueueState): PlayQueueState => {
+  const current = getCurrentQueueTrack(state);
+  return {
+    ...state,
+    tracks: current ? [current] : [],
+    currentIndex: current ? 0 : -1,
+    originalOrder: current && state.shuffle ? [current.id] : [],
+  };
+};
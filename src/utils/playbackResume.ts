@@ -0,0 +1,56 @@
+/**
+ * Resume point untuk AudioContext
+ * Track + position saved while playing, offered again on the next visit
+ */
+
+import type { Track } from '@/contexts/AudioContext';
+
+export interface PlaybackResumePoint {
+  track: Track;
+  position: number;   // seconds into the track
+  savedAt: number;    // ms timestamp
+}
+
+export const RESUME_STORAGE_KEY = 'hibeats_playback_resume';
+// Older resume points are dropped instead of offered
+const RESUME_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+// Too close to the start to be worth offering
+const RESUME_MIN_POSITION = 5;
+
+export const loadResumePoint = (): PlaybackResumePoint | null => {
+  try {
+    const saved = localStorage.getItem(RESUME_STORAGE_KEY);
+    if (!saved) return null;
+
+    const parsed = JSON.parse(saved) as Partial<PlaybackResumePoint>;
+    if (!parsed.track || typeof parsed.position !== 'number' || typeof parsed.savedAt !== 'number') {
+      return null;
+    }
+    if (Date.now() - parsed.savedAt > RESUME_MAX_AGE) {
+      clearResumePoint();
+      return null;
+    }
+
+    return {
+      track: parsed.track,
+      position: parsed.position < RESUME_MIN_POSITION ? 0 : parsed.position,
+      savedAt: parsed.savedAt,
+    };
+  } catch (error) {
+    console.warn('⚠️ [Resume] Failed to load resume point:', error);
+    return null;
+  }
+};
+
+export const saveResumePoint = (track: Track, position: number): void => {
+  try {
+    const point: PlaybackResumePoint = { track, position: Math.max(0, position), savedAt: Date.now() };
+    localStorage.setItem(RESUME_STORAGE_KEY, JSON.stringify(point));
+  } catch (error) {
+    console.warn('⚠️ [Resume] Failed to save resume point:', error);
+  }
+};
+
+export const clearResumePoint = (): void => {
+  localStorage.removeItem(RESUME_STORAGE_KEY);
+};
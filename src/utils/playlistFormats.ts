@@ -0,0 +1,316 @@
+/**
+ * Playlist file formats - M3U8, XSPF and HiBeats JSON
+ * Pure serializers/parsers plus the fuzzy title/artist scoring used when importing
+ */
+
+import { getIpfsUrl } from '@/lib/ipfs';
+
+export type PlaylistExportFormat = 'm3u8' | 'xspf' | 'json';
+
+export interface PortableTrack {
+  tokenId?: number;       // SongNFT token ID when known
+  title: string;
+  artist: string;
+  duration: number;       // seconds, 0 = unknown
+  audioHash?: string;     // IPFS hash (no ipfs:// prefix)
+  coverHash?: string;
+  location?: string;      // original URL/path from the imported file
+}
+
+export interface PortablePlaylist {
+  title: string;
+  description: string;
+  coverHash?: string;
+  isPublic?: boolean;
+  owner?: string;
+  isCollaborative?: boolean;
+  collaborators?: string[];
+  tracks: PortableTrack[];
+}
+
+export const PLAYLIST_FORMAT_INFO: Record<PlaylistExportFormat, { label: string; extension: string; mimeType: string }> = {
+  m3u8: { label: 'M3U8', extension: 'm3u8', mimeType: 'audio/x-mpegurl' },
+  xspf: { label: 'XSPF', extension: 'xspf', mimeType: 'application/xspf+xml' },
+  json: { label: 'HiBeats JSON', extension: 'json', mimeType: 'application/json' },
+};
+
+const HIBEATS_JSON_FORMAT = 'hibeats-playlist';
+const HIBEATS_JSON_VERSION = 1;
+// Players skip unknown # lines, so the token ID survives a round trip through other apps
+const M3U_TOKEN_TAG = '#HIBEATS-TOKEN:';
+const SONG_URI_PREFIX = 'hibeats:song:';
+
+// ipfs://<hash> or any gateway URL with /ipfs/<hash>
+const IPFS_HASH_REGEX = /(?:ipfs:\/\/|\/ipfs\/)([a-zA-Z0-9]+)/;
+
+export const extractIpfsHashFromLocation = (location: string): string | undefined =>
+  location.match(IPFS_HASH_REGEX)?.[1];
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// ===== EXPORT =====
+
+const toM3U8 = (playlist: PortablePlaylist): string => {
+  const lines = ['#EXTM3U', `#PLAYLIST:${playlist.title}`];
+  playlist.tracks.forEach(track => {
+    const label = track.artist ? `${track.artist} - ${track.title}` : track.title;
+    lines.push(`#EXTINF:${track.duration > 0 ? Math.round(track.duration) : -1},${label}`);
+    if (track.tokenId) lines.push(`${M3U_TOKEN_TAG}${track.tokenId}`);
+    if (track.coverHash) lines.push(`#EXTIMG:${getIpfsUrl(track.coverHash)}`);
+    // Every entry needs a location line - fall back to the song URI when there is no audio file
+    lines.push(track.audioHash ? getIpfsUrl(track.audioHash) : (track.location || `${SONG_URI_PREFIX}${track.tokenId || 0}`));
+  });
+  return lines.join('\n') + '\n';
+};
+
+const toXSPF = (playlist: PortablePlaylist): string => {
+  const tracks = playlist.tracks.map(track => {
+    const fields = [
+      track.audioHash ? `      <location>${escapeXml(getIpfsUrl(track.audioHash))}</location>` : '',
+      track.tokenId ? `      <identifier>${SONG_URI_PREFIX}${track.tokenId}</identifier>` : '',
+      `      <title>${escapeXml(track.title)}</title>`,
+      `      <creator>${escapeXml(track.artist)}</creator>`,
+      track.duration > 0 ? `      <duration>${Math.round(track.duration * 1000)}</duration>` : '',
+      track.coverHash ? `      <image>${escapeXml(getIpfsUrl(track.coverHash))}</image>` : '',
+    ].filter(Boolean);
+    return `    <track>\n${fields.join('\n')}\n    </track>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(playlist.title)}</title>`,
+    playlist.description ? `  <annotation>${escapeXml(playlist.description)}</annotation>` : '',
+    playlist.coverHash ? `  <image>${escapeXml(getIpfsUrl(playlist.coverHash))}</image>` : '',
+    '  <trackList>',
+    ...tracks,
+    '  </trackList>',
+    '</playlist>',
+    '',
+  ].filter(line => line !== '').join('\n');
+};
+
+const toHiBeatsJSON = (playlist: PortablePlaylist): string =>
+  JSON.stringify({
+    format: HIBEATS_JSON_FORMAT,
+    version: HIBEATS_JSON_VERSION,
+    exportedAt: new Date().toISOString(),
+    playlist: {
+      ...playlist,
+      coverUrl: playlist.coverHash ? getIpfsUrl(playlist.coverHash) : undefined,
+      tracks: playlist.tracks.map(track => ({
+        ...track,
+        audioUrl: track.audioHash ? getIpfsUrl(track.audioHash) : undefined,
+        coverUrl: track.coverHash ? getIpfsUrl(track.coverHash) : undefined,
+      })),
+    },
+  }, null, 2);
+
+/**
+ * Serialize a playlist to the given format
+ */
+export const serializePlaylist = (playlist: PortablePlaylist, format: PlaylistExportFormat): string => {
+  switch (format) {
+    case 'm3u8': return toM3U8(playlist);
+    case 'xspf': return toXSPF(playlist);
+    case 'json': return toHiBeatsJSON(playlist);
+  }
+};
+
+// ===== IMPORT =====
+
+// "Artist - Title" is the common EXTINF convention, a bare title is also allowed
+const splitArtistTitle = (value: string): { artist: string; title: string } => {
+  const separator = value.indexOf(' - ');
+  if (separator === -1) return { artist: '', title: value.trim() };
+  return { artist: value.slice(0, separator).trim(), title: value.slice(separator + 3).trim() };
+};
+
+const titleFromLocation = (location: string): string => {
+  const name = decodeURIComponent(location.split(/[\\/]/).pop() || location);
+  return name.replace(/\.[a-z0-9]{2,4}$/i, '');
+};
+
+const parseM3U = (content: string, fallbackTitle: string): PortablePlaylist => {
+  const tracks: PortableTrack[] = [];
+  let title = fallbackTitle;
+  let pending: Partial<PortableTrack> = {};
+
+  content.replace(/\r\n?/g, '\n').split('\n').forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('#PLAYLIST:')) {
+      title = line.slice('#PLAYLIST:'.length).trim() || title;
+    } else if (line.startsWith('#EXTINF:')) {
+      const info = line.slice('#EXTINF:'.length);
+      const comma = info.indexOf(',');
+      const duration = Number(comma === -1 ? info : info.slice(0, comma));
+      pending = {
+        ...pending,
+        ...(comma === -1 ? {} : splitArtistTitle(info.slice(comma + 1))),
+        duration: duration > 0 ? duration : 0,
+      };
+    } else if (line.startsWith(M3U_TOKEN_TAG)) {
+      pending.tokenId = Number(line.slice(M3U_TOKEN_TAG.length)) || undefined;
+    } else if (line.startsWith('#EXTIMG:')) {
+      pending.coverHash = extractIpfsHashFromLocation(line.slice('#EXTIMG:'.length));
+    } else if (!line.startsWith('#')) {
+      tracks.push({
+        title: pending.title || titleFromLocation(line),
+        artist: pending.artist || '',
+        duration: pending.duration || 0,
+        tokenId: pending.tokenId ||
+          (line.startsWith(SONG_URI_PREFIX) ? Number(line.slice(SONG_URI_PREFIX.length)) || undefined : undefined),
+        coverHash: pending.coverHash,
+        audioHash: extractIpfsHashFromLocation(line),
+        location: line,
+      });
+      pending = {};
+    }
+  });
+
+  return { title, description: '', tracks };
+};
+
+const parseXSPF = (content: string, fallbackTitle: string): PortablePlaylist => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XSPF file');
+  }
+
+  // Direct children only - <title> also appears inside each <track>
+  const childText = (parent: Element, tag: string): string => {
+    const child = Array.from(parent.children).find(element => element.localName === tag);
+    return child?.textContent?.trim() || '';
+  };
+
+  const root = doc.documentElement;
+  const tracks = Array.from(doc.getElementsByTagNameNS('*', 'track')).map(element => {
+    const location = childText(element, 'location');
+    const identifier = childText(element, 'identifier');
+    const durationMs = Number(childText(element, 'duration'));
+    return {
+      title: childText(element, 'title') || (location ? titleFromLocation(location) : 'Untitled'),
+      artist: childText(element, 'creator'),
+      duration: durationMs > 0 ? durationMs / 1000 : 0,
+      tokenId: identifier.startsWith(SONG_URI_PREFIX)
+        ? Number(identifier.slice(SONG_URI_PREFIX.length)) || undefined
+        : undefined,
+      audioHash: location ? extractIpfsHashFromLocation(location) : undefined,
+      coverHash: extractIpfsHashFromLocation(childText(element, 'image')),
+      location: location || undefined,
+    };
+  });
+
+  return {
+    title: childText(root, 'title') || fallbackTitle,
+    description: childText(root, 'annotation'),
+    coverHash: extractIpfsHashFromLocation(childText(root, 'image')),
+    tracks,
+  };
+};
+
+const parseHiBeatsJSON = (content: string, fallbackTitle: string): PortablePlaylist => {
+  const data = JSON.parse(content);
+  if (data?.format !== HIBEATS_JSON_FORMAT || !data.playlist) {
+    throw new Error('Not a HiBeats playlist file');
+  }
+
+  const playlist = data.playlist;
+  return {
+    title: playlist.title || fallbackTitle,
+    description: playlist.description || '',
+    coverHash: playlist.coverHash,
+    isPublic: playlist.isPublic,
+    tracks: (playlist.tracks || []).map((track: Partial<PortableTrack> & { audioUrl?: string }) => ({
+      title: track.title || 'Untitled',
+      artist: track.artist || '',
+      duration: Number(track.duration) || 0,
+      tokenId: Number(track.tokenId) || undefined,
+      audioHash: track.audioHash || (track.audioUrl ? extractIpfsHashFromLocation(track.audioUrl) : undefined),
+      coverHash: track.coverHash,
+      location: track.audioUrl,
+    })),
+  };
+};
+
+/**
+ * Parse an imported playlist file - format is picked from the extension, then sniffed from the content
+ */
+export const parsePlaylistFile = (content: string, filename: string): PortablePlaylist => {
+  const extension = filename.split('.').pop()?.toLowerCase() || '';
+  const fallbackTitle = filename.replace(/\.[^.]+$/, '') || 'Imported Playlist';
+  const trimmed = content.trim();
+
+  if (extension === 'json' || trimmed.startsWith('{')) return parseHiBeatsJSON(trimmed, fallbackTitle);
+  if (extension === 'xspf' || trimmed.startsWith('<')) return parseXSPF(trimmed, fallbackTitle);
+  if (extension === 'm3u' || extension === 'm3u8' || trimmed.startsWith('#EXTM3U')) return parseM3U(trimmed, fallbackTitle);
+
+  throw new Error('Unsupported playlist format');
+};
+
+// ===== FUZZY MATCHING =====
+
+const normalizeForMatch = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/\(.*?\)|\[.*?\]/g, ' ')      // (feat. X), [Remastered]
+    .replace(/\b(feat|ft)\.?\s.*$/, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/\s+/g, ' ');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) result.push(compact.slice(i, i + 2));
+  return result;
+};
+
+/**
+ * Dice coefficient over character bigrams (0-1)
+ */
+export const stringSimilarity = (a: string, b: string): number => {
+  const left = normalizeForMatch(a);
+  const right = normalizeForMatch(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  leftBigrams.forEach(gram => counts.set(gram, (counts.get(gram) || 0) + 1));
+
+  let overlap = 0;
+  rightBigrams.forEach(gram => {
+    const count = counts.get(gram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  });
+
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+};
+
+/**
+ * Title/artist match score - title dominates, artist only counts when both sides have one
+ */
+export const scoreTrackMatch = (
+  track: Pick<PortableTrack, 'title' | 'artist'>,
+  candidate: { title: string; artists: string[] }
+): number => {
+  const titleScore = stringSimilarity(track.title, candidate.title);
+  if (!track.artist || candidate.artists.length === 0) return titleScore;
+
+  const artistScore = Math.max(...candidate.artists.map(artist => stringSimilarity(track.artist, artist)));
+  return titleScore * 0.7 + artistScore * 0.3;
+};
@@ -0,0 +1,112 @@
+/**
+ * Referral helpers
+ *
+ * - Build share links with ?ref=<address>
+ * - Capture referral saat user buka link (disimpan di localStorage per post)
+ * - Split payment antara penerima & referrer
+ */
+
+import { REFERRAL_CONFIG, calculateReferralCut } from '@/config/referral';
+import type { PaymentAttribution } from '@/config/somniaDataStreams.v3';
+
+interface StoredReferral {
+  referrer: string;
+  timestamp: number;
+}
+
+const isAddress = (value: string | null | undefined): value is string => {
+  return !!value && /^0x[a-fA-F0-9]{40}$/.test(value);
+};
+
+const loadReferrals = (): Record<string, StoredReferral> => {
+  try {
+    const raw = localStorage.getItem(REFERRAL_CONFIG.storageKey);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+const saveReferrals = (referrals: Record<string, StoredReferral>) => {
+  try {
+    localStorage.setItem(REFERRAL_CONFIG.storageKey, JSON.stringify(referrals));
+  } catch (error) {
+    console.warn('⚠️ [Referral] Failed to save referrals:', error);
+  }
+};
+
+/**
+ * Append the referral code of the sharer to a link
+ */
+export const buildReferralUrl = (url: string, referrer?: string | null): string => {
+  if (!isAddress(referrer)) return url;
+  const separator = url.includes('?') ? '&' : '?';
+  return `${url}${separator}${REFERRAL_CONFIG.queryParam}=${referrer.toLowerCase()}`;
+};
+
+/**
+ * Remember the referrer of a post from the current URL (?ref=...)
+ * Latest link wins, expired entries are dropped on write.
+ */
+export const captureReferral = (postId: string | number, search: string = window.location.search) => {
+  const referrer = new URLSearchParams(search).get(REFERRAL_CONFIG.queryParam);
+  if (!isAddress(referrer)) return;
+
+  const now = Date.now();
+  const referrals = loadReferrals();
+  Object.keys(referrals).forEach(key => {
+    if (now - referrals[key].timestamp > REFERRAL_CONFIG.attributionWindowMs) {
+      delete referrals[key];
+    }
+  });
+
+  referrals[`post:${postId}`] = { referrer: referrer.toLowerCase(), timestamp: now };
+  saveReferrals(referrals);
+  console.log('🔗 [Referral] Captured referrer for post', postId, referrer);
+};
+
+/**
+ * Get the active referrer for a post, if any
+ *
+ * @param excluded - Addresses that can't earn from this payment (payer, recipient)
+ */
+export const getReferrer = (postId: string | number | undefined, excluded: Array<string | null | undefined> = []): string | undefined => {
+  if (postId === undefined || postId === null || postId === '') return undefined;
+
+  const entry = loadReferrals()[`post:${postId}`];
+  if (!entry || Date.now() - entry.timestamp > REFERRAL_CONFIG.attributionWindowMs) {
+    return undefined;
+  }
+
+  const blocked = excluded.filter(Boolean).map(address => address!.toLowerCase());
+  return blocked.includes(entry.referrer) ? undefined : entry.referrer;
+};
+
+/**
+ * Pay a recipient, sending the configured cut to the referrer
+ *
+ * Recipient is paid first; if the referrer transfer fails the payment still
+ * stands and the attribution is returned without a referrer tx.
+ */
+export const payWithReferral = async (
+  amountWei: bigint,
+  recipient: string,
+  referrer: string | undefined,
+  pay: (amountWei: bigint, recipient: string) => Promise<string>
+): Promise<PaymentAttribution> => {
+  const cut = referrer ? calculateReferralCut(amountWei) : 0n;
+
+  if (!referrer || cut <= 0n) {
+    return { txHash: await pay(amountWei, recipient) };
+  }
+
+  const txHash = await pay(amountWei - cut, recipient);
+
+  try {
+    const referrerTxHash = await pay(cut, referrer);
+    return { txHash, referrer, referrerCut: cut.toString(), referrerTxHash };
+  } catch (error) {
+    console.error('❌ [Referral] Referrer payment failed:', { referrer, cut: cut.toString(), error });
+    return { txHash };
+  }
+};
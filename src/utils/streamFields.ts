@@ -0,0 +1,43 @@
+// Decoded stream field helpers
+// SchemaEncoder.decodeData returns fields as { name, type, value: { name, type, value } }
+
+export type DecodedField = { name?: string; value?: unknown };
+
+// Decoded stream field - SchemaEncoder wraps values as { value: { value } }
+export function safeExtractValue(item: unknown, defaultValue: unknown = ''): unknown {
+  if (!item) return defaultValue;
+  if (typeof item === 'object' && 'value' in item && item.value !== undefined) {
+    const value = item.value;
+    if (value && typeof value === 'object' && 'value' in value && value.value !== undefined) {
+      return value.value;
+    }
+    return value;
+  }
+  return item;
+}
+
+export function safeString(value: unknown, defaultValue: string = ''): string {
+  if (value === null || value === undefined) return defaultValue;
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object') return defaultValue;
+  return String(value);
+}
+
+export function safeNumber(value: unknown, defaultValue: number = 0): number {
+  if (value === null || value === undefined) return defaultValue;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  if (typeof value === 'object') return defaultValue;
+  const num = Number(value);
+  return isNaN(num) ? defaultValue : num;
+}
+
+// Whether a stream item is a decoded record (raw hex entries still need decodeData)
+export function isDecodedRecord(item: unknown): item is DecodedField[] {
+  return Array.isArray(item) && item.length > 0;
+}
+
+// Value of a named field in a decoded record
+export function getFieldValue(record: DecodedField[], name: string, defaultValue: unknown = ''): unknown {
+  return safeExtractValue(record.find(field => field?.name === name), defaultValue);
+}
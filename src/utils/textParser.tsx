@@ -44,18 +44,18 @@ export const parseContentWithMentionsAndTags = (
         </span>
       );
     } else if (matchText.startsWith('#')) {
-      // Hashtag - Search for posts with this tag
-      const tag = matchText.substring(1);
+      // Hashtag - Open the tag page
+      const tag = matchText.substring(1).toLowerCase();
       parts.push(
         <span
           key={`hashtag-${match.index}`}
           className="text-primary hover:text-primary/80 hover:underline cursor-pointer font-medium transition-colors"
           onClick={(e) => {
             e.stopPropagation();
-            console.log('🔍 [HASHTAG] Searching for:', tag);
-            navigate(`/search?q=${encodeURIComponent('#' + tag)}`);
+            console.log('#️⃣ [HASHTAG] Opening tag:', tag);
+            navigate(`/tag/${encodeURIComponent(tag)}`);
           }}
-          title={`Search for #${tag}`}
+          title={`Posts tagged #${tag}`}
         >
           {matchText}
         </span>